@@ -0,0 +1,46 @@
+import { toHex } from './encoding';
+
+// Names for common authenticator AAGUIDs, from the community-maintained
+// passkey-authenticator-aaguids list and vendor metadata. Not exhaustive:
+// unknown AAGUIDs are shown as-is in the inspector.
+
+// Authenticators that don't attest report an all-zero AAGUID
+export const ZERO_AAGUID = '00000000-0000-0000-0000-000000000000';
+
+export const AAGUID_NAMES: Record<string, string> = {
+  'ea9b8d66-4d01-1d21-3ce4-b6b48cb575d4': 'Google Password Manager',
+  'adce0002-35bc-c60a-648b-0b25f1f05503': 'Chrome on Mac',
+  'fbfc3007-154e-4ecc-8c0b-6e020557d7bd': 'iCloud Keychain',
+  'dd4ec289-e01d-41c9-bb89-70fa845d4bf2': 'iCloud Keychain (Managed)',
+  '08987058-cadc-4b81-b6e1-30de50dcbe96': 'Windows Hello',
+  '9ddd1817-af5a-4672-a2b9-3e3dd95000a9': 'Windows Hello',
+  '6028b017-b1d4-4c02-b4b3-afcdafc96bb2': 'Windows Hello',
+  '53414d53-554e-4700-0000-000000000000': 'Samsung Pass',
+  'bada5566-a7aa-401f-bd96-45619a55120d': '1Password',
+  'd548826e-79b4-db40-a3d8-11116f7e8349': 'Bitwarden',
+  '531126d6-e717-415c-9320-3d9aa6981239': 'Dashlane',
+  'b84e4048-15dc-4dd0-8640-f4f60813c8af': 'NordPass',
+  '0ea242b4-43c4-4a1b-8b17-dd6d0b6baec6': 'Keeper',
+  'cb69481e-8ff7-4039-93ec-0a2729a154a8': 'YubiKey 5 Series',
+  'ee882879-721c-4913-9775-3dfcce97072a': 'YubiKey 5 Series',
+  'fa2b99dc-9e39-4257-8f92-4a30d23c4118': 'YubiKey 5 Series with NFC',
+  '2fc0579f-8113-47ea-b116-bb5a8db9202a': 'YubiKey 5 Series with NFC',
+};
+
+// Format 16 AAGUID bytes in the usual 8-4-4-4-12 UUID form
+export function formatAaguid(bytes: Uint8Array): string {
+  const hex = toHex(bytes);
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20),
+  ].join('-');
+}
+
+// Look up a friendly authenticator name, if the AAGUID is known
+export function lookupAuthenticatorName(aaguid: string): string | undefined {
+  if (aaguid === ZERO_AAGUID) return 'Unknown (no AAGUID reported)';
+  return AAGUID_NAMES[aaguid.toLowerCase()];
+}
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createAppStore,
+  initialAppState,
+  transition,
+  type AppEvent,
+  type AppState,
+} from './app-state';
+import type { CameraError } from './camera';
+import type { WebAuthnError } from './webauthn';
+
+const cameraError: CameraError = {
+  type: 'permission-denied',
+  message: 'Denied',
+};
+const webAuthnError: WebAuthnError = { type: 'not-allowed', message: 'No' };
+
+function run(...events: AppEvent[]): AppState {
+  return events.reduce(transition, initialAppState);
+}
+
+describe('camera transitions', () => {
+  it('goes from idle through requesting to streaming and back', () => {
+    expect(run({ type: 'camera/request' }).camera.status).toBe('requesting');
+    expect(
+      run({ type: 'camera/request' }, { type: 'camera/started' }).camera.status
+    ).toBe('streaming');
+    expect(
+      run(
+        { type: 'camera/request' },
+        { type: 'camera/started' },
+        { type: 'camera/stopped' }
+      ).camera.status
+    ).toBe('idle');
+  });
+
+  it('keeps the error and allows a retry', () => {
+    const failed = run(
+      { type: 'camera/request' },
+      { type: 'camera/failed', error: cameraError }
+    );
+    expect(failed.camera).toEqual({ status: 'error', error: cameraError });
+    expect(transition(failed, { type: 'camera/request' }).camera.status).toBe(
+      'requesting'
+    );
+  });
+
+  it('ignores requests while a stream is opening or open', () => {
+    const requesting = run({ type: 'camera/request' });
+    expect(transition(requesting, { type: 'camera/request' })).toBe(requesting);
+
+    const streaming = transition(requesting, { type: 'camera/started' });
+    expect(transition(streaming, { type: 'camera/request' })).toBe(streaming);
+  });
+
+  it('ignores a stream that starts without being requested', () => {
+    expect(transition(initialAppState, { type: 'camera/started' })).toBe(
+      initialAppState
+    );
+  });
+});
+
+describe('permission transitions', () => {
+  it('follows the Permissions API without touching the camera', () => {
+    const state = run({ type: 'permission/changed', permission: 'denied' });
+    expect(state.permission).toBe('denied');
+    expect(state.camera).toBe(initialAppState.camera);
+    expect(
+      transition(state, { type: 'permission/changed', permission: 'denied' })
+    ).toBe(state);
+  });
+});
+
+describe('auth transitions', () => {
+  it('signs in through authenticating', () => {
+    const state = run(
+      { type: 'auth/authenticate' },
+      { type: 'auth/succeeded', username: 'alice' }
+    );
+    expect(state.auth).toEqual({ status: 'authenticated', username: 'alice' });
+  });
+
+  it('falls back from registering to authenticating', () => {
+    const state = run({ type: 'auth/register' }, { type: 'auth/authenticate' });
+    expect(state.auth.status).toBe('authenticating');
+  });
+
+  it('does not start a ceremony while one is running', () => {
+    const registering = run({ type: 'auth/register' });
+    expect(transition(registering, { type: 'auth/register' })).toBe(
+      registering
+    );
+
+    const authenticating = run({ type: 'auth/authenticate' });
+    expect(transition(authenticating, { type: 'auth/register' })).toBe(
+      authenticating
+    );
+  });
+
+  it('records failures only from a running ceremony', () => {
+    expect(
+      run(
+        { type: 'auth/register' },
+        { type: 'auth/failed', error: webAuthnError }
+      ).auth
+    ).toEqual({ status: 'error', error: webAuthnError });
+    expect(
+      transition(initialAppState, { type: 'auth/failed', error: webAuthnError })
+    ).toBe(initialAppState);
+  });
+
+  it('accepts an autofill sign-in from idle', () => {
+    expect(run({ type: 'auth/succeeded', username: 'bob' }).auth.status).toBe(
+      'authenticated'
+    );
+  });
+
+  it('signs out only when signed in', () => {
+    expect(
+      run(
+        { type: 'auth/succeeded', username: 'bob' },
+        { type: 'auth/signed-out' }
+      ).auth.status
+    ).toBe('idle');
+    expect(transition(initialAppState, { type: 'auth/signed-out' })).toBe(
+      initialAppState
+    );
+  });
+
+  it('leaves the camera alone', () => {
+    const streaming = run(
+      { type: 'camera/request' },
+      { type: 'camera/started' }
+    );
+    const state = transition(streaming, { type: 'auth/authenticate' });
+    expect(state.camera).toBe(streaming.camera);
+  });
+});
+
+describe('createAppStore', () => {
+  it('notifies listeners only when the state changes', () => {
+    const store = createAppStore();
+    const seen: AppState[] = [];
+    const unsubscribe = store.subscribe(state => seen.push(state));
+
+    store.dispatch({ type: 'camera/request' });
+    store.dispatch({ type: 'camera/request' });
+    expect(seen).toHaveLength(1);
+    expect(store.getState().camera.status).toBe('requesting');
+
+    unsubscribe();
+    store.dispatch({ type: 'camera/started' });
+    expect(seen).toHaveLength(1);
+  });
+});
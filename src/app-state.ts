@@ -0,0 +1,135 @@
+// The app's state machine: the camera, its permission and the passkey sign-in
+// run side by side, each in its own region. Transitions are pure, so the UI can be
+// rendered from the current state and the rules tested without a DOM.
+
+import type { CameraError, CameraPermission } from './camera';
+import type { WebAuthnError } from './webauthn';
+
+export type CameraState =
+  | { status: 'idle' }
+  | { status: 'requesting' }
+  | { status: 'streaming' }
+  | { status: 'error'; error: CameraError };
+
+export type AuthState =
+  | { status: 'idle' }
+  | { status: 'authenticating' }
+  | { status: 'registering' }
+  | { status: 'authenticated'; username: string }
+  | { status: 'error'; error: WebAuthnError };
+
+export interface AppState {
+  camera: CameraState;
+  // What the Permissions API says, known before the user clicks anything
+  permission: CameraPermission;
+  auth: AuthState;
+}
+
+export type AppEvent =
+  | { type: 'camera/request' }
+  | { type: 'camera/started' }
+  | { type: 'camera/failed'; error: CameraError }
+  | { type: 'camera/stopped' }
+  | { type: 'permission/changed'; permission: CameraPermission }
+  | { type: 'auth/authenticate' }
+  | { type: 'auth/register' }
+  | { type: 'auth/succeeded'; username: string }
+  | { type: 'auth/failed'; error: WebAuthnError }
+  | { type: 'auth/signed-out' };
+
+export interface AppStore {
+  getState(): AppState;
+  dispatch(event: AppEvent): void;
+  // Returns a function that removes the listener
+  subscribe(listener: (state: AppState) => void): () => void;
+}
+
+export const initialAppState: AppState = {
+  camera: { status: 'idle' },
+  permission: 'unknown',
+  auth: { status: 'idle' },
+};
+
+function transitionCamera(state: CameraState, event: AppEvent): CameraState {
+  switch (event.type) {
+    case 'camera/request':
+      // Ignore repeat clicks while a request or stream is already underway
+      return state.status === 'idle' || state.status === 'error'
+        ? { status: 'requesting' }
+        : state;
+    case 'camera/started':
+      return state.status === 'requesting' ? { status: 'streaming' } : state;
+    case 'camera/failed':
+      return state.status === 'requesting' || state.status === 'streaming'
+        ? { status: 'error', error: event.error }
+        : state;
+    case 'camera/stopped':
+      return state.status === 'idle' ? state : { status: 'idle' };
+    default:
+      return state;
+  }
+}
+
+function transitionPermission(
+  state: CameraPermission,
+  event: AppEvent
+): CameraPermission {
+  return event.type === 'permission/changed' ? event.permission : state;
+}
+
+function transitionAuth(state: AuthState, event: AppEvent): AuthState {
+  const ceremonyRunning =
+    state.status === 'authenticating' || state.status === 'registering';
+
+  switch (event.type) {
+    case 'auth/authenticate':
+      // A refused registration may fall back to signing in
+      return state.status === 'authenticating'
+        ? state
+        : { status: 'authenticating' };
+    case 'auth/register':
+      return ceremonyRunning ? state : { status: 'registering' };
+    case 'auth/succeeded':
+      // Autofill sign-in can succeed without a button-driven ceremony
+      return { status: 'authenticated', username: event.username };
+    case 'auth/failed':
+      return ceremonyRunning ? { status: 'error', error: event.error } : state;
+    case 'auth/signed-out':
+      return state.status === 'authenticated' ? { status: 'idle' } : state;
+    default:
+      return state;
+  }
+}
+
+// Apply one event. Events that don't apply in the current state are ignored,
+// and the same object is returned so listeners can skip re-rendering.
+export function transition(state: AppState, event: AppEvent): AppState {
+  const camera = transitionCamera(state.camera, event);
+  const permission = transitionPermission(state.permission, event);
+  const auth = transitionAuth(state.auth, event);
+  return camera === state.camera &&
+    permission === state.permission &&
+    auth === state.auth
+    ? state
+    : { camera, permission, auth };
+}
+
+// Hold the current state and notify listeners after each transition
+export function createAppStore(initial: AppState = initialAppState): AppStore {
+  let state = initial;
+  const listeners = new Set<(state: AppState) => void>();
+
+  return {
+    getState: () => state,
+    dispatch(event) {
+      const next = transition(state, event);
+      if (next === state) return;
+      state = next;
+      listeners.forEach(listener => listener(state));
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
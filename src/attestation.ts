@@ -0,0 +1,43 @@
+import { decodeCbor, type CborValue } from './cbor';
+
+export interface AttestationObject {
+  fmt: string;
+  // The attestation statement, whose shape depends on fmt
+  attStmt: Map<CborValue, CborValue>;
+  authData: Uint8Array;
+}
+
+export interface AttestationError {
+  type: 'malformed-attestation';
+  message: string;
+}
+
+// Decode the CBOR attestation object returned by navigator.credentials.create
+export function parseAttestationObject(bytes: Uint8Array): AttestationObject {
+  const fail = (message: string): never => {
+    const error: AttestationError = { type: 'malformed-attestation', message };
+    throw error;
+  };
+
+  let decoded: CborValue;
+  try {
+    decoded = decodeCbor(bytes);
+  } catch {
+    return fail('Attestation object is not valid CBOR');
+  }
+  if (!(decoded instanceof Map)) {
+    return fail('Attestation object is not a CBOR map');
+  }
+
+  const fmt = decoded.get('fmt');
+  const attStmt = decoded.get('attStmt') ?? new Map();
+  const authData = decoded.get('authData');
+  if (typeof fmt !== 'string' || !(authData instanceof Uint8Array)) {
+    return fail('Attestation object is missing fmt or authData');
+  }
+  if (!(attStmt instanceof Map)) {
+    return fail('Attestation statement is not a CBOR map');
+  }
+
+  return { fmt, attStmt, authData };
+}
@@ -0,0 +1,102 @@
+import { decodeCborItem, type CborValue } from './cbor';
+
+export interface AuthenticatorFlags {
+  userPresent: boolean; // UP
+  userVerified: boolean; // UV
+  backupEligible: boolean; // BE
+  backedUp: boolean; // BS
+  attestedCredentialData: boolean; // AT
+  extensionData: boolean; // ED
+}
+
+export interface AttestedCredentialData {
+  aaguid: Uint8Array;
+  credentialId: Uint8Array;
+  // Raw COSE_Key bytes, kept so the server can store them verbatim
+  publicKey: Uint8Array;
+}
+
+export interface AuthenticatorData {
+  rpIdHash: Uint8Array;
+  flags: AuthenticatorFlags;
+  flagsByte: number;
+  signCount: number;
+  attestedCredentialData?: AttestedCredentialData;
+  extensions?: CborValue;
+}
+
+export interface AuthenticatorDataError {
+  type: 'malformed-authenticator-data';
+  message: string;
+}
+
+// Parse the authenticatorData structure (WebAuthn §6.1)
+export function parseAuthenticatorData(bytes: Uint8Array): AuthenticatorData {
+  const fail = (message: string): never => {
+    const error: AuthenticatorDataError = {
+      type: 'malformed-authenticator-data',
+      message,
+    };
+    throw error;
+  };
+
+  if (bytes.length < 37) {
+    fail(`Authenticator data is too short (${bytes.length} bytes)`);
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const flagsByte = bytes[32];
+  const flags: AuthenticatorFlags = {
+    userPresent: !!(flagsByte & 0x01),
+    userVerified: !!(flagsByte & 0x04),
+    backupEligible: !!(flagsByte & 0x08),
+    backedUp: !!(flagsByte & 0x10),
+    attestedCredentialData: !!(flagsByte & 0x40),
+    extensionData: !!(flagsByte & 0x80),
+  };
+
+  const data: AuthenticatorData = {
+    rpIdHash: bytes.slice(0, 32),
+    flags,
+    flagsByte,
+    signCount: view.getUint32(33),
+  };
+
+  let offset = 37;
+
+  if (flags.attestedCredentialData) {
+    if (bytes.length < offset + 18) {
+      fail('Attested credential data is truncated');
+    }
+    const aaguid = bytes.slice(offset, offset + 16);
+    const idLength = view.getUint16(offset + 16);
+    offset += 18;
+
+    if (bytes.length < offset + idLength) {
+      fail('Credential ID is truncated');
+    }
+    const credentialId = bytes.slice(offset, offset + idLength);
+    offset += idLength;
+
+    const keyStart = offset;
+    offset = decodeCborItem(bytes, offset).offset;
+
+    data.attestedCredentialData = {
+      aaguid,
+      credentialId,
+      publicKey: bytes.slice(keyStart, offset),
+    };
+  }
+
+  if (flags.extensionData) {
+    const decoded = decodeCborItem(bytes, offset);
+    data.extensions = decoded.value;
+    offset = decoded.offset;
+  }
+
+  if (offset !== bytes.length) {
+    fail(`Unexpected ${bytes.length - offset} bytes after authenticator data`);
+  }
+
+  return data;
+}
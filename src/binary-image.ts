@@ -0,0 +1,221 @@
+// A camera frame reduced to dark and light pixels for the barcode decoders.
+// The threshold follows the local brightness, so shadows and glare across a
+// code don't swallow half of it.
+
+export interface BinaryImage {
+  width: number;
+  height: number;
+  // 1 for dark pixels, row by row
+  data: Uint8Array;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// What a decoder found: the text, and the symbol's corners clockwise from
+// its top left (as the symbol reads, which may be rotated in the frame)
+export interface DecodedSymbol {
+  rawValue: string;
+  cornerPoints: Point[];
+}
+
+// A stretch of same-coloured pixels along a line
+export interface Run {
+  dark: boolean;
+  start: number;
+  length: number;
+}
+
+const BLOCK_SIZE = 8;
+// Blocks on each side averaged into a pixel's threshold
+const WINDOW_BLOCKS = 2;
+// Below this spread of brightness a neighbourhood is taken as blank paper
+const MIN_CONTRAST = 24;
+
+export function binarize(image: ImageData): BinaryImage {
+  const { width, height, data } = image;
+  const luminance = new Uint8Array(width * height);
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] =
+      (data[i * 4] * 77 + data[i * 4 + 1] * 150 + data[i * 4 + 2] * 29) >> 8;
+  }
+
+  // Brightness statistics for each block
+  const columns = Math.ceil(width / BLOCK_SIZE);
+  const rows = Math.ceil(height / BLOCK_SIZE);
+  const sums = new Float64Array(columns * rows);
+  const counts = new Uint32Array(columns * rows);
+  const minimums = new Uint8Array(columns * rows).fill(255);
+  const maximums = new Uint8Array(columns * rows);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const block = ((y / BLOCK_SIZE) | 0) * columns + ((x / BLOCK_SIZE) | 0);
+      const value = luminance[y * width + x];
+      sums[block] += value;
+      counts[block]++;
+      minimums[block] = Math.min(minimums[block], value);
+      maximums[block] = Math.max(maximums[block], value);
+    }
+  }
+
+  // Each block's threshold is the mean of the blocks around it
+  const thresholds = new Int16Array(columns * rows);
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      let sum = 0;
+      let count = 0;
+      let min = 255;
+      let max = 0;
+      for (let dy = -WINDOW_BLOCKS; dy <= WINDOW_BLOCKS; dy++) {
+        for (let dx = -WINDOW_BLOCKS; dx <= WINDOW_BLOCKS; dx++) {
+          const r = row + dy;
+          const c = column + dx;
+          if (r < 0 || r >= rows || c < 0 || c >= columns) continue;
+          const block = r * columns + c;
+          sum += sums[block];
+          count += counts[block];
+          min = Math.min(min, minimums[block]);
+          max = Math.max(max, maximums[block]);
+        }
+      }
+      thresholds[row * columns + column] =
+        max - min < MIN_CONTRAST ? -1 : sum / count;
+    }
+  }
+
+  const bits = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const threshold =
+        thresholds[((y / BLOCK_SIZE) | 0) * columns + ((x / BLOCK_SIZE) | 0)];
+      bits[y * width + x] = luminance[y * width + x] < threshold ? 1 : 0;
+    }
+  }
+
+  return { width, height, data: bits };
+}
+
+export function isDark(image: BinaryImage, x: number, y: number): boolean {
+  const px = Math.floor(x);
+  const py = Math.floor(y);
+  return (
+    px >= 0 &&
+    py >= 0 &&
+    px < image.width &&
+    py < image.height &&
+    image.data[py * image.width + px] === 1
+  );
+}
+
+// Split a row (or, with `vertical`, a column) into runs
+export function getRuns(
+  image: BinaryImage,
+  index: number,
+  vertical = false
+): Run[] {
+  const length = vertical ? image.height : image.width;
+  const runs: Run[] = [];
+  for (let i = 0; i < length; i++) {
+    const dark = vertical
+      ? image.data[i * image.width + index] === 1
+      : image.data[index * image.width + i] === 1;
+    const last = runs[runs.length - 1];
+    if (last?.dark === dark) {
+      last.length++;
+    } else {
+      runs.push({ dark, start: i, length: 1 });
+    }
+  }
+  return runs;
+}
+
+export function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+// Map grid coordinates onto the image through the perspective transform
+// that takes the `from` quadrilateral to the `to` one
+export function createPerspectiveTransform(
+  from: [Point, Point, Point, Point],
+  to: [Point, Point, Point, Point]
+): (point: Point) => Point {
+  const matrix = multiply(squareToQuad(to), adjugate(squareToQuad(from)));
+  return ({ x, y }) => {
+    const w = matrix[6] * x + matrix[7] * y + matrix[8];
+    return {
+      x: (matrix[0] * x + matrix[1] * y + matrix[2]) / w,
+      y: (matrix[3] * x + matrix[4] * y + matrix[5]) / w,
+    };
+  };
+}
+
+// 3×3 matrices, row by row, acting on column vectors (x, y, 1)
+type Matrix = number[];
+
+// The transform taking the unit square's corners (0,0), (1,0), (1,1), (0,1)
+// to the quadrilateral's, in that order
+function squareToQuad([p0, p1, p2, p3]: Point[]): Matrix {
+  const dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy3 = p0.y - p1.y + p2.y - p3.y;
+  if (dx3 === 0 && dy3 === 0) {
+    return [
+      p1.x - p0.x,
+      p3.x - p0.x,
+      p0.x,
+      p1.y - p0.y,
+      p3.y - p0.y,
+      p0.y,
+      0,
+      0,
+      1,
+    ];
+  }
+
+  const dx1 = p1.x - p2.x;
+  const dx2 = p3.x - p2.x;
+  const dy1 = p1.y - p2.y;
+  const dy2 = p3.y - p2.y;
+  const denominator = dx1 * dy2 - dx2 * dy1;
+  const g = (dx3 * dy2 - dx2 * dy3) / denominator;
+  const h = (dx1 * dy3 - dx3 * dy1) / denominator;
+  return [
+    p1.x - p0.x + g * p1.x,
+    p3.x - p0.x + h * p3.x,
+    p0.x,
+    p1.y - p0.y + g * p1.y,
+    p3.y - p0.y + h * p3.y,
+    p0.y,
+    g,
+    h,
+    1,
+  ];
+}
+
+// The inverse up to scale, which is all a projective transform needs
+function adjugate([a, b, c, d, e, f, g, h, i]: Matrix): Matrix {
+  return [
+    e * i - f * h,
+    c * h - b * i,
+    b * f - c * e,
+    f * g - d * i,
+    a * i - c * g,
+    c * d - a * f,
+    d * h - e * g,
+    b * g - a * h,
+    a * e - b * d,
+  ];
+}
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return Array.from({ length: 9 }, (_, index) => {
+    const row = Math.floor(index / 3);
+    const column = index % 3;
+    return (
+      m[row * 3] * n[column] +
+      m[row * 3 + 1] * n[3 + column] +
+      m[row * 3 + 2] * n[6 + column]
+    );
+  });
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkWebRtcSupport,
+  preferCodec,
+  startLoopbackCall,
+  summarizeStats,
+} from './call-preview';
+
+function statsReport(stats: Record<string, unknown>[]): RTCStatsReport {
+  return new Map(
+    stats.map(entry => [entry.id as string, entry])
+  ) as unknown as RTCStatsReport;
+}
+
+function inboundVideo(timestamp: number, bytesReceived: number) {
+  return statsReport([
+    { id: 'audio', type: 'inbound-rtp', kind: 'audio', timestamp },
+    {
+      id: 'video',
+      type: 'inbound-rtp',
+      kind: 'video',
+      timestamp,
+      codecId: 'codec',
+      bytesReceived,
+      packetsReceived: 990,
+      packetsLost: 10,
+      framesPerSecond: 30,
+      frameWidth: 1280,
+      frameHeight: 720,
+    },
+    { id: 'codec', type: 'codec', timestamp, mimeType: 'video/VP8' },
+  ]);
+}
+
+describe('summarizeStats', () => {
+  it('reads the received video', () => {
+    expect(summarizeStats(inboundVideo(1000, 50_000))).toEqual({
+      timestamp: 1000,
+      bytesReceived: 50_000,
+      bitrate: null,
+      framesPerSecond: 30,
+      frameWidth: 1280,
+      frameHeight: 720,
+      packetsReceived: 990,
+      packetsLost: 10,
+      packetLoss: 0.01,
+      codec: 'VP8',
+    });
+  });
+
+  it('works out the bitrate since the previous reading', () => {
+    const previous = summarizeStats(inboundVideo(1000, 50_000));
+    const stats = summarizeStats(inboundVideo(3000, 300_000), previous);
+    expect(stats?.bitrate).toBe(1_000_000);
+  });
+
+  it('has nothing to report before video arrives', () => {
+    expect(
+      summarizeStats(statsReport([{ id: 'pc', type: 'peer-connection' }]))
+    ).toBeNull();
+  });
+});
+
+describe('preferCodec', () => {
+  it('moves every entry of the codec to the front', () => {
+    const codecs = [
+      { mimeType: 'video/VP8' },
+      { mimeType: 'video/H264', sdpFmtpLine: 'profile-level-id=42e01f' },
+      { mimeType: 'video/VP9' },
+      { mimeType: 'video/H264', sdpFmtpLine: 'profile-level-id=640c1f' },
+    ];
+    expect(preferCodec(codecs, 'video/h264')).toEqual([
+      codecs[1],
+      codecs[3],
+      codecs[0],
+      codecs[2],
+    ]);
+  });
+});
+
+describe('startLoopbackCall', () => {
+  it('reports that calls are not supported without WebRTC', () => {
+    expect(checkWebRtcSupport()).toBe(false);
+    expect(() => startLoopbackCall(new MediaStream())).toThrow(
+      expect.objectContaining({ type: 'not-supported' })
+    );
+  });
+});
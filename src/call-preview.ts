@@ -0,0 +1,391 @@
+// Video call preview: the camera stream goes out through an RTCPeerConnection
+// and comes back, so the picture can be judged after it has been encoded,
+// sent and decoded. Calls run within this page (loopback) or with another
+// tab, over any SignalingChannel.
+
+import { t } from './i18n';
+import { createLoopbackSignaling, type SignalingChannel } from './signaling';
+
+export interface CallError {
+  type: 'not-supported';
+  message: string;
+}
+
+// The received video, as reported by getStats()
+export interface CallStats {
+  timestamp: number;
+  bytesReceived: number;
+  // Bits per second since the previous report; null for the first
+  bitrate: number | null;
+  framesPerSecond: number | null;
+  frameWidth: number | null;
+  frameHeight: number | null;
+  packetsReceived: number;
+  packetsLost: number;
+  // Share of packets lost, 0 to 1
+  packetLoss: number;
+  // Like "VP8"
+  codec: string | null;
+}
+
+export interface CallOptions {
+  // A video MIME type like "video/VP9" to negotiate first
+  preferredCodec?: string;
+  // Called with the received stream, and with null when the other end leaves
+  onRemoteStream?: (stream: MediaStream | null) => void;
+  onStateChange?: (state: RTCPeerConnectionState) => void;
+  onStats?: (stats: CallStats) => void;
+  statsIntervalMs?: number;
+}
+
+export interface CallPreview {
+  // Renegotiate with this codec first
+  setPreferredCodec(mimeType: string | undefined): Promise<void>;
+  // Send the stream's current tracks, after the camera has been switched
+  replaceTracks(stream: MediaStream): Promise<void>;
+  stop(): void;
+}
+
+interface CallPeer {
+  connection: RTCPeerConnection;
+  setPreferredCodec(mimeType: string | undefined): Promise<void>;
+  replaceTracks(stream: MediaStream): Promise<void>;
+  close(): void;
+}
+
+// Retransmission and error correction formats share the codec list
+const NOT_CODECS = [
+  'video/rtx',
+  'video/red',
+  'video/ulpfec',
+  'video/flexfec-03',
+];
+
+const DEFAULT_STATS_INTERVAL_MS = 1000;
+
+// Check if the browser can make WebRTC calls
+export function checkWebRtcSupport(): boolean {
+  return typeof RTCPeerConnection !== 'undefined';
+}
+
+// The video codecs this browser can receive, as MIME types, in its own
+// order of preference
+export function getVideoCodecs(): string[] {
+  if (typeof RTCRtpReceiver === 'undefined') return [];
+  const codecs = RTCRtpReceiver.getCapabilities?.('video')?.codecs ?? [];
+  return [...new Set(codecs.map(codec => codec.mimeType))].filter(
+    mimeType => !NOT_CODECS.includes(mimeType.toLowerCase())
+  );
+}
+
+// Move every entry of the preferred codec to the front, keeping the order
+// within each group
+export function preferCodec<T extends { mimeType: string }>(
+  codecs: T[],
+  mimeType: string
+): T[] {
+  const preferred = (codec: T) =>
+    codec.mimeType.toLowerCase() === mimeType.toLowerCase();
+  return [...codecs.filter(preferred), ...codecs.filter(c => !preferred(c))];
+}
+
+// Pick the received video out of a stats report, with the bitrate worked
+// out against the previous reading
+export function summarizeStats(
+  report: RTCStatsReport,
+  previous?: CallStats | null
+): CallStats | null {
+  let inbound: RTCInboundRtpStreamStats | undefined;
+  report.forEach(stats => {
+    if (stats.type === 'inbound-rtp' && stats.kind === 'video') {
+      inbound = stats as RTCInboundRtpStreamStats;
+    }
+  });
+  if (!inbound) return null;
+
+  const codec = inbound.codecId
+    ? (report.get(inbound.codecId) as { mimeType?: string } | undefined)
+    : undefined;
+  const bytesReceived = inbound.bytesReceived ?? 0;
+  const packetsReceived = inbound.packetsReceived ?? 0;
+  const packetsLost = Math.max(0, inbound.packetsLost ?? 0);
+  const elapsed = previous
+    ? (inbound.timestamp - previous.timestamp) / 1000
+    : 0;
+
+  return {
+    timestamp: inbound.timestamp,
+    bytesReceived,
+    bitrate:
+      previous && elapsed > 0
+        ? ((bytesReceived - previous.bytesReceived) * 8) / elapsed
+        : null,
+    framesPerSecond: inbound.framesPerSecond ?? null,
+    frameWidth: inbound.frameWidth ?? null,
+    frameHeight: inbound.frameHeight ?? null,
+    packetsReceived,
+    packetsLost,
+    packetLoss:
+      packetsReceived + packetsLost > 0
+        ? packetsLost / (packetsReceived + packetsLost)
+        : 0,
+    codec: codec?.mimeType?.replace(/^video\//, '') ?? null,
+  };
+}
+
+// One end of a call, negotiating with the other end over signaling. Either
+// end may offer; when both do at once the polite one gives way ("perfect
+// negotiation").
+function connectPeer(
+  signaling: SignalingChannel,
+  remoteId: string,
+  polite: boolean,
+  stream: MediaStream | null,
+  options: CallOptions
+): CallPeer {
+  const connection = new RTCPeerConnection();
+  let preferredCodec = options.preferredCodec;
+  let makingOffer = false;
+  let ignoreOffer = false;
+
+  const applyCodecPreferences = () => {
+    const codecs = RTCRtpReceiver.getCapabilities?.('video')?.codecs;
+    if (!codecs) return;
+    connection.getTransceivers().forEach(transceiver => {
+      if (
+        transceiver.receiver.track.kind === 'video' &&
+        transceiver.setCodecPreferences
+      ) {
+        transceiver.setCodecPreferences(
+          preferredCodec ? preferCodec(codecs, preferredCodec) : []
+        );
+      }
+    });
+  };
+
+  const sendDescription = () =>
+    signaling.send({
+      type: 'description',
+      description: connection.localDescription!.toJSON(),
+    });
+
+  const negotiate = async () => {
+    try {
+      makingOffer = true;
+      applyCodecPreferences();
+      await connection.setLocalDescription();
+      sendDescription();
+    } catch (error) {
+      console.warn('Call negotiation failed:', error);
+    } finally {
+      makingOffer = false;
+    }
+  };
+
+  connection.onnegotiationneeded = negotiate;
+  connection.onicecandidate = ({ candidate }) => {
+    if (candidate) {
+      signaling.send({ type: 'candidate', candidate: candidate.toJSON() });
+    }
+  };
+  connection.ontrack = ({ track, streams }) => {
+    options.onRemoteStream?.(streams[0] ?? new MediaStream([track]));
+  };
+  connection.onconnectionstatechange = () => {
+    options.onStateChange?.(connection.connectionState);
+  };
+
+  const unsubscribe = signaling.subscribe(async (message, from) => {
+    if (from !== remoteId) return;
+
+    try {
+      if (message.type === 'description') {
+        const { description } = message;
+        const collision =
+          description.type === 'offer' &&
+          (makingOffer || connection.signalingState !== 'stable');
+        ignoreOffer = !polite && collision;
+        if (ignoreOffer) return;
+
+        await connection.setRemoteDescription(description);
+        if (description.type === 'offer') {
+          applyCodecPreferences();
+          await connection.setLocalDescription();
+          sendDescription();
+        }
+      } else if (message.type === 'candidate') {
+        try {
+          await connection.addIceCandidate(message.candidate);
+        } catch (error) {
+          // Candidates for an offer we ignored don't matter
+          if (!ignoreOffer) throw error;
+        }
+      }
+    } catch (error) {
+      console.warn('Call signaling failed:', error);
+    }
+  });
+
+  stream?.getTracks().forEach(track => connection.addTrack(track, stream));
+
+  return {
+    connection,
+    async setPreferredCodec(mimeType) {
+      preferredCodec = mimeType;
+      // Codec preferences don't trigger negotiation by themselves
+      if (connection.getSenders().length > 0) await negotiate();
+    },
+    async replaceTracks(next) {
+      await Promise.all(
+        connection.getSenders().map(sender => {
+          const kind = sender.track?.kind;
+          const track = next.getTracks().find(item => item.kind === kind);
+          return track && track !== sender.track
+            ? sender.replaceTrack(track)
+            : undefined;
+        })
+      );
+    },
+    close() {
+      unsubscribe();
+      connection.close();
+    },
+  };
+}
+
+// Read the receiving connection's stats every so often
+function watchStats(
+  receiver: () => RTCPeerConnection | null,
+  options: CallOptions
+): () => void {
+  const { onStats } = options;
+  if (!onStats) return () => {};
+
+  let previous: CallStats | null = null;
+  const timer = setInterval(async () => {
+    const connection = receiver();
+    if (!connection) {
+      previous = null;
+      return;
+    }
+    try {
+      const stats = summarizeStats(await connection.getStats(), previous);
+      if (stats) {
+        previous = stats;
+        onStats(stats);
+      }
+    } catch (error) {
+      console.warn('Reading call stats failed:', error);
+    }
+  }, options.statsIntervalMs ?? DEFAULT_STATS_INTERVAL_MS);
+  return () => clearInterval(timer);
+}
+
+function assertWebRtcSupport(): void {
+  if (!checkWebRtcSupport()) {
+    const error: CallError = {
+      type: 'not-supported',
+      message: t('call.error.not-supported'),
+    };
+    throw error;
+  }
+}
+
+// Send the stream to a second connection in this page and show what arrives
+export function startLoopbackCall(
+  stream: MediaStream,
+  options: CallOptions = {}
+): CallPreview {
+  assertWebRtcSupport();
+
+  const [senderSignaling, receiverSignaling] = createLoopbackSignaling();
+  const receiver = connectPeer(
+    receiverSignaling,
+    senderSignaling.id,
+    true,
+    null,
+    options
+  );
+  const sender = connectPeer(
+    senderSignaling,
+    receiverSignaling.id,
+    false,
+    stream,
+    // The state and stats are the receiver's
+    { preferredCodec: options.preferredCodec }
+  );
+  const stopStats = watchStats(() => receiver.connection, options);
+
+  return {
+    async setPreferredCodec(mimeType) {
+      await receiver.setPreferredCodec(mimeType);
+      await sender.setPreferredCodec(mimeType);
+    },
+    replaceTracks: next => sender.replaceTracks(next),
+    stop() {
+      stopStats();
+      sender.close();
+      receiver.close();
+      senderSignaling.close();
+      receiverSignaling.close();
+    },
+  };
+}
+
+// Call whichever tab joins the same signaling channel. Each tab sends its
+// camera and shows the other's. Stopping the call closes the channel.
+export function startTabCall(
+  stream: MediaStream,
+  signaling: SignalingChannel,
+  options: CallOptions = {}
+): CallPreview {
+  assertWebRtcSupport();
+
+  let sending = stream;
+  let preferredCodec = options.preferredCodec;
+  let peer: CallPeer | null = null;
+  let remoteId: string | null = null;
+
+  const hangUp = () => {
+    peer?.close();
+    peer = null;
+    remoteId = null;
+    options.onRemoteStream?.(null);
+  };
+
+  const unsubscribe = signaling.subscribe((message, from) => {
+    if (message.type === 'hello' && !peer) {
+      // Answer so a tab that was already waiting learns about this one
+      signaling.send({ type: 'hello' });
+      remoteId = from;
+      // Both ends compare the same two IDs, so exactly one is polite
+      peer = connectPeer(signaling, from, signaling.id < from, sending, {
+        ...options,
+        preferredCodec,
+      });
+    } else if (message.type === 'bye' && from === remoteId) {
+      hangUp();
+    }
+  });
+  signaling.send({ type: 'hello' });
+  const stopStats = watchStats(() => peer?.connection ?? null, options);
+
+  return {
+    async setPreferredCodec(mimeType) {
+      preferredCodec = mimeType;
+      await peer?.setPreferredCodec(mimeType);
+    },
+    async replaceTracks(next) {
+      sending = next;
+      await peer?.replaceTracks(next);
+    },
+    stop() {
+      stopStats();
+      signaling.send({ type: 'bye' });
+      unsubscribe();
+      peer?.close();
+      peer = null;
+      signaling.close();
+    },
+  };
+}
@@ -0,0 +1,116 @@
+// <camera-auth>: the widget as a custom element. Each one renders into its
+// own shadow root, so its styles and element IDs stay apart from the page
+// and from other instances. Widget events are dispatched on the element as
+// CustomEvents with the same names, e.g.
+//
+//   <camera-auth theme="light" flow="sign-in-first"></camera-auth>
+//   element.addEventListener('capture', event => upload(event.detail));
+
+import styles from './style.css?inline';
+import { h } from './dom';
+import type { MessageOverrides } from './i18n';
+import {
+  mount,
+  type CameraAuthWidget,
+  type WidgetEvents,
+  type WidgetFlow,
+  type WidgetTheme,
+} from './widget';
+
+export type CameraAuthEvent<K extends keyof WidgetEvents> = CustomEvent<
+  WidgetEvents[K]
+>;
+
+const WIDGET_EVENTS: (keyof WidgetEvents)[] = [
+  'stream-started',
+  'stream-stopped',
+  'auth-success',
+  'auth-error',
+  'capture',
+];
+
+const THEMES: WidgetTheme[] = ['auto', 'light', 'dark'];
+const FLOWS: WidgetFlow[] = ['full', 'sign-in-first', 'camera-only'];
+
+// Read an attribute that takes one of a few values, ignoring anything else
+function readChoice<T extends string>(
+  value: string | null,
+  choices: T[]
+): T | undefined {
+  return choices.find(choice => choice === value);
+}
+
+export class CameraAuthElement extends HTMLElement {
+  static observedAttributes = ['theme', 'flow'];
+
+  private widget: CameraAuthWidget | null = null;
+  private overrides: MessageOverrides = {};
+
+  // The widget's wording for some messages, as for mount()
+  get labels(): MessageOverrides {
+    return this.overrides;
+  }
+
+  set labels(labels: MessageOverrides) {
+    this.overrides = labels;
+    this.remount();
+  }
+
+  connectedCallback(): void {
+    this.remount();
+  }
+
+  disconnectedCallback(): void {
+    this.widget?.unmount();
+    this.widget = null;
+  }
+
+  attributeChangedCallback(name: string): void {
+    if (!this.widget) return;
+
+    // The theme can change in place; a new flow needs a fresh widget
+    if (name === 'theme') {
+      this.widget.setTheme(
+        readChoice(this.getAttribute('theme'), THEMES) ?? 'auto'
+      );
+    } else {
+      this.remount();
+    }
+  }
+
+  private remount(): void {
+    if (!this.isConnected) return;
+
+    this.widget?.unmount();
+    const shadow = this.shadowRoot ?? this.attachShadow({ mode: 'open' });
+    const root = h('div');
+    shadow.replaceChildren(h('style', {}, styles), root);
+
+    const widget = mount(root, {
+      theme: readChoice(this.getAttribute('theme'), THEMES),
+      flow: readChoice(this.getAttribute('flow'), FLOWS),
+      labels: this.overrides,
+    });
+    WIDGET_EVENTS.forEach(type =>
+      widget.on(type, detail =>
+        this.dispatchEvent(
+          new CustomEvent(type, { detail, bubbles: true, composed: true })
+        )
+      )
+    );
+    this.widget = widget;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'camera-auth': CameraAuthElement;
+  }
+}
+
+// Register <camera-auth>, once, for pages that use the element
+export function defineCameraAuthElement(): void {
+  if (!customElements.get('camera-auth')) {
+    customElements.define('camera-auth', CameraAuthElement);
+  }
+}
@@ -0,0 +1,268 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createCamera,
+  getActiveCameraId,
+  getNegotiatedCamera,
+  listCameras,
+  requestCameraAccess,
+  stopCamera,
+  switchCamera,
+  watchCameraPermission,
+  watchCameras,
+  type CameraError,
+  type CameraPermission,
+} from './camera';
+import {
+  FRONT_CAMERA,
+  REAR_CAMERA,
+  createFakeMediaDevices,
+  installFakeMediaDevices,
+  type FakeMediaDevices,
+} from './test/fake-media-devices';
+
+let devices: FakeMediaDevices;
+let restore: () => void;
+
+beforeEach(() => {
+  devices = createFakeMediaDevices();
+  restore = installFakeMediaDevices(devices);
+});
+
+afterEach(() => {
+  stopCamera();
+  restore();
+});
+
+async function cameraError(promise: Promise<unknown>): Promise<CameraError> {
+  try {
+    await promise;
+  } catch (err) {
+    return err as CameraError;
+  }
+  throw new Error('Expected a CameraError');
+}
+
+describe('requestCameraAccess', () => {
+  it('opens the front camera by default', async () => {
+    const stream = await requestCameraAccess();
+
+    expect(stream.getVideoTracks()).toHaveLength(1);
+    expect(getActiveCameraId()).toBe(FRONT_CAMERA.deviceId);
+    expect(getNegotiatedCamera()?.profile.name).toBe('1080p');
+  });
+
+  it('walks down the profile ladder when a profile is overconstrained', async () => {
+    const stream = await requestCameraAccess({
+      profiles: [
+        { name: '4K', width: 3840, policy: 'exact' },
+        { name: '720p', width: 1280, policy: 'exact' },
+      ],
+    });
+
+    expect(stream.getVideoTracks()).toHaveLength(1);
+    expect(devices.requests).toHaveLength(2);
+    expect(getNegotiatedCamera()?.profile.name).toBe('720p');
+    expect(getNegotiatedCamera()?.settings.width).toBe(1280);
+  });
+
+  it('reports not-supported without mediaDevices', async () => {
+    installFakeMediaDevices(null);
+
+    const error = await cameraError(requestCameraAccess());
+    expect(error.type).toBe('not-supported');
+  });
+
+  it.each([
+    ['NotAllowedError', 'permission-denied'],
+    ['PermissionDeniedError', 'permission-denied'],
+    ['NotFoundError', 'not-found'],
+    ['DevicesNotFoundError', 'not-found'],
+    ['NotReadableError', 'in-use'],
+    ['TrackStartError', 'in-use'],
+    ['AbortError', 'unknown'],
+    ['SecurityError', 'unknown'],
+  ])('maps %s to %s', async (name, type) => {
+    devices.failNext(name);
+
+    const error = await cameraError(requestCameraAccess());
+    expect(error.type).toBe(type);
+    expect((error.originalError as DOMException).name).toBe(name);
+  });
+
+  it.each(['OverconstrainedError', 'ConstraintNotSatisfiedError'])(
+    'maps %s to overconstrained once every profile fails',
+    async name => {
+      devices.failNext(name, { constraint: 'frameRate' });
+      devices.failNext(name, { constraint: 'frameRate' });
+
+      const error = await cameraError(
+        requestCameraAccess({
+          profiles: [{ name: 'a' }, { name: 'b' }],
+        })
+      );
+      expect(error.type).toBe('overconstrained');
+      expect(error.message).toContain('(frameRate)');
+      expect(devices.requests).toHaveLength(2);
+    }
+  );
+
+  it('reports the unknown error message when there is one', async () => {
+    devices.failNext('UnknownError', { message: 'Camera exploded' });
+
+    const error = await cameraError(requestCameraAccess());
+    expect(error.message).toBe('Unable to access camera: Camera exploded');
+  });
+});
+
+describe('switchCamera', () => {
+  it('swaps tracks inside the same stream', async () => {
+    const stream = await requestCameraAccess();
+    const [frontTrack] = stream.getVideoTracks();
+
+    const switched = await switchCamera({ deviceId: REAR_CAMERA.deviceId });
+
+    expect(switched).toBe(stream);
+    expect(frontTrack.readyState).toBe('ended');
+    expect(getActiveCameraId()).toBe(REAR_CAMERA.deviceId);
+  });
+
+  it('releases the current camera and retries on NotReadableError', async () => {
+    const stream = await requestCameraAccess();
+    const [frontTrack] = stream.getVideoTracks();
+    devices.failNext('NotReadableError');
+
+    await switchCamera({ facingMode: 'environment' });
+
+    expect(frontTrack.readyState).toBe('ended');
+    expect(getActiveCameraId()).toBe(REAR_CAMERA.deviceId);
+  });
+
+  it('stops the camera when the retry fails too', async () => {
+    await requestCameraAccess();
+    devices.failNext('NotReadableError');
+    devices.failNext('NotReadableError');
+
+    const error = await cameraError(
+      switchCamera({ facingMode: 'environment' })
+    );
+
+    expect(error.type).toBe('in-use');
+    expect(getActiveCameraId()).toBeNull();
+  });
+
+  it('keeps the current camera on other errors', async () => {
+    await requestCameraAccess();
+    devices.failNext('NotAllowedError');
+
+    const error = await cameraError(
+      switchCamera({ facingMode: 'environment' })
+    );
+
+    expect(error.type).toBe('permission-denied');
+    expect(getActiveCameraId()).toBe(FRONT_CAMERA.deviceId);
+  });
+
+  it('opens a camera when none is active', async () => {
+    await switchCamera({ deviceId: REAR_CAMERA.deviceId });
+    expect(getActiveCameraId()).toBe(REAR_CAMERA.deviceId);
+  });
+});
+
+describe('createCamera', () => {
+  it('keeps each camera to itself', async () => {
+    const first = createCamera();
+    const second = createCamera();
+    await first.requestCameraAccess();
+    await second.requestCameraAccess({
+      selection: { deviceId: REAR_CAMERA.deviceId },
+    });
+
+    first.stopCamera();
+    expect(first.getActiveVideoTrack()).toBeNull();
+    expect(second.getActiveCameraId()).toBe(REAR_CAMERA.deviceId);
+    expect(getActiveCameraId()).toBeNull();
+    second.stopCamera();
+  });
+});
+
+describe('listCameras', () => {
+  it('uses placeholder labels until permission is granted', async () => {
+    expect((await listCameras()).map(camera => camera.label)).toEqual([
+      'Camera 1',
+      'Camera 2',
+    ]);
+
+    await requestCameraAccess();
+    expect((await listCameras()).map(camera => camera.label)).toEqual([
+      FRONT_CAMERA.label,
+      REAR_CAMERA.label,
+    ]);
+  });
+
+  it('notifies watchers when a camera is unplugged', async () => {
+    await requestCameraAccess();
+    const changes: string[][] = [];
+    const unwatch = watchCameras(cameras =>
+      changes.push(cameras.map(camera => camera.deviceId))
+    );
+
+    devices.unplug(REAR_CAMERA.deviceId);
+    await expect.poll(() => changes).toEqual([[FRONT_CAMERA.deviceId]]);
+
+    unwatch();
+    devices.unplug(FRONT_CAMERA.deviceId);
+    await new Promise(resolve => setTimeout(resolve));
+    expect(changes).toHaveLength(1);
+  });
+
+  it('logs an enumeration that fails after a device change', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const onChange = vi.fn();
+    const unwatch = watchCameras(onChange);
+    const failure = new DOMException('Enumeration failed', 'AbortError');
+    vi.spyOn(devices.mediaDevices, 'enumerateDevices').mockRejectedValue(
+      failure
+    );
+
+    devices.unplug(REAR_CAMERA.deviceId);
+    await expect
+      .poll(() => warn)
+      .toHaveBeenCalledWith('Failed to enumerate cameras:', failure);
+    expect(onChange).not.toHaveBeenCalled();
+
+    unwatch();
+    warn.mockRestore();
+  });
+});
+
+describe('watchCameraPermission', () => {
+  it('reports the current state and each change', async () => {
+    const seen: CameraPermission[] = [];
+    const unwatch = watchCameraPermission(permission => seen.push(permission));
+    await expect.poll(() => seen).toEqual(['prompt']);
+
+    await requestCameraAccess();
+    devices.setPermission('denied');
+    expect(seen).toEqual(['prompt', 'granted', 'denied']);
+
+    unwatch();
+    devices.setPermission('granted');
+    expect(seen).toHaveLength(3);
+  });
+
+  it('reports unknown without the Permissions API', async () => {
+    installFakeMediaDevices(null);
+
+    const seen: CameraPermission[] = [];
+    watchCameraPermission(permission => seen.push(permission));
+    await expect.poll(() => seen).toEqual(['unknown']);
+  });
+
+  it('does not report after being stopped early', async () => {
+    const seen: CameraPermission[] = [];
+    watchCameraPermission(permission => seen.push(permission))();
+
+    await new Promise(resolve => setTimeout(resolve));
+    expect(seen).toEqual([]);
+  });
+});
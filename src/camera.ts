@@ -1,147 +1,451 @@
+import { t } from './i18n';
+
 export interface CameraError {
-  type: 'permission-denied' | 'not-found' | 'in-use' | 'not-supported' | 'unknown';
+  type:
+    | 'permission-denied'
+    | 'not-found'
+    | 'in-use'
+    | 'overconstrained'
+    | 'not-supported'
+    | 'unknown';
   message: string;
   originalError?: Error;
 }
 
-export interface BrowserInfo {
-  name: 'chrome' | 'firefox' | 'safari' | 'edge' | 'unknown';
-  instructions: string[];
+// 'unknown' when the browser can't tell us without prompting
+export type CameraPermission = PermissionState | 'unknown';
+
+export interface CameraDevice {
+  deviceId: string;
+  groupId: string;
+  label: string;
+  capabilities?: MediaTrackCapabilities;
 }
 
-let currentStream: MediaStream | null = null;
+export type CameraSelection =
+  | { deviceId: string }
+  | { facingMode: 'user' | 'environment' };
 
-export async function requestCameraAccess(): Promise<MediaStream> {
-  try {
-    // Check if getUserMedia is supported
-    if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
-      const error: CameraError = {
-        type: 'not-supported',
-        message: 'Camera access is not supported in this browser. Please use a modern browser like Chrome, Firefox, Safari, or Edge.'
-      };
-      throw error;
+// A set of capture constraints to ask the camera for
+export interface CaptureProfile {
+  name: string;
+  width?: number;
+  height?: number;
+  frameRate?: number;
+  aspectRatio?: number;
+  zoom?: number;
+  torch?: boolean;
+  // 'exact' fails with OverconstrainedError instead of settling for less
+  policy?: 'ideal' | 'exact';
+}
+
+export interface CameraOptions {
+  selection?: CameraSelection;
+  // Tried in order; the next one is used when a profile is overconstrained
+  profiles?: CaptureProfile[];
+}
+
+// What the camera actually gave us
+export interface NegotiatedCamera {
+  profile: CaptureProfile;
+  settings: MediaTrackSettings;
+}
+
+// zoom and torch come from the Image Capture spec and aren't in lib.dom yet
+interface ExtendedConstraintSet extends MediaTrackConstraintSet {
+  zoom?: ConstrainDouble;
+  torch?: ConstrainBoolean;
+}
+
+export const DEFAULT_PROFILES: CaptureProfile[] = [
+  { name: '1080p', width: 1920, height: 1080, frameRate: 30 },
+  { name: '720p', width: 1280, height: 720 },
+  { name: '480p', width: 640, height: 480 },
+  { name: 'Any' }
+];
+
+// One camera stream and what was negotiated for it. Each widget on the page
+// has its own, so stopping one doesn't stop the others.
+export interface CameraController {
+  requestCameraAccess(options?: CameraOptions): Promise<MediaStream>;
+  getNegotiatedCamera(): NegotiatedCamera | null;
+  stopCamera(): void;
+  switchCamera(selection: CameraSelection): Promise<MediaStream>;
+  getActiveVideoTrack(): MediaStreamTrack | null;
+  getActiveCameraId(): string | null;
+}
+
+// Build the video constraints for a device or facing mode selection
+function buildVideoConstraints(
+  selection: CameraSelection = { facingMode: 'user' },
+  profile: CaptureProfile = { name: 'Any' }
+): MediaTrackConstraints {
+  const constraints: MediaTrackConstraints = {};
+  const advanced: ExtendedConstraintSet = {};
+  const policy = profile.policy ?? 'ideal';
+
+  if ('deviceId' in selection) {
+    constraints.deviceId = { exact: selection.deviceId };
+  } else {
+    constraints.facingMode = selection.facingMode;
+  }
+
+  if (profile.width !== undefined) {
+    constraints.width = { [policy]: profile.width };
+  }
+  if (profile.height !== undefined) {
+    constraints.height = { [policy]: profile.height };
+  }
+  if (profile.frameRate !== undefined) {
+    constraints.frameRate = { [policy]: profile.frameRate };
+  }
+  if (profile.aspectRatio !== undefined) {
+    constraints.aspectRatio = { [policy]: profile.aspectRatio };
+  }
+
+  // Zoom and torch are best effort unless the profile insists on them
+  if (profile.zoom !== undefined) {
+    if (policy === 'exact') {
+      (constraints as ExtendedConstraintSet).zoom = { exact: profile.zoom };
+    } else {
+      advanced.zoom = profile.zoom;
+    }
+  }
+  if (profile.torch !== undefined) {
+    if (policy === 'exact') {
+      (constraints as ExtendedConstraintSet).torch = { exact: profile.torch };
+    } else {
+      advanced.torch = profile.torch;
     }
+  }
+
+  if (Object.keys(advanced).length > 0) {
+    constraints.advanced = [advanced];
+  }
 
-    // Request camera access
-    const stream = await navigator.mediaDevices.getUserMedia({
-      video: {
-        facingMode: 'user',
-        width: { ideal: 1280 },
-        height: { ideal: 720 }
+  return constraints;
+}
+
+// Open a camera stream, walking down the profile ladder on OverconstrainedError
+async function openStream(
+  selection: CameraSelection | undefined,
+  profiles: CaptureProfile[]
+): Promise<{ stream: MediaStream; profile: CaptureProfile }> {
+  let lastError: unknown = new DOMException(
+    'No capture profiles were given',
+    'OverconstrainedError'
+  );
+
+  for (const profile of profiles) {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: buildVideoConstraints(selection, profile)
+      });
+      return { stream, profile };
+    } catch (err) {
+      if (!isOverconstrained(err)) {
+        throw err;
       }
-    });
+      lastError = err;
+    }
+  }
 
-    currentStream = stream;
-    return stream;
+  throw lastError;
+}
 
-  } catch (err) {
-    const error = err as DOMException;
-    let cameraError: CameraError;
-
-    switch (error.name) {
-      case 'NotAllowedError':
-      case 'PermissionDeniedError':
-        cameraError = {
-          type: 'permission-denied',
-          message: 'Camera access was denied. Please allow camera access to continue.',
-          originalError: error
-        };
-        break;
-
-      case 'NotFoundError':
-      case 'DevicesNotFoundError':
-        cameraError = {
-          type: 'not-found',
-          message: 'No camera device found. Please connect a camera and try again.',
-          originalError: error
-        };
-        break;
-
-      case 'NotReadableError':
-      case 'TrackStartError':
-        cameraError = {
-          type: 'in-use',
-          message: 'Camera is currently in use by another application. Please close other apps using the camera and try again.',
-          originalError: error
-        };
-        break;
+function isOverconstrained(err: unknown): boolean {
+  const name = (err as DOMException).name;
+  return name === 'OverconstrainedError' || name === 'ConstraintNotSatisfiedError';
+}
 
-      default:
-        cameraError = {
-          type: 'unknown',
-          message: `Unable to access camera: ${error.message || 'Unknown error'}`,
-          originalError: error
-        };
+// Map a getUserMedia failure to a CameraError
+function toCameraError(err: unknown): CameraError {
+  // Already mapped (e.g. the not-supported check above)
+  if ((err as CameraError).type) {
+    return err as CameraError;
+  }
+
+  const error = err as DOMException;
+  let cameraError: CameraError;
+
+  switch (error.name) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError':
+      cameraError = {
+        type: 'permission-denied',
+        message: t('camera.error.permission-denied'),
+        originalError: error
+      };
+      break;
+
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+      cameraError = {
+        type: 'not-found',
+        message: t('camera.error.not-found'),
+        originalError: error
+      };
+      break;
+
+    case 'OverconstrainedError':
+    case 'ConstraintNotSatisfiedError': {
+      const constraint = (error as DOMException & { constraint?: string })
+        .constraint;
+      cameraError = {
+        type: 'overconstrained',
+        message: constraint
+          ? t('camera.error.overconstrained-by', { constraint })
+          : t('camera.error.overconstrained'),
+        originalError: error
+      };
+      break;
     }
 
-    throw cameraError;
+    case 'NotReadableError':
+    case 'TrackStartError':
+      cameraError = {
+        type: 'in-use',
+        message: t('camera.error.in-use'),
+        originalError: error
+      };
+      break;
+
+    default:
+      cameraError = {
+        type: 'unknown',
+        message: t('camera.error.unknown', {
+          reason: error.message || t('app.unknown-reason')
+        }),
+        originalError: error
+      };
   }
+
+  return cameraError;
 }
 
-export function stopCamera(): void {
-  if (currentStream) {
-    currentStream.getTracks().forEach(track => {
+export function createCamera(): CameraController {
+  let currentStream: MediaStream | null = null;
+  let currentProfiles: CaptureProfile[] = DEFAULT_PROFILES;
+  let negotiated: NegotiatedCamera | null = null;
+
+  // Record the profile and the settings the browser settled on
+  function recordNegotiated(stream: MediaStream, profile: CaptureProfile): void {
+    const track = stream.getVideoTracks()[0];
+    negotiated = {
+      profile,
+      settings: track ? track.getSettings() : {}
+    };
+  }
+
+  async function requestCameraAccess(
+    options: CameraOptions = {}
+  ): Promise<MediaStream> {
+    try {
+      // Check if getUserMedia is supported
+      if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
+        const error: CameraError = {
+          type: 'not-supported',
+          message: t('camera.error.not-supported')
+        };
+        throw error;
+      }
+
+      // Request camera access
+      const profiles = options.profiles ?? DEFAULT_PROFILES;
+      const { stream, profile } = await openStream(options.selection, profiles);
+
+      currentStream = stream;
+      currentProfiles = profiles;
+      recordNegotiated(stream, profile);
+      return stream;
+
+    } catch (err) {
+      throw toCameraError(err);
+    }
+  }
+
+  function stopCamera(): void {
+    if (currentStream) {
+      currentStream.getTracks().forEach(track => {
+        track.stop();
+      });
+      currentStream = null;
+      negotiated = null;
+    }
+  }
+
+  // Swap the active camera without tearing down the stream the <video> is bound to
+  async function switchCamera(
+    selection: CameraSelection
+  ): Promise<MediaStream> {
+    if (!currentStream) {
+      return requestCameraAccess({ selection, profiles: currentProfiles });
+    }
+
+    const stream = currentStream;
+    let next: MediaStream;
+    let profile: CaptureProfile;
+
+    try {
+      ({ stream: next, profile } = await openStream(selection, currentProfiles));
+    } catch (err) {
+      // Some devices (mostly phones) can't open two cameras at once,
+      // so release the current one and try again before giving up
+      if ((err as DOMException).name !== 'NotReadableError') {
+        throw toCameraError(err);
+      }
+
+      stream.getVideoTracks().forEach(track => track.stop());
+      try {
+        ({ stream: next, profile } = await openStream(
+          selection,
+          currentProfiles
+        ));
+      } catch (retryErr) {
+        stopCamera();
+        throw toCameraError(retryErr);
+      }
+    }
+
+    // The caller may have stopped the camera while we were waiting
+    if (currentStream !== stream) {
+      next.getTracks().forEach(track => track.stop());
+      throw toCameraError(new DOMException('Camera was stopped', 'AbortError'));
+    }
+
+    stream.getVideoTracks().forEach(track => {
+      stream.removeTrack(track);
       track.stop();
     });
-    currentStream = null;
+    next.getVideoTracks().forEach(track => stream.addTrack(track));
+    recordNegotiated(stream, profile);
+
+    return stream;
   }
+
+  return {
+    requestCameraAccess,
+    // Get the profile and track settings negotiated for the active stream
+    getNegotiatedCamera: () => negotiated,
+    stopCamera,
+    switchCamera,
+    // Get the video track of the active stream, if any
+    getActiveVideoTrack: () => currentStream?.getVideoTracks()[0] ?? null,
+    // Get the device ID of the camera currently streaming, if any
+    getActiveCameraId: () =>
+      currentStream?.getVideoTracks()[0]?.getSettings().deviceId ?? null
+  };
 }
 
-export function detectBrowser(): BrowserInfo {
-  const userAgent = navigator.userAgent.toLowerCase();
+// The camera for code that only ever needs one
+const defaultCamera = createCamera();
 
-  if (userAgent.includes('edg/')) {
-    return {
-      name: 'edge',
-      instructions: [
-        'Click the lock icon in the address bar',
-        'Click "Permissions for this site"',
-        'Find "Camera" and select "Allow"',
-        'Refresh the page and try again'
-      ]
-    };
+export const {
+  requestCameraAccess,
+  getNegotiatedCamera,
+  stopCamera,
+  switchCamera,
+  getActiveVideoTrack,
+  getActiveCameraId
+} = defaultCamera;
+
+// List available video inputs (labels are empty until permission is granted)
+export async function listCameras(): Promise<CameraDevice[]> {
+  if (!navigator.mediaDevices || !navigator.mediaDevices.enumerateDevices) {
+    return [];
   }
 
-  if (userAgent.includes('chrome') && !userAgent.includes('edg')) {
-    return {
-      name: 'chrome',
-      instructions: [
-        'Click the camera icon in the address bar',
-        'Select "Always allow camera access"',
-        'Click "Done"',
-        'Refresh the page and try again'
-      ]
-    };
+  const devices = await navigator.mediaDevices.enumerateDevices();
+
+  return devices
+    .filter(device => device.kind === 'videoinput')
+    .map((device, index) => {
+      const input = device as InputDeviceInfo;
+      return {
+        deviceId: device.deviceId,
+        groupId: device.groupId,
+        label: device.label || t('camera.unnamed', { number: index + 1 }),
+        capabilities:
+          typeof input.getCapabilities === 'function'
+            ? input.getCapabilities()
+            : undefined
+      };
+    });
+}
+
+// Re-enumerate cameras whenever one is plugged in or removed
+export function watchCameras(
+  onChange: (cameras: CameraDevice[]) => void
+): () => void {
+  if (!navigator.mediaDevices) {
+    return () => {};
   }
 
-  if (userAgent.includes('firefox')) {
-    return {
-      name: 'firefox',
-      instructions: [
-        'Click the camera icon in the address bar',
-        'Remove the blocked permission',
-        'Click "Enable Camera" again to allow access'
-      ]
-    };
+  const handleDeviceChange = async () => {
+    try {
+      onChange(await listCameras());
+    } catch (error) {
+      console.warn('Failed to enumerate cameras:', error);
+    }
+  };
+
+  navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange);
+  return () => {
+    navigator.mediaDevices.removeEventListener(
+      'devicechange',
+      handleDeviceChange
+    );
+  };
+}
+
+// Ask the Permissions API for the camera permission, without prompting
+async function queryCameraPermission(): Promise<PermissionStatus | null> {
+  if (!navigator.permissions || !navigator.permissions.query) {
+    return null;
   }
 
-  if (userAgent.includes('safari')) {
-    return {
-      name: 'safari',
-      instructions: [
-        'Go to Safari menu → Settings for This Website',
-        'Find "Camera" and select "Allow"',
-        'Refresh the page and try again'
-      ]
-    };
+  try {
+    return await navigator.permissions.query({
+      name: 'camera' as PermissionName
+    });
+  } catch {
+    // Older Firefox and Safari reject 'camera' as an unknown permission name
+    return null;
   }
+}
 
-  return {
-    name: 'unknown',
-    instructions: [
-      'Look for a camera icon in your address bar',
-      'Click it and allow camera access',
-      'Refresh the page and try again'
-    ]
+// Read the camera permission once
+export async function getCameraPermission(): Promise<CameraPermission> {
+  const status = await queryCameraPermission();
+  return status ? status.state : 'unknown';
+}
+
+// Report the camera permission now and whenever the user changes it
+export function watchCameraPermission(
+  onChange: (permission: CameraPermission) => void
+): () => void {
+  let status: PermissionStatus | null = null;
+  let stopped = false;
+
+  const handleChange = () => {
+    if (status) {
+      onChange(status.state);
+    }
+  };
+
+  queryCameraPermission().then(result => {
+    if (stopped) return;
+    status = result;
+    if (!status) {
+      onChange('unknown');
+      return;
+    }
+    status.addEventListener('change', handleChange);
+    handleChange();
+  });
+
+  return () => {
+    stopped = true;
+    status?.removeEventListener('change', handleChange);
   };
 }
@@ -0,0 +1,187 @@
+import { filterImage, type ActiveFilter } from './filters';
+import { t } from './i18n';
+
+export interface CaptureError {
+  type: 'no-stream' | 'not-supported' | 'encode-failed' | 'unknown';
+  message: string;
+  originalError?: Error;
+}
+
+export type PhotoFormat = 'image/png' | 'image/jpeg' | 'image/webp';
+
+export interface CaptureOptions {
+  format?: PhotoFormat;
+  // 0 to 1, ignored for PNG
+  quality?: number;
+  // Drawn onto the still, since the camera's own track has none of them
+  filters?: ActiveFilter[];
+}
+
+export interface CapturedPhoto {
+  blob: Blob;
+  width: number;
+  height: number;
+  // Browsers without WebP encoding silently fall back to PNG
+  mimeType: string;
+}
+
+// Check if the browser has the Image Capture API
+export function checkImageCaptureSupport(): boolean {
+  return typeof window !== 'undefined' && 'ImageCapture' in window;
+}
+
+// Grab a full-resolution frame through ImageCapture.takePhoto()
+async function grabWithImageCapture(
+  track: MediaStreamTrack
+): Promise<ImageBitmap> {
+  const imageCapture = new ImageCapture(track);
+  const blob = await imageCapture.takePhoto();
+  return createImageBitmap(blob);
+}
+
+// Grab the current frame by playing the stream in a detached <video>
+async function grabWithVideo(stream: MediaStream): Promise<HTMLVideoElement> {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = stream;
+
+  await new Promise<void>((resolve, reject) => {
+    video.onloadeddata = () => resolve();
+    video.onerror = () => reject(new Error('Failed to load video frame'));
+  });
+  await video.play();
+
+  return video;
+}
+
+// Encode a canvas to the requested format
+function canvasToBlob(
+  canvas: HTMLCanvasElement,
+  format: PhotoFormat,
+  quality: number
+): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          const error: CaptureError = {
+            type: 'encode-failed',
+            message: t('capture.error.encode-failed', { format }),
+          };
+          reject(error);
+        }
+      },
+      format,
+      quality
+    );
+  });
+}
+
+// Capture a still photo from the active stream. Pass the camera's own stream
+// so ImageCapture can take a full-resolution photo, with any filters in the
+// options.
+export async function capturePhoto(
+  stream: MediaStream | null,
+  options: CaptureOptions = {}
+): Promise<CapturedPhoto> {
+  const format = options.format ?? 'image/jpeg';
+  const quality = options.quality ?? 0.92;
+
+  try {
+    const track = stream?.getVideoTracks().find(t => t.readyState === 'live');
+    if (!stream || !track) {
+      const error: CaptureError = {
+        type: 'no-stream',
+        message: t('capture.error.no-stream'),
+      };
+      throw error;
+    }
+
+    if (!document.createElement('canvas').getContext) {
+      const error: CaptureError = {
+        type: 'not-supported',
+        message: t('capture.error.not-supported'),
+      };
+      throw error;
+    }
+
+    let source: CanvasImageSource;
+    let width: number;
+    let height: number;
+    let cleanup = () => {};
+
+    try {
+      if (!checkImageCaptureSupport()) {
+        throw new Error('ImageCapture is not available');
+      }
+      const bitmap = await grabWithImageCapture(track);
+      source = bitmap;
+      width = bitmap.width;
+      height = bitmap.height;
+      cleanup = () => bitmap.close();
+    } catch {
+      // takePhoto() is missing or flaky on many devices; the <video> path always works
+      const video = await grabWithVideo(stream);
+      source = video;
+      width = video.videoWidth;
+      height = video.videoHeight;
+      cleanup = () => {
+        video.pause();
+        video.srcObject = null;
+      };
+    }
+
+    let canvas: HTMLCanvasElement;
+    try {
+      if (options.filters?.length) {
+        canvas = filterImage(source, options.filters, width, height);
+      } else {
+        canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        canvas.getContext('2d')!.drawImage(source, 0, 0, width, height);
+      }
+    } finally {
+      cleanup();
+    }
+
+    const blob = await canvasToBlob(canvas, format, quality);
+
+    return {
+      blob,
+      width,
+      height,
+      mimeType: blob.type || format,
+    };
+  } catch (err) {
+    // Check if it's already a CaptureError
+    if ((err as CaptureError).type) {
+      throw err;
+    }
+
+    const error = err as Error;
+    const captureError: CaptureError = {
+      type: 'unknown',
+      message: t('capture.error.unknown', {
+        reason: error.message || t('app.unknown-reason'),
+      }),
+      originalError: error,
+    };
+    throw captureError;
+  }
+}
+
+// File extension for a photo MIME type
+export function photoExtension(mimeType: string): string {
+  switch (mimeType) {
+    case 'image/png':
+      return 'png';
+    case 'image/webp':
+      return 'webp';
+    default:
+      return 'jpg';
+  }
+}
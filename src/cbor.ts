@@ -0,0 +1,172 @@
+// A small CBOR (RFC 8949) decoder covering what WebAuthn uses:
+// attestation objects, COSE keys and extension outputs.
+
+export type CborValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | null
+  | undefined
+  | Uint8Array
+  | CborValue[]
+  | Map<CborValue, CborValue>
+  | { tag: number; value: CborValue };
+
+export interface CborError {
+  type: 'truncated' | 'unsupported' | 'trailing-bytes';
+  message: string;
+}
+
+// Decode a single CBOR item and the offset just past it
+export function decodeCborItem(
+  bytes: Uint8Array,
+  offset = 0
+): { value: CborValue; offset: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let pos = offset;
+
+  const fail = (type: CborError['type'], message: string): never => {
+    const error: CborError = { type, message };
+    throw error;
+  };
+
+  const need = (length: number) => {
+    if (pos + length > bytes.length) {
+      fail('truncated', `CBOR data ended unexpectedly at byte ${pos}`);
+    }
+  };
+
+  // Read the argument that follows the initial byte
+  const readArgument = (info: number): number | bigint => {
+    if (info < 24) return info;
+    switch (info) {
+      case 24:
+        need(1);
+        return view.getUint8(pos++);
+      case 25:
+        need(2);
+        pos += 2;
+        return view.getUint16(pos - 2);
+      case 26:
+        need(4);
+        pos += 4;
+        return view.getUint32(pos - 4);
+      case 27: {
+        need(8);
+        pos += 8;
+        const big = view.getBigUint64(pos - 8);
+        return big <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(big) : big;
+      }
+      default:
+        return fail('unsupported', `Indefinite or reserved length (${info})`);
+    }
+  };
+
+  const readLength = (info: number): number => {
+    const length = readArgument(info);
+    if (typeof length === 'bigint') {
+      fail('unsupported', 'CBOR length does not fit in a number');
+    }
+    return length as number;
+  };
+
+  const readItem = (): CborValue => {
+    need(1);
+    const initial = view.getUint8(pos++);
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    switch (major) {
+      case 0:
+        return readArgument(info);
+      case 1: {
+        const n = readArgument(info);
+        return typeof n === 'bigint' ? -1n - n : -1 - n;
+      }
+      case 2: {
+        const length = readLength(info);
+        need(length);
+        pos += length;
+        return bytes.slice(pos - length, pos);
+      }
+      case 3: {
+        const length = readLength(info);
+        need(length);
+        pos += length;
+        return new TextDecoder().decode(bytes.subarray(pos - length, pos));
+      }
+      case 4: {
+        const length = readLength(info);
+        const items: CborValue[] = [];
+        for (let i = 0; i < length; i++) {
+          items.push(readItem());
+        }
+        return items;
+      }
+      case 5: {
+        const length = readLength(info);
+        const map = new Map<CborValue, CborValue>();
+        for (let i = 0; i < length; i++) {
+          const key = readItem();
+          map.set(key, readItem());
+        }
+        return map;
+      }
+      case 6:
+        return { tag: readLength(info), value: readItem() };
+      default:
+        switch (info) {
+          case 20:
+            return false;
+          case 21:
+            return true;
+          case 22:
+            return null;
+          case 23:
+            return undefined;
+          case 25: {
+            need(2);
+            pos += 2;
+            return decodeHalfFloat(view.getUint16(pos - 2));
+          }
+          case 26:
+            need(4);
+            pos += 4;
+            return view.getFloat32(pos - 4);
+          case 27:
+            need(8);
+            pos += 8;
+            return view.getFloat64(pos - 8);
+          default:
+            return fail('unsupported', `Unsupported simple value (${info})`);
+        }
+    }
+  };
+
+  const value = readItem();
+  return { value, offset: pos };
+}
+
+// Decode a buffer holding exactly one CBOR item
+export function decodeCbor(bytes: Uint8Array): CborValue {
+  const { value, offset } = decodeCborItem(bytes);
+  if (offset !== bytes.length) {
+    const error: CborError = {
+      type: 'trailing-bytes',
+      message: `Unexpected ${bytes.length - offset} bytes after CBOR item`,
+    };
+    throw error;
+  }
+  return value;
+}
+
+function decodeHalfFloat(half: number): number {
+  const exponent = (half >> 10) & 0x1f;
+  const fraction = half & 0x3ff;
+  const sign = half & 0x8000 ? -1 : 1;
+
+  if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+  if (exponent === 0x1f) return fraction ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
@@ -0,0 +1,189 @@
+import { decodeCbor, type CborValue } from './cbor';
+import { toBase64Url } from './encoding';
+
+// COSE algorithm identifiers we accept (IANA COSE Algorithms registry)
+export const COSE_ALG_ES256 = -7;
+export const COSE_ALG_RS256 = -257;
+
+export interface CoseKey {
+  kty: number;
+  alg: number;
+  crv?: number;
+  x?: Uint8Array;
+  y?: Uint8Array;
+  n?: Uint8Array;
+  e?: Uint8Array;
+}
+
+export interface CoseError {
+  type: 'malformed-key' | 'malformed-signature' | 'unsupported-algorithm';
+  message: string;
+}
+
+const COSE_KTY_EC2 = 2;
+const COSE_KTY_RSA = 3;
+const COSE_CRV_P256 = 1;
+
+function fail(type: CoseError['type'], message: string): never {
+  const error: CoseError = { type, message };
+  throw error;
+}
+
+// Decode COSE_Key bytes into their labelled parameters
+export function parseCoseKey(bytes: Uint8Array): CoseKey {
+  const map = decodeCbor(bytes);
+  if (!(map instanceof Map)) {
+    fail('malformed-key', 'COSE key is not a CBOR map');
+  }
+
+  const get = (label: number): CborValue =>
+    (map as Map<CborValue, CborValue>).get(label);
+  const bytesAt = (label: number) => {
+    const value = get(label);
+    return value instanceof Uint8Array ? value : undefined;
+  };
+
+  const kty = get(1);
+  const alg = get(3);
+  if (typeof kty !== 'number' || typeof alg !== 'number') {
+    fail('malformed-key', 'COSE key is missing kty or alg');
+  }
+
+  if (kty === COSE_KTY_EC2) {
+    const crv = get(-1);
+    return {
+      kty: kty as number,
+      alg: alg as number,
+      crv: typeof crv === 'number' ? crv : undefined,
+      x: bytesAt(-2),
+      y: bytesAt(-3),
+    };
+  }
+
+  if (kty === COSE_KTY_RSA) {
+    return {
+      kty: kty as number,
+      alg: alg as number,
+      n: bytesAt(-1),
+      e: bytesAt(-2),
+    };
+  }
+
+  return { kty: kty as number, alg: alg as number };
+}
+
+// Import a COSE key for signature verification with WebCrypto
+export async function importCoseKey(key: CoseKey): Promise<CryptoKey> {
+  if (key.alg === COSE_ALG_ES256) {
+    if (
+      key.kty !== COSE_KTY_EC2 ||
+      key.crv !== COSE_CRV_P256 ||
+      !key.x ||
+      !key.y
+    ) {
+      fail('malformed-key', 'ES256 key must be an EC2 P-256 key with x and y');
+    }
+    return crypto.subtle.importKey(
+      'jwk',
+      {
+        kty: 'EC',
+        crv: 'P-256',
+        x: toBase64Url(key.x!),
+        y: toBase64Url(key.y!),
+      },
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+  }
+
+  if (key.alg === COSE_ALG_RS256) {
+    if (key.kty !== COSE_KTY_RSA || !key.n || !key.e) {
+      fail('malformed-key', 'RS256 key must be an RSA key with n and e');
+    }
+    return crypto.subtle.importKey(
+      'jwk',
+      {
+        kty: 'RSA',
+        n: toBase64Url(key.n!),
+        e: toBase64Url(key.e!),
+        alg: 'RS256',
+      },
+      { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+      false,
+      ['verify']
+    );
+  }
+
+  return fail('unsupported-algorithm', `Unsupported COSE algorithm ${key.alg}`);
+}
+
+// Convert an ASN.1 DER ECDSA signature into the raw r||s form WebCrypto expects
+export function derToRawSignature(
+  der: Uint8Array,
+  size = 32
+): Uint8Array<ArrayBuffer> {
+  let pos = 0;
+  const expect = (tag: number) => {
+    if (der[pos++] !== tag) {
+      fail('malformed-signature', 'Malformed DER signature');
+    }
+  };
+
+  const readLength = () => {
+    let length = der[pos++];
+    if (length & 0x80) {
+      const octets = length & 0x7f;
+      length = 0;
+      for (let i = 0; i < octets; i++) {
+        length = (length << 8) | der[pos++];
+      }
+    }
+    return length;
+  };
+
+  const readInteger = () => {
+    expect(0x02);
+    const length = readLength();
+    let value = der.subarray(pos, pos + length);
+    pos += length;
+    // Strip the sign padding byte and left-pad to the curve size
+    while (value.length > size && value[0] === 0) {
+      value = value.subarray(1);
+    }
+    if (value.length > size) {
+      fail('malformed-signature', 'DER integer is larger than the curve size');
+    }
+    const padded = new Uint8Array(size);
+    padded.set(value, size - value.length);
+    return padded;
+  };
+
+  expect(0x30);
+  readLength();
+  const raw = new Uint8Array(size * 2);
+  raw.set(readInteger(), 0);
+  raw.set(readInteger(), size);
+  return raw;
+}
+
+// Verify a WebAuthn signature made with the given COSE public key
+export async function verifyCoseSignature(
+  publicKey: Uint8Array,
+  signature: Uint8Array<ArrayBuffer>,
+  data: Uint8Array<ArrayBuffer>
+): Promise<boolean> {
+  const coseKey = parseCoseKey(publicKey);
+  const key = await importCoseKey(coseKey);
+
+  if (coseKey.alg === COSE_ALG_ES256) {
+    return crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      key,
+      derToRawSignature(signature),
+      data
+    );
+  }
+
+  return crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, signature, data);
+}
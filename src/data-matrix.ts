@@ -0,0 +1,495 @@
+// Data Matrix (ECC 200) detection and decoding for the fallback scanner.
+// It looks for the solid "L" finder along two edges of a roughly upright
+// symbol (any of the four rotations) and reads square symbols up to 48×48.
+
+import {
+  createPerspectiveTransform,
+  isDark,
+  type BinaryImage,
+  type DecodedSymbol,
+  type Point,
+} from './binary-image';
+import { DATA_MATRIX_FIELD, correctErrors } from './reed-solomon';
+
+interface SymbolSize {
+  size: number;
+  // Data regions along each side
+  regions: number;
+  dataCodewords: number;
+  eccCodewords: number;
+}
+
+// ISO/IEC 16022 table 7, square symbols with a single Reed-Solomon block
+const SYMBOL_SIZES: SymbolSize[] = [
+  [10, 1, 3, 5],
+  [12, 1, 5, 7],
+  [14, 1, 8, 10],
+  [16, 1, 12, 12],
+  [18, 1, 18, 14],
+  [20, 1, 22, 18],
+  [22, 1, 30, 20],
+  [24, 1, 36, 24],
+  [26, 1, 44, 28],
+  [32, 2, 62, 36],
+  [36, 2, 86, 42],
+  [40, 2, 114, 48],
+  [44, 2, 144, 56],
+  [48, 2, 174, 68],
+].map(([size, regions, dataCodewords, eccCodewords]) => ({
+  size,
+  regions,
+  dataCodewords,
+  eccCodewords,
+}));
+
+interface Box {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// The smallest symbol is 10 modules across, at a couple of pixels each
+const MIN_SYMBOL_PIXELS = 20;
+
+// Bounding boxes of the large connected dark regions. A symbol's finder
+// and the modules touching it make up one region spanning the symbol.
+function findDarkRegions(image: BinaryImage): Box[] {
+  const { width, height, data } = image;
+  const seen = new Uint8Array(width * height);
+  const boxes: Box[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < data.length; start++) {
+    if (!data[start] || seen[start]) continue;
+
+    const box = { minX: width, minY: height, maxX: 0, maxY: 0 };
+    seen[start] = 1;
+    stack.push(start);
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      const x = index % width;
+      const y = (index - x) / width;
+      box.minX = Math.min(box.minX, x);
+      box.maxX = Math.max(box.maxX, x);
+      box.minY = Math.min(box.minY, y);
+      box.maxY = Math.max(box.maxY, y);
+
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        y > 0 ? index - width : -1,
+        y < height - 1 ? index + width : -1,
+      ];
+      for (const next of neighbours) {
+        if (next >= 0 && data[next] && !seen[next]) {
+          seen[next] = 1;
+          stack.push(next);
+        }
+      }
+    }
+
+    const boxWidth = box.maxX - box.minX + 1;
+    const boxHeight = box.maxY - box.minY + 1;
+    if (
+      Math.min(boxWidth, boxHeight) >= MIN_SYMBOL_PIXELS &&
+      boxWidth / boxHeight > 0.8 &&
+      boxWidth / boxHeight < 1.25
+    ) {
+      boxes.push(box);
+    }
+  }
+  return boxes;
+}
+
+interface Edge {
+  // Share of dark pixels
+  darkness: number;
+  // Dark and light stretches along it
+  runs: number;
+}
+
+// Follow one edge of a box, a pixel inside it
+function traceEdge(image: BinaryImage, from: Point, to: Point): Edge {
+  const steps = Math.max(Math.abs(to.x - from.x), Math.abs(to.y - from.y));
+  let dark = 0;
+  let runs = 0;
+  let previous: boolean | undefined;
+  for (let i = 0; i <= steps; i++) {
+    const pixel = isDark(
+      image,
+      from.x + ((to.x - from.x) * i) / steps,
+      from.y + ((to.y - from.y) * i) / steps
+    );
+    if (pixel) dark++;
+    if (pixel !== previous) runs++;
+    previous = pixel;
+  }
+  return { darkness: dark / (steps + 1), runs };
+}
+
+// Where the symbol's corners are: the "L" corner, then the ends of its
+// bottom and left edges (as the symbol reads)
+function findOrientation(
+  image: BinaryImage,
+  box: Box
+): { corner: Point; along: Point; up: Point; modules: number } | null {
+  const left = box.minX + 1;
+  const right = box.maxX - 1;
+  const top = box.minY + 1;
+  const bottom = box.maxY - 1;
+  // Each edge of the box from one corner to the next, clockwise
+  const edges = [
+    traceEdge(image, { x: left, y: top }, { x: right, y: top }),
+    traceEdge(image, { x: right, y: top }, { x: right, y: bottom }),
+    traceEdge(image, { x: right, y: bottom }, { x: left, y: bottom }),
+    traceEdge(image, { x: left, y: bottom }, { x: left, y: top }),
+  ];
+  const solid = edges.map(edge => edge.darkness > 0.9);
+
+  // The outer corners of the box: top left, top right, bottom right, bottom left
+  const corners = [
+    { x: box.minX, y: box.minY },
+    { x: box.maxX + 1, y: box.minY },
+    { x: box.maxX + 1, y: box.maxY + 1 },
+    { x: box.minX, y: box.maxY + 1 },
+  ];
+  for (let edge = 0; edge < 4; edge++) {
+    // Two solid edges meeting at a corner, and timing on the other two
+    const next = (edge + 1) % 4;
+    if (!solid[edge] || !solid[next]) continue;
+    const timing = [edges[(edge + 2) % 4], edges[(edge + 3) % 4]];
+    if (timing.some(({ runs }) => runs < 9)) return null;
+
+    // Going clockwise, the symbol's bottom edge leads into the corner and
+    // its left edge leads away
+    return {
+      corner: corners[next],
+      along: corners[edge],
+      up: corners[(edge + 2) % 4],
+      modules: Math.round((timing[0].runs + timing[1].runs) / 2),
+    };
+  }
+  return null;
+}
+
+// The modules each codeword's bits sit in, most significant bit first, in
+// the mapping matrix (the symbol without its finder and timing patterns)
+function placeCodewords(rows: number, columns: number): [number, number][][] {
+  const codewords: [number, number][][] = [];
+  const taken = Array.from({ length: rows }, () =>
+    new Array<boolean>(columns).fill(false)
+  );
+
+  const module = (bits: [number, number][], row: number, column: number) => {
+    if (row < 0) {
+      row += rows;
+      column += 4 - ((rows + 4) % 8);
+    }
+    if (column < 0) {
+      column += columns;
+      row += 4 - ((columns + 4) % 8);
+    }
+    taken[row][column] = true;
+    bits.push([row, column]);
+  };
+  const place = (positions: [number, number][]) => {
+    const bits: [number, number][] = [];
+    positions.forEach(([row, column]) => module(bits, row, column));
+    codewords.push(bits);
+  };
+  const utah = (row: number, column: number) =>
+    place([
+      [row - 2, column - 2],
+      [row - 2, column - 1],
+      [row - 1, column - 2],
+      [row - 1, column - 1],
+      [row - 1, column],
+      [row, column - 2],
+      [row, column - 1],
+      [row, column],
+    ]);
+  const r = rows;
+  const c = columns;
+
+  let row = 4;
+  let column = 0;
+  do {
+    if (row === r && column === 0) {
+      place([
+        [r - 1, 0],
+        [r - 1, 1],
+        [r - 1, 2],
+        [0, c - 2],
+        [0, c - 1],
+        [1, c - 1],
+        [2, c - 1],
+        [3, c - 1],
+      ]);
+    }
+    if (row === r - 2 && column === 0 && c % 4 !== 0) {
+      place([
+        [r - 3, 0],
+        [r - 2, 0],
+        [r - 1, 0],
+        [0, c - 4],
+        [0, c - 3],
+        [0, c - 2],
+        [0, c - 1],
+        [1, c - 1],
+      ]);
+    }
+    if (row === r - 2 && column === 0 && c % 8 === 4) {
+      place([
+        [r - 3, 0],
+        [r - 2, 0],
+        [r - 1, 0],
+        [0, c - 2],
+        [0, c - 1],
+        [1, c - 1],
+        [2, c - 1],
+        [3, c - 1],
+      ]);
+    }
+    if (row === r + 4 && column === 2 && c % 8 === 0) {
+      place([
+        [r - 1, 0],
+        [r - 1, c - 1],
+        [0, c - 3],
+        [0, c - 2],
+        [0, c - 1],
+        [1, c - 3],
+        [1, c - 2],
+        [1, c - 1],
+      ]);
+    }
+
+    // Sweep up and to the right, then down and to the left
+    do {
+      if (row < r && column >= 0 && !taken[row][column]) utah(row, column);
+      row -= 2;
+      column += 2;
+    } while (row >= 0 && column < c);
+    row += 1;
+    column += 3;
+    do {
+      if (row >= 0 && column < c && !taken[row][column]) utah(row, column);
+      row += 2;
+      column -= 2;
+    } while (row < r && column >= 0);
+    row += 3;
+    column += 1;
+  } while (row < r || column < c);
+
+  return codewords;
+}
+
+// Undo the 255-state randomisation of Base 256 codewords
+function unrandomize(codeword: number, position: number): number {
+  const value = codeword - (((149 * position) % 255) + 1);
+  return value < 0 ? value + 256 : value;
+}
+
+const C40_SHIFT2 = '!"#$%&\'()*+,-./:;<=>?@[\\]^_';
+
+// Decode the data codewords, starting in ASCII encodation
+function decodeCodewords(data: Uint8Array): string | null {
+  let text = '';
+  let suffix = '';
+  let upperShift = false;
+  let i = 0;
+
+  const append = (code: number) => {
+    text += String.fromCharCode(code + (upperShift ? 128 : 0));
+    upperShift = false;
+  };
+
+  // C40, Text and X12 pack three values into each pair of codewords
+  const decodeTriplets = (mode: 'c40' | 'text' | 'x12') => {
+    let shift = 0;
+    while (i + 1 < data.length && data[i] !== 254) {
+      const packed = data[i] * 256 + data[i + 1] - 1;
+      i += 2;
+      const values = [
+        Math.floor(packed / 1600),
+        Math.floor(packed / 40) % 40,
+        packed % 40,
+      ];
+      for (const value of values) {
+        if (mode === 'x12') {
+          append(
+            value < 3
+              ? [13, 42, 62][value]
+              : value === 3
+                ? 32
+                : value < 14
+                  ? value + 44
+                  : value + 51
+          );
+        } else if (shift === 1) {
+          append(value);
+          shift = 0;
+        } else if (shift === 2) {
+          if (value < C40_SHIFT2.length) append(C40_SHIFT2.charCodeAt(value));
+          else if (value === 30) upperShift = true;
+          shift = 0;
+        } else if (shift === 3) {
+          if (mode === 'c40') append(value + 96);
+          else append(value === 0 ? 96 : value < 27 ? value + 64 : value + 96);
+          shift = 0;
+        } else if (value < 3) {
+          shift = value + 1;
+        } else if (value === 3) {
+          append(32);
+        } else if (value < 14) {
+          append(value + 44);
+        } else {
+          append(value + (mode === 'c40' ? 51 : 83));
+        }
+      }
+    }
+    // 254 switches back to ASCII; a lone last codeword is ASCII anyway
+    if (data[i] === 254) i++;
+  };
+
+  while (i < data.length) {
+    const codeword = data[i++];
+    if (codeword === 0) return null;
+    if (codeword <= 128) {
+      append(codeword - 1);
+    } else if (codeword === 129) {
+      break;
+    } else if (codeword <= 229) {
+      text += String(codeword - 130).padStart(2, '0');
+    } else if (codeword === 230) {
+      decodeTriplets('c40');
+    } else if (codeword === 231) {
+      let length = unrandomize(data[i], i + 1);
+      i++;
+      if (length === 0) {
+        length = data.length - i;
+      } else if (length > 249) {
+        length = 250 * (length - 249) + unrandomize(data[i], i + 1);
+        i++;
+      }
+      if (i + length > data.length) return null;
+      const bytes = new Uint8Array(length);
+      for (let j = 0; j < length; j++, i++)
+        bytes[j] = unrandomize(data[i], i + 1);
+      try {
+        text += new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+      } catch {
+        text += String.fromCharCode(...bytes);
+      }
+    } else if (codeword === 232) {
+      // FNC1 marks GS1 data; after the first position it separates fields
+      if (text) text += '\u001d';
+    } else if (codeword === 235) {
+      upperShift = true;
+    } else if (codeword === 236 || codeword === 237) {
+      // Macros wrap the data in an ANSI MH10.8.2 message header
+      text += `[)>\u001e${codeword === 236 ? '05' : '06'}\u001d`;
+      suffix = '\u001e\u0004';
+    } else if (codeword === 238) {
+      decodeTriplets('x12');
+    } else if (codeword === 239) {
+      decodeTriplets('text');
+    } else if (codeword === 240) {
+      // EDIFACT packs four 6-bit values into three codewords
+      edifact: while (i < data.length) {
+        const packed =
+          (data[i] << 16) | ((data[i + 1] ?? 0) << 8) | (data[i + 2] ?? 0);
+        for (let shift = 18; shift >= 0; shift -= 6) {
+          const value = (packed >> shift) & 0x3f;
+          if (value === 0x1f) {
+            // Unlatching ends the codeword; the rest of its bits are padding
+            i += Math.ceil((24 - shift) / 8);
+            break edifact;
+          }
+          append(value < 32 ? value + 64 : value);
+        }
+        i += 3;
+      }
+    } else if (codeword === 241) {
+      // ECI designator; its value takes one to three codewords
+      i += data[i] <= 127 ? 1 : data[i] <= 191 ? 2 : 3;
+    } else {
+      return null;
+    }
+  }
+  return text + suffix;
+}
+
+// Read the symbol inside a box, if it is one
+function decodeBox(image: BinaryImage, box: Box): DecodedSymbol | null {
+  const orientation = findOrientation(image, box);
+  if (!orientation) return null;
+
+  const { corner, along, up } = orientation;
+  const symbol = SYMBOL_SIZES.reduce((best, size) =>
+    Math.abs(size.size - orientation.modules) <
+    Math.abs(best.size - orientation.modules)
+      ? size
+      : best
+  );
+  if (Math.abs(symbol.size - orientation.modules) > 2) return null;
+
+  const { size, regions } = symbol;
+  const opposite = {
+    x: along.x + up.x - corner.x,
+    y: along.y + up.y - corner.y,
+  };
+  const topLeft = up;
+  const toImage = createPerspectiveTransform(
+    [
+      { x: 0, y: 0 },
+      { x: size, y: 0 },
+      { x: size, y: size },
+      { x: 0, y: size },
+    ],
+    [topLeft, opposite, along, corner]
+  );
+  const dark = (row: number, column: number) => {
+    const point = toImage({ x: column + 0.5, y: row + 0.5 });
+    return isDark(image, point.x, point.y);
+  };
+
+  // The data regions, without the finder and timing around each one
+  const regionSize = size / regions - 2;
+  const mappingSize = regionSize * regions;
+  const toSymbol = (index: number) =>
+    Math.floor(index / regionSize) * (regionSize + 2) +
+    1 +
+    (index % regionSize);
+  const bits = Array.from({ length: mappingSize }, (_, row) =>
+    Array.from({ length: mappingSize }, (_, column) =>
+      dark(toSymbol(row), toSymbol(column))
+    )
+  );
+
+  const codewords = new Uint8Array(
+    placeCodewords(mappingSize, mappingSize)
+      .slice(0, symbol.dataCodewords + symbol.eccCodewords)
+      .map(positions =>
+        positions.reduce(
+          (value, [row, column]) => (value << 1) | (bits[row][column] ? 1 : 0),
+          0
+        )
+      )
+  );
+  if (!correctErrors(DATA_MATRIX_FIELD, codewords, symbol.eccCodewords)) {
+    return null;
+  }
+
+  const text = decodeCodewords(codewords.subarray(0, symbol.dataCodewords));
+  return text === null
+    ? null
+    : { rawValue: text, cornerPoints: [topLeft, opposite, along, corner] };
+}
+
+// Find and decode every Data Matrix symbol in the image
+export function decodeDataMatrices(image: BinaryImage): DecodedSymbol[] {
+  return findDarkRegions(image)
+    .map(box => decodeBox(image, box))
+    .filter(symbol => symbol !== null);
+}
@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { requestCameraAccess, stopCamera } from './camera';
+import {
+  collectDiagnostics,
+  formatDiagnosticsReport,
+  measureFrames,
+} from './diagnostics';
+import {
+  FRONT_CAMERA,
+  createFakeMediaDevices,
+  installFakeMediaDevices,
+  type FakeMediaDevices,
+} from './test/fake-media-devices';
+
+let devices: FakeMediaDevices;
+let restore: () => void;
+
+beforeEach(() => {
+  devices = createFakeMediaDevices();
+  restore = installFakeMediaDevices(devices);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  stopCamera();
+  restore();
+});
+
+// A <video> that presents a frame every frameMs and counts drops
+function fakeVideo(frameMs: number, dropEvery = 0): HTMLVideoElement {
+  let total = 0;
+  let dropped = 0;
+  const callbacks = new Map<number, VideoFrameRequestCallback>();
+  let nextHandle = 1;
+
+  setInterval(() => {
+    total++;
+    if (dropEvery && total % dropEvery === 0) {
+      dropped++;
+      return;
+    }
+    const pending = [...callbacks.values()];
+    callbacks.clear();
+    pending.forEach(callback =>
+      callback(performance.now(), {
+        width: 640,
+        height: 480,
+      } as VideoFrameCallbackMetadata)
+    );
+  }, frameMs);
+
+  return {
+    videoWidth: 640,
+    videoHeight: 480,
+    requestVideoFrameCallback(callback: VideoFrameRequestCallback) {
+      callbacks.set(nextHandle, callback);
+      return nextHandle++;
+    },
+    cancelVideoFrameCallback(handle: number) {
+      callbacks.delete(handle);
+    },
+    getVideoPlaybackQuality: () =>
+      ({
+        totalVideoFrames: total,
+        droppedVideoFrames: dropped,
+      }) as VideoPlaybackQuality,
+  } as unknown as HTMLVideoElement;
+}
+
+describe('measureFrames', () => {
+  it('counts presented frames and dropped frames', async () => {
+    vi.useFakeTimers();
+    const video = fakeVideo(40, 5);
+
+    const measuring = measureFrames(video, 2000);
+    await vi.advanceTimersByTimeAsync(2000);
+    const measurement = await measuring;
+
+    expect(measurement).toMatchObject({
+      method: 'video-frame-callback',
+      durationMs: 2000,
+      frames: 40,
+      frameRate: 20,
+      resolutions: ['640×480'],
+      droppedFrames: 10,
+      totalFrames: 50,
+    });
+  });
+
+  it('falls back to the playback counters', async () => {
+    vi.useFakeTimers();
+    const video = fakeVideo(100);
+    Object.assign(video, { requestVideoFrameCallback: undefined });
+
+    const measuring = measureFrames(video, 1000);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(await measuring).toMatchObject({
+      method: 'playback-quality',
+      frames: 10,
+      frameRate: 10,
+    });
+  });
+});
+
+describe('collectDiagnostics', () => {
+  it('describes the active camera', async () => {
+    await requestCameraAccess();
+
+    const report = await collectDiagnostics();
+
+    expect(report.permission).toBe('granted');
+    expect(report.devices.map(device => device.label)).toContain(
+      FRONT_CAMERA.label
+    );
+    expect(report.track).toMatchObject({
+      label: FRONT_CAMERA.label,
+      profile: '1080p',
+      settings: { width: 1280, height: 720 },
+    });
+    expect(report.measurement).toBeNull();
+    expect(report.problems).toEqual([]);
+  });
+
+  it('reports the camera error and what it could not collect', async () => {
+    const report = await collectDiagnostics({
+      cameraError: { type: 'permission-denied', message: 'Denied' },
+    });
+
+    expect(report.track).toBeNull();
+    expect(report.cameraError).toEqual({
+      type: 'permission-denied',
+      message: 'Denied',
+    });
+    expect(report.problems).toEqual([
+      'No camera stream is active, so nothing was measured.',
+    ]);
+  });
+
+  it('survives JSON and reads as text', async () => {
+    await requestCameraAccess();
+    const report = await collectDiagnostics();
+
+    expect(JSON.parse(JSON.stringify(report))).toEqual(report);
+    const text = formatDiagnosticsReport(report);
+    expect(text).toContain('Camera permission: granted');
+    expect(text).toContain(`Active track: ${FRONT_CAMERA.label}`);
+    expect(text).toContain('Settings: 1280×720 @ 30 fps, facing user');
+  });
+});
@@ -0,0 +1,314 @@
+// A camera diagnostics report for support requests: devices, permission,
+// track settings, a short frame rate measurement and feature support, as
+// JSON for tooling and as plain text for people.
+
+import {
+  getActiveVideoTrack,
+  getCameraPermission,
+  getNegotiatedCamera,
+  listCameras,
+  type CameraController,
+  type CameraDevice,
+  type CameraError,
+  type CameraPermission,
+  type NegotiatedCamera,
+} from './camera';
+import {
+  detectCapabilities,
+  detectEnvironment,
+  type Capabilities,
+  type Environment,
+} from './environment';
+
+export interface TrackDiagnostics {
+  label: string;
+  readyState: MediaStreamTrackState;
+  muted: boolean;
+  // The capture profile camera.ts settled on, if it opened the track
+  profile?: string;
+  settings: MediaTrackSettings;
+  capabilities?: MediaTrackCapabilities;
+  constraints: MediaTrackConstraints;
+}
+
+export interface FrameMeasurement {
+  method: 'video-frame-callback' | 'playback-quality';
+  durationMs: number;
+  frames: number;
+  frameRate: number;
+  // Every frame size seen while measuring, like '1280×720'
+  resolutions: string[];
+  // From getVideoPlaybackQuality(), where the browser has it
+  droppedFrames?: number;
+  totalFrames?: number;
+}
+
+export interface DiagnosticsReport {
+  generatedAt: string;
+  userAgent: string;
+  environment: Environment;
+  permission: CameraPermission;
+  devices: CameraDevice[];
+  track: TrackDiagnostics | null;
+  measurement: FrameMeasurement | null;
+  cameraError: Pick<CameraError, 'type' | 'message'> | null;
+  capabilities: Capabilities | null;
+  // Anything that couldn't be collected, and why
+  problems: string[];
+}
+
+export interface DiagnosticsOptions {
+  // The element showing the camera, for the frame measurement
+  video?: HTMLVideoElement | null;
+  measureMs?: number;
+  // The last error the camera reported, if it failed to start
+  cameraError?: CameraError | null;
+  // Where the active track comes from, when it isn't camera.ts's own camera
+  camera?: Pick<
+    CameraController,
+    'getActiveVideoTrack' | 'getNegotiatedCamera'
+  >;
+}
+
+const DEFAULT_MEASURE_MS = 3000;
+
+function readPlaybackQuality(
+  video: HTMLVideoElement
+): VideoPlaybackQuality | null {
+  return typeof video.getVideoPlaybackQuality === 'function'
+    ? video.getVideoPlaybackQuality()
+    : null;
+}
+
+// Count the frames a <video> actually presents over a few seconds
+export async function measureFrames(
+  video: HTMLVideoElement,
+  durationMs: number = DEFAULT_MEASURE_MS
+): Promise<FrameMeasurement> {
+  const useCallbacks = typeof video.requestVideoFrameCallback === 'function';
+  const resolutions = new Set<string>();
+  const before = readPlaybackQuality(video);
+  let frames = 0;
+  let handle = 0;
+  let measuring = true;
+
+  const onFrame: VideoFrameRequestCallback = (_now, metadata) => {
+    if (!measuring) return;
+    frames++;
+    resolutions.add(`${metadata.width}×${metadata.height}`);
+    handle = video.requestVideoFrameCallback(onFrame);
+  };
+
+  const started = performance.now();
+  if (useCallbacks) {
+    handle = video.requestVideoFrameCallback(onFrame);
+  }
+  await new Promise(resolve => setTimeout(resolve, durationMs));
+  measuring = false;
+  if (useCallbacks) {
+    video.cancelVideoFrameCallback(handle);
+  }
+  const elapsed = performance.now() - started;
+  const after = readPlaybackQuality(video);
+
+  const totalFrames =
+    before && after
+      ? after.totalVideoFrames - before.totalVideoFrames
+      : undefined;
+  const droppedFrames =
+    before && after
+      ? after.droppedVideoFrames - before.droppedVideoFrames
+      : undefined;
+
+  // Without frame callbacks, the playback counters are all we have
+  if (!useCallbacks) {
+    frames = totalFrames ?? 0;
+    resolutions.add(`${video.videoWidth}×${video.videoHeight}`);
+  }
+
+  return {
+    method: useCallbacks ? 'video-frame-callback' : 'playback-quality',
+    durationMs: Math.round(elapsed),
+    frames,
+    frameRate: elapsed > 0 ? Math.round((frames / elapsed) * 10_000) / 10 : 0,
+    resolutions: [...resolutions],
+    droppedFrames,
+    totalFrames,
+  };
+}
+
+function describeTrack(
+  track: MediaStreamTrack,
+  negotiated: NegotiatedCamera | null
+): TrackDiagnostics {
+  return {
+    label: track.label,
+    readyState: track.readyState,
+    muted: track.muted,
+    profile: negotiated?.profile.name,
+    settings: track.getSettings(),
+    capabilities:
+      typeof track.getCapabilities === 'function'
+        ? track.getCapabilities()
+        : undefined,
+    constraints: track.getConstraints(),
+  };
+}
+
+function describeProblem(part: string, error: unknown): string {
+  const message =
+    (error as { message?: string })?.message || String(error) || 'unknown';
+  return `${part}: ${message}`;
+}
+
+// Gather everything into one report. Parts that fail are listed under
+// problems instead of failing the whole report.
+export async function collectDiagnostics(
+  options: DiagnosticsOptions = {}
+): Promise<DiagnosticsReport> {
+  const problems: string[] = [];
+  const attempt = async <T>(
+    part: string,
+    fallback: T,
+    read: () => T | Promise<T>
+  ) => {
+    try {
+      return await read();
+    } catch (error) {
+      problems.push(describeProblem(part, error));
+      return fallback;
+    }
+  };
+
+  const camera = options.camera ?? { getActiveVideoTrack, getNegotiatedCamera };
+  const track = camera.getActiveVideoTrack();
+  const video = options.video;
+  const measurement =
+    track && video
+      ? await attempt('frame measurement', null, () =>
+          measureFrames(video, options.measureMs)
+        )
+      : null;
+  if (!track) {
+    problems.push('No camera stream is active, so nothing was measured.');
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    userAgent: navigator.userAgent,
+    environment: detectEnvironment(),
+    permission: await attempt<CameraPermission>(
+      'permission',
+      'unknown',
+      getCameraPermission
+    ),
+    devices: await attempt('devices', [], listCameras),
+    track: track
+      ? await attempt('track', null, () =>
+          describeTrack(track, camera.getNegotiatedCamera())
+        )
+      : null,
+    measurement,
+    cameraError: options.cameraError
+      ? { type: options.cameraError.type, message: options.cameraError.message }
+      : null,
+    capabilities: await attempt('capabilities', null, detectCapabilities),
+    problems,
+  };
+}
+
+function yesNo(value: boolean): string {
+  return value ? 'yes' : 'no';
+}
+
+// Lay the report out as plain text, for pasting into a support ticket
+export function formatDiagnosticsReport(report: DiagnosticsReport): string {
+  const lines = [
+    'Camera diagnostics',
+    `Generated: ${report.generatedAt}`,
+    `Browser: ${report.environment.browser}${
+      report.environment.version ? ` ${report.environment.version}` : ''
+    } on ${report.environment.os} (${report.userAgent})`,
+    `Camera permission: ${report.permission}`,
+    '',
+    `Cameras (${report.devices.length}):`,
+    ...report.devices.map(
+      device => `  - ${device.label}${device.deviceId ? '' : ' (no ID yet)'}`
+    ),
+  ];
+
+  if (report.cameraError) {
+    lines.push(
+      '',
+      `Last camera error: ${report.cameraError.type}`,
+      `  ${report.cameraError.message}`
+    );
+  }
+
+  const { track, measurement } = report;
+  if (track) {
+    const { settings } = track;
+    lines.push(
+      '',
+      `Active track: ${track.label} (${track.readyState}${
+        track.muted ? ', muted' : ''
+      })`,
+      `  Profile: ${track.profile ?? 'unknown'}`,
+      `  Settings: ${settings.width ?? '?'}×${settings.height ?? '?'} @ ${
+        settings.frameRate ?? '?'
+      } fps${settings.facingMode ? `, facing ${settings.facingMode}` : ''}`
+    );
+    if (track.capabilities?.width && track.capabilities.height) {
+      lines.push(
+        `  Capabilities: up to ${track.capabilities.width.max}×${
+          track.capabilities.height.max
+        }${
+          track.capabilities.frameRate?.max
+            ? ` @ ${track.capabilities.frameRate.max} fps`
+            : ''
+        }`
+      );
+    }
+  }
+
+  if (measurement) {
+    lines.push(
+      '',
+      `Measured over ${(measurement.durationMs / 1000).toFixed(1)}s: ${
+        measurement.frameRate
+      } fps (${measurement.frames} frames) at ${
+        measurement.resolutions.join(', ') || 'unknown size'
+      }`
+    );
+    if (measurement.totalFrames !== undefined) {
+      lines.push(
+        `  Dropped ${measurement.droppedFrames} of ${measurement.totalFrames} frames`
+      );
+    }
+  }
+
+  const { capabilities } = report;
+  if (capabilities) {
+    lines.push(
+      '',
+      `Secure context: ${yesNo(capabilities.secureContext)}`,
+      `Camera access: ${yesNo(capabilities.getUserMedia)}`,
+      `ImageCapture: ${yesNo(capabilities.imageCapture)}`,
+      `Recording: ${
+        capabilities.mediaRecorder
+          ? capabilities.recordingMimeTypes.join(', ') || 'no known formats'
+          : 'no'
+      }`,
+      `WebAuthn: ${yesNo(capabilities.webAuthn)}`,
+      `  Platform authenticator: ${yesNo(capabilities.platformAuthenticator)}`,
+      `  Passkey autofill: ${yesNo(capabilities.conditionalMediation)}`,
+      `  PRF extension: ${yesNo(capabilities.prf)}`
+    );
+  }
+
+  if (report.problems.length > 0) {
+    lines.push('', 'Problems:', ...report.problems.map(item => `  - ${item}`));
+  }
+
+  return lines.join('\n');
+}
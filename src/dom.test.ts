@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { append, h, moveFocus, replaceChildren } from './dom';
+
+afterEach(() => {
+  document.body.replaceChildren();
+});
+
+describe('h', () => {
+  it('adds strings as text, never as markup', () => {
+    const element = h('p', {}, '<img src=x onerror="alert(1)">');
+
+    expect(element.textContent).toBe('<img src=x onerror="alert(1)">');
+    expect(element.querySelector('img')).toBeNull();
+  });
+
+  it('sets properties, and attributes for ARIA, data and role', () => {
+    const button = h('button', {
+      type: 'button',
+      className: 'button',
+      disabled: true,
+      role: 'switch',
+      'aria-pressed': false,
+      'aria-live': 'polite',
+      'data-filter': 'blur',
+      'data-ready': true,
+    });
+
+    expect(button.type).toBe('button');
+    expect(button.className).toBe('button');
+    expect(button.disabled).toBe(true);
+    expect(button.getAttribute('role')).toBe('switch');
+    expect(button.hasAttribute('aria-pressed')).toBe(false);
+    expect(button.getAttribute('aria-live')).toBe('polite');
+    expect(button.dataset.filter).toBe('blur');
+    expect(button.dataset.ready).toBe('');
+  });
+
+  it('flattens children and skips empty ones', () => {
+    const list = h(
+      'ul',
+      {},
+      ['a', 'b'].map(item => h('li', {}, item)),
+      false,
+      null,
+      undefined,
+      h('li', {}, 3)
+    );
+
+    expect([...list.children].map(item => item.textContent)).toEqual([
+      'a',
+      'b',
+      '3',
+    ]);
+  });
+
+  it('attaches event handlers', () => {
+    let clicks = 0;
+    const button = h('button', { onclick: () => clicks++ });
+
+    button.click();
+
+    expect(clicks).toBe(1);
+  });
+});
+
+describe('append and replaceChildren', () => {
+  it('add text safely to an existing element', () => {
+    const element = h('div', {}, 'old');
+
+    append(element, ' <b>new</b>');
+    expect(element.textContent).toBe('old <b>new</b>');
+
+    replaceChildren(element, h('strong', {}, 'Error:'), ' ', '<script>');
+    expect(element.innerHTML).toBe('<strong>Error:</strong> &lt;script&gt;');
+  });
+});
+
+describe('moveFocus', () => {
+  it('makes a heading focusable without adding it to the tab order', () => {
+    const heading = h('h2', {}, 'Passkeys');
+    document.body.append(heading);
+
+    moveFocus(heading);
+
+    expect(document.activeElement).toBe(heading);
+    expect(heading.getAttribute('tabindex')).toBe('-1');
+  });
+});
@@ -0,0 +1,70 @@
+// A tiny typed element builder. Children are always added as nodes or text,
+// never parsed as HTML, so messages from the browser, the server or the user
+// can't inject markup. There's deliberately no way to set innerHTML.
+
+type Props<E extends HTMLElement> = Partial<
+  Omit<E, 'innerHTML' | 'outerHTML' | 'style'>
+> & {
+  // Set as attributes: true for an empty attribute, false or undefined to
+  // leave it out
+  role?: string;
+  [attribute: `aria-${string}` | `data-${string}`]:
+    string | number | boolean | undefined;
+};
+
+export type Child = Node | string | number | false | null | undefined;
+
+function isAttribute(key: string): boolean {
+  return key === 'role' || key.includes('-');
+}
+
+// Create an element with the given properties, attributes and children
+export function h<K extends keyof HTMLElementTagNameMap>(
+  tag: K,
+  props: Props<HTMLElementTagNameMap[K]> = {},
+  ...children: (Child | Child[])[]
+): HTMLElementTagNameMap[K] {
+  const element = document.createElement(tag);
+
+  for (const [key, value] of Object.entries(props)) {
+    if (!isAttribute(key)) {
+      (element as unknown as Record<string, unknown>)[key] = value;
+    } else if (value === true) {
+      element.setAttribute(key, '');
+    } else if (value !== false && value !== undefined) {
+      element.setAttribute(key, String(value));
+    }
+  }
+
+  append(element, ...children);
+  return element;
+}
+
+// Append children, skipping empty ones and adding strings as text
+export function append(
+  parent: ParentNode,
+  ...children: (Child | Child[])[]
+): void {
+  for (const child of children.flat()) {
+    if (child === null || child === undefined || child === false) continue;
+    parent.append(child instanceof Node ? child : String(child));
+  }
+}
+
+// Swap all of an element's children
+export function replaceChildren(
+  parent: ParentNode,
+  ...children: (Child | Child[])[]
+): void {
+  parent.replaceChildren();
+  append(parent, ...children);
+}
+
+// Move keyboard focus to an element that isn't normally focusable, like a
+// heading or message, so screen readers carry on reading from there
+export function moveFocus(element: HTMLElement): void {
+  if (!element.hasAttribute('tabindex')) {
+    element.tabIndex = -1;
+  }
+  element.focus();
+}
@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyUserAgentData,
+  describeEnvironment,
+  parseUserAgent,
+  type Environment,
+} from './environment';
+import { getCameraHelp, getPasskeyHelp } from './help';
+
+const USER_AGENTS: [string, string, Partial<Environment>][] = [
+  [
+    'Chrome on Windows',
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36',
+    { os: 'windows', browser: 'chrome', version: 129, engine: 'blink' },
+  ],
+  [
+    'Edge on Windows',
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36 Edg/129.0.2792.65',
+    { os: 'windows', browser: 'edge', version: 129 },
+  ],
+  [
+    'Opera on Windows',
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/128.0.0.0 Safari/537.36 OPR/114.0.0.0',
+    { os: 'windows', browser: 'opera', version: 114 },
+  ],
+  [
+    'Safari on macOS',
+    'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/18.0 Safari/605.1.15',
+    { os: 'macos', browser: 'safari', version: 18, engine: 'webkit' },
+  ],
+  [
+    'Firefox on Linux',
+    'Mozilla/5.0 (X11; Linux x86_64; rv:131.0) Gecko/20100101 Firefox/131.0',
+    { os: 'linux', browser: 'firefox', version: 131, engine: 'gecko' },
+  ],
+  [
+    'Safari on iOS',
+    'Mozilla/5.0 (iPhone; CPU iPhone OS 18_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/18.0 Mobile/15E148 Safari/604.1',
+    { os: 'ios', browser: 'safari', version: 18, mobile: true },
+  ],
+  [
+    'Chrome on iOS',
+    'Mozilla/5.0 (iPhone; CPU iPhone OS 18_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) CriOS/129.0.6668.69 Mobile/15E148 Safari/604.1',
+    { os: 'ios', browser: 'chrome', version: 129, engine: 'webkit' },
+  ],
+  [
+    'Firefox on iOS',
+    'Mozilla/5.0 (iPhone; CPU iPhone OS 18_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) FxiOS/131.0 Mobile/15E148 Safari/605.1.15',
+    { os: 'ios', browser: 'firefox', engine: 'webkit' },
+  ],
+  [
+    'Chrome on Android',
+    'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Mobile Safari/537.36',
+    { os: 'android', browser: 'chrome', mobile: true },
+  ],
+  [
+    'Edge on Android',
+    'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Mobile Safari/537.36 EdgA/129.0.2792.84',
+    { os: 'android', browser: 'edge' },
+  ],
+  [
+    'Samsung Internet on Android',
+    'Mozilla/5.0 (Linux; Android 14; SM-S921B) AppleWebKit/537.36 (KHTML, like Gecko) SamsungBrowser/26.0 Chrome/122.0.0.0 Mobile Safari/537.36',
+    { os: 'android', browser: 'samsung', version: 26 },
+  ],
+  [
+    'Chrome on ChromeOS',
+    'Mozilla/5.0 (X11; CrOS x86_64 14541.0.0) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36',
+    { os: 'chromeos', browser: 'chrome' },
+  ],
+];
+
+describe('parseUserAgent', () => {
+  it.each(USER_AGENTS)('recognizes %s', (name, userAgent, expected) => {
+    const environment = parseUserAgent(userAgent);
+    expect(environment).toMatchObject(expected);
+    expect(describeEnvironment(environment)).toBe(name);
+  });
+
+  it('treats a touch-screen Mac as an iPad', () => {
+    const environment = parseUserAgent(USER_AGENTS[3][1], 5);
+    expect(environment).toMatchObject({ os: 'ios', mobile: true });
+  });
+
+  it('falls back to unknown', () => {
+    expect(parseUserAgent('curl/8.0')).toEqual({
+      os: 'unknown',
+      browser: 'unknown',
+      version: undefined,
+      engine: 'unknown',
+      mobile: false,
+    });
+  });
+});
+
+describe('applyUserAgentData', () => {
+  it('prefers the Client Hints brand and platform', () => {
+    const environment = applyUserAgentData(parseUserAgent(USER_AGENTS[0][1]), {
+      brands: [
+        { brand: 'Not)A;Brand', version: '99' },
+        { brand: 'Brave', version: '129' },
+        { brand: 'Chromium', version: '129' },
+      ],
+      mobile: false,
+      platform: 'macOS',
+    });
+
+    expect(environment).toEqual({
+      os: 'macos',
+      browser: 'brave',
+      version: 129,
+      engine: 'blink',
+      mobile: false,
+    });
+  });
+
+  it('keeps the User-Agent browser when no brand is known', () => {
+    const environment = applyUserAgentData(parseUserAgent(USER_AGENTS[0][1]), {
+      brands: [{ brand: 'Chromium', version: '129' }],
+      mobile: false,
+      platform: 'Windows',
+    });
+
+    expect(environment).toMatchObject({ browser: 'chrome', version: 129 });
+  });
+});
+
+describe('help', () => {
+  const environment = (name: string) =>
+    parseUserAgent(USER_AGENTS.find(([label]) => label === name)![1]);
+
+  it('sends iOS browsers other than Safari to the Settings app', () => {
+    const help = getCameraHelp(environment('Chrome on iOS'));
+
+    expect(help.title).toBe('Chrome on iOS');
+    expect(help.steps[0]).toBe(
+      'Open the Settings app and find Chrome in the app list'
+    );
+  });
+
+  it('adds the OS camera switch after the browser steps', () => {
+    const help = getCameraHelp(environment('Edge on Windows'));
+
+    expect(help.steps).toEqual([
+      'Click the lock icon in the address bar',
+      'Click "Permissions for this site"',
+      'Find "Camera" and select "Allow"',
+      expect.stringContaining('Let desktop apps access your camera'),
+      'Refresh the page and try again',
+    ]);
+  });
+
+  it('points Linux users at roaming authenticators', () => {
+    const help = getPasskeyHelp(environment('Firefox on Linux'));
+
+    expect(help.steps).toContain(
+      'Choose "Security key or phone" and use a USB key or your phone instead'
+    );
+  });
+
+  it('uses generic steps for an unknown browser', () => {
+    const help = getCameraHelp(parseUserAgent('curl/8.0'));
+
+    expect(help.title).toBe('your browser');
+    expect(help.steps).toHaveLength(3);
+  });
+});
@@ -0,0 +1,236 @@
+// What we're running on: the OS and browser, from User-Agent Client Hints
+// where the browser has them and the User-Agent string otherwise, plus the
+// concrete features the app depends on. Feature checks should be preferred
+// over the browser name; the name is for help text and diagnostics.
+
+import { checkImageCaptureSupport } from './capture';
+import { t } from './i18n';
+import { RECORDING_MIME_TYPES, checkRecorderSupport } from './recorder';
+import {
+  checkConditionalMediationSupport,
+  checkPlatformAuthenticatorSupport,
+  checkPrfSupport,
+  checkWebAuthnSupport,
+} from './webauthn';
+
+export type OperatingSystem =
+  'windows' | 'macos' | 'ios' | 'android' | 'chromeos' | 'linux' | 'unknown';
+
+export type BrowserFamily =
+  | 'chrome'
+  | 'edge'
+  | 'firefox'
+  | 'safari'
+  | 'opera'
+  | 'brave'
+  | 'samsung'
+  | 'unknown';
+
+export interface Environment {
+  os: OperatingSystem;
+  browser: BrowserFamily;
+  // Major version, when it could be determined
+  version?: number;
+  // Every browser on iOS is WebKit underneath, whatever its name
+  engine: 'blink' | 'gecko' | 'webkit' | 'unknown';
+  mobile: boolean;
+}
+
+export interface Capabilities {
+  secureContext: boolean;
+  getUserMedia: boolean;
+  imageCapture: boolean;
+  mediaRecorder: boolean;
+  // The RECORDING_MIME_TYPES this browser can record, best first
+  recordingMimeTypes: string[];
+  webAuthn: boolean;
+  platformAuthenticator: boolean;
+  conditionalMediation: boolean;
+  prf: boolean;
+}
+
+// User-Agent Client Hints aren't in lib.dom yet
+interface NavigatorUABrand {
+  brand: string;
+  version: string;
+}
+
+export interface NavigatorUAData {
+  brands: NavigatorUABrand[];
+  mobile: boolean;
+  platform: string;
+}
+
+// Checked in order: Chromium-based browsers also claim to be Chrome and
+// Safari, and Chrome and Firefox on iOS also claim to be Safari
+const BROWSER_PATTERNS: [BrowserFamily, RegExp][] = [
+  ['samsung', /samsungbrowser\/(\d+)/],
+  ['opera', /(?:opr|opt|opios)\/(\d+)/],
+  ['edge', /edg(?:e|a|ios)?\/(\d+)/],
+  ['brave', /brave\/(\d+)/],
+  ['firefox', /(?:firefox|fxios)\/(\d+)/],
+  ['chrome', /(?:chrome|crios)\/(\d+)/],
+  ['safari', /version\/(\d+)[\d.]* (?:mobile\/\S+ )?safari/],
+];
+
+const BRAND_FAMILIES: Record<string, BrowserFamily> = {
+  'Google Chrome': 'chrome',
+  'Microsoft Edge': 'edge',
+  Opera: 'opera',
+  Brave: 'brave',
+  'Samsung Internet': 'samsung',
+};
+
+const PLATFORMS: Record<string, OperatingSystem> = {
+  Windows: 'windows',
+  macOS: 'macos',
+  iOS: 'ios',
+  Android: 'android',
+  'Chrome OS': 'chromeos',
+  ChromeOS: 'chromeos',
+  Linux: 'linux',
+};
+
+function parseOperatingSystem(
+  userAgent: string,
+  maxTouchPoints: number
+): OperatingSystem {
+  if (/iphone|ipad|ipod/.test(userAgent)) return 'ios';
+  if (/android/.test(userAgent)) return 'android';
+  if (/cros/.test(userAgent)) return 'chromeos';
+  if (/windows/.test(userAgent)) return 'windows';
+  if (/macintosh|mac os x/.test(userAgent)) {
+    // iPadOS asks for desktop sites with a Mac User-Agent
+    return maxTouchPoints > 1 ? 'ios' : 'macos';
+  }
+  if (/linux/.test(userAgent)) return 'linux';
+  return 'unknown';
+}
+
+function engineFor(
+  os: OperatingSystem,
+  browser: BrowserFamily
+): Environment['engine'] {
+  if (os === 'ios') return 'webkit';
+
+  switch (browser) {
+    case 'firefox':
+      return 'gecko';
+    case 'safari':
+      return 'webkit';
+    case 'unknown':
+      return 'unknown';
+    default:
+      return 'blink';
+  }
+}
+
+// Read the environment from a User-Agent string
+export function parseUserAgent(
+  userAgentString: string,
+  maxTouchPoints = 0
+): Environment {
+  const userAgent = userAgentString.toLowerCase();
+  const os = parseOperatingSystem(userAgent, maxTouchPoints);
+
+  let browser: BrowserFamily = 'unknown';
+  let version: number | undefined;
+  for (const [family, pattern] of BROWSER_PATTERNS) {
+    const match = pattern.exec(userAgent);
+    if (match) {
+      browser = family;
+      version = Number(match[1]);
+      break;
+    }
+  }
+
+  return {
+    os,
+    browser,
+    version,
+    engine: engineFor(os, browser),
+    mobile: os === 'ios' || os === 'android' || /mobile/.test(userAgent),
+  };
+}
+
+// Refine a parsed User-Agent with Client Hints, which name Chromium-based
+// browsers reliably (Brave, for one, doesn't identify itself in the string)
+export function applyUserAgentData(
+  environment: Environment,
+  data: NavigatorUAData
+): Environment {
+  const os = PLATFORMS[data.platform] ?? environment.os;
+  const brand = data.brands.find(item => BRAND_FAMILIES[item.brand]);
+  const browser = brand ? BRAND_FAMILIES[brand.brand] : environment.browser;
+
+  return {
+    os,
+    browser,
+    version: brand ? Number(brand.version) : environment.version,
+    engine: engineFor(os, browser),
+    mobile: data.mobile,
+  };
+}
+
+// Work out the environment of the running browser
+export function detectEnvironment(): Environment {
+  const environment = parseUserAgent(
+    navigator.userAgent,
+    navigator.maxTouchPoints ?? 0
+  );
+  const data = (navigator as { userAgentData?: NavigatorUAData }).userAgentData;
+  return data ? applyUserAgentData(environment, data) : environment;
+}
+
+const BROWSER_NAMES: Record<Exclude<BrowserFamily, 'unknown'>, string> = {
+  chrome: 'Chrome',
+  edge: 'Edge',
+  firefox: 'Firefox',
+  safari: 'Safari',
+  opera: 'Opera',
+  brave: 'Brave',
+  samsung: 'Samsung Internet',
+};
+
+const OS_NAMES: Record<OperatingSystem, string> = {
+  windows: 'Windows',
+  macos: 'macOS',
+  ios: 'iOS',
+  android: 'Android',
+  chromeos: 'ChromeOS',
+  linux: 'Linux',
+  unknown: '',
+};
+
+// A readable browser name like "Samsung Internet"
+export function describeBrowser(browser: BrowserFamily): string {
+  return browser === 'unknown'
+    ? t('environment.unknown-browser')
+    : BROWSER_NAMES[browser];
+}
+
+// A readable name like "Chrome on Android"
+export function describeEnvironment(environment: Environment): string {
+  const browser = describeBrowser(environment.browser);
+  const os = OS_NAMES[environment.os];
+  return os ? t('environment.browser-on-os', { browser, os }) : browser;
+}
+
+// Check each feature the app uses
+export async function detectCapabilities(): Promise<Capabilities> {
+  const mediaRecorder = checkRecorderSupport();
+
+  return {
+    secureContext: window.isSecureContext,
+    getUserMedia: !!navigator.mediaDevices?.getUserMedia,
+    imageCapture: checkImageCaptureSupport(),
+    mediaRecorder,
+    recordingMimeTypes: mediaRecorder
+      ? RECORDING_MIME_TYPES.filter(type => MediaRecorder.isTypeSupported(type))
+      : [],
+    webAuthn: checkWebAuthnSupport(),
+    platformAuthenticator: await checkPlatformAuthenticatorSupport(),
+    conditionalMediation: await checkConditionalMediationSupport(),
+    prf: await checkPrfSupport(),
+  };
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createEventBus } from './events';
+
+interface TestEvents {
+  opened: { id: number };
+  closed: Record<string, never>;
+}
+
+describe('createEventBus', () => {
+  it('passes each event to the listeners for its name', () => {
+    const bus = createEventBus<TestEvents>();
+    const opened = vi.fn();
+    const closed = vi.fn();
+    bus.on('opened', opened);
+    bus.on('closed', closed);
+
+    bus.emit('opened', { id: 1 });
+    expect(opened).toHaveBeenCalledWith({ id: 1 });
+    expect(closed).not.toHaveBeenCalled();
+  });
+
+  it('stops calling removed listeners', () => {
+    const bus = createEventBus<TestEvents>();
+    const listener = vi.fn();
+    const off = bus.on('opened', listener);
+    const cleared = vi.fn();
+    bus.on('closed', cleared);
+
+    off();
+    bus.clear();
+    bus.emit('opened', { id: 2 });
+    bus.emit('closed', {});
+    expect(listener).not.toHaveBeenCalled();
+    expect(cleared).not.toHaveBeenCalled();
+  });
+
+  it('keeps notifying after a listener throws', () => {
+    const bus = createEventBus<TestEvents>();
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const after = vi.fn();
+    bus.on('opened', () => {
+      throw new Error('broken listener');
+    });
+    bus.on('opened', after);
+
+    bus.emit('opened', { id: 3 });
+    expect(after).toHaveBeenCalled();
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,45 @@
+// A typed event bus: each event name maps to the detail its listeners get,
+// so emitting the wrong payload or listening for a misspelled event is a
+// compile error.
+
+export type EventListener<Detail> = (detail: Detail) => void;
+
+export interface EventBus<Events extends object> {
+  // Returns a function that removes the listener
+  on<K extends keyof Events>(
+    type: K,
+    listener: EventListener<Events[K]>
+  ): () => void;
+  emit<K extends keyof Events>(type: K, detail: Events[K]): void;
+  // Remove every listener
+  clear(): void;
+}
+
+export function createEventBus<Events extends object>(): EventBus<Events> {
+  const listeners = new Map<keyof Events, Set<EventListener<never>>>();
+
+  return {
+    on(type, listener) {
+      let set = listeners.get(type);
+      if (!set) {
+        set = new Set();
+        listeners.set(type, set);
+      }
+      set.add(listener);
+      return () => set.delete(listener);
+    },
+    emit(type, detail) {
+      // A listener that throws shouldn't keep the others from hearing it
+      listeners.get(type)?.forEach(listener => {
+        try {
+          (listener as EventListener<typeof detail>)(detail);
+        } catch (error) {
+          console.error(`A ${String(type)} listener failed:`, error);
+        }
+      });
+    },
+    clear() {
+      listeners.clear();
+    },
+  };
+}
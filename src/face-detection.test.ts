@@ -0,0 +1,167 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  checkFaceDetectorSupport,
+  detectSkinRegions,
+  getFaceGuidance,
+  startFaceTracking,
+  type FaceBox,
+} from './face-detection';
+
+const SKIN = [224, 172, 140];
+const WALL = [40, 60, 90];
+
+// A solid background with skin-coloured rectangles painted on it
+function paint(width: number, height: number, patches: FaceBox[]): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inPatch = patches.some(
+        patch =>
+          x >= patch.x &&
+          x < patch.x + patch.width &&
+          y >= patch.y &&
+          y < patch.y + patch.height
+      );
+      data.set([...(inPatch ? SKIN : WALL), 255], (y * width + x) * 4);
+    }
+  }
+  return { data, width, height, colorSpace: 'srgb' } as ImageData;
+}
+
+describe('detectSkinRegions', () => {
+  it('finds a face-shaped patch of skin', () => {
+    const face = { x: 30, y: 20, width: 24, height: 30 };
+    expect(detectSkinRegions(paint(96, 72, [face]))).toEqual([face]);
+  });
+
+  it('ignores specks and wide strips', () => {
+    const regions = detectSkinRegions(
+      paint(96, 72, [
+        { x: 2, y: 2, width: 3, height: 3 },
+        { x: 0, y: 60, width: 96, height: 8 },
+      ])
+    );
+    expect(regions).toEqual([]);
+  });
+
+  it('puts the largest region first', () => {
+    const small = { x: 5, y: 5, width: 14, height: 18 };
+    const large = { x: 50, y: 20, width: 26, height: 34 };
+    expect(detectSkinRegions(paint(96, 72, [small, large]))).toEqual([
+      large,
+      small,
+    ]);
+  });
+});
+
+describe('getFaceGuidance', () => {
+  const frame = (face: FaceBox) => getFaceGuidance([face], 640, 480);
+
+  it('asks for a face when there is none', () => {
+    expect(getFaceGuidance([], 640, 480).message).toBe('No face detected');
+  });
+
+  it('asks for a single person', () => {
+    const face = { x: 0, y: 0, width: 100, height: 100 };
+    expect(getFaceGuidance([face, face], 640, 480)).toMatchObject({
+      faces: 2,
+      message: '2 faces detected, only one person please',
+    });
+  });
+
+  it.each([
+    [{ x: 300, y: 220, width: 40, height: 40 }, 'Move closer'],
+    [{ x: 50, y: 0, width: 540, height: 480 }, 'Move back a little'],
+    [{ x: 20, y: 20, width: 200, height: 240 }, 'Center your face'],
+    [{ x: 220, y: 120, width: 200, height: 240 }, 'Face centered'],
+  ])('guides %o with "%s"', (face, message) => {
+    expect(frame(face).message).toBe(message);
+  });
+
+  it('reports a framed face as centered and sized', () => {
+    expect(frame({ x: 220, y: 120, width: 200, height: 240 })).toEqual({
+      faces: 1,
+      centered: true,
+      sized: true,
+      approximate: false,
+      message: 'Face centered',
+    });
+  });
+
+  it('labels guidance from the skin-tone guess as approximate', () => {
+    const face = { x: 220, y: 120, width: 200, height: 240 };
+    expect(getFaceGuidance([face], 640, 480, true)).toMatchObject({
+      approximate: true,
+      message: 'Face centered (approximate)',
+    });
+  });
+});
+
+describe('startFaceTracking', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    delete (window as { FaceDetector?: unknown }).FaceDetector;
+  });
+
+  function fakeVideo(): HTMLVideoElement {
+    return {
+      readyState: 4,
+      videoWidth: 640,
+      videoHeight: 480,
+    } as HTMLVideoElement;
+  }
+
+  it('uses the Shape Detection API and throttles detections', async () => {
+    vi.useFakeTimers();
+    const detect = vi.fn(async () => [
+      {
+        boundingBox: new DOMRect(220, 120, 200, 240),
+      },
+    ]);
+    Object.assign(window, {
+      FaceDetector: class {
+        detect = detect;
+      },
+    });
+    expect(checkFaceDetectorSupport()).toBe(true);
+
+    const results: string[] = [];
+    const stop = startFaceTracking(
+      fakeVideo(),
+      document.createElement('canvas'),
+      {
+        intervalMs: 100,
+        onResult: (_faces, guidance) => results.push(guidance.message),
+      }
+    );
+
+    await vi.advanceTimersByTimeAsync(350);
+    expect(detect).toHaveBeenCalledTimes(3);
+    expect(results).toEqual([
+      'Face centered',
+      'Face centered',
+      'Face centered',
+    ]);
+
+    stop();
+    await vi.advanceTimersByTimeAsync(500);
+    expect(detect).toHaveBeenCalledTimes(3);
+  });
+
+  it('waits for the video to have a frame', async () => {
+    vi.useFakeTimers();
+    const detect = vi.fn(async () => []);
+    Object.assign(window, {
+      FaceDetector: class {
+        detect = detect;
+      },
+    });
+
+    const video = { ...fakeVideo(), readyState: 0 } as HTMLVideoElement;
+    const stop = startFaceTracking(video, document.createElement('canvas'));
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(detect).not.toHaveBeenCalled();
+    stop();
+  });
+});
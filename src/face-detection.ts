@@ -0,0 +1,399 @@
+// Face detection over the live <video>: the Shape Detection FaceDetector
+// where the browser has one. Everywhere else a skin-tone locator stands in:
+// it is no face detector, only a guess at where the one face in frame is, so
+// it never reports more than one, and its guidance is labelled approximate.
+// Results drive an overlay canvas and the "move closer" style guidance;
+// only the FaceDetector's ever feed a liveness check.
+
+import { t } from './i18n';
+
+// A facial feature as the Shape Detection API reports it: a single point,
+// or an outline on platforms that have one
+export interface FaceLandmark {
+  type: 'eye' | 'mouth' | 'nose';
+  // In video pixels
+  locations: { x: number; y: number }[];
+}
+
+export interface FaceBox {
+  // In video pixels
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Only the Shape Detection backend finds these
+  landmarks?: FaceLandmark[];
+}
+
+export interface FaceDetectorBackend {
+  name: 'shape-detection' | 'skin-tone';
+  detect(video: HTMLVideoElement): Promise<FaceBox[]>;
+}
+
+export interface FaceGuidance {
+  faces: number;
+  centered: boolean;
+  // Whether the face is a usable size, not too far and not too close
+  sized: boolean;
+  // Whether it rests on the skin-tone guess rather than a face detector
+  approximate: boolean;
+  message: string;
+}
+
+export interface FaceTrackingOptions {
+  // Minimum time between detections; the render loop keeps the rest
+  intervalMs?: number;
+  // Whether the overlay sits on a mirror image of the video detected on
+  mirrored?: () => boolean;
+  onResult?: (faces: FaceBox[], guidance: FaceGuidance) => void;
+}
+
+export interface FaceDetectionError {
+  type: 'not-supported';
+  message: string;
+}
+
+// The Shape Detection API isn't in lib.dom yet
+interface DetectedFace {
+  boundingBox: DOMRectReadOnly;
+  landmarks?: FaceLandmark[];
+}
+
+interface ShapeFaceDetector {
+  detect(image: ImageBitmapSource): Promise<DetectedFace[]>;
+}
+
+type FaceDetectorConstructor = new (options?: {
+  maxDetectedFaces?: number;
+  fastMode?: boolean;
+}) => ShapeFaceDetector;
+
+// A face should fill roughly this share of the frame's width
+const MIN_FACE_WIDTH = 0.25;
+const MAX_FACE_WIDTH = 0.65;
+// How far the face's center may drift from the frame's center
+const CENTER_TOLERANCE = 0.12;
+
+// The skin-tone detector works on a small copy of the frame
+const SAMPLE_WIDTH = 96;
+const MIN_REGION_SHARE = 0.02;
+
+const DEFAULT_INTERVAL_MS = 200;
+
+// HTMLMediaElement.HAVE_CURRENT_DATA: the current frame can be read
+const HAVE_CURRENT_DATA = 2;
+
+function getFaceDetectorConstructor(): FaceDetectorConstructor | undefined {
+  return (window as { FaceDetector?: FaceDetectorConstructor }).FaceDetector;
+}
+
+// Check if the browser has the Shape Detection FaceDetector
+export function checkFaceDetectorSupport(): boolean {
+  return typeof window !== 'undefined' && !!getFaceDetectorConstructor();
+}
+
+// Whether a pixel falls in the YCbCr range human skin occupies
+function isSkin(r: number, g: number, b: number): boolean {
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
+}
+
+// Find face-shaped patches of skin in a frame, largest first. Hands, arms
+// and skin-toned walls can pass too, so these are not faces, only places a
+// face might be.
+export function detectSkinRegions(image: ImageData): FaceBox[] {
+  const { width, height, data } = image;
+  const skin = new Uint8Array(width * height);
+  for (let i = 0; i < skin.length; i++) {
+    skin[i] = isSkin(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]) ? 1 : 0;
+  }
+
+  // Flood-fill the connected skin regions
+  const seen = new Uint8Array(width * height);
+  const regions: (FaceBox & { area: number })[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < skin.length; start++) {
+    if (!skin[start] || seen[start]) continue;
+
+    let minX = width;
+    let minY = height;
+    let maxX = 0;
+    let maxY = 0;
+    let area = 0;
+    seen[start] = 1;
+    stack.push(start);
+
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      const x = index % width;
+      const y = (index - x) / width;
+      area++;
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        y > 0 ? index - width : -1,
+        y < height - 1 ? index + width : -1,
+      ];
+      for (const next of neighbours) {
+        if (next >= 0 && skin[next] && !seen[next]) {
+          seen[next] = 1;
+          stack.push(next);
+        }
+      }
+    }
+
+    regions.push({
+      x: minX,
+      y: minY,
+      width: maxX - minX + 1,
+      height: maxY - minY + 1,
+      area,
+    });
+  }
+
+  // Faces are solid, roughly upright ovals; arms and walls usually aren't
+  return regions
+    .filter(region => {
+      const aspect = region.height / region.width;
+      const fill = region.area / (region.width * region.height);
+      return (
+        region.area >= width * height * MIN_REGION_SHARE &&
+        aspect >= 0.8 &&
+        aspect <= 2 &&
+        fill >= 0.45
+      );
+    })
+    .sort((a, b) => b.area - a.area)
+    .map(({ x, y, width, height }) => ({ x, y, width, height }));
+}
+
+function createShapeDetectionBackend(
+  FaceDetector: FaceDetectorConstructor
+): FaceDetectorBackend {
+  const detector = new FaceDetector({ maxDetectedFaces: 5, fastMode: true });
+
+  return {
+    name: 'shape-detection',
+    async detect(video) {
+      const faces = await detector.detect(video);
+      return faces.map(({ boundingBox, landmarks }) => ({
+        x: boundingBox.x,
+        y: boundingBox.y,
+        width: boundingBox.width,
+        height: boundingBox.height,
+        landmarks: landmarks?.map(({ type, locations }) => ({
+          type,
+          locations: locations.map(({ x, y }) => ({ x, y })),
+        })),
+      }));
+    },
+  };
+}
+
+function createSkinToneBackend(): FaceDetectorBackend {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    const error: FaceDetectionError = {
+      type: 'not-supported',
+      message: t('face.error.not-supported'),
+    };
+    throw error;
+  }
+
+  return {
+    name: 'skin-tone',
+    async detect(video) {
+      const scale = SAMPLE_WIDTH / video.videoWidth;
+      canvas.width = SAMPLE_WIDTH;
+      canvas.height = Math.max(1, Math.round(video.videoHeight * scale));
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+      const image = context.getImageData(0, 0, canvas.width, canvas.height);
+      // Other patches are as likely a hand as a second face, so only the
+      // largest is taken for the face
+      return detectSkinRegions(image)
+        .slice(0, 1)
+        .map(box => ({
+          x: box.x / scale,
+          y: box.y / scale,
+          width: box.width / scale,
+          height: box.height / scale,
+        }));
+    },
+  };
+}
+
+// The Shape Detection FaceDetector, or the skin-tone locator without it
+export function createFaceDetector(): FaceDetectorBackend {
+  const FaceDetector = getFaceDetectorConstructor();
+  return FaceDetector
+    ? createShapeDetectionBackend(FaceDetector)
+    : createSkinToneBackend();
+}
+
+// Turn the detected faces into one instruction for the user
+function frameFaces(
+  faces: FaceBox[],
+  frameWidth: number,
+  frameHeight: number
+): Omit<FaceGuidance, 'approximate'> {
+  if (faces.length === 0) {
+    return {
+      faces: 0,
+      centered: false,
+      sized: false,
+      message: t('face.none'),
+    };
+  }
+  if (faces.length > 1) {
+    return {
+      faces: faces.length,
+      centered: false,
+      sized: false,
+      message: t('face.several', { count: faces.length }),
+    };
+  }
+
+  const [face] = faces;
+  const share = face.width / frameWidth;
+  const offsetX = (face.x + face.width / 2) / frameWidth - 0.5;
+  const offsetY = (face.y + face.height / 2) / frameHeight - 0.5;
+  const centered =
+    Math.abs(offsetX) <= CENTER_TOLERANCE &&
+    Math.abs(offsetY) <= CENTER_TOLERANCE;
+  const sized = share >= MIN_FACE_WIDTH && share <= MAX_FACE_WIDTH;
+
+  let message = t('face.centered');
+  if (share < MIN_FACE_WIDTH) {
+    message = t('face.closer');
+  } else if (share > MAX_FACE_WIDTH) {
+    message = t('face.back');
+  } else if (!centered) {
+    message = t('face.center');
+  }
+
+  return { faces: 1, centered, sized, message };
+}
+
+// The instruction for the detected faces, marked as a guess when they're
+// only skin-tone regions
+export function getFaceGuidance(
+  faces: FaceBox[],
+  frameWidth: number,
+  frameHeight: number,
+  approximate = false
+): FaceGuidance {
+  const guidance = frameFaces(faces, frameWidth, frameHeight);
+  return {
+    ...guidance,
+    approximate,
+    message: approximate
+      ? t('face.approximate', { message: guidance.message })
+      : guidance.message,
+  };
+}
+
+// Draw the face boxes over a <video> shown with object-fit: cover
+function drawFaces(
+  canvas: HTMLCanvasElement,
+  video: HTMLVideoElement,
+  faces: FaceBox[],
+  guidance: FaceGuidance,
+  mirrored: boolean
+): void {
+  const context = canvas.getContext('2d');
+  if (!context) return;
+
+  const { clientWidth, clientHeight } = canvas;
+  canvas.width = clientWidth;
+  canvas.height = clientHeight;
+  context.clearRect(0, 0, clientWidth, clientHeight);
+
+  const scale = Math.max(
+    clientWidth / video.videoWidth,
+    clientHeight / video.videoHeight
+  );
+  const offsetX = (clientWidth - video.videoWidth * scale) / 2;
+  const offsetY = (clientHeight - video.videoHeight * scale) / 2;
+
+  context.lineWidth = 3;
+  context.strokeStyle =
+    guidance.centered && guidance.sized ? '#43e97b' : '#ffd166';
+  faces.forEach(face => {
+    const x = mirrored ? video.videoWidth - face.x - face.width : face.x;
+    context.strokeRect(
+      offsetX + x * scale,
+      offsetY + face.y * scale,
+      face.width * scale,
+      face.height * scale
+    );
+  });
+}
+
+// Run face detection over the video at a throttled rate and draw the results.
+// Returns a function that stops tracking and clears the overlay.
+export function startFaceTracking(
+  video: HTMLVideoElement,
+  overlay: HTMLCanvasElement,
+  options: FaceTrackingOptions = {}
+): () => void {
+  const intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+  const detector = createFaceDetector();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+
+  // Only one detection runs at a time, and the next waits for the interval,
+  // so a slow detector lowers its own rate instead of piling up frames
+  const tick = async () => {
+    const started = performance.now();
+    const ready =
+      !document.hidden &&
+      video.readyState >= HAVE_CURRENT_DATA &&
+      video.videoWidth > 0;
+
+    if (ready) {
+      try {
+        const faces = await detector.detect(video);
+        if (stopped) return;
+
+        const guidance = getFaceGuidance(
+          faces,
+          video.videoWidth,
+          video.videoHeight,
+          detector.name === 'skin-tone'
+        );
+        drawFaces(
+          overlay,
+          video,
+          faces,
+          guidance,
+          options.mirrored?.() ?? false
+        );
+        options.onResult?.(faces, guidance);
+      } catch (error) {
+        console.warn('Face detection failed:', error);
+      }
+    }
+
+    if (!stopped) {
+      const elapsed = performance.now() - started;
+      timer = setTimeout(tick, Math.max(intervalMs - elapsed, intervalMs / 2));
+    }
+  };
+
+  timer = setTimeout(tick, intervalMs);
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+    overlay.getContext('2d')?.clearRect(0, 0, overlay.width, overlay.height);
+  };
+}
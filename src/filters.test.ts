@@ -0,0 +1,203 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createFilterPipeline,
+  filterImage,
+  getFilters,
+  registerFilter,
+  type VideoFilterPlugin,
+} from './filters';
+import { createFakeStream } from './test/fake-media-devices';
+
+// Every canvas call, tagged with the canvas it was made on
+let calls: string[];
+const canvasNames = new WeakMap<HTMLCanvasElement, string>();
+
+function nameOf(source: unknown): string {
+  return source instanceof HTMLCanvasElement
+    ? (canvasNames.get(source) ?? '?')
+    : 'video';
+}
+
+// A 2D context that records what was drawn instead of drawing it
+function recordingContext(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
+  const name = () => canvasNames.get(canvas)!;
+  const record = (entry: string) => calls.push(`${name()}.${entry}`);
+  let filter = 'none';
+
+  return {
+    canvas,
+    get filter() {
+      return filter;
+    },
+    set filter(value: string) {
+      filter = value;
+      record(`filter=${value}`);
+    },
+    drawImage: (source: unknown) => record(`drawImage(${nameOf(source)})`),
+    clearRect: () => {},
+    save: () => {},
+    restore: () => {},
+    translate: () => record('translate'),
+    scale: () => record('scale'),
+    beginPath: () => {},
+    ellipse: () => {},
+    clip: () => record('clip'),
+  } as unknown as CanvasRenderingContext2D;
+}
+
+describe('filter registry', () => {
+  it('registers the built-in filters in order', () => {
+    expect(getFilters().map(filter => filter.id)).toEqual([
+      'grayscale',
+      'brightness-contrast',
+      'blur',
+      'mirror',
+      'background-blur',
+    ]);
+  });
+
+  it('rejects duplicate ids and can unregister', () => {
+    const sepia: VideoFilterPlugin<{ amount: number }> = {
+      id: 'sepia',
+      label: 'filters.title',
+      defaults: { amount: 1 },
+      apply() {},
+    };
+
+    const unregister = registerFilter(sepia);
+    expect(() => registerFilter(sepia)).toThrow(
+      expect.objectContaining({ type: 'duplicate-filter' })
+    );
+
+    unregister();
+    expect(getFilters().some(filter => filter.id === 'sepia')).toBe(false);
+  });
+});
+
+describe('createFilterPipeline', () => {
+  let canvasCount: number;
+
+  beforeEach(() => {
+    calls = [];
+    canvasCount = 0;
+    vi.useFakeTimers({ toFake: ['requestAnimationFrame'] });
+    // happy-dom doesn't decode video, so give every <video> a frame size
+    Object.defineProperties(HTMLVideoElement.prototype, {
+      videoWidth: { configurable: true, get: () => 64 },
+      videoHeight: { configurable: true, get: () => 48 },
+    });
+    vi.spyOn(HTMLMediaElement.prototype, 'play').mockResolvedValue();
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(
+      function (this: HTMLCanvasElement) {
+        const context = recordingContext(this);
+        // The output canvas is created first, then the two scratch canvases
+        canvasNames.set(
+          this,
+          ['output', 'scratchA', 'scratchB'][canvasCount++] ?? 'extra'
+        );
+        return context;
+      } as unknown as HTMLCanvasElement['getContext']
+    );
+    vi.spyOn(HTMLCanvasElement.prototype, 'captureStream').mockImplementation(
+      () => createFakeStream([])
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    const video = HTMLVideoElement.prototype as {
+      videoWidth?: number;
+      videoHeight?: number;
+    };
+    delete video.videoWidth;
+    delete video.videoHeight;
+  });
+
+  it('copies frames straight through without filters', () => {
+    const pipeline = createFilterPipeline(createFakeStream([]));
+    vi.advanceTimersToNextFrame();
+
+    expect(calls).toEqual(['output.drawImage(video)']);
+    pipeline.stop();
+  });
+
+  it('chains filters through the scratch canvases', () => {
+    const pipeline = createFilterPipeline(createFakeStream([]));
+    pipeline.setFilters([
+      { id: 'grayscale' },
+      { id: 'blur', settings: { radius: 2 } },
+      { id: 'mirror' },
+    ]);
+    vi.advanceTimersToNextFrame();
+
+    expect(calls).toEqual([
+      'scratchA.filter=grayscale(1)',
+      'scratchA.drawImage(video)',
+      'scratchB.filter=blur(2px)',
+      'scratchB.drawImage(scratchA)',
+      'output.translate',
+      'output.scale',
+      'output.drawImage(scratchB)',
+    ]);
+    pipeline.stop();
+  });
+
+  it('keeps drawing every frame until stopped', () => {
+    const pipeline = createFilterPipeline(createFakeStream([]));
+    vi.advanceTimersToNextFrame();
+    vi.advanceTimersToNextFrame();
+    expect(calls).toHaveLength(2);
+
+    pipeline.stop();
+    vi.advanceTimersToNextFrame();
+    expect(calls).toHaveLength(2);
+    expect(pipeline.stream.getVideoTracks()).toEqual([]);
+  });
+
+  it('rejects unknown filters', () => {
+    const pipeline = createFilterPipeline(createFakeStream([]));
+    expect(() => pipeline.setFilters([{ id: 'vhs' }])).toThrow(
+      expect.objectContaining({ type: 'unknown-filter' })
+    );
+    pipeline.stop();
+  });
+});
+
+describe('filterImage', () => {
+  beforeEach(() => {
+    calls = [];
+    let canvasCount = 0;
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(
+      function (this: HTMLCanvasElement) {
+        canvasNames.set(
+          this,
+          ['output', 'scratchA', 'scratchB'][canvasCount++] ?? 'extra'
+        );
+        return recordingContext(this);
+      } as unknown as HTMLCanvasElement['getContext']
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('draws a still through the same chain as the pipeline', () => {
+    const still = document.createElement('video');
+    const canvas = filterImage(
+      still,
+      [{ id: 'grayscale' }, { id: 'blur', settings: { radius: 2 } }],
+      64,
+      48
+    );
+
+    expect([canvas.width, canvas.height]).toEqual([64, 48]);
+    expect(calls).toEqual([
+      'scratchA.filter=grayscale(1)',
+      'scratchA.drawImage(video)',
+      'output.filter=blur(2px)',
+      'output.drawImage(scratchA)',
+    ]);
+  });
+});
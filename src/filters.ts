@@ -0,0 +1,373 @@
+// A video processing stage between the camera and the <video>: frames are
+// drawn through a chain of canvas filters and the result is exposed as a new
+// MediaStream, so recordings get the processed frames too. Photos are taken
+// from the camera itself and drawn through the same filters afterwards.
+
+import { t, type MessageKey } from './i18n';
+
+// Numeric settings only, so any filter can be driven by range inputs
+export type FilterSettings = Record<string, number>;
+
+export interface FilterControl<S extends FilterSettings = FilterSettings> {
+  key: keyof S & string;
+  // Looked up in the catalog when the controls are drawn
+  label: MessageKey;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface FilterFrame {
+  // The previous filter's output, or the camera frame for the first filter
+  input: CanvasImageSource;
+  output: CanvasRenderingContext2D;
+  width: number;
+  height: number;
+}
+
+// Implement this to add a filter. apply() draws input onto output; the
+// context is saved before and restored after, so it may change any state.
+export interface VideoFilterPlugin<S extends FilterSettings = FilterSettings> {
+  id: string;
+  // Looked up in the catalog when the controls are drawn
+  label: MessageKey;
+  defaults: S;
+  controls?: FilterControl<S>[];
+  apply(frame: FilterFrame, settings: S): void;
+}
+
+export interface ActiveFilter {
+  id: string;
+  // Missing settings fall back to the plugin's defaults
+  settings?: Partial<FilterSettings>;
+}
+
+export interface FilterPipelineOptions {
+  frameRate?: number;
+}
+
+export interface FilterPipeline {
+  // The processed video, plus the source's audio tracks
+  readonly stream: MediaStream;
+  setFilters(filters: ActiveFilter[]): void;
+  // Stops the processed tracks; the source stream is left running
+  stop(): void;
+}
+
+export interface FilterError {
+  type: 'not-supported' | 'duplicate-filter' | 'unknown-filter';
+  message: string;
+}
+
+interface ResolvedFilter {
+  plugin: VideoFilterPlugin;
+  settings: FilterSettings;
+}
+
+const DEFAULT_FRAME_RATE = 30;
+
+const registry = new Map<string, VideoFilterPlugin>();
+
+// Add a filter to the registry. Returns a function that removes it again.
+export function registerFilter<S extends FilterSettings>(
+  plugin: VideoFilterPlugin<S>
+): () => void {
+  if (registry.has(plugin.id)) {
+    const error: FilterError = {
+      type: 'duplicate-filter',
+      message: t('filters.error.duplicate', { id: plugin.id }),
+    };
+    throw error;
+  }
+
+  // Settings are only ever built from the plugin's own defaults, so storing
+  // it with the general settings type is safe
+  const entry = plugin as unknown as VideoFilterPlugin;
+  registry.set(plugin.id, entry);
+  return () => {
+    if (registry.get(plugin.id) === entry) {
+      registry.delete(plugin.id);
+    }
+  };
+}
+
+// Every registered filter, in registration order
+export function getFilters(): VideoFilterPlugin[] {
+  return [...registry.values()];
+}
+
+// Look up each active filter and fill in its default settings
+function resolveFilters(filters: ActiveFilter[]): ResolvedFilter[] {
+  return filters.map(({ id, settings }) => {
+    const plugin = registry.get(id);
+    if (!plugin) {
+      const error: FilterError = {
+        type: 'unknown-filter',
+        message: t('filters.error.unknown', { id }),
+      };
+      throw error;
+    }
+    return {
+      plugin,
+      settings: { ...plugin.defaults, ...settings } as FilterSettings,
+    };
+  });
+}
+
+// Check if the browser can turn a canvas back into a MediaStream
+export function checkFilterPipelineSupport(): boolean {
+  return (
+    typeof HTMLCanvasElement !== 'undefined' &&
+    typeof HTMLCanvasElement.prototype.captureStream === 'function'
+  );
+}
+
+function createContext(): CanvasRenderingContext2D {
+  const context = document.createElement('canvas').getContext('2d');
+  if (!context) {
+    const error: FilterError = {
+      type: 'not-supported',
+      message: t('filters.error.no-canvas'),
+    };
+    throw error;
+  }
+  return context;
+}
+
+function resize(
+  context: CanvasRenderingContext2D,
+  width: number,
+  height: number
+): void {
+  // Assigning the size clears the canvas, so only do it when it changes
+  if (context.canvas.width !== width || context.canvas.height !== height) {
+    context.canvas.width = width;
+    context.canvas.height = height;
+  }
+}
+
+// Draw one frame through the filter chain, ping-ponging between two scratch
+// canvases so each filter reads the previous one's output
+function renderFilters(
+  source: CanvasImageSource,
+  output: CanvasRenderingContext2D,
+  scratch: [CanvasRenderingContext2D, CanvasRenderingContext2D],
+  filters: ResolvedFilter[],
+  width: number,
+  height: number
+): void {
+  let input = source;
+
+  if (filters.length === 0) {
+    output.drawImage(input, 0, 0, width, height);
+    return;
+  }
+
+  filters.forEach(({ plugin, settings }, index) => {
+    const target = index === filters.length - 1 ? output : scratch[index % 2];
+    resize(target, width, height);
+    target.clearRect(0, 0, width, height);
+    target.save();
+    plugin.apply({ input, output: target, width, height }, settings);
+    target.restore();
+    input = target.canvas;
+  });
+}
+
+// Draw a single image through the filters onto a new canvas, for stills
+// taken from the camera rather than from the pipeline
+export function filterImage(
+  source: CanvasImageSource,
+  filters: ActiveFilter[],
+  width: number,
+  height: number
+): HTMLCanvasElement {
+  const output = createContext();
+  resize(output, width, height);
+  renderFilters(
+    source,
+    output,
+    [createContext(), createContext()],
+    resolveFilters(filters),
+    width,
+    height
+  );
+  return output.canvas;
+}
+
+// Start drawing the source stream through the filters
+export function createFilterPipeline(
+  source: MediaStream,
+  options: FilterPipelineOptions = {}
+): FilterPipeline {
+  if (!checkFilterPipelineSupport()) {
+    const error: FilterError = {
+      type: 'not-supported',
+      message: t('filters.error.not-supported'),
+    };
+    throw error;
+  }
+
+  const output = createContext();
+  const scratch: [CanvasRenderingContext2D, CanvasRenderingContext2D] = [
+    createContext(),
+    createContext(),
+  ];
+  let filters: ResolvedFilter[] = [];
+  let stopped = false;
+  let frameHandle = 0;
+
+  // The source plays in a detached <video> we can draw from
+  const sourceVideo = document.createElement('video');
+  sourceVideo.muted = true;
+  sourceVideo.playsInline = true;
+  sourceVideo.srcObject = source;
+  sourceVideo.play().catch(() => {});
+
+  const stream = output.canvas.captureStream(
+    options.frameRate ?? DEFAULT_FRAME_RATE
+  );
+  source.getAudioTracks().forEach(track => stream.addTrack(track));
+
+  // Draw once per decoded camera frame where the browser can tell us about
+  // them, and once per display frame otherwise
+  const useVideoFrames =
+    typeof sourceVideo.requestVideoFrameCallback === 'function';
+  const scheduleFrame = () => {
+    frameHandle = useVideoFrames
+      ? sourceVideo.requestVideoFrameCallback(drawFrame)
+      : requestAnimationFrame(drawFrame);
+  };
+
+  function drawFrame(): void {
+    if (stopped) return;
+
+    const { videoWidth: width, videoHeight: height } = sourceVideo;
+    if (width > 0 && height > 0) {
+      resize(output, width, height);
+      renderFilters(sourceVideo, output, scratch, filters, width, height);
+    }
+    scheduleFrame();
+  }
+
+  scheduleFrame();
+
+  return {
+    stream,
+
+    setFilters(next) {
+      filters = resolveFilters(next);
+    },
+
+    stop() {
+      stopped = true;
+      if (useVideoFrames) {
+        sourceVideo.cancelVideoFrameCallback(frameHandle);
+      } else {
+        cancelAnimationFrame(frameHandle);
+      }
+      stream.getVideoTracks().forEach(track => track.stop());
+      sourceVideo.pause();
+      sourceVideo.srcObject = null;
+    },
+  };
+}
+
+export const grayscaleFilter: VideoFilterPlugin<{ amount: number }> = {
+  id: 'grayscale',
+  label: 'filters.grayscale',
+  defaults: { amount: 1 },
+  controls: [
+    { key: 'amount', label: 'filters.amount', min: 0, max: 1, step: 0.05 },
+  ],
+  apply({ input, output, width, height }, { amount }) {
+    output.filter = `grayscale(${amount})`;
+    output.drawImage(input, 0, 0, width, height);
+  },
+};
+
+export const brightnessContrastFilter: VideoFilterPlugin<{
+  brightness: number;
+  contrast: number;
+}> = {
+  id: 'brightness-contrast',
+  label: 'filters.brightness-contrast',
+  defaults: { brightness: 1, contrast: 1 },
+  controls: [
+    {
+      key: 'brightness',
+      label: 'filters.brightness',
+      min: 0,
+      max: 2,
+      step: 0.05,
+    },
+    { key: 'contrast', label: 'filters.contrast', min: 0, max: 2, step: 0.05 },
+  ],
+  apply({ input, output, width, height }, { brightness, contrast }) {
+    output.filter = `brightness(${brightness}) contrast(${contrast})`;
+    output.drawImage(input, 0, 0, width, height);
+  },
+};
+
+export const blurFilter: VideoFilterPlugin<{ radius: number }> = {
+  id: 'blur',
+  label: 'filters.blur',
+  defaults: { radius: 4 },
+  controls: [
+    { key: 'radius', label: 'filters.radius', min: 0, max: 20, step: 1 },
+  ],
+  apply({ input, output, width, height }, { radius }) {
+    output.filter = `blur(${radius}px)`;
+    output.drawImage(input, 0, 0, width, height);
+  },
+};
+
+export const mirrorFilter: VideoFilterPlugin<Record<string, never>> = {
+  id: 'mirror',
+  label: 'filters.mirror',
+  defaults: {},
+  apply({ input, output, width, height }) {
+    output.translate(width, 0);
+    output.scale(-1, 1);
+    output.drawImage(input, 0, 0, width, height);
+  },
+};
+
+// Without a segmentation model this keeps an oval where a head and shoulders
+// usually are sharp, and blurs everything around it
+export const backgroundBlurFilter: VideoFilterPlugin<{
+  radius: number;
+  subject: number;
+}> = {
+  id: 'background-blur',
+  label: 'filters.background-blur',
+  defaults: { radius: 12, subject: 0.6 },
+  controls: [
+    { key: 'radius', label: 'filters.radius', min: 0, max: 30, step: 1 },
+    { key: 'subject', label: 'filters.subject', min: 0.2, max: 1, step: 0.05 },
+  ],
+  apply({ input, output, width, height }, { radius, subject }) {
+    output.filter = `blur(${radius}px)`;
+    output.drawImage(input, 0, 0, width, height);
+
+    output.filter = 'none';
+    output.beginPath();
+    output.ellipse(
+      width / 2,
+      height * 0.55,
+      (width * subject) / 2,
+      (height * subject) / 1.6,
+      0,
+      0,
+      Math.PI * 2
+    );
+    output.clip();
+    output.drawImage(input, 0, 0, width, height);
+  },
+};
+
+registerFilter(grayscaleFilter);
+registerFilter(brightnessContrastFilter);
+registerFilter(blurFilter);
+registerFilter(mirrorFilter);
+registerFilter(backgroundBlurFilter);
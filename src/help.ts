@@ -0,0 +1,165 @@
+// Step-by-step help for unblocking the camera and setting up passkeys. The
+// steps depend on both the browser and the OS: the site permission lives in
+// the browser, but the OS can block the browser itself, and iOS browsers all
+// share Safari's settings.
+
+import {
+  describeBrowser,
+  describeEnvironment,
+  detectEnvironment,
+  type Environment,
+} from './environment';
+import { t } from './i18n';
+
+export interface HelpInstructions {
+  // Like "Chrome on Android", or "your browser" when we can't tell
+  title: string;
+  steps: string[];
+}
+
+// Where the site's camera permission lives in each browser
+function cameraSiteSteps({ os, browser }: Environment): string[] {
+  if (os === 'ios') {
+    return browser === 'safari'
+      ? [
+          t('help.camera.ios-safari-settings'),
+          t('help.camera.ios-safari-allow'),
+        ]
+      : [
+          t('help.camera.ios-app-settings', {
+            browser: describeBrowser(browser),
+          }),
+          t('help.camera.ios-app-allow'),
+        ];
+  }
+
+  if (os === 'android') {
+    return [
+      t('help.camera.android-site-icon'),
+      t('help.camera.android-allow'),
+    ];
+  }
+
+  switch (browser) {
+    case 'firefox':
+      return [
+        t('help.camera.address-bar-icon'),
+        t('help.camera.firefox-remove'),
+        t('help.camera.firefox-enable'),
+      ];
+    case 'safari':
+      return [
+        t('help.camera.safari-settings'),
+        t('help.camera.select-allow'),
+      ];
+    case 'edge':
+      return [
+        t('help.camera.edge-lock'),
+        t('help.camera.edge-permissions'),
+        t('help.camera.select-allow'),
+      ];
+    case 'chrome':
+    case 'brave':
+    case 'opera':
+      return [
+        t('help.camera.address-bar-icon'),
+        t('help.camera.chromium-always-allow'),
+        t('help.camera.chromium-done'),
+      ];
+    default:
+      return [
+        t('help.camera.generic-icon'),
+        t('help.camera.generic-allow'),
+      ];
+  }
+}
+
+// Where the OS can block the browser from every camera
+function cameraSystemSteps({ os }: Environment): string[] {
+  switch (os) {
+    case 'macos':
+      return [
+        t('help.camera.macos-system'),
+      ];
+    case 'windows':
+      return [
+        t('help.camera.windows-system'),
+      ];
+    case 'android':
+      return [
+        t('help.camera.android-system'),
+      ];
+    default:
+      return [];
+  }
+}
+
+// Where each OS keeps its built-in authenticator
+function passkeySystemSteps({ os, browser }: Environment): string[] {
+  switch (os) {
+    case 'windows':
+      return [
+        t('help.passkey.windows-settings'),
+        t('help.passkey.windows-hello'),
+      ];
+    case 'macos':
+      return browser === 'firefox'
+        ? [
+            t('help.passkey.macos-firefox-touch-id'),
+            t('help.passkey.macos-firefox-allow'),
+          ]
+        : [
+            t('help.passkey.macos-settings'),
+            t('help.passkey.macos-touch-id'),
+          ];
+    case 'ios':
+      return [
+        t('help.passkey.ios-biometrics'),
+        t('help.passkey.ios-keychain'),
+      ];
+    case 'android':
+      return [
+        t('help.passkey.android-lock'),
+        browser === 'samsung'
+          ? t('help.passkey.android-samsung')
+          : t('help.passkey.android-google'),
+      ];
+    case 'chromeos':
+      return [t('help.passkey.chromeos')];
+    case 'linux':
+      return [
+        t('help.passkey.linux-none'),
+        t('help.passkey.linux-roaming'),
+      ];
+    default:
+      return [
+        t('help.passkey.generic-biometrics'),
+        t('help.passkey.generic-update'),
+        t('help.passkey.generic-browsers'),
+      ];
+  }
+}
+
+// How to let this site use the camera
+export function getCameraHelp(
+  environment: Environment = detectEnvironment()
+): HelpInstructions {
+  return {
+    title: describeEnvironment(environment),
+    steps: [
+      ...cameraSiteSteps(environment),
+      ...cameraSystemSteps(environment),
+      t('help.reload'),
+    ],
+  };
+}
+
+// How to get a working passkey authenticator
+export function getPasskeyHelp(
+  environment: Environment = detectEnvironment()
+): HelpInstructions {
+  return {
+    title: describeEnvironment(environment),
+    steps: [...passkeySystemSteps(environment), t('help.reload')],
+  };
+}
@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { h } from './dom';
+import {
+  LOCALES,
+  createTranslator,
+  detectLocale,
+  getLocale,
+  localizeDocument,
+  localized,
+  onLocaleChange,
+  setLocale,
+  t,
+} from './i18n';
+
+afterEach(() => {
+  setLocale('en');
+  localStorage.clear();
+  document.body.innerHTML = '';
+});
+
+describe('detectLocale', () => {
+  it('picks the first supported language', () => {
+    expect(detectLocale(['fr-FR', 'ar-EG', 'en-US'])).toBe('ar');
+    expect(detectLocale(['en-GB', 'ar'])).toBe('en');
+  });
+
+  it('falls back to English', () => {
+    expect(detectLocale(['fr', 'de'])).toBe('en');
+    expect(detectLocale([])).toBe('en');
+  });
+});
+
+describe('t', () => {
+  it('fills in placeholders', () => {
+    expect(t('auth.verified', { username: 'alice' })).toBe(
+      'Authentication successful! alice has been verified.'
+    );
+  });
+
+  it('leaves placeholders without a value alone', () => {
+    expect(t('passkeys.account')).toBe('Signed in as {username}');
+  });
+
+  it('picks the English plural form', () => {
+    expect(t('passkeys.count', { count: 1 })).toBe('1 passkey');
+    expect(t('passkeys.count', { count: 3 })).toBe('3 passkeys');
+  });
+
+  it('picks the Arabic plural forms', () => {
+    setLocale('ar');
+    const number = new Intl.NumberFormat('ar');
+
+    expect(t('passkeys.count', { count: 0 })).toBe('لا توجد مفاتيح مرور');
+    expect(t('passkeys.count', { count: 2 })).toBe('مفتاحا مرور');
+    expect(t('passkeys.count', { count: 5 })).toBe(
+      `${number.format(5)} مفاتيح مرور`
+    );
+    expect(t('face.several', { count: 11 })).toBe(
+      `تم اكتشاف ${number.format(11)} وجهًا، شخص واحد فقط من فضلك`
+    );
+  });
+});
+
+describe('createTranslator', () => {
+  it('uses the overrides in every language and the catalog otherwise', () => {
+    const translate = createTranslator({
+      'camera.enable': 'Open {name}',
+      'passkeys.count': { one: 'One key', other: '{count} keys' },
+    });
+
+    expect(translate('camera.enable', { name: 'scanner' })).toBe(
+      'Open scanner'
+    );
+    expect(translate('passkeys.count', { count: 2 })).toBe('2 keys');
+    setLocale('ar');
+    expect(translate('camera.enable', { name: 'scanner' })).toBe(
+      'Open scanner'
+    );
+    expect(translate('camera.stop')).toBe(t('camera.stop'));
+  });
+});
+
+describe('setLocale', () => {
+  it('remembers the choice and notifies listeners', () => {
+    const listener = vi.fn();
+    const stop = onLocaleChange(listener);
+
+    setLocale('ar');
+    setLocale('ar');
+
+    expect(getLocale()).toBe('ar');
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith('ar');
+    expect(localStorage.getItem('app_locale')).toBe('ar');
+    stop();
+  });
+});
+
+describe('localizeDocument', () => {
+  it('translates marked elements and sets the direction', () => {
+    document.body.replaceChildren(
+      h('button', localized('camera.enable')),
+      h('input', localized('auth.username', 'aria-label'))
+    );
+
+    setLocale('ar');
+    localizeDocument();
+
+    expect(document.documentElement.dir).toBe('rtl');
+    expect(document.documentElement.lang).toBe('ar');
+    expect(document.querySelector('button')!.textContent).toBe(
+      LOCALES.ar.catalog['camera.enable']
+    );
+    expect(document.querySelector('input')!.getAttribute('aria-label')).toBe(
+      'اسم المستخدم'
+    );
+  });
+});
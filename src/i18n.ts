@@ -0,0 +1,180 @@
+// Translated UI text. The English catalog defines the keys, and every other
+// locale is typed against it, so a missing or misspelled translation is a
+// compile error. Messages interpolate {name} placeholders and can pick a
+// plural form by {count}.
+//
+// Diagnostics reports and the credential inspector stay in English: they're
+// read by developers and support, not the person holding the camera.
+
+import { ar } from './locales/ar';
+import { en } from './locales/en';
+
+// The forms Intl.PluralRules picks from; 'other' is always required
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & {
+  other: string;
+};
+
+export type Message = string | PluralMessage;
+
+export type MessageKey = keyof typeof en;
+
+export type Catalog = Record<MessageKey, Message>;
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+// Wording an embedding app puts in place of the catalog's
+export type MessageOverrides = Partial<Record<MessageKey, Message>>;
+
+export type Locale = 'en' | 'ar';
+
+export interface LocaleInfo {
+  // The language's own name, for the switcher
+  name: string;
+  dir: 'ltr' | 'rtl';
+  catalog: Catalog;
+}
+
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  en: { name: 'English', dir: 'ltr', catalog: en },
+  ar: { name: 'العربية', dir: 'rtl', catalog: ar },
+};
+
+// Attributes localizeElements() can fill in besides the text
+export type LocalizedAttribute =
+  'placeholder' | 'aria-label' | 'data-placeholder';
+
+const LOCALIZED_ATTRIBUTES: LocalizedAttribute[] = [
+  'placeholder',
+  'aria-label',
+  'data-placeholder',
+];
+
+const LOCALE_STORAGE_KEY = 'app_locale';
+
+type LocaleListener = (locale: Locale) => void;
+
+const listeners = new Set<LocaleListener>();
+
+function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && Object.hasOwn(LOCALES, value);
+}
+
+// Pick the first supported language from the user's preferences
+export function detectLocale(
+  languages: readonly string[] = navigator.languages ?? [navigator.language]
+): Locale {
+  for (const language of languages) {
+    const base = language.toLowerCase().split('-')[0];
+    if (isLocale(base)) return base;
+  }
+  return 'en';
+}
+
+// A locale picked in the switcher wins over the browser's languages
+function readStoredLocale(): Locale | null {
+  try {
+    const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+    return isLocale(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+let currentLocale: Locale = readStoredLocale() ?? detectLocale();
+
+export function getLocale(): Locale {
+  return currentLocale;
+}
+
+// Switch the language, remember it, and tell the UI to re-render
+export function setLocale(locale: Locale): void {
+  try {
+    localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+  } catch (error) {
+    console.warn('Failed to remember the language:', error);
+  }
+
+  if (locale === currentLocale) return;
+  currentLocale = locale;
+  listeners.forEach(listener => listener(locale));
+}
+
+// Run the listener whenever the language changes
+export function onLocaleChange(listener: LocaleListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function formatParam(value: string | number): string {
+  return typeof value === 'number'
+    ? new Intl.NumberFormat(currentLocale).format(value)
+    : value;
+}
+
+// Pick the plural form and fill in the placeholders
+function format(message: Message, params: MessageParams): string {
+  const text =
+    typeof message === 'string'
+      ? message
+      : (message[
+          new Intl.PluralRules(currentLocale).select(Number(params.count ?? 0))
+        ] ?? message.other);
+
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    Object.hasOwn(params, name) ? formatParam(params[name]) : placeholder
+  );
+}
+
+// Look up a message in the current language and fill in its placeholders
+export function t(key: MessageKey, params: MessageParams = {}): string {
+  return format(LOCALES[currentLocale].catalog[key], params);
+}
+
+// Like t(), with some messages replaced, in every language, by the
+// embedding app's own wording
+export function createTranslator(overrides: MessageOverrides = {}): Translate {
+  return (key, params = {}) => {
+    const override = overrides[key];
+    return override === undefined ? t(key, params) : format(override, params);
+  };
+}
+
+// Mark up an element for localizeElements(): its text by default, or one
+// of its attributes. Spread the result into the element's h() props.
+export function localized(
+  key: MessageKey,
+  attribute?: LocalizedAttribute
+): Record<`data-${string}`, string> {
+  return { [`data-i18n${attribute ? `-${attribute}` : ''}`]: key };
+}
+
+// Fill in every element under root that was marked with localized()
+export function localizeElements(
+  root: ParentNode,
+  translate: Translate = t
+): void {
+  root.querySelectorAll<HTMLElement>('[data-i18n]').forEach(element => {
+    element.textContent = translate(element.dataset.i18n as MessageKey);
+  });
+
+  LOCALIZED_ATTRIBUTES.forEach(attribute => {
+    const marker = `data-i18n-${attribute}`;
+    root.querySelectorAll(`[${marker}]`).forEach(element => {
+      element.setAttribute(
+        attribute,
+        translate(element.getAttribute(marker) as MessageKey)
+      );
+    });
+  });
+}
+
+// Set the page's language and direction, and localize all of it
+export function localizeDocument(): void {
+  document.documentElement.lang = currentLocale;
+  document.documentElement.dir = LOCALES[currentLocale].dir;
+  localizeElements(document);
+}
@@ -0,0 +1,195 @@
+import { describe, expect, it } from 'vitest';
+import { lookupAuthenticatorName, formatAaguid } from './aaguids';
+import { parseAttestationObject } from './attestation';
+import { parseAuthenticatorData } from './authenticator-data';
+import { decodeCbor } from './cbor';
+import { derToRawSignature, parseCoseKey, verifyCoseSignature } from './cose';
+import { fromBase64Url } from './encoding';
+import {
+  describeCbor,
+  inspectAuthentication,
+  inspectCredentialResponse,
+  inspectRegistration,
+} from './inspector';
+import {
+  RECORDED_AUTHENTICATION,
+  RECORDED_REGISTRATION,
+} from './test/fixtures';
+
+const LOCALHOST_HASH =
+  '49960de5880e8c687434170f6476605b8fe4aeb9a28632c7995cf3ba831d9763';
+
+function recordedPublicKey(): Uint8Array {
+  const { authData } = parseAttestationObject(
+    fromBase64Url(RECORDED_REGISTRATION.response.attestationObject)
+  );
+  return parseAuthenticatorData(authData).attestedCredentialData!.publicKey;
+}
+
+describe('decodeCbor', () => {
+  it('decodes maps, byte strings, negative integers and simple values', () => {
+    const value = decodeCbor(
+      new Uint8Array([
+        0xa3, 0x01, 0x42, 0xca, 0xfe, 0x20, 0xf5, 0x61, 0x61, 0xf6,
+      ])
+    );
+    expect(value).toEqual(
+      new Map<unknown, unknown>([
+        [1, new Uint8Array([0xca, 0xfe])],
+        [-1, true],
+        ['a', null],
+      ])
+    );
+  });
+
+  it.each([
+    ['truncated', [0x42, 0x01]],
+    ['unsupported', [0x5f]],
+    ['trailing-bytes', [0x01, 0x02]],
+  ])('reports %s input', (type, bytes) => {
+    expect(() => decodeCbor(new Uint8Array(bytes))).toThrow(
+      expect.objectContaining({ type })
+    );
+  });
+});
+
+describe('parseAttestationObject', () => {
+  it('decodes the recorded attestation', () => {
+    const attestation = parseAttestationObject(
+      fromBase64Url(RECORDED_REGISTRATION.response.attestationObject)
+    );
+    expect(attestation.fmt).toBe('none');
+    expect(attestation.attStmt.size).toBe(0);
+    expect(attestation.authData).toHaveLength(148);
+  });
+
+  it('rejects objects without authData', () => {
+    expect(() => parseAttestationObject(new Uint8Array([0xa0]))).toThrow(
+      expect.objectContaining({ type: 'malformed-attestation' })
+    );
+  });
+});
+
+describe('COSE keys', () => {
+  it('parses the recorded ES256 key', () => {
+    const key = parseCoseKey(recordedPublicKey());
+    expect(key).toMatchObject({ kty: 2, alg: -7, crv: 1 });
+    expect(key.x).toHaveLength(32);
+    expect(key.y).toHaveLength(32);
+  });
+
+  it('verifies the recorded assertion signature', async () => {
+    const { response } = RECORDED_AUTHENTICATION;
+    const authData = fromBase64Url(response.authenticatorData);
+    const clientDataHash = new Uint8Array(
+      await crypto.subtle.digest(
+        'SHA-256',
+        fromBase64Url(response.clientDataJSON)
+      )
+    );
+    const signed = new Uint8Array([...authData, ...clientDataHash]);
+    const signature = fromBase64Url(response.signature);
+
+    expect(
+      await verifyCoseSignature(recordedPublicKey(), signature, signed)
+    ).toBe(true);
+
+    signed[0] ^= 1;
+    expect(
+      await verifyCoseSignature(recordedPublicKey(), signature, signed)
+    ).toBe(false);
+  });
+
+  it('converts DER signatures to fixed-size r||s', () => {
+    const raw = derToRawSignature(
+      new Uint8Array([0x30, 0x07, 0x02, 0x02, 0x00, 0x80, 0x02, 0x01, 0x01]),
+      2
+    );
+    expect([...raw]).toEqual([0x00, 0x80, 0x00, 0x01]);
+  });
+});
+
+describe('AAGUIDs', () => {
+  it('formats and names known authenticators', () => {
+    const aaguid = formatAaguid(
+      new Uint8Array([
+        0xea, 0x9b, 0x8d, 0x66, 0x4d, 0x01, 0x1d, 0x21, 0x3c, 0xe4, 0xb6, 0xb4,
+        0x8c, 0xb5, 0x75, 0xd4,
+      ])
+    );
+    expect(aaguid).toBe('ea9b8d66-4d01-1d21-3ce4-b6b48cb575d4');
+    expect(lookupAuthenticatorName(aaguid)).toBe('Google Password Manager');
+    expect(lookupAuthenticatorName(formatAaguid(new Uint8Array(16)))).toMatch(
+      /no AAGUID/
+    );
+    expect(
+      lookupAuthenticatorName('12345678-0000-0000-0000-000000000000')
+    ).toBeUndefined();
+  });
+});
+
+describe('inspector', () => {
+  it('decodes a registration', () => {
+    const inspection = inspectRegistration(RECORDED_REGISTRATION);
+
+    expect(inspection.clientData).toMatchObject({
+      type: 'webauthn.create',
+      challenge: 'Xicq8v9tc7pmJguYz59VflWI4sTL4uyBh1IrcpU1_CI',
+      origin: 'http://localhost:3000',
+      crossOrigin: false,
+    });
+    expect(inspection.authenticatorData).toMatchObject({
+      rpIdHash: LOCALHOST_HASH,
+      flagsByte: 0x4d,
+      flags: {
+        userPresent: true,
+        userVerified: true,
+        backupEligible: true,
+        backedUp: false,
+        attestedCredentialData: true,
+        extensionData: false,
+      },
+      signCount: 0,
+      aaguid: 'ea9b8d66-4d01-1d21-3ce4-b6b48cb575d4',
+      authenticatorName: 'Google Password Manager',
+      credentialId: RECORDED_REGISTRATION.id,
+      publicKey: {
+        keyType: 'EC2 (2)',
+        algorithm: 'ES256 (-7)',
+        curve: 'P-256 (1)',
+      },
+    });
+    expect(inspection.attestation).toEqual({ fmt: 'none', statement: '{}' });
+    expect(inspection.transports).toEqual(['hybrid', 'internal']);
+  });
+
+  it('decodes an assertion', () => {
+    const inspection = inspectAuthentication(RECORDED_AUTHENTICATION);
+
+    expect(inspection.ceremony).toBe('authentication');
+    expect(inspection.clientData.type).toBe('webauthn.get');
+    expect(inspection.authenticatorData).toMatchObject({
+      rpIdHash: LOCALHOST_HASH,
+      flagsByte: 0x0d,
+      signCount: 1,
+    });
+    expect(inspection.authenticatorData.aaguid).toBeUndefined();
+    expect(inspection.signature).toMatch(/^3045/);
+    expect(inspection.userHandle).toBe('kxqfzjidZUgFGaqcV0j2Vg');
+  });
+
+  it('picks the decoder from the response shape', () => {
+    expect(inspectCredentialResponse(RECORDED_REGISTRATION).ceremony).toBe(
+      'registration'
+    );
+    expect(inspectCredentialResponse(RECORDED_AUTHENTICATION).ceremony).toBe(
+      'authentication'
+    );
+  });
+
+  it('describes CBOR with byte strings in hex', () => {
+    expect(describeCbor(new Map([['sig', new Uint8Array([0xab, 0xcd])]]))).toBe(
+      '{\n  "sig": "h\'abcd\'"\n}'
+    );
+  });
+});
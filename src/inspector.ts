@@ -0,0 +1,196 @@
+// Decode a WebAuthn credential response into something a developer can read.
+// Works on the JSON we send to the server, so it's pure and fixture-friendly.
+
+import { formatAaguid, lookupAuthenticatorName } from './aaguids';
+import { parseAttestationObject } from './attestation';
+import {
+  parseAuthenticatorData,
+  type AuthenticatorFlags,
+} from './authenticator-data';
+import type { CborValue } from './cbor';
+import { parseCoseKey } from './cose';
+import { fromBase64Url, toBase64Url, toHex } from './encoding';
+import type {
+  AuthenticationResponseJSON,
+  RegistrationResponseJSON,
+} from './server/protocol';
+
+export interface ClientDataInspection {
+  type: string;
+  challenge: string;
+  origin: string;
+  crossOrigin?: boolean;
+  // The exact JSON the browser signed over
+  raw: string;
+}
+
+export interface PublicKeyInspection {
+  keyType: string;
+  algorithm: string;
+  curve?: string;
+  // Key parameters (x, y, n, e) as hex
+  parameters: Record<string, string>;
+}
+
+export interface AuthenticatorDataInspection {
+  rpIdHash: string;
+  flags: AuthenticatorFlags;
+  flagsByte: number;
+  signCount: number;
+  aaguid?: string;
+  authenticatorName?: string;
+  credentialId?: string;
+  publicKey?: PublicKeyInspection;
+  extensions?: string;
+}
+
+export interface CredentialInspection {
+  ceremony: 'registration' | 'authentication';
+  credentialId: string;
+  clientData: ClientDataInspection;
+  authenticatorData: AuthenticatorDataInspection;
+  attestation?: { fmt: string; statement: string };
+  transports?: string[];
+  signature?: string;
+  userHandle?: string | null;
+}
+
+// COSE registry names for the values authenticators commonly use
+const COSE_KEY_TYPES: Record<number, string> = {
+  1: 'OKP',
+  2: 'EC2',
+  3: 'RSA',
+};
+
+const COSE_ALGORITHMS: Record<number, string> = {
+  [-7]: 'ES256',
+  [-8]: 'EdDSA',
+  [-35]: 'ES384',
+  [-36]: 'ES512',
+  [-37]: 'PS256',
+  [-257]: 'RS256',
+};
+
+const COSE_CURVES: Record<number, string> = {
+  1: 'P-256',
+  2: 'P-384',
+  3: 'P-521',
+  6: 'Ed25519',
+};
+
+function named(names: Record<number, string>, value: number): string {
+  return names[value] ? `${names[value]} (${value})` : String(value);
+}
+
+// Render a decoded CBOR value as JSON-ish text, with byte strings in hex
+export function describeCbor(value: CborValue): string {
+  return JSON.stringify(
+    value,
+    (_key, item: unknown) => {
+      if (item instanceof Uint8Array) return `h'${toHex(item)}'`;
+      if (item instanceof Map) return Object.fromEntries(item);
+      if (typeof item === 'bigint') return item.toString();
+      return item;
+    },
+    2
+  );
+}
+
+function inspectClientData(clientDataJSON: string): ClientDataInspection {
+  const raw = new TextDecoder().decode(fromBase64Url(clientDataJSON));
+  const parsed = JSON.parse(raw) as Omit<ClientDataInspection, 'raw'>;
+  return {
+    type: parsed.type,
+    challenge: parsed.challenge,
+    origin: parsed.origin,
+    crossOrigin: parsed.crossOrigin,
+    raw,
+  };
+}
+
+function inspectPublicKey(bytes: Uint8Array): PublicKeyInspection {
+  const key = parseCoseKey(bytes);
+  const parameters: Record<string, string> = {};
+  for (const name of ['x', 'y', 'n', 'e'] as const) {
+    const value = key[name];
+    if (value) parameters[name] = toHex(value);
+  }
+
+  return {
+    keyType: named(COSE_KEY_TYPES, key.kty),
+    algorithm: named(COSE_ALGORITHMS, key.alg),
+    curve: key.crv === undefined ? undefined : named(COSE_CURVES, key.crv),
+    parameters,
+  };
+}
+
+function inspectAuthenticatorData(
+  bytes: Uint8Array
+): AuthenticatorDataInspection {
+  const data = parseAuthenticatorData(bytes);
+  const inspection: AuthenticatorDataInspection = {
+    rpIdHash: toHex(data.rpIdHash),
+    flags: data.flags,
+    flagsByte: data.flagsByte,
+    signCount: data.signCount,
+  };
+
+  const attested = data.attestedCredentialData;
+  if (attested) {
+    inspection.aaguid = formatAaguid(attested.aaguid);
+    inspection.authenticatorName = lookupAuthenticatorName(inspection.aaguid);
+    inspection.credentialId = toBase64Url(attested.credentialId);
+    inspection.publicKey = inspectPublicKey(attested.publicKey);
+  }
+  if (data.extensions !== undefined) {
+    inspection.extensions = describeCbor(data.extensions);
+  }
+
+  return inspection;
+}
+
+// Decode a registration response: client data, attestation and public key
+export function inspectRegistration(
+  response: RegistrationResponseJSON
+): CredentialInspection {
+  const attestation = parseAttestationObject(
+    fromBase64Url(response.response.attestationObject)
+  );
+
+  return {
+    ceremony: 'registration',
+    credentialId: response.id,
+    clientData: inspectClientData(response.response.clientDataJSON),
+    authenticatorData: inspectAuthenticatorData(attestation.authData),
+    attestation: {
+      fmt: attestation.fmt,
+      statement: describeCbor(attestation.attStmt),
+    },
+    transports: response.response.transports,
+  };
+}
+
+// Decode an assertion: client data, authenticator data and signature
+export function inspectAuthentication(
+  response: AuthenticationResponseJSON
+): CredentialInspection {
+  return {
+    ceremony: 'authentication',
+    credentialId: response.id,
+    clientData: inspectClientData(response.response.clientDataJSON),
+    authenticatorData: inspectAuthenticatorData(
+      fromBase64Url(response.response.authenticatorData)
+    ),
+    signature: toHex(fromBase64Url(response.response.signature)),
+    userHandle: response.response.userHandle,
+  };
+}
+
+// Decode whichever kind of response the ceremony produced
+export function inspectCredentialResponse(
+  response: RegistrationResponseJSON | AuthenticationResponseJSON
+): CredentialInspection {
+  return 'attestationObject' in response.response
+    ? inspectRegistration(response as RegistrationResponseJSON)
+    : inspectAuthentication(response as AuthenticationResponseJSON);
+}
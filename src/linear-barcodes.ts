@@ -0,0 +1,414 @@
+// EAN-13 and Code 128 decoding for the fallback scanner. Both are read from
+// the bar widths along scan lines across the frame, in both directions, so
+// a barcode can be upside down or turned on its side.
+
+import {
+  getRuns,
+  type BinaryImage,
+  type DecodedSymbol,
+  type Point,
+  type Run,
+} from './binary-image';
+
+export type LinearFormat = 'ean_13' | 'code_128';
+
+// Scan lines across the frame in each direction
+const SCAN_LINES = 24;
+// Quiet zone before a code, in modules (the standards ask for 10 or more)
+const MIN_QUIET_ZONE = 5;
+
+// Widths of the four bars and spaces of each EAN digit, as L-code digits
+// (space first). G codes are the same widths reversed, R codes the same
+// widths starting with a bar.
+const EAN_DIGITS = [
+  [3, 2, 1, 1],
+  [2, 2, 2, 1],
+  [2, 1, 2, 2],
+  [1, 4, 1, 1],
+  [1, 1, 3, 2],
+  [1, 2, 3, 1],
+  [1, 1, 1, 4],
+  [1, 3, 1, 2],
+  [1, 2, 1, 3],
+  [3, 1, 1, 2],
+];
+
+// Which of the first six digits use G codes encodes the leading digit
+const EAN_PARITY = [0x00, 0x0b, 0x0d, 0x0e, 0x13, 0x19, 0x1c, 0x15, 0x16, 0x1a];
+
+// Bar and space widths of Code 128 symbols 0-106 (106 is stop, which has
+// a final 2-module bar)
+const CODE_128 = [
+  '212222',
+  '222122',
+  '222221',
+  '121223',
+  '121322',
+  '131222',
+  '122213',
+  '122312',
+  '132212',
+  '221213',
+  '221312',
+  '231212',
+  '112232',
+  '122132',
+  '122231',
+  '113222',
+  '123122',
+  '123221',
+  '223211',
+  '221132',
+  '221231',
+  '213212',
+  '223112',
+  '312131',
+  '311222',
+  '321122',
+  '321221',
+  '312212',
+  '322112',
+  '322211',
+  '212123',
+  '212321',
+  '232121',
+  '111323',
+  '131123',
+  '131321',
+  '112313',
+  '132113',
+  '132311',
+  '211313',
+  '231113',
+  '231311',
+  '112133',
+  '112331',
+  '132131',
+  '113123',
+  '113321',
+  '133121',
+  '313121',
+  '211331',
+  '231131',
+  '213113',
+  '213311',
+  '213131',
+  '311123',
+  '311321',
+  '331121',
+  '312113',
+  '312311',
+  '332111',
+  '314111',
+  '221411',
+  '431111',
+  '111224',
+  '111422',
+  '121124',
+  '121421',
+  '141122',
+  '141221',
+  '112214',
+  '112412',
+  '122114',
+  '122411',
+  '142112',
+  '142211',
+  '241211',
+  '221114',
+  '413111',
+  '241112',
+  '134111',
+  '111242',
+  '121142',
+  '121241',
+  '114212',
+  '124112',
+  '124211',
+  '411212',
+  '421112',
+  '421211',
+  '212141',
+  '214121',
+  '412121',
+  '111143',
+  '111341',
+  '131141',
+  '114113',
+  '114311',
+  '411113',
+  '411311',
+  '113141',
+  '114131',
+  '311141',
+  '411131',
+  '211412',
+  '211214',
+  '211232',
+  '2331112',
+];
+
+const CODE_128_START_A = 103;
+const CODE_128_START_C = 105;
+const CODE_128_STOP = 106;
+
+interface LineRead {
+  text: string;
+  // Where along the line the code starts and ends
+  start: number;
+  end: number;
+}
+
+// How far the widths are from a pattern, as a share of the module width
+function mismatch(lengths: number[], pattern: number[], module: number) {
+  return lengths.reduce(
+    (sum, length, i) => sum + Math.abs(length / module - pattern[i]),
+    0
+  );
+}
+
+// Pick the pattern closest to the widths, if any is close enough
+function closest(lengths: number[], patterns: number[][]): number {
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  const module = total / patterns[0].reduce((sum, width) => sum + width, 0);
+  let best = -1;
+  let bestError = lengths.length * 0.5;
+  patterns.forEach((pattern, i) => {
+    const error = mismatch(lengths, pattern, module);
+    if (error < bestError) {
+      best = i;
+      bestError = error;
+    }
+  });
+  return best;
+}
+
+function hasQuietZone(runs: Run[], index: number, module: number): boolean {
+  const before = runs[index - 1];
+  return !before || before.length >= module * MIN_QUIET_ZONE;
+}
+
+// Read an EAN-13 starting at the guard bars at `index`
+function readEan13(runs: Run[], index: number): LineRead | null {
+  // Guard, 6 digits, middle guard, 6 digits, guard
+  if (index + 59 > runs.length) return null;
+  const lengths = runs.slice(index, index + 59).map(run => run.length);
+  const module = lengths.reduce((sum, length) => sum + length, 0) / 95;
+  if (
+    !hasQuietZone(runs, index, module) ||
+    mismatch(lengths.slice(0, 3), [1, 1, 1], module) > 1.5 ||
+    mismatch(lengths.slice(27, 32), [1, 1, 1, 1, 1], module) > 2.5 ||
+    mismatch(lengths.slice(56, 59), [1, 1, 1], module) > 1.5
+  ) {
+    return null;
+  }
+
+  const reversed = EAN_DIGITS.map(widths => [...widths].reverse());
+  const digits: number[] = [];
+  let parity = 0;
+  for (let i = 0; i < 12; i++) {
+    const offset = i < 6 ? 3 + i * 4 : 32 + (i - 6) * 4;
+    const widths = lengths.slice(offset, offset + 4);
+    if (i < 6) {
+      // L and G codes in one list: G codes are 10-19
+      const digit = closest(widths, [...EAN_DIGITS, ...reversed]);
+      if (digit < 0) return null;
+      digits.push(digit % 10);
+      parity = (parity << 1) | (digit >= 10 ? 1 : 0);
+    } else {
+      const digit = closest(widths, EAN_DIGITS);
+      if (digit < 0) return null;
+      digits.push(digit);
+    }
+  }
+
+  const first = EAN_PARITY.indexOf(parity);
+  if (first < 0) return null;
+  const all = [first, ...digits];
+  const checksum = all
+    .slice(0, 12)
+    .reduce((sum, digit, i) => sum + digit * (i % 2 ? 3 : 1), 0);
+  if ((10 - (checksum % 10)) % 10 !== all[12]) return null;
+
+  return {
+    text: all.join(''),
+    start: runs[index].start,
+    end: runs[index + 58].start + runs[index + 58].length,
+  };
+}
+
+// Turn Code 128 symbol values into text, following the code set switches
+function decodeCode128(values: number[]): string {
+  let set = values[0] - CODE_128_START_A;
+  let shifted = false;
+  let text = '';
+
+  for (const value of values.slice(1)) {
+    const current = shifted ? 1 - set : set;
+    shifted = false;
+    if (current === 2) {
+      if (value < 100) text += String(value).padStart(2, '0');
+      else if (value === 100) set = 1;
+      else if (value === 101) set = 0;
+      else if (value === 102 && text) text += '\u001d';
+    } else if (value < 96) {
+      // Code set A has control characters where B has lower case
+      text += String.fromCharCode(
+        current === 0 && value >= 64 ? value - 64 : value + 32
+      );
+    } else if (value === 98) {
+      shifted = true;
+    } else if (value === 99) {
+      set = 2;
+    } else if (value === (current === 0 ? 100 : 101)) {
+      set = 1 - current;
+    } else if (value === 102 && text) {
+      // FNC1 separates GS1 fields
+      text += '\u001d';
+    }
+    // FNC2, FNC3 and FNC4 are for scanner programming and extended
+    // Latin-1; they're rare enough to skip
+  }
+  return text;
+}
+
+// The stop symbol's first six widths tell it apart; its last bar follows
+const CODE_128_WIDTHS = CODE_128.map(pattern =>
+  [...pattern.slice(0, 6)].map(Number)
+);
+
+// Read a Code 128 starting at the start symbol at `index`
+function readCode128(runs: Run[], index: number): LineRead | null {
+  const startLengths = runs.slice(index, index + 6).map(run => run.length);
+  if (startLengths.length < 6) return null;
+  const start = closest(startLengths, CODE_128_WIDTHS);
+  if (start < CODE_128_START_A || start > CODE_128_START_C) return null;
+  const module = startLengths.reduce((sum, length) => sum + length, 0) / 11;
+  if (!hasQuietZone(runs, index, module)) return null;
+
+  const values = [start];
+  for (let position = index + 6; position + 7 <= runs.length; position += 6) {
+    const value = closest(
+      runs.slice(position, position + 6).map(run => run.length),
+      CODE_128_WIDTHS
+    );
+    // Start symbols can't appear mid-code
+    if (value < 0 || (value >= CODE_128_START_A && value < CODE_128_STOP)) {
+      return null;
+    }
+    if (value !== CODE_128_STOP) {
+      values.push(value);
+      continue;
+    }
+
+    // The symbol before the stop is the checksum
+    const checksum = values.pop()!;
+    const sum = values.reduce(
+      (total, value, i) => total + value * Math.max(i, 1),
+      0
+    );
+    if (values.length < 2 || sum % 103 !== checksum) return null;
+
+    return {
+      text: decodeCode128(values),
+      start: runs[index].start,
+      end: runs[position + 6].start + runs[position + 6].length,
+    };
+  }
+  return null;
+}
+
+// Every code along one line, read left to right
+function readLine(
+  runs: Run[],
+  formats: LinearFormat[]
+): (LineRead & {
+  format: LinearFormat;
+})[] {
+  const reads: (LineRead & { format: LinearFormat })[] = [];
+  for (let i = 0; i < runs.length; i++) {
+    if (!runs[i].dark) continue;
+
+    const ean = formats.includes('ean_13') ? readEan13(runs, i) : null;
+    const code128 =
+      !ean && formats.includes('code_128') ? readCode128(runs, i) : null;
+    const read = ean
+      ? { ...ean, format: 'ean_13' as const }
+      : code128 && { ...code128, format: 'code_128' as const };
+    if (read) {
+      reads.push(read);
+      // Carry on after the code
+      while (i + 1 < runs.length && runs[i + 1].start < read.end) i++;
+    }
+  }
+  return reads;
+}
+
+// Flip runs end to end, to read a line right to left
+function reverseRuns(runs: Run[], length: number): Run[] {
+  return runs
+    .map(run => ({ ...run, start: length - run.start - run.length }))
+    .reverse();
+}
+
+// Find and decode every EAN-13 and Code 128 barcode in the image
+export function decodeLinearBarcodes(
+  image: BinaryImage,
+  formats: LinearFormat[]
+): (DecodedSymbol & { format: LinearFormat })[] {
+  // Each code's outline grows with every line that reads it
+  const found = new Map<
+    string,
+    { format: LinearFormat; text: string; min: Point; max: Point }
+  >();
+
+  for (const vertical of [false, true]) {
+    const across = vertical ? image.width : image.height;
+    const length = vertical ? image.height : image.width;
+    for (let line = 1; line <= SCAN_LINES; line++) {
+      const index = Math.floor((across * line) / (SCAN_LINES + 1));
+      const runs = getRuns(image, index, vertical);
+
+      for (const reversed of [false, true]) {
+        const reads = readLine(
+          reversed ? reverseRuns(runs, length) : runs,
+          formats
+        );
+        for (const read of reads) {
+          const start = reversed ? length - read.end : read.start;
+          const end = reversed ? length - read.start : read.end;
+          const from = vertical
+            ? { x: index, y: start }
+            : { x: start, y: index };
+          const to = vertical ? { x: index, y: end } : { x: end, y: index };
+
+          const key = `${read.format}:${read.text}`;
+          const code = found.get(key);
+          if (code) {
+            code.min = {
+              x: Math.min(code.min.x, from.x),
+              y: Math.min(code.min.y, from.y),
+            };
+            code.max = {
+              x: Math.max(code.max.x, to.x),
+              y: Math.max(code.max.y, to.y),
+            };
+          } else {
+            found.set(key, {
+              format: read.format,
+              text: read.text,
+              min: from,
+              max: to,
+            });
+          }
+        }
+      }
+    }
+  }
+
+  return [...found.values()].map(({ format, text, min, max }) => ({
+    format,
+    rawValue: text,
+    cornerPoints: [min, { x: max.x, y: min.y }, max, { x: min.x, y: max.y }],
+  }));
+}
@@ -0,0 +1,308 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { FaceBox } from './face-detection';
+import {
+  createChallengeVerifier,
+  measureEyeOpenness,
+  measureMouthWidth,
+  measureYaw,
+  startLivenessCheck,
+  type LivenessChallenge,
+} from './liveness';
+
+interface Pose {
+  // Nose offset from the middle of the eyes, as a share of their distance
+  yaw?: number;
+  // Eye outline height over width; null drops the eyes entirely
+  eyeOpenness?: number | null;
+  mouthWidth?: number;
+  // Single points instead of outlines
+  pointsOnly?: boolean;
+}
+
+// A face 80px between the eyes, in Shape Detection's landmark shape
+function face({
+  yaw = 0,
+  eyeOpenness = 0.3,
+  mouthWidth = 40,
+  pointsOnly = false,
+}: Pose = {}): FaceBox {
+  const eye = (x: number) =>
+    pointsOnly || eyeOpenness === null
+      ? [{ x, y: 200 }]
+      : [
+          { x: x - 10, y: 200 },
+          { x: x + 10, y: 200 },
+          { x, y: 200 - eyeOpenness * 10 },
+          { x, y: 200 + eyeOpenness * 10 },
+        ];
+
+  return {
+    x: 240,
+    y: 140,
+    width: 160,
+    height: 200,
+    landmarks: [
+      ...(eyeOpenness === null
+        ? []
+        : [
+            { type: 'eye' as const, locations: eye(280) },
+            { type: 'eye' as const, locations: eye(360) },
+          ]),
+      { type: 'nose', locations: [{ x: 320 + yaw * 80, y: 240 }] },
+      {
+        type: 'mouth',
+        locations: [
+          { x: 320 - mouthWidth / 2, y: 280 },
+          { x: 320 + mouthWidth / 2, y: 280 },
+        ],
+      },
+    ],
+  };
+}
+
+// Feed poses to a verifier, one frame every intervalMs, and return the last
+// progress
+function verify(challenge: LivenessChallenge, poses: Pose[], intervalMs = 100) {
+  const verifier = createChallengeVerifier(challenge);
+  return poses
+    .map((pose, index) => verifier.update(face(pose), index * intervalMs))
+    .at(-1);
+}
+
+describe('face measurements', () => {
+  it('reads yaw, eye openness and mouth width from landmarks', () => {
+    const sample = face({ yaw: 0.3, eyeOpenness: 0.4, mouthWidth: 48 });
+
+    expect(measureYaw(sample)).toBeCloseTo(0.3);
+    expect(measureEyeOpenness(sample)).toBeCloseTo(0.4);
+    expect(measureMouthWidth(sample)).toBeCloseTo(0.6);
+  });
+
+  it('measures no openness once the eyes drop out of a face', () => {
+    expect(measureEyeOpenness(face({ pointsOnly: true }))).toBe(1);
+    expect(measureEyeOpenness(face({ eyeOpenness: null }))).toBeNull();
+    expect(measureEyeOpenness({ x: 0, y: 0, width: 10, height: 10 })).toBe(
+      null
+    );
+  });
+
+  it('needs both eyes to measure against', () => {
+    expect(measureYaw(face({ eyeOpenness: null }))).toBeNull();
+    expect(measureMouthWidth(face({ eyeOpenness: null }))).toBeNull();
+  });
+});
+
+describe('createChallengeVerifier', () => {
+  it('passes a head turn in the asked direction only', () => {
+    expect(verify('turn-left', [{}, { yaw: 0.1 }, { yaw: 0.25 }])).toEqual({
+      strength: 1.25,
+      done: true,
+    });
+    expect(verify('turn-right', [{}, { yaw: 0.25 }])?.done).toBe(false);
+    expect(verify('turn-right', [{}, { yaw: -0.3 }])?.done).toBe(true);
+  });
+
+  it('passes a blink once the eyes open again', () => {
+    expect(verify('blink', [{}, { eyeOpenness: 0.05 }])?.done).toBe(false);
+    expect(
+      verify('blink', [{}, { eyeOpenness: 0.05 }, { eyeOpenness: 0.28 }])?.done
+    ).toBe(true);
+    expect(
+      verify('blink', [{}, { eyeOpenness: 0.25 }, { eyeOpenness: 0.3 }])?.done
+    ).toBe(false);
+  });
+
+  it('passes a blink from detectors that lose shut eyes', () => {
+    const poses: Pose[] = [
+      { pointsOnly: true },
+      { eyeOpenness: null },
+      { pointsOnly: true },
+    ];
+    expect(verify('blink', poses)).toEqual({ strength: 2, done: true });
+  });
+
+  it('needs the eyes to open again within a second', () => {
+    const poses: Pose[] = [{}, { eyeOpenness: 0.05 }, { eyeOpenness: 0.3 }];
+    expect(verify('blink', poses, 500)?.done).toBe(true);
+    expect(verify('blink', poses, 600)?.done).toBe(false);
+  });
+
+  it('starts over after eyes held shut too long', () => {
+    const poses: Pose[] = [
+      {},
+      { eyeOpenness: 0.05 },
+      { eyeOpenness: 0.05 },
+      { eyeOpenness: 0.05 },
+      {},
+    ];
+    expect(verify('blink', poses, 400)?.done).toBe(false);
+    expect(
+      verify('blink', [...poses, { eyeOpenness: 0.05 }, {}], 400)?.done
+    ).toBe(true);
+  });
+
+  it('does not count eyes lost to a head movement as shut', () => {
+    const turned: Pose[] = [
+      { pointsOnly: true },
+      { eyeOpenness: null, yaw: 0.3 },
+      { pointsOnly: true },
+    ];
+    expect(verify('blink', turned)?.done).toBe(false);
+
+    const verifier = createChallengeVerifier('blink');
+    verifier.update(face({ pointsOnly: true }), 0);
+    expect(
+      verifier.update({ ...face({ eyeOpenness: null }), x: 300 }, 100)
+    ).toBeNull();
+  });
+
+  it('passes a smile that widens the mouth', () => {
+    expect(verify('smile', [{}, { mouthWidth: 42 }])?.done).toBe(false);
+    expect(verify('smile', [{}, { mouthWidth: 48 }])?.done).toBe(true);
+  });
+
+  it('skips faces without the landmarks it needs', () => {
+    const verifier = createChallengeVerifier('turn-left');
+    expect(verifier.update({ x: 0, y: 0, width: 10, height: 10 })).toBeNull();
+  });
+});
+
+describe('startLivenessCheck', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    delete (window as { FaceDetector?: unknown }).FaceDetector;
+  });
+
+  function fakeVideo(): HTMLVideoElement {
+    return {
+      readyState: 4,
+      videoWidth: 640,
+      videoHeight: 480,
+      srcObject: {},
+    } as HTMLVideoElement;
+  }
+
+  // The browser's FaceDetector, showing each pose in turn and then the last
+  function installFaceDetector(poses: Pose[]): void {
+    let frame = 0;
+    Object.assign(window, {
+      FaceDetector: class {
+        async detect() {
+          const { landmarks, ...box } = face(
+            poses[Math.min(frame++, poses.length - 1)]
+          );
+          return [
+            {
+              boundingBox: new DOMRect(box.x, box.y, box.width, box.height),
+              landmarks,
+            },
+          ];
+        }
+      },
+    });
+  }
+
+  it('passes with the time taken and a confidence score', async () => {
+    vi.useFakeTimers();
+    installFaceDetector([{}, { yaw: 0.1 }, { yaw: 0.2 }]);
+
+    const session = startLivenessCheck(fakeVideo(), {
+      challenge: 'turn-left',
+      intervalMs: 100,
+    });
+    await vi.advanceTimersByTimeAsync(300);
+
+    expect(await session.finished).toEqual({
+      challenge: 'turn-left',
+      passed: true,
+      confidence: 0.5,
+      startedAt: expect.any(Number),
+      durationMs: 300,
+      framesAnalyzed: 3,
+      failure: undefined,
+    });
+  });
+
+  it('fails when the movement never comes', async () => {
+    vi.useFakeTimers();
+    installFaceDetector([{}]);
+
+    const session = startLivenessCheck(fakeVideo(), {
+      challenge: 'smile',
+      timeoutMs: 1000,
+    });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    const result = await session.finished;
+    expect(result).toMatchObject({
+      passed: false,
+      failure: 'timeout',
+      confidence: 0,
+    });
+    expect(result.framesAnalyzed).toBeGreaterThan(5);
+  });
+
+  it('tells a missing face from missing landmarks', async () => {
+    vi.useFakeTimers();
+    const video = fakeVideo();
+    const empty = startLivenessCheck(video, {
+      timeoutMs: 500,
+      detector: { name: 'shape-detection', detect: async () => [] },
+    });
+    const bare = startLivenessCheck(video, {
+      timeoutMs: 500,
+      detector: {
+        name: 'shape-detection',
+        detect: async () => [{ x: 0, y: 0, width: 100, height: 100 }],
+      },
+    });
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect((await empty.finished).failure).toBe('no-face');
+    expect((await bare.finished).failure).toBe('no-landmarks');
+  });
+
+  it('does not take skin-tone guesses for a face', async () => {
+    const session = startLivenessCheck(fakeVideo(), {
+      detector: {
+        name: 'skin-tone',
+        detect: async () => [{ x: 0, y: 0, width: 100, height: 100 }],
+      },
+    });
+    expect((await session.finished).failure).toBe('not-supported');
+  });
+
+  it('picks a random challenge', () => {
+    installFaceDetector([{}]);
+    const session = startLivenessCheck(fakeVideo());
+    session.cancel();
+
+    expect(['blink', 'turn-left', 'turn-right', 'smile']).toContain(
+      session.challenge
+    );
+  });
+
+  it('needs a detector that finds landmarks, and a camera', async () => {
+    const unsupported = startLivenessCheck(fakeVideo());
+    expect((await unsupported.finished).failure).toBe('not-supported');
+    expect((await startLivenessCheck(null).finished).failure).toBe('no-camera');
+
+    installFaceDetector([{}]);
+    const noCamera = startLivenessCheck({
+      ...fakeVideo(),
+      srcObject: null,
+    } as HTMLVideoElement);
+    expect((await noCamera.finished).failure).toBe('no-camera');
+  });
+
+  it('resolves as cancelled when stopped early', async () => {
+    installFaceDetector([{}]);
+    const session = startLivenessCheck(fakeVideo());
+    session.cancel();
+
+    expect(await session.finished).toMatchObject({
+      passed: false,
+      failure: 'cancelled',
+    });
+  });
+});
@@ -0,0 +1,420 @@
+// Liveness check for passkey sign-ins: the user is asked to blink, turn their
+// head or smile, and face landmarks from the live <video> confirm they did.
+// Detection runs on the device through the browser's FaceDetector, so no
+// frame leaves the page. Only the Shape Detection API finds landmarks, so
+// browsers without it can't run the check at all: it then ends straight away
+// with 'not-supported', which callers should tell apart from a failed check.
+
+import {
+  checkFaceDetectorSupport,
+  createFaceDetector,
+  type FaceBox,
+  type FaceDetectorBackend,
+  type FaceLandmark,
+} from './face-detection';
+
+export type LivenessChallenge = 'blink' | 'turn-left' | 'turn-right' | 'smile';
+
+export const LIVENESS_CHALLENGES: LivenessChallenge[] = [
+  'blink',
+  'turn-left',
+  'turn-right',
+  'smile',
+];
+
+export type LivenessFailure =
+  | 'timeout'
+  // Never exactly one face in view
+  | 'no-face'
+  // A face, but never with the landmarks the challenge needs
+  | 'no-landmarks'
+  | 'no-camera'
+  // No face detector that finds landmarks, so nothing was checked
+  | 'not-supported'
+  | 'cancelled';
+
+export interface LivenessResult {
+  challenge: LivenessChallenge;
+  passed: boolean;
+  // 0 to 1: how clearly the movement showed, scaled by the share of frames
+  // with exactly one face in view
+  confidence: number;
+  // When the challenge began, in epoch milliseconds
+  startedAt: number;
+  // Until the challenge was met, or until the check gave up
+  durationMs: number;
+  framesAnalyzed: number;
+  failure?: LivenessFailure;
+}
+
+export interface LivenessOptions {
+  // Picked at random when not given
+  challenge?: LivenessChallenge;
+  timeoutMs?: number;
+  // Minimum time between detections
+  intervalMs?: number;
+  // Where faces come from; the browser's FaceDetector by default
+  detector?: FaceDetectorBackend;
+}
+
+export interface LivenessSession {
+  challenge: LivenessChallenge;
+  finished: Promise<LivenessResult>;
+  // Give up now; finished resolves with the 'cancelled' failure
+  cancel(): void;
+}
+
+export interface ChallengeProgress {
+  // The most movement seen so far against what the challenge asks for: 1
+  // meets it
+  strength: number;
+  done: boolean;
+}
+
+export interface ChallengeVerifier {
+  // Null when the face lacks the landmarks this challenge needs. Time is in
+  // milliseconds, and only blinks use it.
+  update(face: FaceBox, time?: number): ChallengeProgress | null;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Where a face is in the frame, and where its nose is within it
+interface FacePosition {
+  x: number;
+  y: number;
+  width: number;
+  noseX: number;
+  noseY: number;
+}
+
+type MeasuredChallenge = Exclude<LivenessChallenge, 'blink'>;
+
+// How far the nose must move sideways, as a share of the distance between
+// the eyes, to count as a head turn
+const TURN_THRESHOLD = 0.2;
+// How much of its resting openness an eye must lose to count as shut, and
+// how much it must get back to count as open again
+const BLINK_THRESHOLD = 0.5;
+const BLINK_REOPENED = 0.8;
+// The longest a blink may take, from the last frame with the eyes open to
+// the first with them open again. Longer is eyes held shut, or a photo.
+const BLINK_WINDOW_MS = 1000;
+// How far the face may move, as a share of its width, for eyes the detector
+// lost to count as shut rather than as a head that turned or blurred
+const HELD_STILL = 0.08;
+// How much wider than at rest the mouth must get to count as a smile
+const SMILE_THRESHOLD = 0.12;
+// Eye outlines have at least this many points; fewer is just a position
+const MIN_OUTLINE_POINTS = 4;
+
+const DEFAULT_TIMEOUT_MS = 6000;
+const DEFAULT_INTERVAL_MS = 100;
+
+// HTMLMediaElement.HAVE_CURRENT_DATA: the current frame can be read
+const HAVE_CURRENT_DATA = 2;
+
+function centerOf(points: Point[]): Point {
+  return {
+    x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+    y: points.reduce((sum, point) => sum + point.y, 0) / points.length,
+  };
+}
+
+function extentOf(points: Point[]): { width: number; height: number } {
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  return {
+    width: Math.max(...xs) - Math.min(...xs),
+    height: Math.max(...ys) - Math.min(...ys),
+  };
+}
+
+function landmarksOf(face: FaceBox, type: FaceLandmark['type']): Point[][] {
+  return (face.landmarks ?? [])
+    .filter(landmark => landmark.type === type && landmark.locations.length)
+    .map(landmark => landmark.locations);
+}
+
+// The point between the eyes, and how far apart they are, which scales the
+// other measurements to the face's size
+function eyeLine(face: FaceBox): { middle: Point; distance: number } | null {
+  const eyes = landmarksOf(face, 'eye');
+  if (eyes.length < 2) return null;
+
+  const [first, second] = eyes.map(centerOf);
+  const distance = Math.hypot(second.x - first.x, second.y - first.y);
+  if (distance === 0) return null;
+  return {
+    middle: { x: (first.x + second.x) / 2, y: (first.y + second.y) / 2 },
+    distance,
+  };
+}
+
+// How far the nose sits from the middle of the eyes, about 0 facing the
+// camera. Turning to the user's left moves it right in the (unmirrored)
+// frame, so left is positive.
+export function measureYaw(face: FaceBox): number | null {
+  const line = eyeLine(face);
+  const [nose] = landmarksOf(face, 'nose');
+  if (!line || !nose) return null;
+  return (centerOf(nose).x - line.middle.x) / line.distance;
+}
+
+// Height over width of the eye outlines. Detectors that only place the eyes
+// give 1 while they see them, and null once they lose them.
+export function measureEyeOpenness(face: FaceBox): number | null {
+  const eyes = landmarksOf(face, 'eye');
+  if (eyes.length === 0) return null;
+
+  const outlines = eyes.filter(points => points.length >= MIN_OUTLINE_POINTS);
+  if (outlines.length === 0) return 1;
+  const ratios = outlines.map(points => {
+    const { width, height } = extentOf(points);
+    return width > 0 ? height / width : 0;
+  });
+  return ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length;
+}
+
+// Mouth width as a share of the distance between the eyes
+export function measureMouthWidth(face: FaceBox): number | null {
+  const line = eyeLine(face);
+  const mouth = landmarksOf(face, 'mouth').flat();
+  if (!line || mouth.length < 2) return null;
+  return extentOf(mouth).width / line.distance;
+}
+
+function positionOf(face: FaceBox): FacePosition | null {
+  const [nose] = landmarksOf(face, 'nose');
+  if (!nose || face.width === 0 || face.height === 0) return null;
+
+  const tip = centerOf(nose);
+  return {
+    x: face.x + face.width / 2,
+    y: face.y + face.height / 2,
+    width: face.width,
+    noseX: (tip.x - face.x) / face.width,
+    noseY: (tip.y - face.y) / face.height,
+  };
+}
+
+// Whether the face stayed where it was, and kept facing the same way
+function heldStill(
+  before: FacePosition | null,
+  after: FacePosition | null
+): boolean {
+  if (!before || !after) return false;
+  return (
+    Math.abs(after.x - before.x) <= HELD_STILL * before.width &&
+    Math.abs(after.y - before.y) <= HELD_STILL * before.width &&
+    Math.abs(after.width / before.width - 1) <= HELD_STILL &&
+    Math.abs(after.noseX - before.noseX) <= HELD_STILL &&
+    Math.abs(after.noseY - before.noseY) <= HELD_STILL
+  );
+}
+
+// A blink is the eyes going from open to shut and open again within
+// BLINK_WINDOW_MS. Detectors that lose shut eyes instead of outlining them
+// count as shut, but only while the rest of the face holds still.
+function createBlinkVerifier(): ChallengeVerifier {
+  // Eye openness at rest, and the last frame the eyes were open in
+  let rest: number | null = null;
+  let lastOpen: { time: number; position: FacePosition | null } | null = null;
+  let shut = false;
+  let strength = 0;
+  let done = false;
+
+  return {
+    update(face, time = Date.now()) {
+      const openness = measureEyeOpenness(face);
+      const lost =
+        openness === null &&
+        lastOpen !== null &&
+        heldStill(lastOpen.position, positionOf(face));
+      if (openness === null && !lost) return null;
+
+      const value = openness ?? 0;
+      // Shut eyes are no resting face to compare with
+      if (rest === null) {
+        if (value > 0) {
+          rest = value;
+          lastOpen = { time, position: positionOf(face) };
+        }
+        return { strength, done };
+      }
+
+      strength = Math.max(strength, (1 - value / rest) / BLINK_THRESHOLD);
+      if (value <= rest * (1 - BLINK_THRESHOLD)) {
+        shut = true;
+      } else if (value >= rest * BLINK_REOPENED) {
+        done ||= shut && time - lastOpen!.time <= BLINK_WINDOW_MS;
+        shut = false;
+        lastOpen = { time, position: positionOf(face) };
+      }
+      return { strength, done };
+    },
+  };
+}
+
+const MEASURES: Record<MeasuredChallenge, (face: FaceBox) => number | null> = {
+  'turn-left': measureYaw,
+  'turn-right': measureYaw,
+  smile: measureMouthWidth,
+};
+
+// Follow one challenge across frames. The first usable frame is the face at
+// rest; later frames are measured against it.
+export function createChallengeVerifier(
+  challenge: LivenessChallenge
+): ChallengeVerifier {
+  if (challenge === 'blink') return createBlinkVerifier();
+
+  const measure = MEASURES[challenge];
+  let baseline: number | null = null;
+  let strength = 0;
+  let done = false;
+
+  // How far this frame has moved towards meeting the challenge
+  const movement = (value: number, rest: number): number => {
+    switch (challenge) {
+      case 'turn-left':
+        return (value - rest) / TURN_THRESHOLD;
+      case 'turn-right':
+        return (rest - value) / TURN_THRESHOLD;
+      case 'smile':
+        return (value / rest - 1) / SMILE_THRESHOLD;
+    }
+  };
+
+  return {
+    update(face) {
+      const value = measure(face);
+      if (value === null) return null;
+
+      if (baseline === null) {
+        baseline = value;
+        return { strength, done };
+      }
+
+      const current = movement(value, baseline);
+      strength = Math.max(strength, current);
+      done ||= current >= 1;
+      return { strength, done };
+    },
+  };
+}
+
+// An unpredictable challenge, so a recording made in advance won't match
+function pickChallenge(): LivenessChallenge {
+  const [random] = crypto.getRandomValues(new Uint32Array(1));
+  return LIVENESS_CHALLENGES[random % LIVENESS_CHALLENGES.length];
+}
+
+// Watch the video until the user meets the challenge or time runs out.
+// Without a video showing a camera, it ends straight away with 'no-camera'.
+export function startLivenessCheck(
+  video: HTMLVideoElement | null,
+  options: LivenessOptions = {}
+): LivenessSession {
+  const challenge = options.challenge ?? pickChallenge();
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+  // Only the Shape Detection API finds landmarks. The skin-tone locator's
+  // boxes are guesses, so a sign-in never rests on them.
+  const candidate =
+    options.detector ??
+    (checkFaceDetectorSupport() ? createFaceDetector() : null);
+  const detector = candidate?.name === 'shape-detection' ? candidate : null;
+  const verifier = createChallengeVerifier(challenge);
+  const startedAt = Date.now();
+  let frames = 0;
+  let singleFaceFrames = 0;
+  let measuredFrames = 0;
+  let strength = 0;
+  let settled = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let resolve: (result: LivenessResult) => void = () => {};
+  const finished = new Promise<LivenessResult>(done => (resolve = done));
+
+  const finish = (passed: boolean, failure?: LivenessFailure) => {
+    if (settled) return;
+    settled = true;
+    clearTimeout(timer);
+
+    const coverage = frames > 0 ? singleFaceFrames / frames : 0;
+    resolve({
+      challenge,
+      passed,
+      confidence: Math.round(Math.min(1, strength / 2) * coverage * 100) / 100,
+      startedAt,
+      durationMs: Date.now() - startedAt,
+      framesAnalyzed: frames,
+      failure,
+    });
+  };
+
+  // One detection at a time, as in face tracking
+  const tick = async () => {
+    const tickStarted = Date.now();
+    const ready =
+      video !== null &&
+      !document.hidden &&
+      video.readyState >= HAVE_CURRENT_DATA &&
+      video.videoWidth > 0;
+
+    if (ready && detector) {
+      try {
+        const faces = await detector.detect(video);
+        if (settled) return;
+
+        frames++;
+        if (faces.length === 1) {
+          singleFaceFrames++;
+          const progress = verifier.update(faces[0], Date.now());
+          if (progress) {
+            measuredFrames++;
+            strength = progress.strength;
+            if (progress.done) {
+              finish(true);
+              return;
+            }
+          }
+        }
+      } catch (error) {
+        console.warn('Liveness detection failed:', error);
+      }
+    }
+    if (settled) return;
+
+    if (Date.now() - startedAt >= timeoutMs) {
+      finish(
+        false,
+        measuredFrames > 0
+          ? 'timeout'
+          : singleFaceFrames > 0
+            ? 'no-landmarks'
+            : 'no-face'
+      );
+      return;
+    }
+    const elapsed = Date.now() - tickStarted;
+    timer = setTimeout(tick, Math.max(intervalMs - elapsed, intervalMs / 2));
+  };
+
+  if (!video?.srcObject) {
+    finish(false, 'no-camera');
+  } else if (!detector || detector.name !== 'shape-detection') {
+    finish(false, 'not-supported');
+  } else {
+    timer = setTimeout(tick, intervalMs);
+  }
+
+  return {
+    challenge,
+    finished,
+    cancel: () => finish(false, 'cancelled'),
+  };
+}
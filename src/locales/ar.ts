@@ -0,0 +1,328 @@
+import type { Catalog } from '../i18n';
+
+// Arabic, laid out right to left. Product names stay in Latin script, as
+// they appear in each product's own Arabic UI.
+export const ar: Catalog = {
+  'app.title': 'تطبيق الوصول إلى الكاميرا',
+  'app.subtitle': 'اختبر الكاميرا والمصادقة البيومترية',
+  'app.language': 'اللغة',
+  'app.error': 'خطأ:',
+  'app.unknown-reason': 'خطأ غير معروف',
+
+  'environment.browser-on-os': '{browser} على {os}',
+  'environment.unknown-browser': 'متصفحك',
+
+  'camera.preview-placeholder': 'ستظهر معاينة الكاميرا هنا',
+  'camera.select': 'الكاميرا',
+  'camera.front': 'الكاميرا الأمامية',
+  'camera.rear': 'الكاميرا الخلفية',
+  'camera.unnamed': 'الكاميرا {number}',
+  'camera.quality': 'الجودة',
+  'camera.quality-best': 'أفضل جودة متاحة',
+  'camera.enable': 'تشغيل الكاميرا',
+  'camera.stop': 'إيقاف الكاميرا',
+  'camera.requesting': 'جارٍ طلب الإذن...',
+  'camera.permission-granted': 'الكاميرا مسموح بها',
+  'camera.permission-prompt': 'ستطلب الكاميرا الإذن',
+  'camera.permission-denied': 'الكاميرا محظورة',
+  'camera.requested-profile': 'المطلوب {profile}',
+  'camera.allowed-again': 'أصبح الوصول إلى الكاميرا مسموحًا مرة أخرى.',
+  'camera.restart': 'إعادة تشغيل الكاميرا',
+  'camera.paused': 'أوقف النظام الكاميرا مؤقتًا.',
+  'camera.reconnecting':
+    'توقفت الكاميرا. جارٍ إعادة الاتصال (المحاولة {attempt} من {attempts})...',
+  'camera.reconnected': 'عادت الكاميرا.',
+
+  'camera.error.not-supported':
+    'الوصول إلى الكاميرا غير مدعوم في هذا المتصفح. يُرجى استخدام متصفح حديث مثل Chrome أو Firefox أو Safari أو Edge.',
+  'camera.error.permission-denied':
+    'تم رفض الوصول إلى الكاميرا. يُرجى السماح بالوصول إلى الكاميرا للمتابعة.',
+  'camera.error.not-found':
+    'لم يتم العثور على كاميرا. يُرجى توصيل كاميرا والمحاولة مرة أخرى.',
+  'camera.error.overconstrained':
+    'لا يوجد وضع للكاميرا يلبي الإعدادات المطلوبة. جرّب دقة أو معدل إطارات أقل.',
+  'camera.error.overconstrained-by':
+    'لا يوجد وضع للكاميرا يلبي الإعدادات المطلوبة ({constraint}). جرّب دقة أو معدل إطارات أقل.',
+  'camera.error.in-use':
+    'الكاميرا قيد الاستخدام حاليًا من قِبل تطبيق آخر. يُرجى إغلاق التطبيقات الأخرى التي تستخدم الكاميرا والمحاولة مرة أخرى.',
+  'camera.error.unknown': 'تعذّر الوصول إلى الكاميرا: {reason}',
+
+  'face.none': 'لم يتم اكتشاف أي وجه',
+  'face.several': {
+    two: 'تم اكتشاف وجهين، شخص واحد فقط من فضلك',
+    few: 'تم اكتشاف {count} وجوه، شخص واحد فقط من فضلك',
+    many: 'تم اكتشاف {count} وجهًا، شخص واحد فقط من فضلك',
+    other: 'تم اكتشاف {count} وجه، شخص واحد فقط من فضلك',
+  },
+  'face.closer': 'اقترب أكثر',
+  'face.back': 'ابتعد قليلًا',
+  'face.center': 'ضع وجهك في المنتصف',
+  'face.centered': 'الوجه في المنتصف',
+  'face.approximate': '{message} (تقريبي)',
+  'face.error.not-supported': 'يتطلب اكتشاف الوجه دعم canvas.',
+  'liveness.blink': 'ارمش ببطء لإكمال تسجيل الدخول',
+  'liveness.turn-left': 'أدر رأسك إلى اليسار لإكمال تسجيل الدخول',
+  'liveness.turn-right': 'أدر رأسك إلى اليمين لإكمال تسجيل الدخول',
+  'liveness.smile': 'ابتسم لإكمال تسجيل الدخول',
+  'liveness.passed': 'تم التأكد من الحضور (بنسبة ثقة {confidence}%).',
+  'liveness.failure.timeout': 'لم يرصد فحص الحضور الحركة في الوقت المحدد.',
+  'liveness.failure.no-face': 'لم يتمكن فحص الحضور من رؤية وجه واحد بالضبط.',
+  'liveness.failure.no-landmarks':
+    'لم يتمكن فحص الحضور من تمييز عينيك وأنفك وفمك.',
+  'liveness.failure.no-camera': 'يحتاج فحص الحضور إلى الكاميرا.',
+  'liveness.failure.not-supported':
+    'لم يُجرَ فحص الحضور: لا يستطيع هذا المتصفح فحص الحضور على الجهاز.',
+  'liveness.failure.cancelled': 'توقف فحص الحضور.',
+  'liveness.failed': 'لم يتم تسجيل دخولك لأن فحص الحضور لم ينجح. {reason}',
+  'liveness.unavailable':
+    'يتطلب تسجيل الدخول فحص الحضور، ولا يستطيع هذا المتصفح إجراءه على الجهاز. جرّب متصفحًا آخر.',
+
+  'scan.start': 'مسح الرموز',
+  'scan.stop': 'إيقاف المسح',
+  'scan.results': 'الرموز الممسوحة',
+  'scan.format.qr_code': 'رمز QR',
+  'scan.format.ean_13': 'EAN-13',
+  'scan.format.code_128': 'Code 128',
+  'scan.format.data_matrix': 'Data Matrix',
+  'scan.error.not-supported': 'يتطلب مسح الرموز دعم canvas.',
+
+  'call.title': 'معاينة مكالمة الفيديو',
+  'call.mode': 'المكالمة',
+  'call.mode-loopback': 'داخل هذه الصفحة',
+  'call.mode-tab': 'مع علامة تبويب أخرى',
+  'call.codec': 'برنامج الترميز',
+  'call.codec-default': 'الافتراضي في المتصفح',
+  'call.start': 'بدء المكالمة',
+  'call.stop': 'إنهاء المكالمة',
+  'call.local': 'المُرسَل',
+  'call.remote': 'المُستقبَل',
+  'call.waiting': 'في انتظار انضمام علامة تبويب أخرى إلى المكالمة...',
+  'call.connecting': 'جارٍ الاتصال...',
+  'call.connected': 'متصل',
+  'call.disconnected': 'غادر الطرف الآخر المكالمة.',
+  'call.stats.bitrate': 'معدل البت',
+  'call.stats.frame-rate': 'معدل الإطارات',
+  'call.stats.resolution': 'الدقة',
+  'call.stats.packet-loss': 'فقدان الحزم',
+  'call.stats.codec': 'برنامج الترميز',
+  'call.kbps': '{value} كيلوبت/ث',
+  'call.fps': '{value} إطار/ث',
+  'call.packets-lost': '{percent}٪ ({count} حزمة)',
+  'call.error.not-supported': 'لا يدعم هذا المتصفح مكالمات WebRTC.',
+  'call.error.failed': 'تعذّر إجراء الاتصال.',
+
+  'filters.title': 'المرشحات والتأثيرات',
+  'filters.grayscale': 'تدرج رمادي',
+  'filters.brightness-contrast': 'السطوع والتباين',
+  'filters.blur': 'تمويه',
+  'filters.mirror': 'انعكاس',
+  'filters.background-blur': 'تمويه الخلفية',
+  'filters.amount': 'المقدار',
+  'filters.radius': 'نصف القطر',
+  'filters.brightness': 'السطوع',
+  'filters.contrast': 'التباين',
+  'filters.subject': 'حجم المنطقة الواضحة',
+  'filters.error.not-supported': 'مرشحات الفيديو غير مدعومة في هذا المتصفح.',
+  'filters.error.no-canvas':
+    'تحتاج مرشحات الفيديو إلى دعم لوحة الرسم ثنائية الأبعاد.',
+  'filters.error.duplicate': 'يوجد مرشح مسجل بالمعرّف "{id}" بالفعل.',
+  'filters.error.unknown': 'لا يوجد مرشح مسجل بالمعرّف "{id}".',
+
+  'diagnostics.title': 'تشخيص الكاميرا',
+  'diagnostics.run': 'تشغيل التشخيص',
+  'diagnostics.measuring': 'جارٍ القياس...',
+  'diagnostics.copy': 'نسخ JSON',
+  'diagnostics.download': 'تنزيل JSON',
+  'diagnostics.failed': 'تعذّر جمع التشخيص: {reason}',
+  'diagnostics.copied': 'تم نسخ التشخيص إلى الحافظة.',
+  'diagnostics.copy-blocked': 'تم حظر النسخ. استخدم «تنزيل JSON» بدلًا من ذلك.',
+
+  'capture.format': 'صيغة الصورة',
+  'capture.quality': 'الجودة',
+  'capture.take-photo': 'التقاط صورة',
+  'capture.record': 'تسجيل',
+  'capture.stop-recording': 'إيقاف التسجيل',
+  'capture.pause': 'إيقاف مؤقت',
+  'capture.resume': 'استئناف',
+  'capture.error.encode-failed': 'تعذّر ترميز الصورة بصيغة {format}.',
+  'capture.error.no-stream': 'شغّل الكاميرا قبل التقاط صورة.',
+  'capture.error.not-supported': 'التقاط الصور غير مدعوم في هذا المتصفح.',
+  'capture.error.unknown': 'تعذّر التقاط الصورة: {reason}',
+
+  'recorder.error.no-stream': 'شغّل الكاميرا قبل التسجيل.',
+  'recorder.error.not-supported':
+    'تسجيل الفيديو غير مدعوم في هذا المتصفح. يُرجى استخدام إصدار حديث من Chrome أو Firefox أو Safari أو Edge.',
+  'recorder.error.start-failed': 'تعذّر بدء التسجيل: {reason}',
+  'recorder.error.failed': 'فشل التسجيل: {reason}',
+
+  'gallery.photos': 'أحدث الصور',
+  'gallery.recordings': 'التسجيلات',
+  'gallery.photo-alt': 'صورة ملتقطة في {date}',
+  'gallery.download': 'تنزيل',
+  'gallery.delete': 'حذف',
+
+  'auth.username': 'اسم المستخدم',
+  'auth.username-placeholder': 'اسم المستخدم (اختياري لتسجيل الدخول)',
+  'auth.attachment': 'أداة المصادقة لمفاتيح المرور الجديدة',
+  'auth.attachment-platform': 'هذا الجهاز',
+  'auth.attachment-cross-platform': 'مفتاح أمان أو هاتف',
+  'auth.attachment-any': 'أي أداة مصادقة',
+  'auth.with-passkey': 'المصادقة باستخدام مفتاح مرور',
+  'auth.with-biometrics': 'المصادقة بالقياسات الحيوية',
+  'auth.authenticating': 'جارٍ التحقق...',
+  'auth.registering': 'جارٍ التسجيل...',
+  'auth.authenticated': 'تمت المصادقة ✓',
+  'auth.registered': 'تم تسجيل مفتاح المرور! تم تسجيل دخول {username}.',
+  'auth.verified': 'تمت المصادقة بنجاح! تم التحقق من {username}.',
+  'auth.not-supported':
+    'متصفحك لا يدعم مفاتيح المرور. يُرجى استخدام متصفح حديث مثل Chrome أو Safari أو Firefox أو Edge.',
+
+  'session.sign-out': 'تسجيل الخروج',
+  'session.signed-out': 'تم تسجيل خروجك.',
+  'session.expired': 'انتهت صلاحية جلستك. سجّل الدخول مرة أخرى للمتابعة.',
+  'session.sign-in-to-save':
+    'سجّل الدخول لحفظ الصور والتسجيلات. تم تنزيل اللقطة بدلاً من ذلك.',
+
+  'vault.encrypted': 'الصور والتسجيلات المحفوظة مشفّرة بمفتاح المرور الخاص بك.',
+  'vault.locked':
+    'صورك وتسجيلاتك المحفوظة مقفلة. افتحها بمفتاح مرور يحمل مفتاحها.',
+  'vault.unlock': 'فتح القفل',
+  'vault.unlock-failed':
+    'لا يمكن لمفتاح المرور هذا فتح الوسائط المحفوظة. جرّب مفتاح مرور آخر.',
+  'vault.unsupported':
+    'لا يمكن لمفتاح المرور الخاص بك تشفير الوسائط المحفوظة، لذا تُحفظ الصور والتسجيلات دون تشفير على هذا الجهاز.',
+  'vault.downloaded':
+    'الوسائط المحفوظة مقفلة، لذا تم تنزيل الالتقاط بدلاً من ذلك.',
+
+  'passkeys.manage': 'إدارة مفاتيح المرور',
+  'passkeys.account': 'تم تسجيل الدخول باسم {username}',
+  'passkeys.count': {
+    zero: 'لا توجد مفاتيح مرور',
+    one: 'مفتاح مرور واحد',
+    two: 'مفتاحا مرور',
+    few: '{count} مفاتيح مرور',
+    many: '{count} مفتاح مرور',
+    other: '{count} مفتاح مرور',
+  },
+  'passkeys.empty':
+    'لم يتبقَّ لهذا الحساب أي مفتاح مرور. أضف مفتاحًا لتتمكن من تسجيل الدخول مجددًا.',
+  'passkeys.nickname': 'اسم مستعار لمفتاح المرور الجديد',
+  'passkeys.add': 'إضافة مفتاح مرور آخر',
+  'passkeys.forget': 'نسيان مفاتيح المرور على هذا المتصفح',
+  'passkeys.forget-confirm':
+    'هل تريد نسيان جميع مفاتيح المرور على هذا المتصفح؟ ستحتاج إلى التسجيل مرة أخرى هنا.',
+  'passkeys.forgotten': 'تم نسيان مفاتيح المرور على هذا المتصفح.',
+  'passkeys.created': 'أُنشئ في {date}',
+  'passkeys.last-used': 'آخر استخدام في {date}',
+  'passkeys.never-used': 'لم يُستخدم قط',
+  'passkeys.via': 'عبر {transports}',
+  'passkeys.transport-unknown': 'وسيلة النقل غير معروفة',
+  'passkeys.rename': 'إعادة تسمية',
+  'passkeys.new-nickname': 'الاسم المستعار الجديد',
+  'passkeys.save': 'حفظ',
+  'passkeys.revoke': 'إبطال',
+  'passkeys.revoke-confirm':
+    'هل تريد إبطال «{nickname}»؟ لن يتمكن بعد الآن من تسجيل الدخول.',
+
+  'inspector.title': 'فاحص بيانات الاعتماد',
+
+  'webauthn.error.not-supported':
+    'WebAuthn غير مدعوم في هذا المتصفح. يُرجى استخدام متصفح حديث مثل Chrome أو Firefox أو Safari أو Edge.',
+  'webauthn.error.server-unavailable':
+    'تعذّر الاتصال بخادم المصادقة. يُرجى التحقق من اتصالك والمحاولة مرة أخرى.',
+  'webauthn.error.verification-failed':
+    'لم يتمكن الخادم من التحقق من مفتاح المرور: {reason}',
+  'webauthn.error.unexpected-response':
+    'أعاد خادم المصادقة استجابة غير متوقعة.',
+  'webauthn.error.username-required':
+    'يُرجى إدخال اسم مستخدم لتسجيل مفتاح مرور.',
+  'webauthn.error.account-exists':
+    'لدى {username} مفاتيح مرور بالفعل. سجّل الدخول بأحدها قبل إضافة مفتاح آخر.',
+  'webauthn.error.unknown-user':
+    'لا توجد مفاتيح مرور مسجلة لـ {username}. يُرجى التسجيل أولًا.',
+  'webauthn.error.create-failed':
+    'فشل إنشاء بيانات الاعتماد. يُرجى المحاولة مرة أخرى.',
+  'webauthn.error.get-failed': 'فشلت المصادقة. يُرجى المحاولة مرة أخرى.',
+  'webauthn.error.register-not-allowed':
+    'تم إلغاء تسجيل مفتاح المرور أو رفضه. تأكد من إعداد Face ID أو Touch ID أو Windows Hello أو مفتاح أمان.',
+  'webauthn.error.register-not-supported':
+    'أداة المصادقة هذه غير مدعومة. جرّب أداة مصادقة أخرى، أو تأكد من تفعيل Face ID أو Touch ID أو Windows Hello.',
+  'webauthn.error.register-invalid-state':
+    'يوجد مفتاح مرور لهذا الحساب على أداة المصادقة هذه بالفعل.',
+  'webauthn.error.register-timeout':
+    'انتهت مهلة المصادقة. يُرجى المحاولة مرة أخرى وإكمال التحقق البيومتري خلال 60 ثانية.',
+  'webauthn.error.register-unknown':
+    'تعذّر تسجيل المصادقة البيومترية: {reason}',
+  'webauthn.error.not-allowed': 'تم إلغاء المصادقة البيومترية أو رفضها.',
+  'webauthn.error.device-not-supported':
+    'هذا الجهاز لا يدعم المصادقة البيومترية.',
+  'webauthn.error.invalid-state':
+    'حالة بيانات الاعتماد غير صالحة. يُرجى محاولة التسجيل مرة أخرى.',
+  'webauthn.error.timeout': 'انتهت مهلة المصادقة. يُرجى المحاولة مرة أخرى.',
+  'webauthn.error.unknown': 'تعذّرت المصادقة: {reason}',
+
+  'help.camera-heading': 'كيفية تفعيل الوصول إلى الكاميرا في {title}:',
+  'help.passkey-heading': 'كيفية تفعيل المصادقة البيومترية في {title}:',
+  'help.reload': 'حدّث الصفحة وحاول مرة أخرى',
+
+  'help.camera.ios-safari-settings':
+    'اضغط على «aA» في شريط العناوين، ثم «إعدادات موقع الويب»',
+  'help.camera.ios-safari-allow': 'اضبط الكاميرا على «سماح»',
+  'help.camera.ios-app-settings':
+    'افتح تطبيق الإعدادات وابحث عن {browser} في قائمة التطبيقات',
+  'help.camera.ios-app-allow': 'فعّل الكاميرا',
+  'help.camera.android-site-icon': 'اضغط على الأيقونة المجاورة لشريط العناوين',
+  'help.camera.android-allow': 'اضغط على «الأذونات» واضبط الكاميرا على «سماح»',
+  'help.camera.address-bar-icon': 'انقر على أيقونة الكاميرا في شريط العناوين',
+  'help.camera.firefox-remove': 'أزل الإذن المحظور',
+  'help.camera.firefox-enable':
+    'انقر على «تشغيل الكاميرا» مرة أخرى للسماح بالوصول',
+  'help.camera.safari-settings': 'انتقل إلى قائمة Safari ← إعدادات هذا الموقع',
+  'help.camera.select-allow': 'ابحث عن «الكاميرا» واختر «سماح»',
+  'help.camera.edge-lock': 'انقر على أيقونة القفل في شريط العناوين',
+  'help.camera.edge-permissions': 'انقر على «أذونات هذا الموقع»',
+  'help.camera.chromium-always-allow':
+    'اختر «السماح دائمًا بالوصول إلى الكاميرا»',
+  'help.camera.chromium-done': 'انقر على «تم»',
+  'help.camera.generic-icon': 'ابحث عن أيقونة كاميرا في شريط العناوين',
+  'help.camera.generic-allow': 'انقر عليها واسمح بالوصول إلى الكاميرا',
+  'help.camera.macos-system':
+    'إذا بقيت محظورة، افتح إعدادات النظام ← الخصوصية والأمن ← الكاميرا واسمح لمتصفحك',
+  'help.camera.windows-system':
+    'إذا بقيت محظورة، افتح الإعدادات ← الخصوصية والأمان ← الكاميرا وفعّل «السماح لتطبيقات سطح المكتب بالوصول إلى الكاميرا»',
+  'help.camera.android-system':
+    'إذا بقيت محظورة، افتح إعدادات Android ← التطبيقات ← متصفحك ← الأذونات واسمح بالكاميرا',
+
+  'help.passkey.windows-settings':
+    'انتقل إلى الإعدادات ← الحسابات ← خيارات تسجيل الدخول',
+  'help.passkey.windows-hello':
+    'أعدّ Windows Hello (الوجه أو بصمة الإصبع أو رمز PIN)',
+  'help.passkey.macos-firefox-touch-id':
+    'انتقل إلى إعدادات النظام ← Touch ID وكلمة السر وأعدّ Touch ID',
+  'help.passkey.macos-firefox-allow':
+    'اسمح لـ Firefox بالوصول إلى مفتاح الأمان أو أداة المصادقة البيومترية',
+  'help.passkey.macos-settings':
+    'انتقل إلى إعدادات النظام ← Touch ID وكلمة السر',
+  'help.passkey.macos-touch-id': 'تأكد من تفعيل Touch ID وإعداده',
+  'help.passkey.ios-biometrics':
+    'تأكد من إعداد Face ID أو Touch ID في الإعدادات',
+  'help.passkey.ios-keychain':
+    'فعّل سلسلة مفاتيح iCloud من الإعدادات ← اسمك ← iCloud ← كلمات السر وسلسلة المفاتيح',
+  'help.passkey.android-lock':
+    'تأكد من إعداد قفل للشاشة (رمز PIN أو نمط أو كلمة مرور)',
+  'help.passkey.android-samsung':
+    'تأكد من تفعيل Samsung Pass أو مدير كلمات المرور في Google',
+  'help.passkey.android-google':
+    'تأكد من تفعيل مدير كلمات المرور في Google لحساب Google هذا',
+  'help.passkey.chromeos':
+    'أعدّ رمز PIN أو بصمة إصبع لجهاز Chromebook من الإعدادات',
+  'help.passkey.linux-none':
+    'لا تتوفر في Linux أداة مصادقة مدمجة لمفاتيح المرور في معظم المتصفحات',
+  'help.passkey.linux-roaming':
+    'اختر «مفتاح أمان أو هاتف» واستخدم مفتاح USB أو هاتفك بدلًا من ذلك',
+  'help.passkey.generic-biometrics':
+    'تأكد من تفعيل المصادقة البيومترية على جهازك (Face ID أو Touch ID أو Windows Hello)',
+  'help.passkey.generic-update': 'تحقق من أن متصفحك محدّث',
+  'help.passkey.generic-browsers':
+    'جرّب استخدام Chrome أو Safari أو Firefox أو Edge للحصول على أفضل توافق',
+};
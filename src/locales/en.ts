@@ -0,0 +1,321 @@
+import type { Message } from '../i18n';
+
+// The source catalog: every key used in the app, in English
+export const en = {
+  'app.title': 'Camera Access App',
+  'app.subtitle': 'Test camera and biometric authentication',
+  'app.language': 'Language',
+  'app.error': 'Error:',
+  'app.unknown-reason': 'Unknown error',
+
+  'environment.browser-on-os': '{browser} on {os}',
+  'environment.unknown-browser': 'your browser',
+
+  'camera.preview-placeholder': 'Camera preview will appear here',
+  'camera.select': 'Camera',
+  'camera.front': 'Front camera',
+  'camera.rear': 'Rear camera',
+  'camera.unnamed': 'Camera {number}',
+  'camera.quality': 'Quality',
+  'camera.quality-best': 'Best available',
+  'camera.enable': 'Enable Camera',
+  'camera.stop': 'Stop Camera',
+  'camera.requesting': 'Requesting access...',
+  'camera.permission-granted': 'Camera allowed',
+  'camera.permission-prompt': 'Camera will ask',
+  'camera.permission-denied': 'Camera blocked',
+  'camera.requested-profile': 'requested {profile}',
+  'camera.allowed-again': 'Camera access is allowed again.',
+  'camera.restart': 'Restart camera',
+  'camera.paused': 'The system paused the camera.',
+  'camera.reconnecting':
+    'The camera stopped. Reconnecting (attempt {attempt} of {attempts})...',
+  'camera.reconnected': 'The camera is back.',
+
+  'camera.error.not-supported':
+    'Camera access is not supported in this browser. Please use a modern browser like Chrome, Firefox, Safari, or Edge.',
+  'camera.error.permission-denied':
+    'Camera access was denied. Please allow camera access to continue.',
+  'camera.error.not-found':
+    'No camera device found. Please connect a camera and try again.',
+  'camera.error.overconstrained':
+    'No camera mode satisfies the requested settings. Try a lower resolution or frame rate.',
+  'camera.error.overconstrained-by':
+    'No camera mode satisfies the requested settings ({constraint}). Try a lower resolution or frame rate.',
+  'camera.error.in-use':
+    'Camera is currently in use by another application. Please close other apps using the camera and try again.',
+  'camera.error.unknown': 'Unable to access camera: {reason}',
+
+  'face.none': 'No face detected',
+  'face.several': { other: '{count} faces detected, only one person please' },
+  'face.closer': 'Move closer',
+  'face.back': 'Move back a little',
+  'face.center': 'Center your face',
+  'face.centered': 'Face centered',
+  'face.approximate': '{message} (approximate)',
+  'face.error.not-supported': 'Face detection needs canvas support.',
+  'liveness.blink': 'Blink slowly to finish signing in',
+  'liveness.turn-left': 'Turn your head to the left to finish signing in',
+  'liveness.turn-right': 'Turn your head to the right to finish signing in',
+  'liveness.smile': 'Smile to finish signing in',
+  'liveness.passed': 'Liveness confirmed ({confidence}% confidence).',
+  'liveness.failure.timeout':
+    'The liveness check did not see the movement in time.',
+  'liveness.failure.no-face':
+    'The liveness check could not see exactly one face.',
+  'liveness.failure.no-landmarks':
+    'The liveness check could not make out your eyes, nose and mouth.',
+  'liveness.failure.no-camera': 'The liveness check needs the camera.',
+  'liveness.failure.not-supported':
+    'No liveness check was done: this browser cannot check liveness on the device.',
+  'liveness.failure.cancelled': 'The liveness check was interrupted.',
+  'liveness.failed':
+    'You have not been signed in because the liveness check did not pass. {reason}',
+  'liveness.unavailable':
+    'Signing in needs a liveness check, which this browser cannot do on the device. Try another browser.',
+
+  'scan.start': 'Scan codes',
+  'scan.stop': 'Stop scanning',
+  'scan.results': 'Scanned codes',
+  'scan.format.qr_code': 'QR code',
+  'scan.format.ean_13': 'EAN-13',
+  'scan.format.code_128': 'Code 128',
+  'scan.format.data_matrix': 'Data Matrix',
+  'scan.error.not-supported': 'Scanning codes needs canvas support.',
+
+  'call.title': 'Video call preview',
+  'call.mode': 'Call',
+  'call.mode-loopback': 'Within this page',
+  'call.mode-tab': 'With another tab',
+  'call.codec': 'Codec',
+  'call.codec-default': 'Browser default',
+  'call.start': 'Start call',
+  'call.stop': 'End call',
+  'call.local': 'Sent',
+  'call.remote': 'Received',
+  'call.waiting': 'Waiting for another tab to join the call...',
+  'call.connecting': 'Connecting...',
+  'call.connected': 'Connected',
+  'call.disconnected': 'The other end left the call.',
+  'call.stats.bitrate': 'Bitrate',
+  'call.stats.frame-rate': 'Frame rate',
+  'call.stats.resolution': 'Resolution',
+  'call.stats.packet-loss': 'Packet loss',
+  'call.stats.codec': 'Codec',
+  'call.kbps': '{value} kbps',
+  'call.fps': '{value} fps',
+  'call.packets-lost': '{percent}% ({count} packets)',
+  'call.error.not-supported': 'This browser does not support WebRTC calls.',
+  'call.error.failed': 'The call could not connect.',
+
+  'filters.title': 'Filters & effects',
+  'filters.grayscale': 'Grayscale',
+  'filters.brightness-contrast': 'Brightness & contrast',
+  'filters.blur': 'Blur',
+  'filters.mirror': 'Mirror',
+  'filters.background-blur': 'Background blur',
+  'filters.amount': 'Amount',
+  'filters.radius': 'Radius',
+  'filters.brightness': 'Brightness',
+  'filters.contrast': 'Contrast',
+  'filters.subject': 'Subject size',
+  'filters.error.not-supported':
+    'Video filters are not supported in this browser.',
+  'filters.error.no-canvas': 'Video filters need 2D canvas support.',
+  'filters.error.duplicate':
+    'A filter with the id "{id}" is already registered.',
+  'filters.error.unknown': 'No filter with the id "{id}" is registered.',
+
+  'diagnostics.title': 'Camera diagnostics',
+  'diagnostics.run': 'Run diagnostics',
+  'diagnostics.measuring': 'Measuring...',
+  'diagnostics.copy': 'Copy JSON',
+  'diagnostics.download': 'Download JSON',
+  'diagnostics.failed': 'The diagnostics could not be collected: {reason}',
+  'diagnostics.copied': 'Diagnostics copied to the clipboard.',
+  'diagnostics.copy-blocked': 'Copying was blocked. Use Download JSON instead.',
+
+  'capture.format': 'Photo format',
+  'capture.quality': 'Quality',
+  'capture.take-photo': 'Take Photo',
+  'capture.record': 'Record',
+  'capture.stop-recording': 'Stop Recording',
+  'capture.pause': 'Pause',
+  'capture.resume': 'Resume',
+  'capture.error.encode-failed': 'Unable to encode the photo as {format}.',
+  'capture.error.no-stream': 'Start the camera before taking a photo.',
+  'capture.error.not-supported':
+    'Photo capture is not supported in this browser.',
+  'capture.error.unknown': 'Unable to capture photo: {reason}',
+
+  'recorder.error.no-stream': 'Start the camera before recording.',
+  'recorder.error.not-supported':
+    'Video recording is not supported in this browser. Please use a recent version of Chrome, Firefox, Safari, or Edge.',
+  'recorder.error.start-failed': 'Unable to start recording: {reason}',
+  'recorder.error.failed': 'Recording failed: {reason}',
+
+  'gallery.photos': 'Recent photos',
+  'gallery.recordings': 'Recordings',
+  'gallery.photo-alt': 'Photo taken {date}',
+  'gallery.download': 'Download',
+  'gallery.delete': 'Delete',
+
+  'auth.username': 'Username',
+  'auth.username-placeholder': 'Username (optional to sign in)',
+  'auth.attachment': 'Authenticator for new passkeys',
+  'auth.attachment-platform': 'This device',
+  'auth.attachment-cross-platform': 'Security key or phone',
+  'auth.attachment-any': 'Any authenticator',
+  'auth.with-passkey': 'Authenticate with a passkey',
+  'auth.with-biometrics': 'Authenticate with biometrics',
+  'auth.authenticating': 'Authenticating...',
+  'auth.registering': 'Registering...',
+  'auth.authenticated': 'Authenticated ✓',
+  'auth.registered': 'Passkey registered! {username} is signed in.',
+  'auth.verified': 'Authentication successful! {username} has been verified.',
+  'auth.not-supported':
+    'Your browser does not support passkeys. Please use a modern browser like Chrome, Safari, Firefox, or Edge.',
+
+  'session.sign-out': 'Sign out',
+  'session.signed-out': 'You have been signed out.',
+  'session.expired': 'Your session has expired. Sign in again to continue.',
+  'session.sign-in-to-save':
+    'Sign in to save photos and recordings. The capture was downloaded instead.',
+
+  'vault.encrypted':
+    'Saved photos and recordings are encrypted with your passkey.',
+  'vault.locked':
+    'Your saved photos and recordings are locked. Unlock them with a passkey that has their key.',
+  'vault.unlock': 'Unlock',
+  'vault.unlock-failed':
+    'That passkey cannot unlock your saved media. Try another of your passkeys.',
+  'vault.unsupported':
+    'Your passkey cannot encrypt saved media, so photos and recordings are saved unencrypted on this device.',
+  'vault.downloaded':
+    'Saved media is locked, so the capture was downloaded instead.',
+
+  'passkeys.manage': 'Manage passkeys',
+  'passkeys.account': 'Signed in as {username}',
+  'passkeys.count': { one: '{count} passkey', other: '{count} passkeys' },
+  'passkeys.empty':
+    'This account has no passkeys left. Add one to be able to sign in again.',
+  'passkeys.nickname': 'Nickname for new passkey',
+  'passkeys.add': 'Add another passkey',
+  'passkeys.forget': 'Forget passkeys on this browser',
+  'passkeys.forget-confirm':
+    'Forget all passkeys on this browser? You will need to register again here.',
+  'passkeys.forgotten': 'Passkeys on this browser have been forgotten.',
+  'passkeys.created': 'Created {date}',
+  'passkeys.last-used': 'last used {date}',
+  'passkeys.never-used': 'never used',
+  'passkeys.via': 'via {transports}',
+  'passkeys.transport-unknown': 'transport unknown',
+  'passkeys.rename': 'Rename',
+  'passkeys.new-nickname': 'New nickname',
+  'passkeys.save': 'Save',
+  'passkeys.revoke': 'Revoke',
+  'passkeys.revoke-confirm':
+    'Revoke "{nickname}"? It will no longer be able to sign in.',
+
+  'inspector.title': 'Credential inspector',
+
+  'webauthn.error.not-supported':
+    'WebAuthn is not supported in this browser. Please use a modern browser like Chrome, Firefox, Safari, or Edge.',
+  'webauthn.error.server-unavailable':
+    'Unable to reach the authentication server. Please check your connection and try again.',
+  'webauthn.error.verification-failed':
+    'The server could not verify your passkey: {reason}',
+  'webauthn.error.unexpected-response':
+    'The authentication server returned an unexpected response.',
+  'webauthn.error.username-required':
+    'Please enter a username to register a passkey.',
+  'webauthn.error.account-exists':
+    '{username} already has passkeys. Sign in with one of them before adding another.',
+  'webauthn.error.unknown-user':
+    'No passkeys are registered for {username}. Please register first.',
+  'webauthn.error.create-failed':
+    'Failed to create credential. Please try again.',
+  'webauthn.error.get-failed': 'Failed to authenticate. Please try again.',
+  'webauthn.error.register-not-allowed':
+    'Passkey registration was cancelled or denied. Please ensure you have Face ID, Touch ID, Windows Hello or a security key set up.',
+  'webauthn.error.register-not-supported':
+    'This authenticator is not supported. Try another authenticator, or ensure Face ID, Touch ID, or Windows Hello is enabled.',
+  'webauthn.error.register-invalid-state':
+    'A passkey for this account is already on this authenticator.',
+  'webauthn.error.register-timeout':
+    'Authentication timed out. Please try again and complete the biometric verification within 60 seconds.',
+  'webauthn.error.register-unknown':
+    'Unable to register biometric authentication: {reason}',
+  'webauthn.error.not-allowed':
+    'Biometric authentication was cancelled or denied.',
+  'webauthn.error.device-not-supported':
+    'This device does not support biometric authentication.',
+  'webauthn.error.invalid-state':
+    'Invalid credential state. Please try registering again.',
+  'webauthn.error.timeout': 'Authentication timed out. Please try again.',
+  'webauthn.error.unknown': 'Unable to authenticate: {reason}',
+
+  'help.camera-heading': 'How to enable camera access in {title}:',
+  'help.passkey-heading': 'How to enable biometric authentication in {title}:',
+  'help.reload': 'Refresh the page and try again',
+
+  'help.camera.ios-safari-settings':
+    'Tap "aA" in the address bar, then "Website Settings"',
+  'help.camera.ios-safari-allow': 'Set Camera to "Allow"',
+  'help.camera.ios-app-settings':
+    'Open the Settings app and find {browser} in the app list',
+  'help.camera.ios-app-allow': 'Turn on Camera',
+  'help.camera.android-site-icon':
+    'Tap the icon to the left of the address bar',
+  'help.camera.android-allow': 'Tap "Permissions" and set Camera to "Allow"',
+  'help.camera.address-bar-icon': 'Click the camera icon in the address bar',
+  'help.camera.firefox-remove': 'Remove the blocked permission',
+  'help.camera.firefox-enable': 'Click "Enable Camera" again to allow access',
+  'help.camera.safari-settings':
+    'Go to Safari menu → Settings for This Website',
+  'help.camera.select-allow': 'Find "Camera" and select "Allow"',
+  'help.camera.edge-lock': 'Click the lock icon in the address bar',
+  'help.camera.edge-permissions': 'Click "Permissions for this site"',
+  'help.camera.chromium-always-allow': 'Select "Always allow camera access"',
+  'help.camera.chromium-done': 'Click "Done"',
+  'help.camera.generic-icon': 'Look for a camera icon in your address bar',
+  'help.camera.generic-allow': 'Click it and allow camera access',
+  'help.camera.macos-system':
+    'If it is still blocked, open System Settings → Privacy & Security → Camera and allow your browser',
+  'help.camera.windows-system':
+    'If it is still blocked, open Settings → Privacy & security → Camera and turn on "Let desktop apps access your camera"',
+  'help.camera.android-system':
+    'If it is still blocked, open Android Settings → Apps → your browser → Permissions and allow Camera',
+
+  'help.passkey.windows-settings':
+    'Go to Settings → Accounts → Sign-in options',
+  'help.passkey.windows-hello':
+    'Set up Windows Hello (Face, Fingerprint, or PIN)',
+  'help.passkey.macos-firefox-touch-id':
+    'Go to System Settings → Touch ID & Password and set up Touch ID',
+  'help.passkey.macos-firefox-allow':
+    'Allow Firefox to access your security key or biometric authenticator',
+  'help.passkey.macos-settings': 'Go to System Settings → Touch ID & Password',
+  'help.passkey.macos-touch-id': 'Ensure Touch ID is enabled and configured',
+  'help.passkey.ios-biometrics':
+    'Ensure Face ID or Touch ID is set up in Settings',
+  'help.passkey.ios-keychain':
+    'Turn on iCloud Keychain in Settings → your name → iCloud → Passwords and Keychain',
+  'help.passkey.android-lock':
+    'Ensure you have a screen lock set up (PIN, pattern, or password)',
+  'help.passkey.android-samsung':
+    'Ensure Samsung Pass or Google Password Manager is turned on',
+  'help.passkey.android-google':
+    'Ensure Google Password Manager is turned on for this Google account',
+  'help.passkey.chromeos':
+    'Set up a PIN or fingerprint for your Chromebook in Settings',
+  'help.passkey.linux-none':
+    'Linux has no built-in passkey authenticator in most browsers',
+  'help.passkey.linux-roaming':
+    'Choose "Security key or phone" and use a USB key or your phone instead',
+  'help.passkey.generic-biometrics':
+    'Ensure your device has biometric authentication enabled (Face ID, Touch ID, Windows Hello)',
+  'help.passkey.generic-update': 'Check that your browser is up to date',
+  'help.passkey.generic-browsers':
+    'Try using Chrome, Safari, Firefox, or Edge for best compatibility',
+} satisfies Record<string, Message>;
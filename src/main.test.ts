@@ -0,0 +1,418 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createFakeMediaDevices,
+  installFakeMediaDevices,
+  type FakeMediaDevices,
+} from './test/fake-media-devices';
+import { installFakeServer } from './test/fake-server';
+import {
+  createSoftAuthenticator,
+  installSoftAuthenticator,
+  type SoftAuthenticator,
+} from './test/soft-authenticator';
+
+let devices: FakeMediaDevices;
+let authenticator: SoftAuthenticator;
+let cleanups: (() => void)[] = [];
+
+function $<T extends HTMLElement>(selector: string): T {
+  return document.querySelector<T>(selector)!;
+}
+
+// Load main.ts into a fresh page, as if the browser had just opened it
+async function openApp(): Promise<void> {
+  vi.resetModules();
+  document.body.innerHTML = '<div id="app"></div>';
+  await import('./main');
+  await expect
+    .poll(() => $('#app-webauthn-button').textContent?.trim())
+    .toMatch(/^Authenticate with|Authenticated/);
+}
+
+function setUsername(name: string): void {
+  const input = $<HTMLInputElement>('#app-username');
+  input.value = name;
+  input.dispatchEvent(new Event('change'));
+}
+
+function useAuthenticator(
+  next: SoftAuthenticator,
+  options?: Parameters<typeof installSoftAuthenticator>[1]
+): void {
+  authenticator = next;
+  cleanups.push(installSoftAuthenticator(next, options));
+}
+
+beforeEach(() => {
+  localStorage.clear();
+  sessionStorage.clear();
+  devices = createFakeMediaDevices();
+  cleanups = [installFakeMediaDevices(devices), installFakeServer().restore];
+  useAuthenticator(createSoftAuthenticator());
+});
+
+afterEach(() => {
+  cleanups.reverse().forEach(cleanup => cleanup());
+});
+
+describe('camera flow', () => {
+  it('starts and stops the camera', async () => {
+    await openApp();
+    const toggle = $<HTMLButtonElement>('#app-toggle-camera');
+
+    toggle.click();
+    await expect.poll(() => toggle.textContent).toBe('Stop Camera');
+    expect($('#app-video').classList.contains('active')).toBe(true);
+    expect($<HTMLButtonElement>('#app-capture-button').disabled).toBe(false);
+    expect($('#app-camera-settings').textContent).toContain('1280×720');
+
+    toggle.click();
+    expect(toggle.textContent).toBe('Enable Camera');
+    expect($('#app-video').classList.contains('active')).toBe(false);
+    expect($<HTMLButtonElement>('#app-capture-button').disabled).toBe(true);
+  });
+
+  it('explains how to allow a denied camera', async () => {
+    await openApp();
+    devices.failNext('NotAllowedError');
+
+    $<HTMLButtonElement>('#app-toggle-camera').click();
+
+    await expect
+      .poll(() => $('#app-error-message').classList.contains('hidden'))
+      .toBe(false);
+    expect($('#app-error-message').textContent).toContain('denied');
+    expect($('#app-help-instructions').classList.contains('hidden')).toBe(
+      false
+    );
+    expect($('#app-toggle-camera').textContent).toBe('Enable Camera');
+  });
+
+  it('shows browser error messages as text, not markup', async () => {
+    await openApp();
+    devices.failNext('AbortError', {
+      message: '<img src=x onerror="alert(1)">',
+    });
+
+    $<HTMLButtonElement>('#app-toggle-camera').click();
+
+    const error = $('#app-error-message');
+    await expect
+      .poll(() => error.textContent)
+      .toContain('<img src=x onerror="alert(1)">');
+    expect(error.querySelector('img')).toBeNull();
+    expect(error.getAttribute('role')).toBe('alert');
+  });
+
+  it('shows a blocked camera before the user clicks', async () => {
+    devices.setPermission('denied');
+    await openApp();
+
+    await expect
+      .poll(() => $('#app-camera-permission').textContent)
+      .toBe('Camera blocked');
+    expect($('#app-help-instructions').classList.contains('hidden')).toBe(
+      false
+    );
+    expect(devices.requests).toHaveLength(0);
+  });
+
+  it('offers to restart the camera once access is granted again', async () => {
+    await openApp();
+    await expect
+      .poll(() => $('#app-camera-permission').textContent)
+      .toBe('Camera will ask');
+
+    devices.setPermission('denied');
+    $<HTMLButtonElement>('#app-toggle-camera').click();
+    await expect
+      .poll(() => $('#app-error-message').classList.contains('hidden'))
+      .toBe(false);
+
+    devices.setPermission('granted');
+    await expect
+      .poll(() => $('#app-status-message').textContent)
+      .toContain('allowed again');
+    expect($('#app-camera-permission').textContent).toBe('Camera allowed');
+    expect($('#app-help-instructions').classList.contains('hidden')).toBe(true);
+    expect($('#app-error-message').classList.contains('hidden')).toBe(true);
+
+    $<HTMLButtonElement>('#app-status-message button').click();
+    await expect
+      .poll(() => $('#app-toggle-camera').textContent)
+      .toBe('Stop Camera');
+  });
+});
+
+describe('scan mode', () => {
+  afterEach(() => {
+    delete (window as { BarcodeDetector?: unknown }).BarcodeDetector;
+    const video = HTMLVideoElement.prototype as {
+      readyState?: number;
+      videoWidth?: number;
+    };
+    delete video.readyState;
+    delete video.videoWidth;
+  });
+
+  it('scans with the rear camera and lists each code once', async () => {
+    // happy-dom doesn't decode video, so give every <video> a frame
+    Object.defineProperties(HTMLVideoElement.prototype, {
+      readyState: { configurable: true, get: () => 4 },
+      videoWidth: { configurable: true, get: () => 640 },
+    });
+    Object.assign(window, {
+      BarcodeDetector: Object.assign(
+        class {
+          detect = async () => [
+            {
+              format: 'qr_code',
+              rawValue: 'https://example.com/',
+              cornerPoints: [],
+            },
+          ];
+        },
+        {
+          getSupportedFormats: async () => [
+            'qr_code',
+            'ean_13',
+            'code_128',
+            'data_matrix',
+          ],
+        }
+      ),
+    });
+    await openApp();
+    $<HTMLButtonElement>('#app-toggle-camera').click();
+    await expect
+      .poll(() => $('#app-toggle-camera').textContent)
+      .toBe('Stop Camera');
+
+    const scan = $<HTMLButtonElement>('#app-scan-button');
+    scan.click();
+    await expect.poll(() => scan.textContent).toBe('Stop scanning');
+    expect(devices.requests.at(-1)?.video).toMatchObject({
+      facingMode: 'environment',
+    });
+
+    await expect
+      .poll(() => $('#app-scan-results-list a')?.getAttribute('href'))
+      .toBe('https://example.com/');
+    await new Promise(resolve => setTimeout(resolve, 400));
+    expect($('#app-scan-results-list').querySelectorAll('li')).toHaveLength(1);
+
+    // Back to the camera in use before
+    scan.click();
+    await expect.poll(() => scan.textContent).toBe('Scan codes');
+    expect(devices.requests.at(-1)?.video).toMatchObject({
+      deviceId: { exact: 'front-camera' },
+    });
+  });
+});
+
+describe('call preview', () => {
+  it('is unavailable without WebRTC', async () => {
+    await openApp();
+    const call = $<HTMLButtonElement>('#app-call-button');
+    expect(call.textContent).toBe('Start call');
+    expect(call.disabled).toBe(true);
+    expect($('#app-call-stats').classList.contains('hidden')).toBe(true);
+  });
+});
+
+describe('sign-in flow', () => {
+  it('registers a new account, signs in and opens the camera', async () => {
+    await openApp();
+    setUsername('alice');
+
+    $<HTMLButtonElement>('#app-webauthn-button').click();
+
+    await expect
+      .poll(() => $('#app-webauthn-button').textContent)
+      .toBe('Authenticated ✓');
+    await expect
+      .poll(() => $('#app-toggle-camera').textContent)
+      .toBe('Stop Camera');
+    expect($('#app-status-message').textContent).toContain(
+      'Passkey registered'
+    );
+    expect($('#app-manage-passkeys').classList.contains('hidden')).toBe(false);
+    expect($('#app-inspector').classList.contains('hidden')).toBe(false);
+  });
+
+  it('signs in with a passkey registered earlier', async () => {
+    await openApp();
+    setUsername('alice');
+    $<HTMLButtonElement>('#app-webauthn-button').click();
+    await expect
+      .poll(() => $('#app-webauthn-button').textContent)
+      .toBe('Authenticated ✓');
+
+    // A new tab: the account is remembered, the sign-in is not
+    sessionStorage.clear();
+    await openApp();
+    expect($<HTMLInputElement>('#app-username').value).toBe('alice');
+    expect($('#app-manage-passkeys').classList.contains('hidden')).toBe(true);
+
+    $<HTMLButtonElement>('#app-webauthn-button').click();
+    await expect
+      .poll(() => $('#app-status-message').textContent)
+      .toContain('alice has been verified');
+  });
+
+  it('signs in with a synced passkey on a browser that has not seen it', async () => {
+    await openApp();
+    setUsername('alice');
+    $<HTMLButtonElement>('#app-webauthn-button').click();
+    await expect
+      .poll(() => $('#app-webauthn-button').textContent)
+      .toBe('Authenticated ✓');
+
+    localStorage.clear();
+    sessionStorage.clear();
+    await openApp();
+    setUsername('alice');
+    $<HTMLButtonElement>('#app-webauthn-button').click();
+
+    await expect
+      .poll(() => $('#app-status-message').textContent)
+      .toContain('alice has been verified');
+    expect(authenticator.credentials).toHaveLength(1);
+  });
+
+  it('signs in from the username autofill', async () => {
+    useAuthenticator(authenticator, { conditionalMediation: true });
+    await openApp();
+    setUsername('alice');
+    $<HTMLButtonElement>('#app-webauthn-button').click();
+    await expect
+      .poll(() => $('#app-webauthn-button').textContent)
+      .toBe('Authenticated ✓');
+
+    sessionStorage.clear();
+    await openApp();
+    await expect.poll(() => authenticator.hasPendingAutofill()).toBe(true);
+
+    authenticator.selectAutofill();
+    await expect
+      .poll(() => $('#app-webauthn-button').textContent)
+      .toBe('Authenticated ✓');
+  });
+
+  it('returns to the sign-in button when the user cancels', async () => {
+    await openApp();
+    setUsername('alice');
+    authenticator.failNext('NotAllowedError');
+
+    $<HTMLButtonElement>('#app-webauthn-button').click();
+
+    await expect
+      .poll(() => $('#app-error-message').classList.contains('hidden'))
+      .toBe(false);
+    expect($('#app-webauthn-button').textContent).toBe(
+      'Authenticate with biometrics'
+    );
+    expect($<HTMLButtonElement>('#app-webauthn-button').disabled).toBe(false);
+    expect($('#app-toggle-camera').textContent).toBe('Enable Camera');
+  });
+
+  it('signs out and returns to the sign-in button', async () => {
+    await openApp();
+    setUsername('alice');
+    $<HTMLButtonElement>('#app-webauthn-button').click();
+    await expect
+      .poll(() => $('#app-webauthn-button').textContent)
+      .toBe('Authenticated ✓');
+
+    $<HTMLButtonElement>('#app-sign-out').click();
+
+    await expect
+      .poll(() => $('#app-status-message').textContent)
+      .toBe('You have been signed out.');
+    expect($('#app-webauthn-button').textContent).toBe(
+      'Authenticate with biometrics'
+    );
+    expect($('#app-sign-out').classList.contains('hidden')).toBe(true);
+    expect($('#app-manage-passkeys').classList.contains('hidden')).toBe(true);
+    expect(document.activeElement).toBe($('#app-webauthn-button'));
+
+    // Reloading the tab doesn't bring the session back
+    await openApp();
+    expect($('#app-webauthn-button').textContent).toBe(
+      'Authenticate with biometrics'
+    );
+  });
+
+  it('offers security keys when there is no platform authenticator', async () => {
+    useAuthenticator(
+      createSoftAuthenticator({ attachment: 'cross-platform' }),
+      {
+        platformAuthenticator: false,
+      }
+    );
+    await openApp();
+
+    expect($('#app-webauthn-button').textContent).toBe(
+      'Authenticate with a passkey'
+    );
+    expect($<HTMLSelectElement>('#app-authenticator-attachment').value).toBe(
+      'cross-platform'
+    );
+
+    setUsername('bob');
+    $<HTMLButtonElement>('#app-webauthn-button').click();
+    await expect
+      .poll(() => $('#app-webauthn-button').textContent)
+      .toBe('Authenticated ✓');
+  });
+});
+
+describe('passkey management', () => {
+  it('moves focus into the panel and back out as it opens and closes', async () => {
+    await openApp();
+    setUsername('alice');
+    $<HTMLButtonElement>('#app-webauthn-button').click();
+    await expect
+      .poll(() => $('#app-webauthn-button').textContent)
+      .toBe('Authenticated ✓');
+
+    const manage = $<HTMLButtonElement>('#app-manage-passkeys');
+    manage.focus();
+    manage.click();
+
+    expect(manage.getAttribute('aria-expanded')).toBe('true');
+    expect(document.activeElement).toBe($('#app-passkeys-heading'));
+    await expect
+      .poll(() => $('#app-passkeys-list').querySelectorAll('li').length)
+      .toBe(1);
+
+    manage.click();
+    expect(manage.getAttribute('aria-expanded')).toBe('false');
+    expect($('#app-passkeys').classList.contains('hidden')).toBe(true);
+  });
+});
+
+describe('language', () => {
+  it('switches the page to Arabic, right to left', async () => {
+    await openApp();
+    const select = $<HTMLSelectElement>('#app-locale-select');
+
+    select.value = 'ar';
+    select.dispatchEvent(new Event('change'));
+
+    expect(document.documentElement.dir).toBe('rtl');
+    expect(document.documentElement.lang).toBe('ar');
+    expect($('#app-toggle-camera').textContent).toBe('تشغيل الكاميرا');
+    expect($('#app-capture-button').textContent).toBe('التقاط صورة');
+    expect($<HTMLInputElement>('#app-username').placeholder).toBe(
+      'اسم المستخدم (اختياري لتسجيل الدخول)'
+    );
+    expect(localStorage.getItem('app_locale')).toBe('ar');
+
+    devices.failNext('NotAllowedError');
+    $<HTMLButtonElement>('#app-toggle-camera').click();
+    await expect
+      .poll(() => $('#app-error-message').textContent)
+      .toContain('تم رفض الوصول إلى الكاميرا');
+  });
+});
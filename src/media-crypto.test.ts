@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  getMediaKeyStatus,
+  lockMediaKey,
+  openMedia,
+  sealMedia,
+  shareMediaKey,
+  unlockMediaKey,
+} from './media-crypto';
+
+const secret = () => crypto.getRandomValues(new Uint8Array(32));
+
+function photo(text: string, username = 'alice') {
+  return {
+    id: crypto.randomUUID(),
+    username,
+    blob: new Blob([text], { type: 'image/png' }),
+    mimeType: 'image/png',
+    width: 1,
+    height: 1,
+  };
+}
+
+beforeEach(() => {
+  localStorage.clear();
+  lockMediaKey();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('media keys', () => {
+  it('creates a key on first unlock and encrypts media with it', async () => {
+    expect(getMediaKeyStatus('alice')).toBe('unavailable');
+
+    expect(await unlockMediaKey('alice', 'passkey-1', secret())).toBe(true);
+    const sealed = await sealMedia('photo', photo('hello'));
+
+    expect(getMediaKeyStatus('alice')).toBe('unlocked');
+    expect(sealed.encryption).toBeDefined();
+    expect(sealed.blob.type).toBe('application/octet-stream');
+    expect(await sealed.blob.text()).not.toContain('hello');
+
+    const opened = await openMedia('photo', sealed);
+    expect(opened?.blob.type).toBe('image/png');
+    expect(await opened?.blob.text()).toBe('hello');
+  });
+
+  it('unlocks again only with the same passkey secret', async () => {
+    const first = secret();
+    await unlockMediaKey('alice', 'passkey-1', first);
+    const sealed = await sealMedia('photo', photo('hello'));
+    lockMediaKey();
+
+    expect(getMediaKeyStatus('alice')).toBe('locked');
+    expect(await openMedia('photo', sealed)).toBeNull();
+    expect(await unlockMediaKey('alice', 'passkey-1', secret())).toBe(false);
+    expect(await unlockMediaKey('alice', 'passkey-2', first)).toBe(false);
+
+    expect(await unlockMediaKey('alice', 'passkey-1', first)).toBe(true);
+    expect(await (await openMedia('photo', sealed))?.blob.text()).toBe('hello');
+  });
+
+  it('shares the key with a newly added passkey', async () => {
+    const first = secret();
+    await unlockMediaKey('alice', 'passkey-1', first);
+    const sealed = await sealMedia('photo', photo('hello'));
+    const second = secret();
+
+    expect(
+      await shareMediaKey(
+        'alice',
+        { credentialId: 'passkey-1', secret: first },
+        { credentialId: 'passkey-2', secret: second }
+      )
+    ).toBe(true);
+    lockMediaKey();
+
+    expect(await unlockMediaKey('alice', 'passkey-2', second)).toBe(true);
+    expect(await (await openMedia('photo', sealed))?.blob.text()).toBe('hello');
+  });
+
+  it('shares the key only from a passkey that holds a copy', async () => {
+    await unlockMediaKey('alice', 'passkey-1', secret());
+
+    expect(
+      await shareMediaKey(
+        'alice',
+        { credentialId: 'passkey-2', secret: secret() },
+        { credentialId: 'passkey-3', secret: secret() }
+      )
+    ).toBe(false);
+    expect(await unlockMediaKey('alice', 'passkey-3', secret())).toBe(false);
+  });
+
+  it('keeps the unlocked key from being exported', async () => {
+    const unwrapKey = vi.spyOn(crypto.subtle, 'unwrapKey');
+    const first = secret();
+    await unlockMediaKey('alice', 'passkey-1', first);
+    lockMediaKey();
+    await unlockMediaKey('alice', 'passkey-1', first);
+
+    expect(unwrapKey).toHaveBeenCalledTimes(2);
+    for (const call of unwrapKey.mock.calls) {
+      expect(call[5]).toBe(false);
+    }
+  });
+
+  it('opens media only as the record it was sealed for', async () => {
+    await unlockMediaKey('alice', 'passkey-1', secret());
+    const sealed = await sealMedia('photo', photo('hello'));
+
+    expect(await openMedia('recording', sealed)).toBeNull();
+    expect(
+      await openMedia('photo', { ...sealed, id: crypto.randomUUID() })
+    ).toBeNull();
+    expect(
+      await openMedia('photo', { ...sealed, mimeType: 'text/html' })
+    ).toBeNull();
+    expect(await openMedia('photo', { ...sealed, username: 'bob' })).toBeNull();
+    expect(await (await openMedia('photo', sealed))?.blob.text()).toBe('hello');
+  });
+
+  it('keeps accounts apart and leaves media as it is while locked', async () => {
+    await unlockMediaKey('alice', 'passkey-1', secret());
+    const sealed = await sealMedia('photo', photo('hello'));
+    await unlockMediaKey('bob', 'passkey-2', secret());
+
+    expect(getMediaKeyStatus('alice')).toBe('locked');
+    expect(await openMedia('photo', sealed)).toBeNull();
+    // Only bob's media is sealed with bob's key
+    expect((await sealMedia('photo', photo('hi'))).encryption).toBeUndefined();
+
+    lockMediaKey();
+    const plain = await sealMedia('photo', photo('plain'));
+    expect(plain.encryption).toBeUndefined();
+    expect(await openMedia('photo', plain)).toBe(plain);
+  });
+});
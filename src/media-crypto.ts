@@ -0,0 +1,250 @@
+// Client-side encryption for saved photos and recordings. Each account has
+// one random AES-GCM data key, and every passkey that can release a secret
+// (through the PRF extension or its large blob) keeps its own wrapped copy
+// of it. The unwrapped key only lives in memory, and can't be exported from
+// it, so saved media can only be read after a biometric sign-in. Like the
+// session, the unlocked key is shared by every widget in the tab, and
+// locking it locks them all.
+
+import { fromBase64Url, toBase64Url } from './encoding';
+import type { MediaEncryption } from './media-store';
+
+// 'unavailable' means no passkey for the account has released a secret, so
+// saved media isn't encrypted
+export type MediaKeyStatus = 'unlocked' | 'locked' | 'unavailable';
+
+// Which store a record is saved in; sealed blobs are bound to it
+export type MediaKind = 'photo' | 'recording';
+
+// A passkey's secret, and the credential that released it
+export interface PasskeySecret {
+  credentialId: string;
+  secret: Uint8Array<ArrayBuffer>;
+}
+
+interface AccountKey {
+  keyId: string;
+  // The data key wrapped by each passkey's secret, by credential ID
+  wrapped: Record<string, string>;
+}
+
+interface UnlockedKey {
+  username: string;
+  keyId: string;
+  key: CryptoKey;
+}
+
+// Wrapped data keys by username. They're useless without a passkey.
+const KEYS_STORAGE_KEY = 'media_keys';
+const HKDF_INFO = new TextEncoder().encode('camera-access-app media key');
+
+let unlocked: UnlockedKey | null = null;
+
+function readAccountKeys(): Record<string, AccountKey> {
+  const stored = localStorage.getItem(KEYS_STORAGE_KEY);
+  if (!stored) return {};
+
+  try {
+    return JSON.parse(stored) as Record<string, AccountKey>;
+  } catch (error) {
+    console.error('Failed to parse stored media keys:', error);
+    return {};
+  }
+}
+
+function writeAccountKeys(keys: Record<string, AccountKey>): void {
+  localStorage.setItem(KEYS_STORAGE_KEY, JSON.stringify(keys));
+}
+
+// Stretch a passkey's secret into a key-wrapping key
+async function deriveWrappingKey(
+  secret: Uint8Array<ArrayBuffer>
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', secret, 'HKDF', false, [
+    'deriveKey',
+  ]);
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new Uint8Array(32),
+      info: HKDF_INFO,
+    },
+    material,
+    { name: 'AES-KW', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+}
+
+async function wrapDataKey(
+  key: CryptoKey,
+  secret: Uint8Array<ArrayBuffer>
+): Promise<string> {
+  const wrapped = await crypto.subtle.wrapKey(
+    'raw',
+    key,
+    await deriveWrappingKey(secret),
+    'AES-KW'
+  );
+  return toBase64Url(wrapped);
+}
+
+async function unwrapDataKey(
+  wrapped: string,
+  secret: Uint8Array<ArrayBuffer>,
+  extractable: boolean
+): Promise<CryptoKey> {
+  return crypto.subtle.unwrapKey(
+    'raw',
+    fromBase64Url(wrapped),
+    await deriveWrappingKey(secret),
+    'AES-KW',
+    'AES-GCM',
+    extractable,
+    ['encrypt', 'decrypt']
+  );
+}
+
+interface MediaRecord {
+  id: string;
+  username: string;
+  blob: Blob;
+  mimeType: string;
+}
+
+// Tie a sealed blob to its record and owner, so it can't be passed off as
+// another one
+function additionalData(
+  kind: MediaKind,
+  record: MediaRecord
+): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(
+    JSON.stringify([kind, record.id, record.username, record.mimeType])
+  );
+}
+
+// Unlock the account's data key with a passkey's secret, creating the key
+// the first time. Returns false when this passkey holds no copy of the key,
+// e.g. it was added while saved media was locked.
+export async function unlockMediaKey(
+  username: string,
+  credentialId: string,
+  secret: Uint8Array<ArrayBuffer>
+): Promise<boolean> {
+  const keys = readAccountKeys();
+  const account = keys[username];
+
+  if (!account) {
+    const key = await crypto.subtle.generateKey(
+      { name: 'AES-GCM', length: 256 },
+      // Extractable only until the first copy is wrapped
+      true,
+      ['encrypt', 'decrypt']
+    );
+    const keyId = crypto.randomUUID();
+    const wrapped = await wrapDataKey(key, secret);
+    keys[username] = { keyId, wrapped: { [credentialId]: wrapped } };
+    writeAccountKeys(keys);
+    unlocked = {
+      username,
+      keyId,
+      key: await unwrapDataKey(wrapped, secret, false),
+    };
+    return true;
+  }
+
+  const wrapped = account.wrapped[credentialId];
+  if (!wrapped) return false;
+
+  try {
+    const key = await unwrapDataKey(wrapped, secret, false);
+    unlocked = { username, keyId: account.keyId, key };
+    return true;
+  } catch (error) {
+    // The secret changed, so the passkey was probably recreated
+    console.warn('Failed to unwrap the media key:', error);
+    return false;
+  }
+}
+
+// Give a newly added passkey its own copy of the data key. The unlocked key
+// can't be exported, so the copy is made from one a passkey already holds,
+// with that passkey's secret. Returns false when it holds no copy.
+export async function shareMediaKey(
+  username: string,
+  from: PasskeySecret,
+  to: PasskeySecret
+): Promise<boolean> {
+  const keys = readAccountKeys();
+  const account = keys[username];
+  const wrapped = account?.wrapped[from.credentialId];
+  if (!wrapped) return false;
+
+  const key = await unwrapDataKey(wrapped, from.secret, true);
+  account.wrapped[to.credentialId] = await wrapDataKey(key, to.secret);
+  writeAccountKeys(keys);
+  return true;
+}
+
+// Forget the unwrapped key, e.g. on sign-out
+export function lockMediaKey(): void {
+  unlocked = null;
+}
+
+// Whether media for the account can be encrypted and read right now
+export function getMediaKeyStatus(username: string): MediaKeyStatus {
+  if (unlocked?.username === username) return 'unlocked';
+
+  return Object.hasOwn(readAccountKeys(), username) ? 'locked' : 'unavailable';
+}
+
+// Encrypt a record's blob if its owner's data key is unlocked; otherwise
+// return it as it is
+export async function sealMedia<T extends MediaRecord>(
+  kind: MediaKind,
+  media: T
+): Promise<T & { encryption?: MediaEncryption }> {
+  if (unlocked?.username !== media.username) return media;
+
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: additionalData(kind, media) },
+    unlocked.key,
+    await media.blob.arrayBuffer()
+  );
+  return {
+    ...media,
+    blob: new Blob([ciphertext], { type: 'application/octet-stream' }),
+    encryption: { keyId: unlocked.keyId, iv },
+  };
+}
+
+// Decrypt a saved record. Returns null when its key isn't unlocked (another
+// account's media, or signed in with a passkey that holds no copy), or when
+// it was sealed for another record.
+export async function openMedia<
+  T extends MediaRecord & { encryption?: MediaEncryption },
+>(kind: MediaKind, record: T): Promise<T | null> {
+  if (!record.encryption) return record;
+  if (record.encryption.keyId !== unlocked?.keyId) return null;
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: record.encryption.iv,
+        additionalData: additionalData(kind, record),
+      },
+      unlocked.key,
+      await record.blob.arrayBuffer()
+    );
+    return {
+      ...record,
+      blob: new Blob([plaintext], { type: record.mimeType }),
+    };
+  } catch (error) {
+    console.warn('Failed to decrypt saved media:', error);
+    return null;
+  }
+}
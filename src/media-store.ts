@@ -0,0 +1,166 @@
+// How an encrypted record's blob was sealed (see media-crypto.ts). The blob
+// then holds AES-GCM ciphertext, and mimeType describes the plaintext.
+export interface MediaEncryption {
+  // Which account data key encrypted it
+  keyId: string;
+  iv: Uint8Array<ArrayBuffer>;
+}
+
+export interface StoredPhoto {
+  id: string;
+  // Who saved it; records are only listed for their owner
+  username: string;
+  blob: Blob;
+  mimeType: string;
+  width: number;
+  height: number;
+  createdAt: number;
+  encryption?: MediaEncryption;
+}
+
+export interface StoredRecording {
+  id: string;
+  username: string;
+  blob: Blob;
+  mimeType: string;
+  durationMs: number;
+  createdAt: number;
+  encryption?: MediaEncryption;
+}
+
+const DB_NAME = 'camera-access-app';
+const DB_VERSION = 3;
+const PHOTO_STORE = 'photos';
+const RECORDING_STORE = 'recordings';
+// Each user's records, oldest first
+const OWNER_INDEX = 'username-createdAt';
+
+// How many photos each user's gallery keeps before dropping the oldest
+export const MAX_STORED_PHOTOS = 12;
+
+// Recordings are much larger, so keep fewer of them
+export const MAX_STORED_RECORDINGS = 5;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Check if IndexedDB is available (it isn't in some private browsing modes)
+export function checkMediaStoreSupport(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+// Open (and upgrade) the database once per page load
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        [PHOTO_STORE, RECORDING_STORE].forEach(name => {
+          const store = db.objectStoreNames.contains(name)
+            ? request.transaction!.objectStore(name)
+            : db.createObjectStore(name, { keyPath: 'id' });
+          // Records saved before they had an owner aren't in this index, so
+          // they're never listed
+          if (!store.indexNames.contains(OWNER_INDEX)) {
+            store.createIndex(OWNER_INDEX, ['username', 'createdAt']);
+          }
+        });
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+// Wrap an IDBRequest in a promise
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// List a user's records in a store, newest first
+async function listRecords<T>(
+  storeName: string,
+  username: string
+): Promise<T[]> {
+  const db = await openDatabase();
+  const store = db.transaction(storeName).objectStore(storeName);
+  const records = await promisify<T[]>(
+    store
+      .index(OWNER_INDEX)
+      .getAll(IDBKeyRange.bound([username, 0], [username, Infinity]))
+  );
+  return records.reverse();
+}
+
+// Add a record and prune its owner's records down to `limit` entries. The
+// caller picks the ID, since an encrypted blob is sealed to it.
+async function saveRecord<
+  T extends { id: string; username: string; createdAt: number },
+>(storeName: string, record: Omit<T, 'createdAt'>, limit: number): Promise<T> {
+  const db = await openDatabase();
+  const stored = { ...record, createdAt: Date.now() } as T;
+
+  const store = db.transaction(storeName, 'readwrite').objectStore(storeName);
+  await promisify(store.put(stored));
+
+  const records = await listRecords<T>(storeName, record.username);
+  await Promise.all(
+    records.slice(limit).map(old => deleteRecord(storeName, old.id))
+  );
+
+  return stored;
+}
+
+async function deleteRecord(storeName: string, id: string): Promise<void> {
+  const db = await openDatabase();
+  const store = db.transaction(storeName, 'readwrite').objectStore(storeName);
+  await promisify(store.delete(id));
+}
+
+// List a user's stored photos, newest first
+export function listPhotos(username: string): Promise<StoredPhoto[]> {
+  return listRecords<StoredPhoto>(PHOTO_STORE, username);
+}
+
+// Save a photo and prune its owner's gallery down to MAX_STORED_PHOTOS
+export function savePhoto(
+  photo: Omit<StoredPhoto, 'createdAt'>
+): Promise<StoredPhoto> {
+  return saveRecord<StoredPhoto>(PHOTO_STORE, photo, MAX_STORED_PHOTOS);
+}
+
+// Delete a photo by ID
+export function deletePhoto(id: string): Promise<void> {
+  return deleteRecord(PHOTO_STORE, id);
+}
+
+// List a user's stored recordings, newest first
+export function listRecordings(username: string): Promise<StoredRecording[]> {
+  return listRecords<StoredRecording>(RECORDING_STORE, username);
+}
+
+// Save a recording and prune its owner's down to MAX_STORED_RECORDINGS
+export function saveRecording(
+  recording: Omit<StoredRecording, 'createdAt'>
+): Promise<StoredRecording> {
+  return saveRecord<StoredRecording>(
+    RECORDING_STORE,
+    recording,
+    MAX_STORED_RECORDINGS
+  );
+}
+
+// Delete a recording by ID
+export function deleteRecording(id: string): Promise<void> {
+  return deleteRecord(RECORDING_STORE, id);
+}
@@ -0,0 +1,661 @@
+// QR code detection and decoding for the fallback scanner. It finds the
+// three finder patterns, corrects perspective with the alignment pattern,
+// and reads versions 1-10 (up to 57×57 modules), which covers the URLs and
+// short IDs people actually print. BarcodeDetector reads the rest.
+
+import {
+  createPerspectiveTransform,
+  distance,
+  getRuns,
+  isDark,
+  type BinaryImage,
+  type DecodedSymbol,
+  type Point,
+} from './binary-image';
+import { QR_FIELD, correctErrors } from './reed-solomon';
+
+interface FinderPattern extends Point {
+  moduleSize: number;
+  // How many scan lines crossed it; stray matches are only seen once or twice
+  count: number;
+}
+
+type ErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+// Error correction codewords per block, then [blocks, data codewords] for
+// each group of blocks
+type BlockLayout = [number, ...[number, number][]];
+
+const MAX_VERSION = 10;
+
+// ISO/IEC 18004 table 9, versions 1-10
+const BLOCK_LAYOUTS: Record<ErrorCorrectionLevel, BlockLayout[]> = {
+  L: [
+    [7, [1, 19]],
+    [10, [1, 34]],
+    [15, [1, 55]],
+    [20, [1, 80]],
+    [26, [1, 108]],
+    [18, [2, 68]],
+    [20, [2, 78]],
+    [24, [2, 97]],
+    [30, [2, 116]],
+    [18, [2, 68], [2, 69]],
+  ],
+  M: [
+    [10, [1, 16]],
+    [16, [1, 28]],
+    [26, [1, 44]],
+    [18, [2, 32]],
+    [24, [2, 43]],
+    [16, [4, 27]],
+    [18, [4, 31]],
+    [22, [2, 38], [2, 39]],
+    [22, [3, 36], [2, 37]],
+    [26, [4, 43], [1, 44]],
+  ],
+  Q: [
+    [13, [1, 13]],
+    [22, [1, 22]],
+    [18, [2, 17]],
+    [26, [2, 24]],
+    [18, [2, 15], [2, 16]],
+    [24, [4, 19]],
+    [18, [2, 14], [4, 15]],
+    [22, [4, 18], [2, 19]],
+    [20, [4, 16], [4, 17]],
+    [24, [6, 19], [2, 20]],
+  ],
+  H: [
+    [17, [1, 9]],
+    [28, [1, 16]],
+    [22, [2, 13]],
+    [16, [4, 9]],
+    [22, [2, 11], [2, 12]],
+    [28, [4, 15]],
+    [26, [4, 13], [1, 14]],
+    [26, [4, 14], [2, 15]],
+    [24, [4, 12], [4, 13]],
+    [28, [6, 15], [2, 16]],
+  ],
+};
+
+// The format information's two error correction bits
+const LEVELS_BY_BITS: ErrorCorrectionLevel[] = ['M', 'L', 'H', 'Q'];
+
+const MASKS: ((row: number, column: number) => boolean)[] = [
+  (r, c) => (r + c) % 2 === 0,
+  r => r % 2 === 0,
+  (_r, c) => c % 3 === 0,
+  (r, c) => (r + c) % 3 === 0,
+  (r, c) => (Math.floor(r / 2) + Math.floor(c / 3)) % 2 === 0,
+  (r, c) => ((r * c) % 2) + ((r * c) % 3) === 0,
+  (r, c) => (((r * c) % 2) + ((r * c) % 3)) % 2 === 0,
+  (r, c) => (((r + c) % 2) + ((r * c) % 3)) % 2 === 0,
+];
+
+const ALPHANUMERIC = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:';
+
+// Do these five runs look like a finder pattern's 1:1:3:1:1?
+function isFinderRatio(lengths: number[]): boolean {
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  if (total < 7) return false;
+
+  const unit = total / 7;
+  const tolerance = unit / 2;
+  return [1, 1, 3, 1, 1].every(
+    (expected, i) =>
+      Math.abs(lengths[i] - unit * expected) < tolerance * expected
+  );
+}
+
+// Measure the five runs through a point in the middle of a dark stretch,
+// walking both ways along one axis. Returns null at the image's edge.
+function measureAcross(
+  image: BinaryImage,
+  center: Point,
+  vertical: boolean,
+  runs: number
+): { lengths: number[]; center: number } | null {
+  const side = (runs + 1) / 2;
+  const walk = (step: number) => {
+    const lengths = new Array<number>(side).fill(0);
+    let position = vertical ? Math.floor(center.y) : Math.floor(center.x);
+    const limit = vertical ? image.height : image.width;
+    for (let run = 0; run < side; run++) {
+      const dark = run % 2 === 0;
+      while (position >= 0 && position < limit) {
+        const x = vertical ? center.x : position;
+        const y = vertical ? position : center.y;
+        if (isDark(image, x, y) !== dark) break;
+        lengths[run]++;
+        position += step;
+      }
+      if (lengths[run] === 0) return null;
+    }
+    return lengths;
+  };
+
+  const before = walk(-1);
+  const after = walk(1);
+  if (!before || !after) return null;
+
+  const start =
+    (vertical ? Math.floor(center.y) : Math.floor(center.x)) - before[0] + 1;
+  const middle = before[0] + after[0] - 1;
+  return {
+    lengths: [...before.slice(1).reverse(), middle, ...after.slice(1)],
+    center: start + middle / 2,
+  };
+}
+
+// Confirm a horizontal finder match vertically, then re-centre it
+function confirmFinder(
+  image: BinaryImage,
+  candidate: Point
+): FinderPattern | null {
+  const vertical = measureAcross(image, candidate, true, 5);
+  if (!vertical || !isFinderRatio(vertical.lengths)) return null;
+
+  const horizontal = measureAcross(
+    image,
+    { x: candidate.x, y: vertical.center },
+    false,
+    5
+  );
+  if (!horizontal || !isFinderRatio(horizontal.lengths)) return null;
+
+  const size = (lengths: number[]) =>
+    lengths.reduce((sum, length) => sum + length, 0) / 7;
+  return {
+    x: horizontal.center,
+    y: vertical.center,
+    moduleSize: (size(vertical.lengths) + size(horizontal.lengths)) / 2,
+    count: 1,
+  };
+}
+
+function findFinderPatterns(image: BinaryImage): FinderPattern[] {
+  const found: FinderPattern[] = [];
+  const step = Math.max(1, Math.floor(image.height / 240));
+
+  for (let y = 0; y < image.height; y += step) {
+    const runs = getRuns(image, y);
+    for (let i = 0; i + 4 < runs.length; i++) {
+      if (!runs[i].dark) continue;
+      const lengths = runs.slice(i, i + 5).map(run => run.length);
+      if (!isFinderRatio(lengths)) continue;
+
+      const pattern = confirmFinder(image, {
+        x: runs[i + 2].start + runs[i + 2].length / 2,
+        y: y + 0.5,
+      });
+      if (!pattern) continue;
+
+      const same = found.find(
+        other =>
+          distance(other, pattern) < other.moduleSize * 2 &&
+          Math.abs(other.moduleSize - pattern.moduleSize) < other.moduleSize / 2
+      );
+      if (same) {
+        const weight = same.count + 1;
+        same.x = (same.x * same.count + pattern.x) / weight;
+        same.y = (same.y * same.count + pattern.y) / weight;
+        same.moduleSize =
+          (same.moduleSize * same.count + pattern.moduleSize) / weight;
+        same.count = weight;
+      } else {
+        found.push(pattern);
+      }
+    }
+  }
+
+  return found
+    .filter(pattern => pattern.count >= 2)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 9);
+}
+
+// Order three finder patterns as top left, top right and bottom left, and
+// score how much they look like one code's (lower is better)
+function arrangeFinders(
+  patterns: FinderPattern[]
+): {
+  corners: [FinderPattern, FinderPattern, FinderPattern];
+  error: number;
+} | null {
+  // The top-left pattern is the one opposite the longest side
+  const [a, b, c] = patterns;
+  const sides: [number, FinderPattern, FinderPattern, FinderPattern][] = [
+    [distance(b, c), a, b, c],
+    [distance(a, c), b, a, c],
+    [distance(a, b), c, a, b],
+  ];
+  const [, topLeft, p, q] = sides.sort((x, y) => y[0] - x[0])[0];
+
+  // In image coordinates (y down) the top right is clockwise from the top left
+  const cross =
+    (p.x - topLeft.x) * (q.y - topLeft.y) -
+    (p.y - topLeft.y) * (q.x - topLeft.x);
+  const [topRight, bottomLeft] = cross > 0 ? [p, q] : [q, p];
+
+  const across = distance(topLeft, topRight);
+  const down = distance(topLeft, bottomLeft);
+  const sizes = patterns.map(pattern => pattern.moduleSize);
+  const moduleSize = sizes.reduce((sum, size) => sum + size, 0) / 3;
+  if (
+    Math.max(...sizes) > Math.min(...sizes) * 1.5 ||
+    Math.min(across, down) < moduleSize * 10
+  ) {
+    return null;
+  }
+
+  const cosine =
+    ((topRight.x - topLeft.x) * (bottomLeft.x - topLeft.x) +
+      (topRight.y - topLeft.y) * (bottomLeft.y - topLeft.y)) /
+    (across * down);
+  const error =
+    Math.abs(across - down) / Math.max(across, down) + Math.abs(cosine);
+  return error < 0.5
+    ? { corners: [topLeft, topRight, bottomLeft], error }
+    : null;
+}
+
+function alignmentPositions(version: number): number[] {
+  if (version === 1) return [];
+
+  const size = version * 4 + 17;
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+  for (let i = count - 2; i >= 0; i--) {
+    positions.push(size - 7 - i * step);
+  }
+  return positions;
+}
+
+// Look for the bottom-right alignment pattern near where the finder
+// patterns say it should be
+function findAlignmentPattern(
+  image: BinaryImage,
+  expected: Point,
+  moduleSize: number
+): Point | null {
+  const radius = Math.ceil(moduleSize * 4);
+  const near = (length: number) =>
+    Math.abs(length - moduleSize) < moduleSize * 0.7;
+  let best: Point | null = null;
+
+  for (
+    let y = Math.max(0, Math.floor(expected.y - radius));
+    y < Math.min(image.height, expected.y + radius);
+    y++
+  ) {
+    const runs = getRuns(image, y);
+    for (let i = 1; i + 3 < runs.length; i++) {
+      const center = runs[i + 1];
+      if (
+        !center.dark ||
+        Math.abs(center.start + center.length / 2 - expected.x) > radius ||
+        ![runs[i], center, runs[i + 2]].every(run => near(run.length))
+      ) {
+        continue;
+      }
+
+      const candidate = { x: center.start + center.length / 2, y: y + 0.5 };
+      const vertical = measureAcross(image, candidate, true, 3);
+      if (!vertical || !vertical.lengths.every(near)) continue;
+
+      const point = { x: candidate.x, y: vertical.center };
+      if (!best || distance(point, expected) < distance(best, expected)) {
+        best = point;
+      }
+    }
+  }
+
+  return best;
+}
+
+// Read the module grid of a `size`-module code with the given finders
+function sampleGrid(
+  image: BinaryImage,
+  [topLeft, topRight, bottomLeft]: FinderPattern[],
+  size: number
+): { modules: boolean[][]; toImage: (point: Point) => Point } {
+  const far = size - 3.5;
+  let bottomRight = {
+    x: topRight.x + bottomLeft.x - topLeft.x,
+    y: topRight.y + bottomLeft.y - topLeft.y,
+  };
+  let corner = { x: far, y: far };
+
+  if (size > 21) {
+    // Where the alignment pattern would be if the code were flat
+    const affine = createPerspectiveTransform(
+      [
+        { x: 3.5, y: 3.5 },
+        { x: far, y: 3.5 },
+        { x: far, y: far },
+        { x: 3.5, y: far },
+      ],
+      [topLeft, topRight, bottomRight, bottomLeft]
+    );
+    const moduleSize =
+      (topLeft.moduleSize + topRight.moduleSize + bottomLeft.moduleSize) / 3;
+    const alignment = findAlignmentPattern(
+      image,
+      affine({ x: size - 6.5, y: size - 6.5 }),
+      moduleSize
+    );
+    if (alignment) {
+      bottomRight = alignment;
+      corner = { x: size - 6.5, y: size - 6.5 };
+    }
+  }
+
+  const toImage = createPerspectiveTransform(
+    [{ x: 3.5, y: 3.5 }, { x: far, y: 3.5 }, corner, { x: 3.5, y: far }],
+    [topLeft, topRight, bottomRight, bottomLeft]
+  );
+  const modules = Array.from({ length: size }, (_, row) =>
+    Array.from({ length: size }, (_, column) => {
+      const point = toImage({ x: column + 0.5, y: row + 0.5 });
+      return isDark(image, point.x, point.y);
+    })
+  );
+  return { modules, toImage };
+}
+
+function formatBits(level: number, mask: number): number {
+  const data = (level << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  }
+  return ((data << 10) | remainder) ^ 0x5412;
+}
+
+// The error correction level and mask, from whichever copy of the format
+// information is closest to a valid one
+function readFormat(
+  modules: boolean[][]
+): { level: ErrorCorrectionLevel; mask: number } | null {
+  const size = modules.length;
+  const bit = (row: number, column: number) => (modules[row][column] ? 1 : 0);
+
+  let first = 0;
+  let second = 0;
+  for (let i = 0; i < 6; i++) first |= bit(i, 8) << i;
+  first |= bit(7, 8) << 6;
+  first |= bit(8, 8) << 7;
+  first |= bit(8, 7) << 8;
+  for (let i = 9; i < 15; i++) first |= bit(8, 14 - i) << i;
+  for (let i = 0; i < 8; i++) second |= bit(8, size - 1 - i) << i;
+  for (let i = 8; i < 15; i++) second |= bit(size - 15 + i, 8) << i;
+
+  let best: { level: ErrorCorrectionLevel; mask: number } | null = null;
+  let bestDistance = 4;
+  for (let level = 0; level < 4; level++) {
+    for (let mask = 0; mask < 8; mask++) {
+      const expected = formatBits(level, mask);
+      for (const read of [first, second]) {
+        let differing = expected ^ read;
+        let count = 0;
+        while (differing) {
+          count += differing & 1;
+          differing >>>= 1;
+        }
+        if (count < bestDistance) {
+          bestDistance = count;
+          best = { level: LEVELS_BY_BITS[level], mask };
+        }
+      }
+    }
+  }
+  return best;
+}
+
+// Which modules hold finder, timing, alignment and format patterns
+function functionModules(version: number): boolean[][] {
+  const size = version * 4 + 17;
+  const reserved = Array.from({ length: size }, () =>
+    new Array<boolean>(size).fill(false)
+  );
+  const fill = (row: number, column: number, height: number, width: number) => {
+    for (let r = row; r < row + height; r++) {
+      for (let c = column; c < column + width; c++) reserved[r][c] = true;
+    }
+  };
+
+  fill(0, 0, 9, 9);
+  fill(0, size - 8, 9, 8);
+  fill(size - 8, 0, 8, 9);
+  fill(6, 0, 1, size);
+  fill(0, 6, size, 1);
+
+  const positions = alignmentPositions(version);
+  const last = positions.length - 1;
+  positions.forEach((row, i) =>
+    positions.forEach((column, j) => {
+      const overlapsFinder =
+        (i === 0 && j === 0) ||
+        (i === 0 && j === last) ||
+        (i === last && j === 0);
+      if (!overlapsFinder) fill(row - 2, column - 2, 5, 5);
+    })
+  );
+
+  if (version >= 7) {
+    fill(0, size - 11, 6, 3);
+    fill(size - 11, 0, 3, 6);
+  }
+  return reserved;
+}
+
+// Unmask the data modules and read them in the zigzag order
+function readCodewords(
+  modules: boolean[][],
+  version: number,
+  mask: number,
+  count: number
+): Uint8Array {
+  const size = modules.length;
+  const reserved = functionModules(version);
+  const codewords = new Uint8Array(count);
+  let bit = 0;
+
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let vertical = 0; vertical < size; vertical++) {
+      const row = upward ? size - 1 - vertical : vertical;
+      for (let j = 0; j < 2; j++) {
+        const column = right - j;
+        if (reserved[row][column] || bit >= count * 8) continue;
+        if (modules[row][column] !== MASKS[mask](row, column)) {
+          codewords[bit >> 3] |= 0x80 >> (bit & 7);
+        }
+        bit++;
+      }
+    }
+  }
+  return codewords;
+}
+
+// Split the interleaved codewords into blocks, correct each and join up
+// the data codewords again
+function correctBlocks(
+  codewords: Uint8Array,
+  layout: BlockLayout
+): Uint8Array | null {
+  const [eccLength, ...groups] = layout;
+  const dataLengths = groups.flatMap(([blocks, length]) =>
+    new Array<number>(blocks).fill(length)
+  );
+  const blocks = dataLengths.map(length => new Uint8Array(length + eccLength));
+
+  let index = 0;
+  const longest = Math.max(...dataLengths);
+  for (let i = 0; i < longest; i++) {
+    dataLengths.forEach((length, b) => {
+      if (i < length) blocks[b][i] = codewords[index++];
+    });
+  }
+  for (let i = 0; i < eccLength; i++) {
+    dataLengths.forEach((length, b) => {
+      blocks[b][length + i] = codewords[index++];
+    });
+  }
+
+  const data: number[] = [];
+  for (const [b, block] of blocks.entries()) {
+    if (!correctErrors(QR_FIELD, block, eccLength)) return null;
+    data.push(...block.subarray(0, dataLengths[b]));
+  }
+  return new Uint8Array(data);
+}
+
+function decodeBytes(bytes: Uint8Array, encoding = 'utf-8'): string {
+  try {
+    return new TextDecoder(encoding, { fatal: true }).decode(bytes);
+  } catch {
+    // Older generators use ISO-8859-1, the standard's default
+    return String.fromCharCode(...bytes);
+  }
+}
+
+// Parse the data segments of a corrected bit stream
+function parseSegments(data: Uint8Array, version: number): string | null {
+  let position = 0;
+  const remaining = () => data.length * 8 - position;
+  const read = (length: number) => {
+    let value = 0;
+    for (let i = 0; i < length; i++, position++) {
+      value =
+        (value << 1) | ((data[position >> 3] >> (7 - (position & 7))) & 1);
+    }
+    return value;
+  };
+  const countBits = (small: number, large: number) =>
+    version < 10 ? small : large;
+
+  let text = '';
+  while (remaining() >= 4) {
+    const mode = read(4);
+    if (mode === 0) break;
+
+    if (mode === 0b0001) {
+      let count = read(countBits(10, 12));
+      for (; count >= 3; count -= 3) text += String(read(10)).padStart(3, '0');
+      if (count === 2) text += String(read(7)).padStart(2, '0');
+      if (count === 1) text += String(read(4));
+    } else if (mode === 0b0010) {
+      let count = read(countBits(9, 11));
+      for (; count >= 2; count -= 2) {
+        const pair = read(11);
+        text += ALPHANUMERIC[Math.floor(pair / 45)] + ALPHANUMERIC[pair % 45];
+      }
+      if (count === 1) text += ALPHANUMERIC[read(6)];
+    } else if (mode === 0b0100) {
+      const count = read(countBits(8, 16));
+      if (remaining() < count * 8) return null;
+      text += decodeBytes(Uint8Array.from({ length: count }, () => read(8)));
+    } else if (mode === 0b1000) {
+      const count = read(countBits(8, 10));
+      const bytes: number[] = [];
+      for (let i = 0; i < count; i++) {
+        const value = read(13);
+        let code = ((value / 0xc0) << 8) | (value % 0xc0);
+        code += code < 0x1f00 ? 0x8140 : 0xc140;
+        bytes.push(code >> 8, code & 0xff);
+      }
+      text += decodeBytes(new Uint8Array(bytes), 'shift_jis');
+    } else if (mode === 0b0111) {
+      // ECI designator; byte segments are read as UTF-8 either way
+      const first = read(8);
+      if ((first & 0xc0) === 0x80) read(8);
+      else if ((first & 0xe0) === 0xc0) read(16);
+    } else if (mode === 0b0011) {
+      // Structured append: which part of a sequence this is
+      read(16);
+    } else if (mode === 0b0101) {
+      // FNC1 in first position (GS1); the data reads as usual
+    } else if (mode === 0b1001) {
+      read(8);
+    } else {
+      return null;
+    }
+    if (remaining() < 0) return null;
+  }
+  return text;
+}
+
+function decodeGrid(modules: boolean[][]): string | null {
+  const version = (modules.length - 17) / 4;
+  const format = readFormat(modules);
+  if (!format) return null;
+
+  const layout = BLOCK_LAYOUTS[format.level][version - 1];
+  const [eccLength, ...groups] = layout;
+  const total = groups.reduce(
+    (sum, [blocks, length]) => sum + blocks * (length + eccLength),
+    0
+  );
+  const data = correctBlocks(
+    readCodewords(modules, version, format.mask, total),
+    layout
+  );
+  return data && parseSegments(data, version);
+}
+
+// Find and decode every QR code in the image
+export function decodeQrCodes(image: BinaryImage): DecodedSymbol[] {
+  const finders = findFinderPatterns(image);
+  const triples: ReturnType<typeof arrangeFinders>[] = [];
+  for (let i = 0; i < finders.length; i++) {
+    for (let j = i + 1; j < finders.length; j++) {
+      for (let k = j + 1; k < finders.length; k++) {
+        triples.push(arrangeFinders([finders[i], finders[j], finders[k]]));
+      }
+    }
+  }
+
+  const used = new Set<FinderPattern>();
+  const symbols: DecodedSymbol[] = [];
+  for (const triple of triples.sort(
+    (a, b) => (a?.error ?? 1) - (b?.error ?? 1)
+  )) {
+    if (!triple || triple.corners.some(pattern => used.has(pattern))) continue;
+
+    const [topLeft, topRight, bottomLeft] = triple.corners;
+    const moduleSize =
+      (topLeft.moduleSize + topRight.moduleSize + bottomLeft.moduleSize) / 3;
+    const modulesAcross =
+      (distance(topLeft, topRight) + distance(topLeft, bottomLeft)) /
+      2 /
+      moduleSize;
+    // Sizes are 4n + 17; try the nearest first, then its neighbours
+    const estimate = Math.round((modulesAcross + 7 - 17) / 4);
+    for (const version of [estimate, estimate - 1, estimate + 1]) {
+      if (version < 1 || version > MAX_VERSION) continue;
+
+      const size = version * 4 + 17;
+      const { modules, toImage } = sampleGrid(image, triple.corners, size);
+      const text = decodeGrid(modules);
+      if (text === null) continue;
+
+      triple.corners.forEach(pattern => used.add(pattern));
+      symbols.push({
+        rawValue: text,
+        cornerPoints: [
+          { x: 0, y: 0 },
+          { x: size, y: 0 },
+          { x: size, y: size },
+          { x: 0, y: size },
+        ].map(toImage),
+      });
+      break;
+    }
+  }
+  return symbols;
+}
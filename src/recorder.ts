@@ -0,0 +1,195 @@
+import { t } from './i18n';
+
+export interface RecorderError {
+  type: 'no-stream' | 'not-supported' | 'unknown';
+  message: string;
+  originalError?: Error;
+}
+
+export interface RecordingOptions {
+  // Negotiated with pickRecordingMimeType() when omitted
+  mimeType?: string;
+  // Recording stops by itself once this much active (unpaused) time has passed
+  maxDurationMs?: number;
+  videoBitsPerSecond?: number;
+  // Called roughly every 250ms with the active recording time
+  onTick?: (elapsedMs: number) => void;
+}
+
+export interface Recording {
+  blob: Blob;
+  mimeType: string;
+  durationMs: number;
+}
+
+export interface RecordingSession {
+  readonly mimeType: string;
+  state(): RecordingState;
+  elapsed(): number;
+  pause(): void;
+  resume(): void;
+  stop(): Promise<Recording>;
+  // Resolves however the recording ends (stop(), max duration, track ended)
+  finished: Promise<Recording>;
+}
+
+// Preferred container/codec combinations, best first
+export const RECORDING_MIME_TYPES = [
+  'video/webm;codecs=vp9',
+  'video/webm;codecs=vp8',
+  'video/webm',
+  'video/mp4;codecs=avc1',
+  'video/mp4',
+];
+
+const TICK_INTERVAL_MS = 250;
+
+// Check if MediaRecorder is available
+export function checkRecorderSupport(): boolean {
+  return typeof MediaRecorder !== 'undefined';
+}
+
+// Pick the first MIME type this browser can record
+export function pickRecordingMimeType(
+  candidates: string[] = RECORDING_MIME_TYPES
+): string | null {
+  if (!checkRecorderSupport()) return null;
+
+  return (
+    candidates.find(type => MediaRecorder.isTypeSupported(type)) ?? null
+  );
+}
+
+// File extension for a recording MIME type
+export function recordingExtension(mimeType: string): string {
+  return mimeType.startsWith('video/mp4') ? 'mp4' : 'webm';
+}
+
+// Format milliseconds as m:ss
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+// Start recording the given stream
+export function startRecording(
+  stream: MediaStream | null,
+  options: RecordingOptions = {}
+): RecordingSession {
+  if (!stream || !stream.getVideoTracks().some(t => t.readyState === 'live')) {
+    const error: RecorderError = {
+      type: 'no-stream',
+      message: t('recorder.error.no-stream'),
+    };
+    throw error;
+  }
+
+  const mimeType = options.mimeType ?? pickRecordingMimeType();
+  if (!checkRecorderSupport() || !mimeType) {
+    const error: RecorderError = {
+      type: 'not-supported',
+      message: t('recorder.error.not-supported'),
+    };
+    throw error;
+  }
+
+  let recorder: MediaRecorder;
+  try {
+    recorder = new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: options.videoBitsPerSecond,
+    });
+  } catch (err) {
+    const error = err as Error;
+    const recorderError: RecorderError = {
+      type: error.name === 'NotSupportedError' ? 'not-supported' : 'unknown',
+      message: t('recorder.error.start-failed', {
+        reason: error.message || t('app.unknown-reason'),
+      }),
+      originalError: error,
+    };
+    throw recorderError;
+  }
+
+  const chunks: Blob[] = [];
+  // Active time is accumulated across pauses
+  let accumulatedMs = 0;
+  let resumedAt = performance.now();
+  let ticker: ReturnType<typeof setInterval> | undefined;
+
+  const elapsed = () =>
+    recorder.state === 'recording'
+      ? accumulatedMs + performance.now() - resumedAt
+      : accumulatedMs;
+
+  const finished = new Promise<Recording>((resolve, reject) => {
+    recorder.ondataavailable = event => {
+      if (event.data.size > 0) {
+        chunks.push(event.data);
+      }
+    };
+
+    recorder.onstop = () => {
+      clearInterval(ticker);
+      resolve({
+        blob: new Blob(chunks, { type: recorder.mimeType || mimeType }),
+        mimeType: recorder.mimeType || mimeType,
+        durationMs: accumulatedMs,
+      });
+    };
+
+    recorder.onerror = event => {
+      clearInterval(ticker);
+      const error = (event as Event & { error?: DOMException }).error;
+      const recorderError: RecorderError = {
+        type: 'unknown',
+        message: t('recorder.error.failed', {
+          reason: error?.message || t('app.unknown-reason'),
+        }),
+        originalError: error,
+      };
+      reject(recorderError);
+    };
+  });
+
+  const stop = () => {
+    if (recorder.state !== 'inactive') {
+      accumulatedMs = elapsed();
+      recorder.stop();
+    }
+    return finished;
+  };
+
+  ticker = setInterval(() => {
+    const ms = elapsed();
+    options.onTick?.(ms);
+    if (options.maxDurationMs !== undefined && ms >= options.maxDurationMs) {
+      stop();
+    }
+  }, TICK_INTERVAL_MS);
+
+  // Emit data every second so a crash mid-recording doesn't lose everything
+  recorder.start(1000);
+
+  return {
+    mimeType,
+    state: () => recorder.state,
+    elapsed,
+    pause() {
+      if (recorder.state === 'recording') {
+        accumulatedMs = elapsed();
+        recorder.pause();
+      }
+    },
+    resume() {
+      if (recorder.state === 'paused') {
+        resumedAt = performance.now();
+        recorder.resume();
+      }
+    },
+    stop,
+    finished,
+  };
+}
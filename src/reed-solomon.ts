@@ -0,0 +1,133 @@
+// Reed-Solomon error correction over GF(256), as QR codes and Data Matrix
+// symbols use it. The two only differ in the field's primitive polynomial
+// and the generator's first root.
+
+export interface GaloisField {
+  // The generator's roots are α^firstRoot, α^(firstRoot + 1), ...
+  firstRoot: number;
+  exp(power: number): number;
+  log(value: number): number;
+  multiply(a: number, b: number): number;
+  divide(a: number, b: number): number;
+}
+
+function createGaloisField(primitive: number, firstRoot: number): GaloisField {
+  const exp = new Uint8Array(510);
+  const log = new Uint8Array(256);
+  let value = 1;
+  for (let i = 0; i < 255; i++) {
+    exp[i] = value;
+    exp[i + 255] = value;
+    log[value] = i;
+    value <<= 1;
+    if (value & 0x100) value ^= primitive;
+  }
+
+  return {
+    firstRoot,
+    exp: power => exp[((power % 255) + 255) % 255],
+    log: n => log[n],
+    multiply: (a, b) => (a && b ? exp[log[a] + log[b]] : 0),
+    divide: (a, b) => (a ? exp[log[a] + 255 - log[b]] : 0),
+  };
+}
+
+// x^8 + x^4 + x^3 + x^2 + 1
+export const QR_FIELD = createGaloisField(0x11d, 0);
+
+// x^8 + x^5 + x^3 + x^2 + 1
+export const DATA_MATRIX_FIELD = createGaloisField(0x12d, 1);
+
+// Evaluate a polynomial whose first coefficient is the highest power
+function evaluate(field: GaloisField, poly: ArrayLike<number>, x: number) {
+  let result = 0;
+  for (let i = 0; i < poly.length; i++) {
+    result = field.multiply(result, x) ^ poly[i];
+  }
+  return result;
+}
+
+// Correct a block (data codewords, then `eccLength` error correction
+// codewords) in place. Returns false when it has more errors than the
+// error correction can repair.
+export function correctErrors(
+  field: GaloisField,
+  block: Uint8Array,
+  eccLength: number
+): boolean {
+  const syndromes = Array.from({ length: eccLength }, (_, i) =>
+    evaluate(field, block, field.exp(field.firstRoot + i))
+  );
+  if (syndromes.every(syndrome => syndrome === 0)) return true;
+
+  // Berlekamp-Massey: the error locator Λ, lowest power first
+  let locator = [1];
+  let previous = [1];
+  let errors = 0;
+  let shift = 1;
+  let lastDiscrepancy = 1;
+  for (let n = 0; n < eccLength; n++) {
+    let discrepancy = syndromes[n];
+    for (let i = 1; i <= errors; i++) {
+      discrepancy ^= field.multiply(locator[i] ?? 0, syndromes[n - i]);
+    }
+    if (discrepancy === 0) {
+      shift++;
+      continue;
+    }
+
+    const scale = field.divide(discrepancy, lastDiscrepancy);
+    const next = [...locator];
+    previous.forEach((coefficient, i) => {
+      next[i + shift] =
+        (next[i + shift] ?? 0) ^ field.multiply(scale, coefficient);
+    });
+    if (2 * errors <= n) {
+      previous = locator;
+      errors = n + 1 - errors;
+      lastDiscrepancy = discrepancy;
+      shift = 1;
+    } else {
+      shift++;
+    }
+    locator = next;
+  }
+  if (2 * errors > eccLength) return false;
+
+  // Ω = S·Λ mod x^eccLength, the error evaluator
+  const evaluator = Array.from({ length: eccLength }, (_, i) => {
+    let sum = 0;
+    for (let j = 0; j <= i && j < locator.length; j++) {
+      sum ^= field.multiply(locator[j], syndromes[i - j]);
+    }
+    return sum;
+  });
+  const lowestFirst = (poly: number[], x: number) =>
+    poly.reduceRight(
+      (sum, coefficient) => field.multiply(sum, x) ^ coefficient,
+      0
+    );
+
+  // Chien search for the error positions, then Forney for their values
+  let found = 0;
+  for (let position = 0; position < block.length; position++) {
+    const power = block.length - 1 - position;
+    const inverse = field.exp(-power);
+    if (lowestFirst(locator, inverse) !== 0) continue;
+
+    let derivative = 0;
+    for (let i = 1; i < locator.length; i += 2) {
+      derivative ^= field.multiply(locator[i], field.exp(-power * (i - 1)));
+    }
+    if (derivative === 0) return false;
+
+    const magnitude = field.multiply(
+      field.exp(power * (1 - field.firstRoot)),
+      field.divide(lowestFirst(evaluator, inverse), derivative)
+    );
+    block[position] ^= magnitude;
+    found++;
+  }
+
+  return found === errors;
+}
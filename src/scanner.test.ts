@@ -0,0 +1,295 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  checkBarcodeDetectorSupport,
+  createBarcodeScanner,
+  decodeBarcodes,
+  startScanning,
+  type ScanEvent,
+} from './scanner';
+import {
+  encodeCode128,
+  encodeDataMatrix,
+  encodeEan13,
+  encodeQrCode,
+  renderBars,
+  renderModules,
+  rotateImage,
+} from './test/barcode-encode';
+
+describe('decodeBarcodes', () => {
+  it('reads a QR code in each orientation', () => {
+    const image = renderModules(encodeQrCode('https://example.com/'));
+    for (let turns = 0; turns < 4; turns++) {
+      const [code] = decodeBarcodes(rotateImage(image, turns));
+      expect(code).toMatchObject({
+        format: 'qr_code',
+        rawValue: 'https://example.com/',
+      });
+    }
+  });
+
+  it('reads larger QR codes through their alignment pattern', () => {
+    const text = 'Scanned from a version 7 symbol with several blocks';
+    const image = renderModules(encodeQrCode(text, { version: 7, mask: 5 }), {
+      scale: 3,
+    });
+    expect(decodeBarcodes(image, ['qr_code'])).toEqual([
+      expect.objectContaining({ rawValue: text }),
+    ]);
+  });
+
+  it('corrects damaged QR codes', () => {
+    const modules = encodeQrCode('Reed-Solomon', { mask: 3 });
+    for (const [row, column] of [
+      [10, 10],
+      [12, 15],
+      [20, 13],
+    ]) {
+      modules[row][column] = !modules[row][column];
+    }
+    const [code] = decodeBarcodes(renderModules(modules));
+    expect(code.rawValue).toBe('Reed-Solomon');
+    expect(code.cornerPoints).toHaveLength(4);
+  });
+
+  it('reads a Data Matrix in each orientation', () => {
+    const image = renderModules(encodeDataMatrix('Data Matrix 2024'));
+    for (let turns = 0; turns < 4; turns++) {
+      expect(decodeBarcodes(rotateImage(image, turns))).toEqual([
+        expect.objectContaining({
+          format: 'data_matrix',
+          rawValue: 'Data Matrix 2024',
+        }),
+      ]);
+    }
+  });
+
+  it('reads Data Matrix symbols with several data regions', () => {
+    const text = 'A Data Matrix large enough to need four data regions';
+    const [code] = decodeBarcodes(renderModules(encodeDataMatrix(text)), [
+      'data_matrix',
+    ]);
+    expect(code?.rawValue).toBe(text);
+  });
+
+  it('reads an EAN-13 either way up and across', () => {
+    const image = renderBars(encodeEan13('400638133393'), { scale: 3 });
+    for (let turns = 0; turns < 4; turns++) {
+      expect(decodeBarcodes(rotateImage(image, turns))).toEqual([
+        expect.objectContaining({
+          format: 'ean_13',
+          rawValue: '4006381333931',
+        }),
+      ]);
+    }
+  });
+
+  it('reads Code 128 in code sets B and C', () => {
+    for (const text of ['Code 128!', '0123456789']) {
+      const image = renderBars(encodeCode128(text), { scale: 2 });
+      expect(decodeBarcodes(image)).toEqual([
+        expect.objectContaining({ format: 'code_128', rawValue: text }),
+      ]);
+    }
+  });
+
+  it('rejects an EAN-13 with the wrong check digit', () => {
+    const image = renderBars(encodeEan13('4006381333932'), { scale: 3 });
+    expect(decodeBarcodes(image, ['ean_13'])).toEqual([]);
+  });
+
+  it('only looks for the formats asked for', () => {
+    const image = renderModules(encodeQrCode('hello'));
+    expect(decodeBarcodes(image, ['ean_13', 'data_matrix'])).toEqual([]);
+  });
+});
+
+describe('startScanning', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    delete (window as { BarcodeDetector?: unknown }).BarcodeDetector;
+  });
+
+  function fakeVideo(): HTMLVideoElement {
+    return {
+      readyState: 4,
+      videoWidth: 640,
+      videoHeight: 480,
+    } as HTMLVideoElement;
+  }
+
+  function installBarcodeDetector(
+    detect: () => Promise<unknown[]>,
+    formats = ['qr_code', 'ean_13', 'code_128', 'data_matrix', 'upc_a']
+  ) {
+    Object.assign(window, {
+      BarcodeDetector: Object.assign(
+        class {
+          detect = detect;
+        },
+        { getSupportedFormats: async () => formats }
+      ),
+    });
+  }
+
+  const qrCode = {
+    format: 'qr_code',
+    rawValue: 'https://example.com/',
+    boundingBox: new DOMRect(100, 100, 200, 200),
+    cornerPoints: [
+      { x: 100, y: 100 },
+      { x: 300, y: 100 },
+      { x: 300, y: 300 },
+      { x: 100, y: 300 },
+    ],
+  };
+
+  it('uses BarcodeDetector when it reads every format', async () => {
+    installBarcodeDetector(async () => []);
+    expect(checkBarcodeDetectorSupport()).toBe(true);
+    expect((await createBarcodeScanner()).name).toBe('barcode-detector');
+  });
+
+  it('falls back to the bundled decoders for missing formats', async () => {
+    installBarcodeDetector(async () => [], ['qr_code', 'ean_13']);
+    expect((await createBarcodeScanner(['qr_code'])).name).toBe(
+      'barcode-detector'
+    );
+
+    // happy-dom has no canvas rendering, so hand the decoder a drawn frame
+    const frame = renderModules(encodeQrCode('fallback'), { quietZone: 20 });
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({
+      drawImage: vi.fn(),
+      getImageData: () => frame,
+    } as unknown as CanvasRenderingContext2D);
+
+    const scanner = await createBarcodeScanner();
+    expect(scanner.name).toBe('js-decoder');
+    expect(await scanner.detect(fakeVideo())).toEqual([
+      expect.objectContaining({ format: 'qr_code', rawValue: 'fallback' }),
+    ]);
+  });
+
+  it('reads a code held in view once', async () => {
+    vi.useFakeTimers();
+    let inView = true;
+    const detect = vi.fn(async () => (inView ? [qrCode] : []));
+    installBarcodeDetector(detect);
+
+    const events: ScanEvent[] = [];
+    const session = startScanning(
+      fakeVideo(),
+      document.createElement('canvas'),
+      { intervalMs: 100, debounceMs: 1000 }
+    );
+    session.subscribe(event => events.push(event));
+
+    await vi.advanceTimersByTimeAsync(2050);
+    const reads = () => events.filter(event => event.type === 'read');
+    expect(detect).toHaveBeenCalledTimes(20);
+    expect(reads()).toEqual([
+      {
+        type: 'read',
+        code: {
+          format: 'qr_code',
+          rawValue: 'https://example.com/',
+          cornerPoints: qrCode.cornerPoints,
+        },
+      },
+    ]);
+    expect(events.filter(event => event.type === 'frame')).toHaveLength(20);
+
+    // Briefly out of view isn't a new read, but a while out of view is
+    inView = false;
+    await vi.advanceTimersByTimeAsync(500);
+    inView = true;
+    await vi.advanceTimersByTimeAsync(500);
+    expect(reads()).toHaveLength(1);
+    inView = false;
+    await vi.advanceTimersByTimeAsync(1500);
+    inView = true;
+    await vi.advanceTimersByTimeAsync(100);
+    expect(reads()).toHaveLength(2);
+
+    session.stop();
+    const calls = detect.mock.calls.length;
+    await vi.advanceTimersByTimeAsync(500);
+    expect(detect).toHaveBeenCalledTimes(calls);
+  });
+
+  it('stops notifying unsubscribed listeners', async () => {
+    vi.useFakeTimers();
+    installBarcodeDetector(async () => [qrCode]);
+
+    const listener = vi.fn();
+    const session = startScanning(
+      fakeVideo(),
+      document.createElement('canvas'),
+      { intervalMs: 100 }
+    );
+    const unsubscribe = session.subscribe(listener);
+    await vi.advanceTimersByTimeAsync(150);
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+    await vi.advanceTimersByTimeAsync(500);
+    expect(listener).toHaveBeenCalledTimes(2);
+    session.stop();
+  });
+
+  it('reports a scanner it cannot create once the video is ready', async () => {
+    vi.useFakeTimers();
+    // No BarcodeDetector, and happy-dom has no canvas for the decoders
+    const video = { ...fakeVideo(), readyState: 0 } as HTMLVideoElement;
+    const listener = vi.fn();
+    const session = startScanning(video, document.createElement('canvas'), {
+      intervalMs: 100,
+    });
+    session.subscribe(listener);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(listener).not.toHaveBeenCalled();
+
+    Object.assign(video, { readyState: 4 });
+    await vi.advanceTimersByTimeAsync(100);
+    expect(listener).toHaveBeenCalledExactlyOnceWith({
+      type: 'error',
+      error: expect.objectContaining({ type: 'not-supported' }),
+    });
+    session.stop();
+  });
+
+  it('outlines codes on a mirrored overlay', async () => {
+    vi.useFakeTimers();
+    installBarcodeDetector(async () => [qrCode]);
+    const lineTo = vi.fn();
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({
+      clearRect: vi.fn(),
+      beginPath: vi.fn(),
+      lineTo,
+      closePath: vi.fn(),
+      stroke: vi.fn(),
+    } as unknown as CanvasRenderingContext2D);
+    // An overlay the size of the video, so points map one to one
+    const overlay = document.createElement('canvas');
+    Object.defineProperties(overlay, {
+      clientWidth: { value: 640 },
+      clientHeight: { value: 480 },
+    });
+
+    const session = startScanning(fakeVideo(), overlay, {
+      intervalMs: 100,
+      mirrored: () => true,
+    });
+    await vi.advanceTimersByTimeAsync(100);
+    session.stop();
+
+    expect(lineTo.mock.calls).toEqual([
+      [540, 100],
+      [340, 100],
+      [340, 300],
+      [540, 300],
+    ]);
+  });
+});
@@ -0,0 +1,326 @@
+// QR code and barcode scanning over the live <video>: the Shape Detection
+// BarcodeDetector where the browser has one that reads every format we ask
+// for, and the bundled decoders everywhere else. Reads are outlined on an
+// overlay canvas and reported as scan events.
+
+import { binarize, type Point } from './binary-image';
+import { decodeDataMatrices } from './data-matrix';
+import { t } from './i18n';
+import { decodeLinearBarcodes, type LinearFormat } from './linear-barcodes';
+import { decodeQrCodes } from './qr-code';
+
+// Named as the Shape Detection API names them
+export type BarcodeFormat = 'qr_code' | 'ean_13' | 'code_128' | 'data_matrix';
+
+export const BARCODE_FORMATS: BarcodeFormat[] = [
+  'qr_code',
+  'ean_13',
+  'code_128',
+  'data_matrix',
+];
+
+export interface ScannedCode {
+  format: BarcodeFormat;
+  rawValue: string;
+  // In video pixels, clockwise from the code's own top left
+  cornerPoints: Point[];
+}
+
+export type ScanEvent =
+  // A code came into view, or came back after the debounce time
+  | { type: 'read'; code: ScannedCode }
+  // Every code in the latest frame, including ones already read
+  | { type: 'frame'; codes: ScannedCode[] }
+  // Scanning can't run in this browser, and has stopped
+  | { type: 'error'; error: ScannerError };
+
+export interface BarcodeScannerBackend {
+  name: 'barcode-detector' | 'js-decoder';
+  detect(video: HTMLVideoElement): Promise<ScannedCode[]>;
+}
+
+export interface ScanOptions {
+  formats?: BarcodeFormat[];
+  // Minimum time between detections; the render loop keeps the rest
+  intervalMs?: number;
+  // A code held in view is only read again after it has been out of view
+  // for this long
+  debounceMs?: number;
+  // Whether the overlay sits on a mirror image of the video scanned
+  mirrored?: () => boolean;
+}
+
+export interface ScanSession {
+  // Returns a function that removes the listener
+  subscribe(listener: (event: ScanEvent) => void): () => void;
+  // Stop scanning and clear the overlay
+  stop(): void;
+}
+
+export interface ScannerError {
+  type: 'not-supported';
+  message: string;
+}
+
+// The Shape Detection API isn't in lib.dom yet
+interface DetectedBarcode {
+  format: string;
+  rawValue: string;
+  cornerPoints: Point[];
+}
+
+interface ShapeBarcodeDetector {
+  detect(image: ImageBitmapSource): Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats?: string[] }): ShapeBarcodeDetector;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+// The decoders work on a copy of the frame at most this wide, which keeps a
+// 1080p stream affordable and is still several pixels per module for a code
+// that fills a fair share of the frame
+const SAMPLE_WIDTH = 800;
+
+const DEFAULT_INTERVAL_MS = 150;
+const DEFAULT_DEBOUNCE_MS = 1500;
+
+// HTMLMediaElement.HAVE_CURRENT_DATA: the current frame can be read
+const HAVE_CURRENT_DATA = 2;
+
+function getBarcodeDetectorConstructor():
+  BarcodeDetectorConstructor | undefined {
+  return (window as { BarcodeDetector?: BarcodeDetectorConstructor })
+    .BarcodeDetector;
+}
+
+// Check if the browser has the Shape Detection BarcodeDetector
+export function checkBarcodeDetectorSupport(): boolean {
+  return typeof window !== 'undefined' && !!getBarcodeDetectorConstructor();
+}
+
+// Find and decode the codes in a frame with the bundled decoders
+export function decodeBarcodes(
+  image: ImageData,
+  formats: BarcodeFormat[] = BARCODE_FORMATS
+): ScannedCode[] {
+  const binary = binarize(image);
+  const codes: ScannedCode[] = [];
+
+  if (formats.includes('qr_code')) {
+    decodeQrCodes(binary).forEach(symbol =>
+      codes.push({ format: 'qr_code', ...symbol })
+    );
+  }
+  if (formats.includes('data_matrix')) {
+    decodeDataMatrices(binary).forEach(symbol =>
+      codes.push({ format: 'data_matrix', ...symbol })
+    );
+  }
+  const linear = formats.filter(
+    (format): format is LinearFormat =>
+      format === 'ean_13' || format === 'code_128'
+  );
+  if (linear.length > 0) {
+    codes.push(...decodeLinearBarcodes(binary, linear));
+  }
+  return codes;
+}
+
+function createBarcodeDetectorBackend(
+  BarcodeDetector: BarcodeDetectorConstructor,
+  formats: BarcodeFormat[]
+): BarcodeScannerBackend {
+  const detector = new BarcodeDetector({ formats });
+
+  return {
+    name: 'barcode-detector',
+    async detect(video) {
+      const barcodes = await detector.detect(video);
+      return barcodes
+        .filter(({ format }) => formats.includes(format as BarcodeFormat))
+        .map(({ format, rawValue, cornerPoints }) => ({
+          format: format as BarcodeFormat,
+          rawValue,
+          cornerPoints: cornerPoints.map(({ x, y }) => ({ x, y })),
+        }));
+    },
+  };
+}
+
+function createJsDecoderBackend(
+  formats: BarcodeFormat[]
+): BarcodeScannerBackend {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    const error: ScannerError = {
+      type: 'not-supported',
+      message: t('scan.error.not-supported'),
+    };
+    throw error;
+  }
+
+  return {
+    name: 'js-decoder',
+    async detect(video) {
+      const scale = Math.min(1, SAMPLE_WIDTH / video.videoWidth);
+      canvas.width = Math.max(1, Math.round(video.videoWidth * scale));
+      canvas.height = Math.max(1, Math.round(video.videoHeight * scale));
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+      const image = context.getImageData(0, 0, canvas.width, canvas.height);
+      return decodeBarcodes(image, formats).map(code => ({
+        ...code,
+        cornerPoints: code.cornerPoints.map(({ x, y }) => ({
+          x: x / scale,
+          y: y / scale,
+        })),
+      }));
+    },
+  };
+}
+
+// Pick the best scanner this browser can run for the formats. Which formats
+// BarcodeDetector reads varies by platform, so it's only used when it reads
+// them all.
+export async function createBarcodeScanner(
+  formats: BarcodeFormat[] = BARCODE_FORMATS
+): Promise<BarcodeScannerBackend> {
+  const BarcodeDetector = getBarcodeDetectorConstructor();
+  if (BarcodeDetector) {
+    try {
+      const supported = await BarcodeDetector.getSupportedFormats();
+      if (formats.every(format => supported.includes(format))) {
+        return createBarcodeDetectorBackend(BarcodeDetector, formats);
+      }
+    } catch (error) {
+      console.warn('BarcodeDetector is unavailable:', error);
+    }
+  }
+  return createJsDecoderBackend(formats);
+}
+
+// Outline the codes over a <video> shown with object-fit: cover
+function drawCodes(
+  canvas: HTMLCanvasElement,
+  video: HTMLVideoElement,
+  codes: ScannedCode[],
+  mirrored: boolean
+): void {
+  const context = canvas.getContext('2d');
+  if (!context) return;
+
+  const { clientWidth, clientHeight } = canvas;
+  canvas.width = clientWidth;
+  canvas.height = clientHeight;
+  context.clearRect(0, 0, clientWidth, clientHeight);
+
+  const scale = Math.max(
+    clientWidth / video.videoWidth,
+    clientHeight / video.videoHeight
+  );
+  const offsetX = (clientWidth - video.videoWidth * scale) / 2;
+  const offsetY = (clientHeight - video.videoHeight * scale) / 2;
+
+  context.lineWidth = 4;
+  context.lineJoin = 'round';
+  context.strokeStyle = '#43e97b';
+  codes.forEach(({ cornerPoints }) => {
+    context.beginPath();
+    cornerPoints.forEach(({ x, y }) =>
+      context.lineTo(
+        offsetX + (mirrored ? video.videoWidth - x : x) * scale,
+        offsetY + y * scale
+      )
+    );
+    context.closePath();
+    context.stroke();
+  });
+}
+
+// Scan the video at a throttled rate, outline what's found on the overlay
+// and report it to subscribers
+export function startScanning(
+  video: HTMLVideoElement,
+  overlay: HTMLCanvasElement,
+  options: ScanOptions = {}
+): ScanSession {
+  const formats = options.formats ?? BARCODE_FORMATS;
+  const intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+  const debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+  const listeners = new Set<(event: ScanEvent) => void>();
+  // When each code was last in view, by format and value
+  const lastSeen = new Map<string, number>();
+  // Handled right away, so a scanner that can't be created doesn't reject
+  // unobserved while the video isn't ready; the first frame reports it
+  const scanner = createBarcodeScanner(formats).then(
+    backend => ({ backend }),
+    (error: ScannerError) => ({ error })
+  );
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+
+  const emit = (event: ScanEvent) =>
+    listeners.forEach(listener => listener(event));
+
+  // Only one detection runs at a time, and the next waits for the interval,
+  // so a slow decoder lowers its own rate instead of piling up frames
+  const tick = async () => {
+    const started = performance.now();
+    const ready =
+      !document.hidden &&
+      video.readyState >= HAVE_CURRENT_DATA &&
+      video.videoWidth > 0;
+
+    if (ready) {
+      const created = await scanner;
+      if ('error' in created) {
+        stopped = true;
+        emit({ type: 'error', error: created.error });
+        return;
+      }
+      const { backend } = created;
+
+      try {
+        const codes = await backend.detect(video);
+        if (stopped) return;
+
+        drawCodes(overlay, video, codes, options.mirrored?.() ?? false);
+        const now = Date.now();
+        codes.forEach(code => {
+          const key = `${code.format}:${code.rawValue}`;
+          const seen = lastSeen.get(key);
+          lastSeen.set(key, now);
+          if (seen === undefined || now - seen > debounceMs) {
+            emit({ type: 'read', code });
+          }
+        });
+        emit({ type: 'frame', codes });
+      } catch (error) {
+        console.warn('Barcode scanning failed:', error);
+      }
+    }
+
+    if (!stopped) {
+      const elapsed = performance.now() - started;
+      timer = setTimeout(tick, Math.max(intervalMs - elapsed, intervalMs / 2));
+    }
+  };
+
+  timer = setTimeout(tick, intervalMs);
+
+  return {
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    stop() {
+      stopped = true;
+      clearTimeout(timer);
+      listeners.clear();
+      overlay.getContext('2d')?.clearRect(0, 0, overlay.width, overlay.height);
+    },
+  };
+}
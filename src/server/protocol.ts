@@ -0,0 +1,132 @@
+// JSON shapes exchanged between the browser and the relying-party server.
+// Binary fields are base64url strings, mirroring the WebAuthn Level 3
+// PublicKeyCredential*JSON types.
+
+export const WEBAUTHN_API_BASE = '/api/webauthn';
+
+// Which kind of authenticator a new passkey should live on
+export type AuthenticatorAttachmentChoice =
+  | 'platform'
+  | 'cross-platform'
+  | 'any';
+
+export interface RegistrationOptionsRequestJSON {
+  username: string;
+  displayName?: string;
+  attachment?: AuthenticatorAttachmentChoice;
+}
+
+export interface AuthenticationOptionsRequestJSON {
+  username?: string;
+}
+
+export interface CredentialDescriptorJSON {
+  type: 'public-key';
+  id: string;
+  transports?: AuthenticatorTransport[];
+}
+
+export interface CreationOptionsJSON {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: { type: 'public-key'; alg: number }[];
+  authenticatorSelection: AuthenticatorSelectionCriteria;
+  excludeCredentials: CredentialDescriptorJSON[];
+  timeout: number;
+  attestation: AttestationConveyancePreference;
+}
+
+export interface RequestOptionsJSON {
+  challenge: string;
+  rpId: string;
+  allowCredentials: CredentialDescriptorJSON[];
+  userVerification: UserVerificationRequirement;
+  timeout: number;
+}
+
+export interface RegistrationResponseJSON {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+  // Optional friendly name chosen by the user
+  nickname?: string;
+}
+
+export interface AuthenticationResponseJSON {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle: string | null;
+  };
+}
+
+// A signed-in session. Every authenticated request pushes the idle deadline
+// back, but never past the absolute expiry.
+export interface SessionJSON {
+  username: string;
+  expiresAt: number;
+  idleTimeoutMs: number;
+  idleExpiresAt: number;
+  // Sensitive actions need a fresh passkey check after this
+  reauthenticateAt: number;
+}
+
+export interface VerificationResultJSON extends SessionJSON {
+  verified: true;
+  credentialId: string;
+  // Bearer token for the session and passkey management endpoints
+  accessToken: string;
+  // The session only allows reporting a liveness check (or signing out)
+  // until one is accepted
+  provisional: boolean;
+}
+
+// The outcome of the liveness check that follows a provisional sign-in
+export interface LivenessReportJSON {
+  passed: boolean;
+  // Why it didn't pass, as a LivenessFailure
+  failure?: string;
+}
+
+export interface SignOutResultJSON {
+  signedOut: true;
+}
+
+export interface CredentialSummaryJSON {
+  id: string;
+  nickname: string;
+  createdAt: number;
+  lastUsedAt?: number;
+  transports: string[];
+}
+
+export interface CredentialListJSON {
+  username: string;
+  credentials: CredentialSummaryJSON[];
+}
+
+export interface RenameCredentialRequestJSON {
+  id: string;
+  nickname: string;
+}
+
+export interface RevokeCredentialRequestJSON {
+  id: string;
+}
+
+export interface ErrorResponseJSON {
+  verified: false;
+  error: string;
+  // The RelyingPartyError type, when the server rejected the request
+  code?: string;
+}
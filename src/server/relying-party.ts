@@ -0,0 +1,758 @@
+// A minimal WebAuthn relying party: issues challenges, stores credential
+// public keys and verifies registrations and assertions. It only uses
+// WebCrypto, so it runs in Node (as Vite middleware) and in tests alike.
+
+import {
+  parseAttestationObject,
+  type AttestationError,
+} from '../attestation';
+import {
+  parseAuthenticatorData,
+  type AuthenticatorData,
+} from '../authenticator-data';
+import {
+  COSE_ALG_ES256,
+  COSE_ALG_RS256,
+  importCoseKey,
+  parseCoseKey,
+  verifyCoseSignature,
+} from '../cose';
+import { bytesEqual, fromBase64Url, toBase64Url } from '../encoding';
+import type {
+  AuthenticationOptionsRequestJSON,
+  AuthenticationResponseJSON,
+  CreationOptionsJSON,
+  CredentialDescriptorJSON,
+  CredentialListJSON,
+  CredentialSummaryJSON,
+  LivenessReportJSON,
+  RegistrationOptionsRequestJSON,
+  RegistrationResponseJSON,
+  RenameCredentialRequestJSON,
+  RequestOptionsJSON,
+  RevokeCredentialRequestJSON,
+  SessionJSON,
+  SignOutResultJSON,
+  VerificationResultJSON,
+} from './protocol';
+
+export interface RelyingPartyError {
+  type:
+    | 'bad-request'
+    | 'unauthorized'
+    | 'reauthenticate'
+    | 'unknown-user'
+    | 'challenge'
+    | 'origin'
+    | 'rp-id'
+    | 'user-presence'
+    | 'user-verification'
+    | 'unknown-credential'
+    | 'unsupported-algorithm'
+    | 'signature'
+    | 'sign-count'
+    | 'liveness'
+    | 'last-credential';
+  message: string;
+}
+
+// Where a request came from; the server derives this from the HTTP request
+export interface RequestContext {
+  rpId: string;
+  origin: string;
+  // From the Authorization: Bearer header, if any
+  accessToken?: string;
+}
+
+export interface RelyingPartyOptions {
+  rpName: string;
+  challengeTimeoutMs?: number;
+  // Sessions end after this long without a request...
+  sessionIdleTimeoutMs?: number;
+  // ...and after this long in any case
+  sessionMaxAgeMs?: number;
+  // How long after a passkey check sensitive actions are allowed
+  reauthenticateAfterMs?: number;
+  // Whether a passkey sign-in has to be followed by an accepted liveness
+  // check before its session can be used. 'when-supported' also accepts a
+  // browser that can't check liveness at all; 'required' turns it away.
+  liveness?: 'required' | 'when-supported';
+}
+
+export interface UserAccount {
+  id: string;
+  name: string;
+  displayName: string;
+}
+
+export interface StoredCredential {
+  id: string;
+  userId: string;
+  publicKey: string;
+  algorithm: number;
+  signCount: number;
+  attestationFormat: string;
+  nickname: string;
+  transports: string[];
+  createdAt: number;
+  lastUsedAt?: number;
+}
+
+interface PendingChallenge {
+  ceremony: 'webauthn.create' | 'webauthn.get';
+  rpId: string;
+  userId?: string;
+  expiresAt: number;
+}
+
+interface ClientData {
+  type: string;
+  challenge: string;
+  origin: string;
+  crossOrigin?: boolean;
+}
+
+interface Session {
+  userId: string;
+  expiresAt: number;
+  lastSeenAt: number;
+  verifiedAt: number;
+  // Waiting for a liveness check
+  provisional: boolean;
+}
+
+const DEFAULT_CHALLENGE_TIMEOUT_MS = 60000;
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 15 * 60 * 1000;
+const DEFAULT_SESSION_MAX_AGE_MS = 8 * 60 * 60 * 1000;
+const DEFAULT_REAUTHENTICATE_AFTER_MS = 5 * 60 * 1000;
+const MAX_USERNAME_LENGTH = 64;
+const MAX_NICKNAME_LENGTH = 64;
+const KNOWN_TRANSPORTS: AuthenticatorTransport[] = [
+  'ble',
+  'hybrid',
+  'internal',
+  'nfc',
+  'usb',
+];
+
+function fail(type: RelyingPartyError['type'], message: string): never {
+  const error: RelyingPartyError = { type, message };
+  throw error;
+}
+
+function randomBase64Url(length: number): string {
+  const bytes = new Uint8Array(length);
+  crypto.getRandomValues(bytes);
+  return toBase64Url(bytes);
+}
+
+async function sha256(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+}
+
+function decodeField(value: unknown, name: string): Uint8Array<ArrayBuffer> {
+  if (typeof value !== 'string') {
+    fail('bad-request', `Missing ${name}`);
+  }
+  try {
+    return fromBase64Url(value as string);
+  } catch {
+    return fail('bad-request', `${name} is not valid base64url`);
+  }
+}
+
+// Trim a user-supplied name and check its length
+function cleanName(value: unknown, field: string, maxLength: number): string {
+  const name = typeof value === 'string' ? value.trim() : '';
+  if (!name || name.length > maxLength) {
+    fail('bad-request', `${field} must be 1 to ${maxLength} characters`);
+  }
+  return name;
+}
+
+function parseClientData(bytes: Uint8Array): ClientData {
+  try {
+    return JSON.parse(new TextDecoder().decode(bytes)) as ClientData;
+  } catch {
+    return fail('bad-request', 'clientDataJSON is not valid JSON');
+  }
+}
+
+export function createRelyingParty(options: RelyingPartyOptions) {
+  const challengeTimeoutMs =
+    options.challengeTimeoutMs ?? DEFAULT_CHALLENGE_TIMEOUT_MS;
+  const sessionIdleTimeoutMs =
+    options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+  const sessionMaxAgeMs = options.sessionMaxAgeMs ?? DEFAULT_SESSION_MAX_AGE_MS;
+  const reauthenticateAfterMs =
+    options.reauthenticateAfterMs ?? DEFAULT_REAUTHENTICATE_AFTER_MS;
+  const challenges = new Map<string, PendingChallenge>();
+  const users = new Map<string, UserAccount>();
+  const credentials = new Map<string, StoredCredential>();
+  const sessions = new Map<string, Session>();
+
+  // Store a one-time challenge, dropping any that have expired
+  function issueChallenge(
+    pending: Omit<PendingChallenge, 'expiresAt'>
+  ): string {
+    const now = Date.now();
+    challenges.forEach((value, key) => {
+      if (value.expiresAt < now) challenges.delete(key);
+    });
+
+    const challenge = randomBase64Url(32);
+    challenges.set(challenge, {
+      ...pending,
+      expiresAt: now + challengeTimeoutMs,
+    });
+    return challenge;
+  }
+
+  // Check the client data against a pending challenge and consume it
+  function checkClientData(
+    clientData: ClientData,
+    ceremony: PendingChallenge['ceremony'],
+    context: RequestContext
+  ): PendingChallenge {
+    if (clientData.type !== ceremony) {
+      fail('bad-request', `Expected ${ceremony}, got ${clientData.type}`);
+    }
+
+    const pending = challenges.get(clientData.challenge);
+    challenges.delete(clientData.challenge);
+    if (
+      !pending ||
+      pending.ceremony !== ceremony ||
+      pending.rpId !== context.rpId ||
+      pending.expiresAt < Date.now()
+    ) {
+      fail('challenge', 'Challenge is unknown, expired or already used');
+    }
+
+    if (clientData.origin !== context.origin || clientData.crossOrigin) {
+      fail('origin', `Unexpected origin ${clientData.origin}`);
+    }
+
+    return pending!;
+  }
+
+  // Check the rpIdHash and the UP/UV flags
+  async function checkAuthenticatorData(
+    authData: AuthenticatorData,
+    context: RequestContext
+  ): Promise<void> {
+    const expectedHash = await sha256(new TextEncoder().encode(context.rpId));
+    if (!bytesEqual(authData.rpIdHash, expectedHash)) {
+      fail('rp-id', `Credential was not created for ${context.rpId}`);
+    }
+    if (!authData.flags.userPresent) {
+      fail('user-presence', 'User presence flag is not set');
+    }
+    if (!authData.flags.userVerified) {
+      fail('user-verification', 'User verification flag is not set');
+    }
+  }
+
+  function findUserById(id: string): UserAccount | undefined {
+    return [...users.values()].find(user => user.id === id);
+  }
+
+  function credentialsFor(userId: string): StoredCredential[] {
+    return [...credentials.values()].filter(
+      credential => credential.userId === userId
+    );
+  }
+
+  // Pass recorded transports back so the browser knows where to look
+  function toDescriptor(
+    credential: StoredCredential
+  ): CredentialDescriptorJSON {
+    const transports = credential.transports.filter(
+      (transport): transport is AuthenticatorTransport =>
+        KNOWN_TRANSPORTS.includes(transport as AuthenticatorTransport)
+    );
+    return {
+      type: 'public-key',
+      id: credential.id,
+      ...(transports.length ? { transports } : {}),
+    };
+  }
+
+  function isExpired(session: Session, now: number): boolean {
+    return (
+      session.expiresAt <= now ||
+      session.lastSeenAt + sessionIdleTimeoutMs <= now
+    );
+  }
+
+  function toSessionJSON(session: Session, user: UserAccount): SessionJSON {
+    return {
+      username: user.name,
+      expiresAt: session.expiresAt,
+      idleTimeoutMs: sessionIdleTimeoutMs,
+      idleExpiresAt: Math.min(
+        session.lastSeenAt + sessionIdleTimeoutMs,
+        session.expiresAt
+      ),
+      reauthenticateAt: session.verifiedAt + reauthenticateAfterMs,
+    };
+  }
+
+  // Start a session after a verified ceremony, replacing the one the
+  // request came with (a step-up sign-in, for example)
+  function issueSession(
+    user: UserAccount,
+    context: RequestContext,
+    provisional = false
+  ): Pick<
+    VerificationResultJSON,
+    'accessToken' | 'provisional' | keyof SessionJSON
+  > {
+    const now = Date.now();
+    sessions.forEach((value, key) => {
+      if (isExpired(value, now)) sessions.delete(key);
+    });
+    if (context.accessToken) {
+      sessions.delete(context.accessToken);
+    }
+
+    const accessToken = randomBase64Url(32);
+    const session: Session = {
+      userId: user.id,
+      expiresAt: now + sessionMaxAgeMs,
+      lastSeenAt: now,
+      verifiedAt: now,
+      provisional,
+    };
+    sessions.set(accessToken, session);
+    return { accessToken, provisional, ...toSessionJSON(session, user) };
+  }
+
+  // Whether the request already has a full session for the user, which a
+  // step-up sign-in keeps without another liveness check
+  function hasFullSession(context: RequestContext, user: UserAccount): boolean {
+    const session = context.accessToken
+      ? sessions.get(context.accessToken)
+      : undefined;
+    return (
+      !!session &&
+      !session.provisional &&
+      session.userId === user.id &&
+      !isExpired(session, Date.now())
+    );
+  }
+
+  // Resolve the request's session, and count the request as activity. A
+  // provisional session only counts where allowProvisional says so.
+  function requireSession(
+    context: RequestContext,
+    allowProvisional = false
+  ): {
+    session: Session;
+    user: UserAccount;
+  } {
+    const now = Date.now();
+    const session = context.accessToken
+      ? sessions.get(context.accessToken)
+      : undefined;
+    const user = session && findUserById(session.userId);
+    if (!session || isExpired(session, now) || !user) {
+      if (context.accessToken) {
+        sessions.delete(context.accessToken);
+      }
+      fail('unauthorized', 'Sign in with a passkey first');
+    }
+
+    if (session!.provisional && !allowProvisional) {
+      fail('unauthorized', 'Finish the liveness check first');
+    }
+
+    session!.lastSeenAt = now;
+    return { session: session!, user: user! };
+  }
+
+  // Resolve the signed-in user from the request's session
+  function requireUser(context: RequestContext): UserAccount {
+    return requireSession(context).user;
+  }
+
+  // Sensitive actions need a passkey check in the last few minutes
+  function requireRecentSignIn(context: RequestContext): UserAccount {
+    const { session, user } = requireSession(context);
+    if (session.verifiedAt + reauthenticateAfterMs <= Date.now()) {
+      fail('reauthenticate', 'Sign in again to confirm this change');
+    }
+    return user;
+  }
+
+  function requireOwnCredential(
+    context: RequestContext,
+    id: unknown
+  ): StoredCredential {
+    const user = requireUser(context);
+    const credential = typeof id === 'string' ? credentials.get(id) : undefined;
+    if (!credential || credential.userId !== user.id) {
+      fail('unknown-credential', 'Credential is not registered');
+    }
+    return credential!;
+  }
+
+  function registrationOptions(
+    context: RequestContext,
+    request: RegistrationOptionsRequestJSON
+  ): CreationOptionsJSON {
+    const name = cleanName(request?.username, 'Username', MAX_USERNAME_LENGTH);
+    let user = users.get(name);
+
+    if (user && credentialsFor(user.id).length > 0) {
+      // Adding another authenticator to an existing account needs a sign-in
+      if (requireRecentSignIn(context).id !== user.id) {
+        fail('unauthorized', 'Sign in to this account to add a passkey');
+      }
+    } else if (!user) {
+      user = {
+        id: randomBase64Url(16),
+        name,
+        displayName: request.displayName?.trim() || name,
+      };
+      users.set(name, user);
+    }
+
+    const attachment = request.attachment ?? 'platform';
+    if (!['platform', 'cross-platform', 'any'].includes(attachment)) {
+      fail('bad-request', `Unknown authenticator attachment ${attachment}`);
+    }
+
+    return {
+      challenge: issueChallenge({
+        ceremony: 'webauthn.create',
+        rpId: context.rpId,
+        userId: user.id,
+      }),
+      rp: { id: context.rpId, name: options.rpName },
+      user: { id: user.id, name: user.name, displayName: user.displayName },
+      pubKeyCredParams: [
+        { type: 'public-key', alg: COSE_ALG_ES256 },
+        { type: 'public-key', alg: COSE_ALG_RS256 },
+      ],
+      authenticatorSelection: {
+        // 'any' leaves the choice to the browser (security key, phone, ...)
+        ...(attachment === 'any'
+          ? {}
+          : {
+              authenticatorAttachment: attachment as AuthenticatorAttachment,
+            }),
+        // Discoverable, so the passkey can sign in without a username
+        residentKey: 'required',
+        requireResidentKey: true,
+        userVerification: 'required',
+      },
+      excludeCredentials: credentialsFor(user.id).map(toDescriptor),
+      timeout: challengeTimeoutMs,
+      attestation: 'none',
+    };
+  }
+  async function verifyRegistration(
+    context: RequestContext,
+    body: RegistrationResponseJSON
+  ): Promise<VerificationResultJSON> {
+    const clientDataBytes = decodeField(
+      body?.response?.clientDataJSON,
+      'clientDataJSON'
+    );
+    const pending = checkClientData(
+      parseClientData(clientDataBytes),
+      'webauthn.create',
+      context
+    );
+
+    const attestationBytes = decodeField(
+      body.response.attestationObject,
+      'attestationObject'
+    );
+    let fmt: string;
+    let authDataBytes: Uint8Array;
+    try {
+      ({ fmt, authData: authDataBytes } =
+        parseAttestationObject(attestationBytes));
+    } catch (err) {
+      return fail('bad-request', (err as AttestationError).message);
+    }
+
+    const authData = parseAuthenticatorData(authDataBytes);
+    await checkAuthenticatorData(authData, context);
+
+    const attested = authData.attestedCredentialData;
+    if (!attested) {
+      fail('bad-request', 'Attested credential data is missing');
+    }
+
+    const credentialId = toBase64Url(attested!.credentialId);
+    if (credentialId !== body.rawId) {
+      fail('bad-request', 'Credential ID does not match rawId');
+    }
+    if (credentials.has(credentialId)) {
+      fail('bad-request', 'Credential is already registered');
+    }
+
+    // Make sure we can actually verify signatures from this key later
+    let algorithm: number;
+    try {
+      const coseKey = parseCoseKey(attested!.publicKey);
+      await importCoseKey(coseKey);
+      algorithm = coseKey.alg;
+    } catch {
+      fail(
+        'unsupported-algorithm',
+        'Credential public key is not ES256 or RS256'
+      );
+    }
+
+    const user = findUserById(pending.userId!);
+    if (!user) {
+      fail('unknown-user', 'Account no longer exists');
+    }
+
+    // The options may have been issued before the account had passkeys, so
+    // check again that whoever answered them may add one
+    const existing = credentialsFor(user!.id);
+    if (existing.length > 0 && requireRecentSignIn(context).id !== user!.id) {
+      fail('unauthorized', 'Sign in to this account to add a passkey');
+    }
+
+    const nickname =
+      typeof body.nickname === 'string' && body.nickname.trim()
+        ? cleanName(body.nickname, 'Nickname', MAX_NICKNAME_LENGTH)
+        : `Passkey ${existing.length + 1}`;
+
+    // We ask for attestation: 'none', so the statement itself isn't trusted
+    credentials.set(credentialId, {
+      id: credentialId,
+      userId: user!.id,
+      publicKey: toBase64Url(attested!.publicKey),
+      algorithm: algorithm!,
+      signCount: authData.signCount,
+      attestationFormat: fmt,
+      nickname,
+      transports: Array.isArray(body.response.transports)
+        ? body.response.transports.filter(t => typeof t === 'string')
+        : [],
+      createdAt: Date.now(),
+    });
+
+    return {
+      verified: true,
+      credentialId,
+      ...issueSession(user!, context),
+    };
+  }
+
+  function authenticationOptions(
+    context: RequestContext,
+    request: AuthenticationOptionsRequestJSON
+  ): RequestOptionsJSON {
+    const name = request?.username?.trim();
+    const user = name ? users.get(name) : undefined;
+    const allowed = user ? credentialsFor(user.id) : [];
+
+    // Without a username the authenticator picks a discoverable credential
+    if (name && !allowed.length) {
+      fail('unknown-user', 'No passkeys are registered for this account');
+    }
+
+    return {
+      challenge: issueChallenge({
+        ceremony: 'webauthn.get',
+        rpId: context.rpId,
+        userId: user?.id,
+      }),
+      rpId: context.rpId,
+      allowCredentials: allowed.map(toDescriptor),
+      userVerification: 'required',
+      timeout: challengeTimeoutMs,
+    };
+  }
+
+  async function verifyAuthentication(
+    context: RequestContext,
+    body: AuthenticationResponseJSON
+  ): Promise<VerificationResultJSON> {
+    const credential = credentials.get(body?.rawId);
+    if (!credential) {
+      fail('unknown-credential', 'Credential is not registered');
+    }
+
+    const clientDataBytes = decodeField(
+      body.response?.clientDataJSON,
+      'clientDataJSON'
+    );
+    const pending = checkClientData(
+      parseClientData(clientDataBytes),
+      'webauthn.get',
+      context
+    );
+    if (pending.userId && pending.userId !== credential!.userId) {
+      fail('unknown-credential', 'Credential belongs to a different account');
+    }
+    // Discoverable credentials must say which account they belong to
+    if (!pending.userId && !body.response.userHandle) {
+      fail('bad-request', 'userHandle is required for usernameless sign-in');
+    }
+
+    const authDataBytes = decodeField(
+      body.response.authenticatorData,
+      'authenticatorData'
+    );
+    const authData = parseAuthenticatorData(authDataBytes);
+    await checkAuthenticatorData(authData, context);
+
+    if (
+      body.response.userHandle &&
+      body.response.userHandle !== credential!.userId
+    ) {
+      fail('unknown-credential', 'User handle does not match the credential');
+    }
+
+    // The signature covers authenticatorData || SHA-256(clientDataJSON)
+    const clientDataHash = await sha256(clientDataBytes);
+    const signedData = new Uint8Array(
+      authDataBytes.length + clientDataHash.length
+    );
+    signedData.set(authDataBytes, 0);
+    signedData.set(clientDataHash, authDataBytes.length);
+
+    let valid = false;
+    try {
+      valid = await verifyCoseSignature(
+        fromBase64Url(credential!.publicKey),
+        decodeField(body.response.signature, 'signature'),
+        signedData
+      );
+    } catch {
+      valid = false;
+    }
+    if (!valid) {
+      fail('signature', 'Assertion signature is invalid');
+    }
+
+    // A counter that doesn't move forward suggests a cloned authenticator.
+    // Authenticators that don't count at all always report zero.
+    if (
+      (authData.signCount > 0 || credential!.signCount > 0) &&
+      authData.signCount <= credential!.signCount
+    ) {
+      fail('sign-count', 'Signature counter did not increase');
+    }
+
+    credential!.signCount = authData.signCount;
+    credential!.lastUsedAt = Date.now();
+
+    const user = findUserById(credential!.userId);
+    if (!user) {
+      fail('unknown-user', 'Account no longer exists');
+    }
+
+    return {
+      verified: true,
+      credentialId: credential!.id,
+      ...issueSession(
+        user!,
+        context,
+        !!options.liveness && !hasFullSession(context, user!)
+      ),
+    };
+  }
+
+  function listCredentials(context: RequestContext): CredentialListJSON {
+    const user = requireUser(context);
+    return {
+      username: user.name,
+      credentials: credentialsFor(user.id).map(
+        (credential): CredentialSummaryJSON => ({
+          id: credential.id,
+          nickname: credential.nickname,
+          createdAt: credential.createdAt,
+          lastUsedAt: credential.lastUsedAt,
+          transports: credential.transports,
+        })
+      ),
+    };
+  }
+
+  function renameCredential(
+    context: RequestContext,
+    request: RenameCredentialRequestJSON
+  ): CredentialListJSON {
+    const credential = requireOwnCredential(context, request?.id);
+    credential.nickname = cleanName(
+      request.nickname,
+      'Nickname',
+      MAX_NICKNAME_LENGTH
+    );
+    return listCredentials(context);
+  }
+
+  function revokeCredential(
+    context: RequestContext,
+    request: RevokeCredentialRequestJSON
+  ): CredentialListJSON {
+    requireRecentSignIn(context);
+    const credential = requireOwnCredential(context, request?.id);
+    // An account without passkeys could be claimed by registering to it as
+    // if it were new, so the last one stays
+    if (credentialsFor(credential.userId).length === 1) {
+      fail('last-credential', 'An account has to keep at least one passkey');
+    }
+    credentials.delete(credential.id);
+    return listCredentials(context);
+  }
+
+  // Check the session is still valid and keep it alive
+  function session(context: RequestContext): SessionJSON {
+    const { session, user } = requireSession(context);
+    return toSessionJSON(session, user);
+  }
+
+  // Upgrade a provisional session once its liveness check is reported as
+  // passed. Any other outcome ends the session.
+  function confirmLiveness(
+    context: RequestContext,
+    report: LivenessReportJSON
+  ): SessionJSON {
+    const { session, user } = requireSession(context, true);
+    const accepted =
+      report.passed ||
+      (options.liveness === 'when-supported' &&
+        report.failure === 'not-supported');
+    if (session.provisional && !accepted) {
+      sessions.delete(context.accessToken!);
+      fail('liveness', 'The liveness check did not pass');
+    }
+
+    session.provisional = false;
+    return toSessionJSON(session, user);
+  }
+
+  // End the request's session; signing out twice is fine
+  function signOut(context: RequestContext): SignOutResultJSON {
+    if (context.accessToken) {
+      sessions.delete(context.accessToken);
+    }
+    return { signedOut: true };
+  }
+
+  return {
+    registrationOptions,
+    verifyRegistration,
+    authenticationOptions,
+    verifyAuthentication,
+    listCredentials,
+    renameCredential,
+    revokeCredential,
+    session,
+    confirmLiveness,
+    signOut,
+  };
+}
+
+export type RelyingParty = ReturnType<typeof createRelyingParty>;
@@ -0,0 +1,94 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createRelyingParty } from './relying-party';
+import { bodyTooLarge, handleRoute } from './routes';
+
+const context = { rpId: 'localhost', origin: 'http://localhost' };
+
+function post(path: string, body: unknown) {
+  const rp = createRelyingParty({ rpName: 'Test RP' });
+  return handleRoute(rp, path, context, async () => body);
+}
+
+describe('handleRoute', () => {
+  it('passes well-formed bodies to the relying party', async () => {
+    const { status, body } = await post('/register/options', {
+      username: 'alice',
+    });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ user: { name: 'alice' } });
+  });
+
+  it('rejects bodies of the wrong shape with 400', async () => {
+    const cases: [string, unknown][] = [
+      ['/register/options', null],
+      ['/register/options', { username: 42 }],
+      ['/authenticate/options', ['alice']],
+      ['/authenticate/options', { username: {} }],
+      ['/authenticate/verify', { id: 'a', rawId: 'a', type: 'public-key' }],
+      [
+        '/register/verify',
+        {
+          id: 'a',
+          rawId: 'a',
+          type: 'public-key',
+          response: {
+            clientDataJSON: 'x',
+            attestationObject: 'y',
+            transports: [1],
+          },
+        },
+      ],
+      ['/credentials/rename', { id: 'a' }],
+      ['/credentials/revoke', 'a'],
+      ['/session/liveness', { passed: 'yes' }],
+    ];
+
+    for (const [path, sent] of cases) {
+      const { status, body } = await post(path, sent);
+      expect(status, path).toBe(400);
+      expect(body).toMatchObject({ verified: false, code: 'bad-request' });
+    }
+  });
+
+  it('refuses a body that is too large with 413', async () => {
+    const rp = createRelyingParty({ rpName: 'Test RP' });
+    const { status } = await handleRoute(rp, '/session', context, () =>
+      Promise.reject(bodyTooLarge())
+    );
+
+    expect(status).toBe(413);
+  });
+
+  it('refuses a body that is not JSON without the parser message', async () => {
+    const { status, body } = await handleRoute(
+      createRelyingParty({ rpName: 'Test RP' }),
+      '/session',
+      context,
+      async () => JSON.parse('{oops')
+    );
+
+    expect(status).toBe(400);
+    expect(body).toEqual({
+      verified: false,
+      error: 'Request body is not valid JSON',
+      code: 'bad-request',
+    });
+  });
+
+  it('keeps the details of unexpected failures in the log', async () => {
+    const log = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const failure = new TypeError('key.algorithm is undefined');
+    const { status, body } = await handleRoute(
+      createRelyingParty({ rpName: 'Test RP' }),
+      '/session',
+      context,
+      () => Promise.reject(failure)
+    );
+
+    expect(status).toBe(500);
+    expect(body).toEqual({ verified: false, error: 'Internal error' });
+    expect(log).toHaveBeenCalledWith('Request to /session failed:', failure);
+    log.mockRestore();
+  });
+});
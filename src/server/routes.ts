@@ -0,0 +1,227 @@
+// Route table for the relying-party API, shared by the Vite middleware and
+// the in-process fetch used in tests.
+
+import type {
+  AuthenticationOptionsRequestJSON,
+  AuthenticationResponseJSON,
+  ErrorResponseJSON,
+  LivenessReportJSON,
+  RegistrationOptionsRequestJSON,
+  RegistrationResponseJSON,
+  RenameCredentialRequestJSON,
+  RevokeCredentialRequestJSON,
+} from './protocol';
+import type {
+  RelyingParty,
+  RelyingPartyError,
+  RequestContext,
+} from './relying-party';
+
+export interface RouteResult {
+  status: number;
+  body: unknown;
+}
+
+// Request bodies come straight from the network, so every route checks the
+// shape of its own before the relying party sees it
+type Route = (
+  rp: RelyingParty,
+  context: RequestContext,
+  body: unknown
+) => unknown;
+
+type Fields = Record<string, unknown>;
+
+// Larger bodies are refused before they're parsed
+export const MAX_BODY_BYTES = 64 * 1024;
+
+function badRequest(message: string): never {
+  const error: RelyingPartyError = { type: 'bad-request', message };
+  throw error;
+}
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function objectField(value: unknown, name: string): Fields {
+  if (!isObject(value)) badRequest(`${name} must be an object`);
+  return value;
+}
+
+function stringField(fields: Fields, name: string): string {
+  const value = fields[name];
+  if (typeof value !== 'string') badRequest(`${name} must be a string`);
+  return value;
+}
+
+function optionalStringField(fields: Fields, name: string): string | undefined {
+  return fields[name] === undefined ? undefined : stringField(fields, name);
+}
+
+// The credential fields shared by registration and sign-in responses
+function credentialFields(body: unknown): {
+  fields: Fields;
+  response: Fields;
+} {
+  const fields = objectField(body, 'Request body');
+  stringField(fields, 'id');
+  stringField(fields, 'rawId');
+  if (fields.type !== 'public-key') badRequest('type must be public-key');
+  return { fields, response: objectField(fields.response, 'response') };
+}
+
+function parseRegistrationOptions(
+  body: unknown
+): RegistrationOptionsRequestJSON {
+  const fields = objectField(body, 'Request body');
+  stringField(fields, 'username');
+  optionalStringField(fields, 'displayName');
+  optionalStringField(fields, 'attachment');
+  return fields as unknown as RegistrationOptionsRequestJSON;
+}
+
+function parseRegistrationResponse(body: unknown): RegistrationResponseJSON {
+  const { fields, response } = credentialFields(body);
+  stringField(response, 'clientDataJSON');
+  stringField(response, 'attestationObject');
+  const { transports } = response;
+  if (
+    transports !== undefined &&
+    !(
+      Array.isArray(transports) &&
+      transports.every(transport => typeof transport === 'string')
+    )
+  ) {
+    badRequest('transports must be a list of strings');
+  }
+  optionalStringField(fields, 'nickname');
+  return fields as unknown as RegistrationResponseJSON;
+}
+
+function parseAuthenticationOptions(
+  body: unknown
+): AuthenticationOptionsRequestJSON {
+  const fields = objectField(body, 'Request body');
+  optionalStringField(fields, 'username');
+  return fields as AuthenticationOptionsRequestJSON;
+}
+
+function parseAuthenticationResponse(
+  body: unknown
+): AuthenticationResponseJSON {
+  const { fields, response } = credentialFields(body);
+  stringField(response, 'clientDataJSON');
+  stringField(response, 'authenticatorData');
+  stringField(response, 'signature');
+  if (response.userHandle !== null) stringField(response, 'userHandle');
+  return fields as unknown as AuthenticationResponseJSON;
+}
+
+function parseRenameCredential(body: unknown): RenameCredentialRequestJSON {
+  const fields = objectField(body, 'Request body');
+  stringField(fields, 'id');
+  stringField(fields, 'nickname');
+  return fields as unknown as RenameCredentialRequestJSON;
+}
+
+function parseRevokeCredential(body: unknown): RevokeCredentialRequestJSON {
+  const fields = objectField(body, 'Request body');
+  stringField(fields, 'id');
+  return fields as unknown as RevokeCredentialRequestJSON;
+}
+
+function parseLivenessReport(body: unknown): LivenessReportJSON {
+  const fields = objectField(body, 'Request body');
+  if (typeof fields.passed !== 'boolean') {
+    badRequest('passed must be a boolean');
+  }
+  optionalStringField(fields, 'failure');
+  return fields as unknown as LivenessReportJSON;
+}
+
+const routes: Record<string, Route> = {
+  '/register/options': (rp, context, body) =>
+    rp.registrationOptions(context, parseRegistrationOptions(body)),
+  '/register/verify': (rp, context, body) =>
+    rp.verifyRegistration(context, parseRegistrationResponse(body)),
+  '/authenticate/options': (rp, context, body) =>
+    rp.authenticationOptions(context, parseAuthenticationOptions(body)),
+  '/authenticate/verify': (rp, context, body) =>
+    rp.verifyAuthentication(context, parseAuthenticationResponse(body)),
+  '/credentials/list': (rp, context) => rp.listCredentials(context),
+  '/credentials/rename': (rp, context, body) =>
+    rp.renameCredential(context, parseRenameCredential(body)),
+  '/credentials/revoke': (rp, context, body) =>
+    rp.revokeCredential(context, parseRevokeCredential(body)),
+  '/session': (rp, context) => rp.session(context),
+  '/session/liveness': (rp, context, body) =>
+    rp.confirmLiveness(context, parseLivenessReport(body)),
+  '/session/sign-out': (rp, context) => rp.signOut(context),
+};
+
+// Whether a path (relative to WEBAUTHN_API_BASE) is an API route
+export function hasRoute(path: string): boolean {
+  return Object.hasOwn(routes, path);
+}
+
+// A body over MAX_BODY_BYTES, for readBody to throw
+export function bodyTooLarge(): { type: 'too-large'; message: string } {
+  return {
+    type: 'too-large',
+    message: `Request body is over ${MAX_BODY_BYTES} bytes`,
+  };
+}
+
+// Relying-party errors (and bodyTooLarge) are plain { type, message } objects
+function isRelyingPartyError(
+  err: unknown
+): err is { type: string; message: string } {
+  return (
+    isObject(err) &&
+    typeof err.type === 'string' &&
+    typeof err.message === 'string'
+  );
+}
+
+function errorResult(
+  status: number,
+  error: string,
+  code?: string
+): RouteResult {
+  const body: ErrorResponseJSON = { verified: false, error, code };
+  return { status, body };
+}
+
+// Run one API request and turn relying-party errors into HTTP statuses.
+// Anything else is a bug, whose details stay in the server's log.
+export async function handleRoute(
+  rp: RelyingParty,
+  path: string,
+  context: RequestContext,
+  readBody: () => Promise<unknown>
+): Promise<RouteResult> {
+  const route = routes[path];
+  try {
+    const body = await readBody();
+    return { status: 200, body: await route(rp, context, body) };
+  } catch (err) {
+    if (err instanceof SyntaxError) {
+      return errorResult(400, 'Request body is not valid JSON', 'bad-request');
+    }
+    if (!isRelyingPartyError(err)) {
+      console.error(`Request to ${path} failed:`, err);
+      return errorResult(500, 'Internal error');
+    }
+
+    const status =
+      err.type === 'unauthorized'
+        ? 401
+        : err.type === 'reauthenticate'
+          ? 403
+          : err.type === 'too-large'
+            ? 413
+            : 400;
+    return errorResult(status, err.message, err.type);
+  }
+}
@@ -0,0 +1,115 @@
+// The signed-in session: the relying party's bearer token and its deadlines,
+// kept for the tab's lifetime. A session ends after a stretch without
+// activity, and at its absolute expiry however active the user is; a timer
+// tells the UI when either passes.
+//
+// The session belongs to the tab, not to a widget: every widget on the page
+// shares it, so signing out or the session expiring in one ends it for all
+// of them.
+
+import type { SessionJSON } from './server/protocol';
+
+export interface Session extends SessionJSON {
+  accessToken: string;
+}
+
+const SESSION_STORAGE_KEY = 'webauthn_session';
+
+type ExpiryListener = () => void;
+
+const listeners = new Set<ExpiryListener>();
+let expiryTimer: ReturnType<typeof setTimeout> | undefined;
+
+function isExpired(session: Session, now = Date.now()): boolean {
+  return session.expiresAt <= now || session.idleExpiresAt <= now;
+}
+
+// Whether a sensitive action needs the user to sign in again first
+export function needsReauthentication(
+  session: Session,
+  now = Date.now()
+): boolean {
+  return session.reauthenticateAt <= now;
+}
+
+function readSession(): Session | null {
+  const stored = sessionStorage.getItem(SESSION_STORAGE_KEY);
+  if (!stored) return null;
+
+  try {
+    return JSON.parse(stored) as Session;
+  } catch {
+    return null;
+  }
+}
+
+// Fire the expiry listeners once the earlier deadline has passed
+function scheduleExpiry(session: Session | null): void {
+  clearTimeout(expiryTimer);
+  expiryTimer = undefined;
+  if (!session) return;
+
+  const delay = Math.min(session.expiresAt, session.idleExpiresAt) - Date.now();
+  expiryTimer = setTimeout(
+    () => {
+      const current = readSession();
+      if (current && !isExpired(current)) {
+        scheduleExpiry(current);
+        return;
+      }
+      clearSession();
+      listeners.forEach(listener => listener());
+    },
+    // setTimeout overflows past about 24.8 days
+    Math.min(Math.max(delay, 0), 2 ** 31 - 1)
+  );
+}
+
+// The current session, or null when signed out or past a deadline
+export function getSession(): Session | null {
+  const session = readSession();
+  if (session && isExpired(session)) {
+    clearSession();
+    return null;
+  }
+  return session;
+}
+
+export function saveSession(session: Session): void {
+  sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  scheduleExpiry(session);
+}
+
+// Take fresh deadlines from the server, keeping the token
+export function updateSession(state: SessionJSON): void {
+  const session = getSession();
+  if (session) {
+    saveSession({ ...session, ...state });
+  }
+}
+
+// Push the idle deadline back after a request the server counted as activity
+export function touchSession(now = Date.now()): void {
+  const session = getSession();
+  if (session) {
+    saveSession({
+      ...session,
+      idleExpiresAt: Math.min(now + session.idleTimeoutMs, session.expiresAt),
+    });
+  }
+}
+
+export function clearSession(): void {
+  sessionStorage.removeItem(SESSION_STORAGE_KEY);
+  clearTimeout(expiryTimer);
+  expiryTimer = undefined;
+}
+
+// Run the listener when the session times out by itself (not on sign-out)
+export function onSessionExpired(listener: ExpiryListener): () => void {
+  listeners.add(listener);
+  scheduleExpiry(getSession());
+  return () => {
+    listeners.delete(listener);
+  };
+}
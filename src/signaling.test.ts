@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  checkBroadcastSignalingSupport,
+  createBroadcastSignaling,
+  createLoopbackSignaling,
+} from './signaling';
+
+describe('createLoopbackSignaling', () => {
+  it('delivers a copy to the other end only, asynchronously', async () => {
+    const [first, second] = createLoopbackSignaling();
+    const toFirst = vi.fn();
+    const toSecond = vi.fn();
+    first.subscribe(toFirst);
+    second.subscribe(toSecond);
+
+    const description = { type: 'offer' as const, sdp: 'v=0' };
+    first.send({ type: 'description', description });
+    expect(toSecond).not.toHaveBeenCalled();
+
+    await Promise.resolve();
+    expect(toFirst).not.toHaveBeenCalled();
+    expect(toSecond).toHaveBeenCalledWith(
+      { type: 'description', description },
+      first.id
+    );
+    expect(toSecond.mock.calls[0][0].description).not.toBe(description);
+  });
+
+  it('stops delivering once a listener is removed or an end is closed', async () => {
+    const [first, second] = createLoopbackSignaling();
+    const listener = vi.fn();
+    const unsubscribe = second.subscribe(listener);
+
+    unsubscribe();
+    first.send({ type: 'hello' });
+    await Promise.resolve();
+    expect(listener).not.toHaveBeenCalled();
+
+    second.subscribe(listener);
+    second.close();
+    first.send({ type: 'hello' });
+    await Promise.resolve();
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe.runIf(checkBroadcastSignalingSupport())(
+  'createBroadcastSignaling',
+  () => {
+    it('reaches other channels in the same room', async () => {
+      const first = createBroadcastSignaling('test');
+      const second = createBroadcastSignaling('test');
+      const elsewhere = createBroadcastSignaling('other');
+      const received = new Promise(resolve => second.subscribe(resolve));
+      const echoed = vi.fn();
+      const overheard = vi.fn();
+      first.subscribe(echoed);
+      elsewhere.subscribe(overheard);
+
+      first.send({ type: 'bye' });
+      expect(await received).toEqual({ type: 'bye' });
+      expect(echoed).not.toHaveBeenCalled();
+      expect(overheard).not.toHaveBeenCalled();
+
+      [first, second, elsewhere].forEach(channel => channel.close());
+    });
+  }
+);
@@ -0,0 +1,103 @@
+// Signaling for the WebRTC call preview: how the two ends of a call swap
+// session descriptions and ICE candidates. Calls only see SignalingChannel,
+// so the same code runs within one page (loopback) or between two tabs
+// (BroadcastChannel).
+
+export type SignalingMessage =
+  // Announces a new end; the other end answers with its own
+  | { type: 'hello' }
+  | { type: 'description'; description: RTCSessionDescriptionInit }
+  | { type: 'candidate'; candidate: RTCIceCandidateInit }
+  | { type: 'bye' };
+
+export type SignalingListener = (
+  message: SignalingMessage,
+  from: string
+) => void;
+
+export interface SignalingChannel {
+  // This end's ID; ends use it to agree on who gives way on collisions
+  readonly id: string;
+  send(message: SignalingMessage): void;
+  // Returns a function that removes the listener
+  subscribe(listener: SignalingListener): () => void;
+  close(): void;
+}
+
+// What goes over the wire
+interface Envelope {
+  from: string;
+  message: SignalingMessage;
+}
+
+// Listener bookkeeping shared by the transports. `deliver` ignores the
+// channel's own messages, which broadcast transports echo back.
+function createChannel(
+  transmit: (envelope: Envelope) => void,
+  disconnect: () => void
+): { channel: SignalingChannel; deliver: (envelope: Envelope) => void } {
+  const id = crypto.randomUUID();
+  const listeners = new Set<SignalingListener>();
+  let closed = false;
+
+  return {
+    channel: {
+      id,
+      send(message) {
+        if (!closed) transmit({ from: id, message });
+      },
+      subscribe(listener) {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+      close() {
+        if (closed) return;
+        closed = true;
+        listeners.clear();
+        disconnect();
+      },
+    },
+    deliver({ from, message }) {
+      if (closed || from === id) return;
+      listeners.forEach(listener => listener(message, from));
+    },
+  };
+}
+
+// Two channels wired to each other in this page. Messages are copied and
+// delivered asynchronously, as they would be over a network.
+export function createLoopbackSignaling(): [
+  SignalingChannel,
+  SignalingChannel,
+] {
+  const ends: ((envelope: Envelope) => void)[] = [];
+  const connect = (index: number) =>
+    createChannel(
+      envelope => {
+        const copy = structuredClone(envelope);
+        queueMicrotask(() => ends[1 - index]?.(copy));
+      },
+      () => {}
+    );
+
+  const first = connect(0);
+  const second = connect(1);
+  ends.push(first.deliver, second.deliver);
+  return [first.channel, second.channel];
+}
+
+// Check if tabs can signal each other directly
+export function checkBroadcastSignalingSupport(): boolean {
+  return typeof BroadcastChannel !== 'undefined';
+}
+
+// A channel to the other tabs of this origin that joined the same room
+export function createBroadcastSignaling(room = 'default'): SignalingChannel {
+  const broadcast = new BroadcastChannel(`camera-call:${room}`);
+  const { channel, deliver } = createChannel(
+    envelope => broadcast.postMessage(envelope),
+    () => broadcast.close()
+  );
+  broadcast.onmessage = event => deliver(event.data as Envelope);
+  return channel;
+}
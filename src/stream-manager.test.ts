@@ -0,0 +1,232 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  createStreamManager,
+  type StreamEvent,
+  type StreamManager,
+} from './stream-manager';
+import {
+  FRONT_CAMERA,
+  REAR_CAMERA,
+  createFakeMediaDevices,
+  installFakeMediaDevices,
+  type FakeMediaDevices,
+} from './test/fake-media-devices';
+
+let devices: FakeMediaDevices;
+let restore: () => void;
+let manager: StreamManager;
+let events: StreamEvent[];
+
+beforeEach(() => {
+  devices = createFakeMediaDevices();
+  restore = installFakeMediaDevices(devices);
+  manager = createStreamManager(undefined, { recoveryDelaysMs: [0, 0] });
+  events = [];
+  manager.subscribe(event => events.push(event));
+});
+
+afterEach(() => {
+  manager.stopAll();
+  restore();
+});
+
+// Resolve with the next event of a type
+function nextEvent<T extends StreamEvent['type']>(
+  type: T
+): Promise<Extract<StreamEvent, { type: T }>> {
+  return new Promise(resolve => {
+    const unsubscribe = manager.subscribe(event => {
+      if (event.type === type) {
+        unsubscribe();
+        resolve(event as Extract<StreamEvent, { type: T }>);
+      }
+    });
+  });
+}
+
+describe('acquire', () => {
+  it('shares one stream and stops it when the last handle is released', async () => {
+    const preview = await manager.acquire('preview');
+    const recorder = await manager.acquire('recorder');
+    const track = preview.stream.getVideoTracks()[0];
+
+    expect(recorder.stream).toBe(preview.stream);
+    expect(devices.requests).toHaveLength(1);
+    expect(manager.consumers()).toEqual(['preview', 'recorder']);
+
+    preview.release();
+    expect(track.readyState).toBe('live');
+    expect(manager.consumers()).toEqual(['recorder']);
+
+    recorder.release();
+    expect(track.readyState).toBe('ended');
+    expect(manager.getActiveCameraId()).toBeNull();
+    expect(events).toEqual([{ type: 'stopped' }]);
+  });
+
+  it('ignores a handle released twice', async () => {
+    const preview = await manager.acquire('preview');
+    const scanner = await manager.acquire('scanner');
+
+    scanner.release();
+    scanner.release();
+
+    expect(manager.consumers()).toEqual(['preview']);
+    expect(preview.stream.active).toBe(true);
+  });
+
+  it('opens the camera once for consumers asking at the same time', async () => {
+    const [preview, scanner] = await Promise.all([
+      manager.acquire('preview', { selection: { facingMode: 'environment' } }),
+      manager.acquire('scanner'),
+    ]);
+
+    expect(devices.requests).toHaveLength(1);
+    expect(scanner.stream).toBe(preview.stream);
+    expect(manager.getActiveCameraId()).toBe(REAR_CAMERA.deviceId);
+  });
+
+  it('fails when everything is released while the camera opens', async () => {
+    const pending = manager.acquire('preview');
+    manager.stopAll();
+
+    await expect(pending).rejects.toMatchObject({ type: 'unknown' });
+    expect(manager.getActiveCameraId()).toBeNull();
+  });
+
+  it('only shares with retain, never opens', async () => {
+    expect(manager.retain('recorder')).toBeNull();
+
+    const preview = await manager.acquire('preview');
+    expect(manager.retain('recorder')?.stream).toBe(preview.stream);
+    expect(devices.requests).toHaveLength(1);
+  });
+});
+
+describe('track events', () => {
+  it('reports the system muting and unmuting the camera', async () => {
+    const { stream } = await manager.acquire('preview');
+    const track = stream.getVideoTracks()[0];
+
+    devices.setMuted(true);
+    devices.setMuted(false);
+
+    expect(events).toEqual([
+      { type: 'mute', track },
+      { type: 'unmute', track },
+    ]);
+  });
+
+  it('reopens the same camera in the same stream when the track is ended', async () => {
+    const { stream } = await manager.acquire('preview', {
+      selection: { deviceId: REAR_CAMERA.deviceId },
+    });
+    const revoked = stream.getVideoTracks()[0];
+
+    const recovered = nextEvent('recovered');
+    devices.revoke();
+    expect((await recovered).stream).toBe(stream);
+
+    expect(events.map(event => event.type)).toEqual([
+      'ended',
+      'recovering',
+      'recovered',
+    ]);
+    expect(stream.getVideoTracks()).toHaveLength(1);
+    expect(stream.getVideoTracks()[0]).not.toBe(revoked);
+    expect(stream.active).toBe(true);
+    expect(manager.getActiveCameraId()).toBe(REAR_CAMERA.deviceId);
+    expect(manager.consumers()).toEqual(['preview']);
+  });
+
+  it('falls back to another camera when the active one is unplugged', async () => {
+    await manager.acquire('preview', {
+      selection: { deviceId: REAR_CAMERA.deviceId },
+    });
+
+    const recovered = nextEvent('recovered');
+    devices.unplug(REAR_CAMERA.deviceId);
+    await recovered;
+
+    expect(
+      events
+        .filter(event => event.type === 'recovering')
+        .map(event => event.attempt)
+    ).toEqual([1, 2]);
+    expect(manager.getActiveCameraId()).toBe(FRONT_CAMERA.deviceId);
+  });
+
+  it('keeps watching the tracks it recovered', async () => {
+    await manager.acquire('preview');
+
+    let recovered = nextEvent('recovered');
+    devices.revoke();
+    await recovered;
+    recovered = nextEvent('recovered');
+    devices.revoke();
+    await recovered;
+
+    expect(events.filter(event => event.type === 'ended')).toHaveLength(2);
+    expect(manager.getActiveVideoTrack()?.readyState).toBe('live');
+  });
+
+  it('gives up straight away when the permission was taken back', async () => {
+    const { stream } = await manager.acquire('preview');
+
+    const lost = nextEvent('lost');
+    devices.setPermission('denied');
+    devices.revoke();
+    const { error } = await lost;
+
+    expect(error.type).toBe('permission-denied');
+    expect(
+      events
+        .filter(event => event.type === 'recovering')
+        .map(event => event.attempt)
+    ).toEqual([1]);
+    expect(manager.consumers()).toEqual([]);
+    expect(stream.active).toBe(false);
+    expect(manager.retain('recorder')).toBeNull();
+  });
+
+  it('gives up after the last attempt', async () => {
+    await manager.acquire('preview');
+
+    const lost = nextEvent('lost');
+    devices.failNext('AbortError');
+    devices.failNext('AbortError');
+    devices.revoke();
+    const { error } = await lost;
+
+    expect(error.type).toBe('unknown');
+    expect(manager.getActiveCameraId()).toBeNull();
+  });
+});
+
+describe('switchCamera', () => {
+  it('switches the shared stream for every consumer', async () => {
+    const preview = await manager.acquire('preview');
+    const scanner = await manager.acquire('scanner');
+
+    await manager.switchCamera({ facingMode: 'environment' });
+
+    expect(scanner.stream).toBe(preview.stream);
+    expect(preview.stream.getVideoTracks()[0].getSettings().deviceId).toBe(
+      REAR_CAMERA.deviceId
+    );
+    expect(manager.consumers()).toEqual(['preview', 'scanner']);
+  });
+
+  it('releases every handle when the camera could not be reopened', async () => {
+    await manager.acquire('preview');
+
+    devices.failNext('NotReadableError');
+    devices.failNext('NotReadableError');
+    await expect(
+      manager.switchCamera({ facingMode: 'environment' })
+    ).rejects.toMatchObject({ type: 'in-use' });
+
+    expect(manager.consumers()).toEqual([]);
+    expect(events).toEqual([{ type: 'stopped' }]);
+  });
+});
@@ -0,0 +1,274 @@
+// Shared use of one camera stream. Each part of the page that shows or reads
+// the camera (the preview, the recorder, the scanner) holds its own handle,
+// and the tracks only stop once the last handle is released. Track events are
+// passed on to subscribers, and when the system takes the camera away while
+// handles are held, the manager reopens it.
+
+import {
+  createCamera,
+  type CameraController,
+  type CameraError,
+  type CameraOptions,
+  type CameraSelection,
+  type NegotiatedCamera,
+} from './camera';
+import { t } from './i18n';
+
+export interface StreamHandle {
+  readonly consumer: string;
+  // Switching cameras and recovering swap the tracks in this same stream
+  readonly stream: MediaStream;
+  // Give the stream back; later calls do nothing
+  release(): void;
+}
+
+export type StreamEvent =
+  | { type: 'ended' | 'mute' | 'unmute'; track: MediaStreamTrack }
+  // About to try reopening the camera; attempts count from 1
+  | { type: 'recovering'; attempt: number; attempts: number }
+  | { type: 'recovered'; stream: MediaStream }
+  // Recovery gave up: the camera is stopped and every handle released
+  | { type: 'lost'; error: CameraError }
+  // The last handle was released
+  | { type: 'stopped' };
+
+export type StreamListener = (event: StreamEvent) => void;
+
+export interface StreamManager {
+  // Open the camera, or share the stream that's already open (whose options
+  // then stay as they are)
+  acquire(consumer: string, options?: CameraOptions): Promise<StreamHandle>;
+  // Share the stream that's already open, without ever opening the camera
+  retain(consumer: string): StreamHandle | null;
+  // Swap the tracks of the open stream for another camera's
+  switchCamera(selection: CameraSelection): Promise<MediaStream>;
+  // Who holds a handle, once each
+  consumers(): string[];
+  getNegotiatedCamera(): NegotiatedCamera | null;
+  getActiveVideoTrack(): MediaStreamTrack | null;
+  getActiveCameraId(): string | null;
+  // Returns a function that removes the listener
+  subscribe(listener: StreamListener): () => void;
+  // Release every handle and stop the camera
+  stopAll(): void;
+}
+
+export interface StreamManagerOptions {
+  // How long to wait before each attempt to reopen a revoked camera
+  recoveryDelaysMs?: number[];
+}
+
+const DEFAULT_RECOVERY_DELAYS_MS = [500, 2000, 5000];
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// For requests that were overtaken by everything being released
+function stoppedError(): CameraError {
+  return {
+    type: 'unknown',
+    message: t('camera.error.unknown', { reason: 'Camera was stopped' }),
+  };
+}
+
+export function createStreamManager(
+  camera: CameraController = createCamera(),
+  options: StreamManagerOptions = {}
+): StreamManager {
+  const recoveryDelays = options.recoveryDelaysMs ?? DEFAULT_RECOVERY_DELAYS_MS;
+  const listeners = new Set<StreamListener>();
+  const handles = new Set<StreamHandle>();
+  let stream: MediaStream | null = null;
+  let opening: Promise<MediaStream> | null = null;
+  let selection: CameraSelection | undefined;
+  // Bumped whenever the camera stops, so opens and recoveries that were
+  // waiting on the browser can tell they're stale
+  let session = 0;
+  let recovering = false;
+  let unwatchTracks = () => {};
+
+  const emit = (event: StreamEvent) =>
+    listeners.forEach(listener => listener(event));
+
+  // Pass on the current tracks' events, and recover when one ends by itself
+  function watchTracks(current: MediaStream): void {
+    unwatchTracks();
+    const unwatch = current.getTracks().map(track => {
+      const onEnded = () => {
+        // Tracks swapped out by a switch aren't ours to worry about
+        if (!current.getTracks().includes(track)) return;
+        emit({ type: 'ended', track });
+        recover();
+      };
+      const onMute = () => emit({ type: 'mute', track });
+      const onUnmute = () => emit({ type: 'unmute', track });
+
+      track.addEventListener('ended', onEnded);
+      track.addEventListener('mute', onMute);
+      track.addEventListener('unmute', onUnmute);
+      return () => {
+        track.removeEventListener('ended', onEnded);
+        track.removeEventListener('mute', onMute);
+        track.removeEventListener('unmute', onUnmute);
+      };
+    });
+    unwatchTracks = () => unwatch.forEach(remove => remove());
+  }
+
+  function stop(): void {
+    session++;
+    handles.clear();
+    opening = null;
+    recovering = false;
+    unwatchTracks();
+    unwatchTracks = () => {};
+    stream = null;
+    camera.stopCamera();
+  }
+
+  async function open(openOptions: CameraOptions): Promise<MediaStream> {
+    const started = session;
+    const opened = await camera.requestCameraAccess(openOptions);
+    // Everything was released while the browser asked
+    if (session !== started) {
+      camera.stopCamera();
+      throw stoppedError();
+    }
+
+    stream = opened;
+    selection = openOptions.selection;
+    watchTracks(opened);
+    return opened;
+  }
+
+  function retain(consumer: string): StreamHandle | null {
+    if (!stream) return null;
+
+    const handle: StreamHandle = {
+      consumer,
+      stream,
+      release() {
+        if (!handles.delete(handle)) return;
+        if (handles.size === 0) {
+          stop();
+          emit({ type: 'stopped' });
+        }
+      },
+    };
+    handles.add(handle);
+    return handle;
+  }
+
+  async function acquire(
+    consumer: string,
+    openOptions: CameraOptions = {}
+  ): Promise<StreamHandle> {
+    if (!stream) {
+      // Consumers asking at the same time share one request
+      const pending = opening ?? open(openOptions);
+      opening = pending;
+      try {
+        await pending;
+      } finally {
+        if (opening === pending) opening = null;
+      }
+    }
+
+    const handle = retain(consumer);
+    if (!handle) throw stoppedError();
+    return handle;
+  }
+
+  // Reopen the camera after the system ended its track: the same camera
+  // first, then any camera if that one is gone. A denied permission won't
+  // come back by waiting, so it gives up straight away.
+  async function recover(): Promise<void> {
+    if (recovering || !stream) return;
+    recovering = true;
+    const started = session;
+    let target: CameraSelection = selection ?? { facingMode: 'user' };
+    let lastError: CameraError | null = null;
+
+    for (const [index, delay] of recoveryDelays.entries()) {
+      await wait(delay);
+      if (session !== started) return;
+
+      emit({
+        type: 'recovering',
+        attempt: index + 1,
+        attempts: recoveryDelays.length,
+      });
+      try {
+        const recovered = await camera.switchCamera(target);
+        if (session !== started) return;
+
+        recovering = false;
+        watchTracks(recovered);
+        emit({ type: 'recovered', stream: recovered });
+        return;
+      } catch (err) {
+        if (session !== started) return;
+
+        lastError = err as CameraError;
+        // Also stop once the camera has given up its stream altogether
+        if (
+          lastError.type === 'permission-denied' ||
+          !camera.getActiveVideoTrack()
+        ) {
+          break;
+        }
+        if (
+          lastError.type === 'not-found' ||
+          lastError.type === 'overconstrained'
+        ) {
+          target = { facingMode: 'user' };
+        }
+      }
+    }
+
+    stop();
+    emit({
+      type: 'lost',
+      error: lastError ?? {
+        type: 'not-found',
+        message: t('camera.error.not-found'),
+      },
+    });
+  }
+
+  async function switchCamera(next: CameraSelection): Promise<MediaStream> {
+    if (!stream) throw stoppedError();
+
+    try {
+      const switched = await camera.switchCamera(next);
+      selection = next;
+      watchTracks(switched);
+      return switched;
+    } catch (err) {
+      // A failed retry releases the camera, and the handles with it
+      if (!camera.getActiveVideoTrack()) {
+        stop();
+        emit({ type: 'stopped' });
+      }
+      throw err;
+    }
+  }
+
+  return {
+    acquire,
+    retain,
+    switchCamera,
+    consumers: () => [...new Set([...handles].map(handle => handle.consumer))],
+    getNegotiatedCamera: () => camera.getNegotiatedCamera(),
+    getActiveVideoTrack: () => camera.getActiveVideoTrack(),
+    getActiveCameraId: () => camera.getActiveCameraId(),
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    stopAll() {
+      const wasOpen = stream !== null;
+      stop();
+      if (wasOpen) emit({ type: 'stopped' });
+    },
+  };
+}
@@ -0,0 +1,679 @@
+// Minimal QR code, Data Matrix, EAN-13 and Code 128 encoders for drawing
+// test frames. Covers the subset the fallback decoders are tested against:
+// QR byte mode at level M, Data Matrix ASCII encodation in square symbols.
+
+import { DATA_MATRIX_FIELD, QR_FIELD, type GaloisField } from '../reed-solomon';
+
+// Dark modules are true
+export type ModuleGrid = boolean[][];
+
+function grid(size: number): ModuleGrid {
+  return Array.from({ length: size }, () =>
+    new Array<boolean>(size).fill(false)
+  );
+}
+
+// The error correction codewords for a block of data codewords
+function reedSolomon(
+  field: GaloisField,
+  data: number[],
+  eccLength: number
+): number[] {
+  // Generator polynomial, highest power first
+  let generator = [1];
+  for (let i = 0; i < eccLength; i++) {
+    const root = field.exp(field.firstRoot + i);
+    const next = new Array<number>(generator.length + 1).fill(0);
+    generator.forEach((coefficient, j) => {
+      next[j] ^= coefficient;
+      next[j + 1] ^= field.multiply(coefficient, root);
+    });
+    generator = next;
+  }
+
+  const remainder = new Array<number>(eccLength).fill(0);
+  for (const value of data) {
+    const factor = value ^ remainder.shift()!;
+    remainder.push(0);
+    for (let j = 0; j < eccLength; j++) {
+      remainder[j] ^= field.multiply(generator[j + 1], factor);
+    }
+  }
+  return remainder;
+}
+
+// Level M: error correction codewords per block, then [blocks, data
+// codewords] for each group, for versions 1-10
+const QR_LAYOUTS: [number, ...[number, number][]][] = [
+  [10, [1, 16]],
+  [16, [1, 28]],
+  [26, [1, 44]],
+  [18, [2, 32]],
+  [24, [2, 43]],
+  [16, [4, 27]],
+  [18, [4, 31]],
+  [22, [2, 38], [2, 39]],
+  [22, [3, 36], [2, 37]],
+  [26, [4, 43], [1, 44]],
+];
+
+const QR_ALIGNMENT: number[][] = [
+  [],
+  [6, 18],
+  [6, 22],
+  [6, 26],
+  [6, 30],
+  [6, 34],
+  [6, 22, 38],
+  [6, 24, 42],
+  [6, 26, 46],
+  [6, 28, 50],
+];
+
+const QR_MASKS: ((row: number, column: number) => boolean)[] = [
+  (r, c) => (r + c) % 2 === 0,
+  r => r % 2 === 0,
+  (_r, c) => c % 3 === 0,
+  (r, c) => (r + c) % 3 === 0,
+  (r, c) => (Math.floor(r / 2) + Math.floor(c / 3)) % 2 === 0,
+  (r, c) => ((r * c) % 2) + ((r * c) % 3) === 0,
+  (r, c) => (((r * c) % 2) + ((r * c) % 3)) % 2 === 0,
+  (r, c) => (((r + c) % 2) + ((r * c) % 3)) % 2 === 0,
+];
+
+function bch(value: number, bits: number, generator: number): number {
+  let remainder = value;
+  for (let i = 0; i < bits; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> (bits - 1)) * generator);
+  }
+  return (value << bits) | remainder;
+}
+
+export interface QrOptions {
+  // The smallest version that fits, by default
+  version?: number;
+  mask?: number;
+}
+
+// Encode text as a byte-mode QR code at error correction level M
+export function encodeQrCode(
+  text: string,
+  options: QrOptions = {}
+): ModuleGrid {
+  const bytes = [...new TextEncoder().encode(text)];
+  const dataCapacity = (version: number) => {
+    const [, ...groups] = QR_LAYOUTS[version - 1];
+    return groups.reduce((sum, [blocks, length]) => sum + blocks * length, 0);
+  };
+  const countBits = (version: number) => (version < 10 ? 8 : 16);
+
+  const version =
+    options.version ??
+    [1, 2, 3, 4, 5, 6, 7, 8, 9, 10].find(
+      v => 4 + countBits(v) + bytes.length * 8 <= dataCapacity(v) * 8
+    );
+  if (!version) throw new Error('Too long for a version 1-10 QR code');
+  const mask = options.mask ?? 0;
+  const size = version * 4 + 17;
+
+  // Mode, count and data, then the terminator and padding
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  push(0b0100, 4);
+  push(bytes.length, countBits(version));
+  bytes.forEach(byte => push(byte, 8));
+  const capacity = dataCapacity(version);
+  push(0, Math.min(4, capacity * 8 - bits.length));
+  push(0, (8 - (bits.length % 8)) % 8);
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    data.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let pad = 0xec; data.length < capacity; pad ^= 0xec ^ 0x11) {
+    data.push(pad);
+  }
+
+  // Split into blocks and interleave them
+  const [eccLength, ...groups] = QR_LAYOUTS[version - 1];
+  const blocks: number[][] = [];
+  let offset = 0;
+  groups.forEach(([count, length]) => {
+    for (let i = 0; i < count; i++) {
+      blocks.push(data.slice(offset, offset + length));
+      offset += length;
+    }
+  });
+  const eccBlocks = blocks.map(block =>
+    reedSolomon(QR_FIELD, block, eccLength)
+  );
+  const codewords: number[] = [];
+  const longest = Math.max(...blocks.map(block => block.length));
+  for (let i = 0; i < longest; i++) {
+    blocks.forEach(block => i < block.length && codewords.push(block[i]));
+  }
+  for (let i = 0; i < eccLength; i++) {
+    eccBlocks.forEach(block => codewords.push(block[i]));
+  }
+
+  // Function patterns
+  const modules = grid(size);
+  const reserved = grid(size);
+  const set = (row: number, column: number, dark: boolean) => {
+    modules[row][column] = dark;
+    reserved[row][column] = true;
+  };
+  for (const [top, left] of [
+    [0, 0],
+    [0, size - 7],
+    [size - 7, 0],
+  ]) {
+    for (let r = -1; r <= 7; r++) {
+      for (let c = -1; c <= 7; c++) {
+        const row = top + r;
+        const column = left + c;
+        if (row < 0 || column < 0 || row >= size || column >= size) continue;
+        const ring = Math.max(Math.abs(r - 3), Math.abs(c - 3));
+        set(row, column, ring !== 2 && ring !== 4);
+      }
+    }
+  }
+  for (let i = 8; i < size - 8; i++) {
+    set(6, i, i % 2 === 0);
+    set(i, 6, i % 2 === 0);
+  }
+  const positions = QR_ALIGNMENT[version - 1];
+  const last = positions.length - 1;
+  for (const [i, row] of positions.entries()) {
+    for (const [j, column] of positions.entries()) {
+      // Three would sit on the finder patterns
+      if ((i === 0 || j === 0) && (i + j === 0 || i + j === last)) continue;
+      for (let r = -2; r <= 2; r++) {
+        for (let c = -2; c <= 2; c++) {
+          set(row + r, column + c, Math.max(Math.abs(r), Math.abs(c)) !== 1);
+        }
+      }
+    }
+  }
+
+  // Format information (level M is 00), twice, and the dark module
+  const format = bch(mask, 10, 0x537) ^ 0x5412;
+  const formatBit = (i: number) => ((format >>> i) & 1) === 1;
+  for (let i = 0; i < 6; i++) set(i, 8, formatBit(i));
+  set(7, 8, formatBit(6));
+  set(8, 8, formatBit(7));
+  set(8, 7, formatBit(8));
+  for (let i = 9; i < 15; i++) set(8, 14 - i, formatBit(i));
+  for (let i = 0; i < 8; i++) set(8, size - 1 - i, formatBit(i));
+  for (let i = 8; i < 15; i++) set(size - 15 + i, 8, formatBit(i));
+  set(size - 8, 8, true);
+
+  if (version >= 7) {
+    const versionBits = bch(version, 12, 0x1f25);
+    for (let i = 0; i < 18; i++) {
+      const dark = ((versionBits >>> i) & 1) === 1;
+      set(Math.floor(i / 3), size - 11 + (i % 3), dark);
+      set(size - 11 + (i % 3), Math.floor(i / 3), dark);
+    }
+  }
+
+  // Data in the zigzag order, masked
+  let bit = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let vertical = 0; vertical < size; vertical++) {
+      const row = upward ? size - 1 - vertical : vertical;
+      for (const column of [right, right - 1]) {
+        if (reserved[row][column]) continue;
+        const value =
+          bit < codewords.length * 8 &&
+          ((codewords[bit >> 3] >> (7 - (bit & 7))) & 1) === 1;
+        modules[row][column] = value !== QR_MASKS[mask](row, column);
+        bit++;
+      }
+    }
+  }
+  return modules;
+}
+
+// Square symbols: size, data regions per side, data and error correction
+// codewords
+const DATA_MATRIX_SIZES: [number, number, number, number][] = [
+  [10, 1, 3, 5],
+  [12, 1, 5, 7],
+  [14, 1, 8, 10],
+  [16, 1, 12, 12],
+  [18, 1, 18, 14],
+  [20, 1, 22, 18],
+  [22, 1, 30, 20],
+  [24, 1, 36, 24],
+  [26, 1, 44, 28],
+  [32, 2, 62, 36],
+  [36, 2, 86, 42],
+];
+
+// ECC 200 module placement: the bit positions of each codeword, most
+// significant first
+function dataMatrixPlacement(rows: number, columns: number) {
+  const placed: [number, number][][] = [];
+  const taken = grid(Math.max(rows, columns));
+
+  const codeword = (positions: [number, number][]) =>
+    placed.push(
+      positions.map(([row, column]) => {
+        if (row < 0) {
+          row += rows;
+          column += 4 - ((rows + 4) % 8);
+        }
+        if (column < 0) {
+          column += columns;
+          row += 4 - ((columns + 4) % 8);
+        }
+        taken[row][column] = true;
+        return [row, column];
+      })
+    );
+  const r = rows;
+  const c = columns;
+
+  let row = 4;
+  let column = 0;
+  do {
+    if (row === r && column === 0) {
+      codeword([
+        [r - 1, 0],
+        [r - 1, 1],
+        [r - 1, 2],
+        [0, c - 2],
+        [0, c - 1],
+        [1, c - 1],
+        [2, c - 1],
+        [3, c - 1],
+      ]);
+    }
+    if (row === r - 2 && column === 0 && c % 4 !== 0) {
+      codeword([
+        [r - 3, 0],
+        [r - 2, 0],
+        [r - 1, 0],
+        [0, c - 4],
+        [0, c - 3],
+        [0, c - 2],
+        [0, c - 1],
+        [1, c - 1],
+      ]);
+    }
+    if (row === r - 2 && column === 0 && c % 8 === 4) {
+      codeword([
+        [r - 3, 0],
+        [r - 2, 0],
+        [r - 1, 0],
+        [0, c - 2],
+        [0, c - 1],
+        [1, c - 1],
+        [2, c - 1],
+        [3, c - 1],
+      ]);
+    }
+    if (row === r + 4 && column === 2 && c % 8 === 0) {
+      codeword([
+        [r - 1, 0],
+        [r - 1, c - 1],
+        [0, c - 3],
+        [0, c - 2],
+        [0, c - 1],
+        [1, c - 3],
+        [1, c - 2],
+        [1, c - 1],
+      ]);
+    }
+    do {
+      if (row < r && column >= 0 && !taken[row][column]) {
+        codeword([
+          [row - 2, column - 2],
+          [row - 2, column - 1],
+          [row - 1, column - 2],
+          [row - 1, column - 1],
+          [row - 1, column],
+          [row, column - 2],
+          [row, column - 1],
+          [row, column],
+        ]);
+      }
+      row -= 2;
+      column += 2;
+    } while (row >= 0 && column < c);
+    row += 1;
+    column += 3;
+    do {
+      if (row >= 0 && column < c && !taken[row][column]) {
+        codeword([
+          [row - 2, column - 2],
+          [row - 2, column - 1],
+          [row - 1, column - 2],
+          [row - 1, column - 1],
+          [row - 1, column],
+          [row, column - 2],
+          [row, column - 1],
+          [row, column],
+        ]);
+      }
+      row += 2;
+      column -= 2;
+    } while (row < r && column >= 0);
+    row += 3;
+    column += 1;
+  } while (row < r || column < c);
+
+  return { placed, cornerFilled: taken[r - 1][c - 1] };
+}
+
+// Encode text as a Data Matrix in ASCII encodation
+export function encodeDataMatrix(text: string): ModuleGrid {
+  const data: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const pair = text.slice(i, i + 2);
+    if (/^\d\d$/.test(pair)) {
+      data.push(130 + Number(pair));
+      i++;
+    } else {
+      data.push(text.charCodeAt(i) + 1);
+    }
+  }
+
+  const symbol = DATA_MATRIX_SIZES.find(
+    ([, , capacity]) => capacity >= data.length
+  );
+  if (!symbol) throw new Error('Too long for the test Data Matrix sizes');
+  const [size, regions, capacity, eccLength] = symbol;
+  // The first pad is 129, the rest are randomised
+  if (data.length < capacity) data.push(129);
+  while (data.length < capacity) {
+    const pad = 129 + ((149 * (data.length + 1)) % 253) + 1;
+    data.push(pad > 254 ? pad - 254 : pad);
+  }
+  const codewords = [
+    ...data,
+    ...reedSolomon(DATA_MATRIX_FIELD, data, eccLength),
+  ];
+
+  const regionSize = size / regions - 2;
+  const mappingSize = regionSize * regions;
+  const mapping = grid(mappingSize);
+  const { placed, cornerFilled } = dataMatrixPlacement(
+    mappingSize,
+    mappingSize
+  );
+  placed.forEach((positions, i) =>
+    positions.forEach(([row, column], j) => {
+      mapping[row][column] = ((codewords[i] >> (7 - j)) & 1) === 1;
+    })
+  );
+  if (!cornerFilled) {
+    mapping[mappingSize - 1][mappingSize - 1] = true;
+    mapping[mappingSize - 2][mappingSize - 2] = true;
+  }
+
+  // Each data region with a solid "L" on its left and bottom and timing
+  // along its top and right
+  return Array.from({ length: size }, (_, row) =>
+    Array.from({ length: size }, (_, column) => {
+      const r = row % (regionSize + 2);
+      const c = column % (regionSize + 2);
+      if (c === 0 || r === regionSize + 1) return true;
+      if (r === 0) return c % 2 === 0;
+      if (c === regionSize + 1) return r % 2 === 1;
+      return mapping[Math.floor(row / (regionSize + 2)) * regionSize + r - 1][
+        Math.floor(column / (regionSize + 2)) * regionSize + c - 1
+      ];
+    })
+  );
+}
+
+const EAN_L_CODES = [
+  '0001101',
+  '0011001',
+  '0010011',
+  '0111101',
+  '0100011',
+  '0110001',
+  '0101111',
+  '0111011',
+  '0110111',
+  '0001011',
+];
+const EAN_PARITIES = [
+  'LLLLLL',
+  'LLGLGG',
+  'LLGGLG',
+  'LLGGGL',
+  'LGLLGG',
+  'LGGLLG',
+  'LGGGLL',
+  'LGLGLG',
+  'LGLGGL',
+  'LGGLGL',
+];
+
+// The modules of an EAN-13, '1' for bars. Twelve digits get their check
+// digit added.
+export function encodeEan13(digits: string): string {
+  let all = digits;
+  if (all.length === 12) {
+    const sum = [...all].reduce(
+      (total, digit, i) => total + Number(digit) * (i % 2 ? 3 : 1),
+      0
+    );
+    all += (10 - (sum % 10)) % 10;
+  }
+
+  const right = (digit: number) =>
+    [...EAN_L_CODES[digit]].map(bit => (bit === '1' ? '0' : '1')).join('');
+  let modules = '101';
+  for (let i = 1; i <= 6; i++) {
+    const digit = Number(all[i]);
+    modules +=
+      EAN_PARITIES[Number(all[0])][i - 1] === 'L'
+        ? EAN_L_CODES[digit]
+        : [...right(digit)].reverse().join('');
+  }
+  modules += '01010';
+  for (let i = 7; i <= 12; i++) modules += right(Number(all[i]));
+  return modules + '101';
+}
+
+// Bar and space widths of Code 128 values 0-106
+const CODE_128_PATTERNS = [
+  '212222',
+  '222122',
+  '222221',
+  '121223',
+  '121322',
+  '131222',
+  '122213',
+  '122312',
+  '132212',
+  '221213',
+  '221312',
+  '231212',
+  '112232',
+  '122132',
+  '122231',
+  '113222',
+  '123122',
+  '123221',
+  '223211',
+  '221132',
+  '221231',
+  '213212',
+  '223112',
+  '312131',
+  '311222',
+  '321122',
+  '321221',
+  '312212',
+  '322112',
+  '322211',
+  '212123',
+  '212321',
+  '232121',
+  '111323',
+  '131123',
+  '131321',
+  '112313',
+  '132113',
+  '132311',
+  '211313',
+  '231113',
+  '231311',
+  '112133',
+  '112331',
+  '132131',
+  '113123',
+  '113321',
+  '133121',
+  '313121',
+  '211331',
+  '231131',
+  '213113',
+  '213311',
+  '213131',
+  '311123',
+  '311321',
+  '331121',
+  '312113',
+  '312311',
+  '332111',
+  '314111',
+  '221411',
+  '431111',
+  '111224',
+  '111422',
+  '121124',
+  '121421',
+  '141122',
+  '141221',
+  '112214',
+  '112412',
+  '122114',
+  '122411',
+  '142112',
+  '142211',
+  '241211',
+  '221114',
+  '413111',
+  '241112',
+  '134111',
+  '111242',
+  '121142',
+  '121241',
+  '114212',
+  '124112',
+  '124211',
+  '411212',
+  '421112',
+  '421211',
+  '212141',
+  '214121',
+  '412121',
+  '111143',
+  '111341',
+  '131141',
+  '114113',
+  '114311',
+  '411113',
+  '411311',
+  '113141',
+  '114131',
+  '311141',
+  '411131',
+  '211412',
+  '211214',
+  '211232',
+  '2331112',
+];
+
+// The modules of a Code 128, in code set B, or code set C for an even
+// number of digits
+export function encodeCode128(text: string): string {
+  const values = /^(\d\d)+$/.test(text)
+    ? [105, ...(text.match(/\d\d/g) ?? []).map(Number)]
+    : [104, ...[...text].map(char => char.charCodeAt(0) - 32)];
+  const checksum =
+    values.reduce((sum, value, i) => sum + value * Math.max(i, 1), 0) % 103;
+
+  return [...values, checksum, 106]
+    .map(value =>
+      [...CODE_128_PATTERNS[value]]
+        .map((width, i) => (i % 2 ? '0' : '1').repeat(Number(width)))
+        .join('')
+    )
+    .join('');
+}
+
+export interface RenderOptions {
+  // Pixels per module
+  scale?: number;
+  // Light modules around the code
+  quietZone?: number;
+}
+
+// Draw a module grid as a frame, black on white
+export function renderModules(
+  modules: ModuleGrid,
+  { scale = 4, quietZone = 4 }: RenderOptions = {}
+): ImageData {
+  const width = (modules[0].length + quietZone * 2) * scale;
+  const height = (modules.length + quietZone * 2) * scale;
+  const data = new Uint8ClampedArray(width * height * 4).fill(255);
+  modules.forEach((row, r) =>
+    row.forEach((dark, c) => {
+      if (!dark) return;
+      for (let y = 0; y < scale; y++) {
+        for (let x = 0; x < scale; x++) {
+          const index =
+            ((r + quietZone) * scale + y) * width + (c + quietZone) * scale + x;
+          data.fill(0, index * 4, index * 4 + 3);
+        }
+      }
+    })
+  );
+  return { data, width, height, colorSpace: 'srgb' } as ImageData;
+}
+
+// Draw a linear barcode's modules ('1' for bars) as a frame
+export function renderBars(
+  bars: string,
+  options: RenderOptions & { rows?: number } = {}
+): ImageData {
+  const row = [...bars].map(bar => bar === '1');
+  return renderModules(
+    Array.from({ length: options.rows ?? 30 }, () => row),
+    { quietZone: 12, ...options }
+  );
+}
+
+// Turn a frame a quarter turn clockwise, `turns` times
+export function rotateImage(image: ImageData, turns: number): ImageData {
+  let current = image;
+  for (let turn = 0; turn < turns % 4; turn++) {
+    const { width, height, data } = current;
+    const rotated = new Uint8ClampedArray(data.length);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const from = (y * width + x) * 4;
+        const to = (x * height + (height - 1 - y)) * 4;
+        rotated.set(data.subarray(from, from + 4), to);
+      }
+    }
+    current = {
+      data: rotated,
+      width: height,
+      height: width,
+      colorSpace: 'srgb',
+    } as ImageData;
+  }
+  return current;
+}
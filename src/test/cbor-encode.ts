@@ -0,0 +1,57 @@
+// Minimal CBOR encoder for building authenticator output in tests.
+// Covers the same subset of CBOR that src/cbor.ts decodes.
+
+export type CborInput =
+  | number
+  | string
+  | boolean
+  | null
+  | Uint8Array
+  | CborInput[]
+  | Map<CborInput, CborInput>;
+
+function head(major: number, length: number): number[] {
+  if (length < 24) return [(major << 5) | length];
+  if (length < 0x100) return [(major << 5) | 24, length];
+  if (length < 0x10000) return [(major << 5) | 25, length >> 8, length & 0xff];
+  return [
+    (major << 5) | 26,
+    (length >>> 24) & 0xff,
+    (length >> 16) & 0xff,
+    (length >> 8) & 0xff,
+    length & 0xff,
+  ];
+}
+
+function encodeItem(value: CborInput, out: number[]): void {
+  if (typeof value === 'number') {
+    if (!Number.isInteger(value)) {
+      throw new Error('Only integers can be encoded');
+    }
+    out.push(...(value >= 0 ? head(0, value) : head(1, -1 - value)));
+  } else if (typeof value === 'string') {
+    const bytes = new TextEncoder().encode(value);
+    out.push(...head(3, bytes.length), ...bytes);
+  } else if (typeof value === 'boolean') {
+    out.push(value ? 0xf5 : 0xf4);
+  } else if (value === null) {
+    out.push(0xf6);
+  } else if (value instanceof Uint8Array) {
+    out.push(...head(2, value.length), ...value);
+  } else if (Array.isArray(value)) {
+    out.push(...head(4, value.length));
+    value.forEach(item => encodeItem(item, out));
+  } else {
+    out.push(...head(5, value.size));
+    value.forEach((item, key) => {
+      encodeItem(key, out);
+      encodeItem(item, out);
+    });
+  }
+}
+
+export function encodeCbor(value: CborInput): Uint8Array<ArrayBuffer> {
+  const out: number[] = [];
+  encodeItem(value, out);
+  return new Uint8Array(out);
+}
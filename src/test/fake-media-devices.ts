@@ -0,0 +1,343 @@
+// A scriptable navigator.mediaDevices for tests: fake cameras with fixed
+// modes, getUserMedia failures queued up by DOMException name, tracks the
+// system can end or mute, and the camera permission as navigator.permissions
+// reports it.
+
+export interface FakeCamera {
+  deviceId: string;
+  groupId?: string;
+  label: string;
+  facingMode?: 'user' | 'environment';
+  width: number;
+  height: number;
+  frameRate?: number;
+}
+
+export interface FakeMediaDevices {
+  readonly cameras: FakeCamera[];
+  // Every constraints object getUserMedia was called with
+  readonly requests: MediaStreamConstraints[];
+  // Fail the next getUserMedia call; call repeatedly to queue several
+  failNext(
+    name: string,
+    options?: { message?: string; constraint?: string }
+  ): void;
+  plug(camera: FakeCamera): void;
+  // Remove a camera, ending its live tracks
+  unplug(deviceId: string): void;
+  // End the live tracks (of one camera, or all), as when the system takes
+  // the camera away
+  revoke(deviceId?: string): void;
+  // Mute or unmute the live tracks, as when the system pauses the camera
+  setMuted(muted: boolean): void;
+  // Whether labels are exposed yet (they are after the first grant)
+  readonly permissionGranted: boolean;
+  // Change the camera permission, as the user would in site settings
+  setPermission(state: PermissionState): void;
+  readonly mediaDevices: MediaDevices;
+  readonly permissions: Permissions;
+}
+
+export const FRONT_CAMERA: FakeCamera = {
+  deviceId: 'front-camera',
+  label: 'FaceTime HD Camera',
+  facingMode: 'user',
+  width: 1280,
+  height: 720,
+  frameRate: 30,
+};
+
+export const REAR_CAMERA: FakeCamera = {
+  deviceId: 'rear-camera',
+  label: 'Back Camera',
+  facingMode: 'environment',
+  width: 1920,
+  height: 1080,
+  frameRate: 30,
+};
+
+type Failure = DOMException & { constraint?: string };
+
+function constraintValue(
+  constraint: ConstrainULong | ConstrainDouble | undefined
+): { value?: number; exact: boolean } {
+  if (typeof constraint === 'number')
+    return { value: constraint, exact: false };
+  if (constraint?.exact !== undefined) {
+    return { value: constraint.exact, exact: true };
+  }
+  return { value: constraint?.ideal, exact: false };
+}
+
+function overconstrained(constraint: string): Failure {
+  return Object.assign(
+    new DOMException(`Cannot satisfy ${constraint}`, 'OverconstrainedError'),
+    { constraint }
+  );
+}
+
+// What the system can do to a fake track from outside
+interface TrackControls {
+  camera: FakeCamera;
+  track: MediaStreamTrack;
+  end(): void;
+  setMuted(muted: boolean): void;
+}
+
+// A video track that reports the camera's fixed mode as its settings. Like
+// a real one, it only fires 'ended' when the system ends it, not on stop().
+function createTrack(
+  camera: FakeCamera,
+  constraints: MediaTrackConstraints
+): TrackControls {
+  const width = constraintValue(constraints.width);
+  const height = constraintValue(constraints.height);
+  const events = new EventTarget();
+  let readyState: MediaStreamTrackState = 'live';
+  let muted = false;
+
+  const track = {
+    kind: 'video',
+    id: `${camera.deviceId}-${Math.random().toString(36).slice(2)}`,
+    label: camera.label,
+    enabled: true,
+    get readyState() {
+      return readyState;
+    },
+    get muted() {
+      return muted;
+    },
+    stop() {
+      readyState = 'ended';
+    },
+    getSettings(): MediaTrackSettings {
+      return {
+        deviceId: camera.deviceId,
+        groupId: camera.groupId ?? camera.deviceId,
+        facingMode: camera.facingMode,
+        width: Math.min(width.value ?? camera.width, camera.width),
+        height: Math.min(height.value ?? camera.height, camera.height),
+        frameRate: camera.frameRate,
+      };
+    },
+    getCapabilities(): MediaTrackCapabilities {
+      return {
+        deviceId: camera.deviceId,
+        width: { min: 1, max: camera.width },
+        height: { min: 1, max: camera.height },
+      };
+    },
+    getConstraints: () => constraints,
+    applyConstraints: async () => {},
+    addEventListener: events.addEventListener.bind(events),
+    removeEventListener: events.removeEventListener.bind(events),
+    dispatchEvent: events.dispatchEvent.bind(events),
+  } as unknown as MediaStreamTrack;
+
+  return {
+    camera,
+    track,
+    end() {
+      if (readyState === 'ended') return;
+      readyState = 'ended';
+      events.dispatchEvent(new Event('ended'));
+    },
+    setMuted(next) {
+      if (readyState === 'ended' || muted === next) return;
+      muted = next;
+      events.dispatchEvent(new Event(next ? 'mute' : 'unmute'));
+    },
+  };
+}
+
+// Just enough of MediaStream for camera.ts and a <video> element
+export function createFakeStream(tracks: MediaStreamTrack[]): MediaStream {
+  const current = [...tracks];
+  const stream = {
+    id: Math.random().toString(36).slice(2),
+    get active() {
+      return current.some(track => track.readyState === 'live');
+    },
+    getTracks: () => [...current],
+    getVideoTracks: () => current.filter(track => track.kind === 'video'),
+    getAudioTracks: () => current.filter(track => track.kind === 'audio'),
+    addTrack: (track: MediaStreamTrack) => {
+      current.push(track);
+    },
+    removeTrack: (track: MediaStreamTrack) => {
+      const index = current.indexOf(track);
+      if (index >= 0) current.splice(index, 1);
+    },
+    addEventListener() {},
+    removeEventListener() {},
+  };
+
+  // DOMs that check srcObject's type (happy-dom does) want a real MediaStream
+  if (typeof MediaStream === 'function') {
+    Object.setPrototypeOf(stream, MediaStream.prototype);
+  }
+  return stream as unknown as MediaStream;
+}
+
+export function createFakeMediaDevices(
+  cameras: FakeCamera[] = [FRONT_CAMERA, REAR_CAMERA]
+): FakeMediaDevices {
+  const available = [...cameras];
+  const requests: MediaStreamConstraints[] = [];
+  const failures: Failure[] = [];
+  const tracks: TrackControls[] = [];
+  const events = new EventTarget();
+  const permissionStatus = Object.assign(new EventTarget(), {
+    name: 'camera',
+    state: 'prompt' as PermissionState,
+    onchange: null,
+  });
+
+  function setPermission(state: PermissionState): void {
+    if (permissionStatus.state === state) return;
+    permissionStatus.state = state;
+    permissionStatus.dispatchEvent(new Event('change'));
+  }
+
+  function pickCamera(constraints: MediaTrackConstraints): FakeCamera {
+    const deviceId = constraints.deviceId;
+    if (deviceId && typeof deviceId === 'object' && 'exact' in deviceId) {
+      const camera = available.find(item => item.deviceId === deviceId.exact);
+      if (!camera) throw overconstrained('deviceId');
+      return camera;
+    }
+
+    if (available.length === 0) {
+      throw new DOMException('Requested device not found', 'NotFoundError');
+    }
+    const facingMode = constraints.facingMode;
+    return (
+      available.find(item => item.facingMode === facingMode) ?? available[0]
+    );
+  }
+
+  const mediaDevices = {
+    async getUserMedia(constraints: MediaStreamConstraints = {}) {
+      requests.push(constraints);
+
+      const failure = failures.shift();
+      if (failure) throw failure;
+      if (permissionStatus.state === 'denied') {
+        throw new DOMException('Permission denied', 'NotAllowedError');
+      }
+
+      const video =
+        typeof constraints.video === 'object' ? constraints.video : {};
+      const camera = pickCamera(video);
+
+      // Only exact constraints fail; ideal ones settle for the camera's mode
+      const width = constraintValue(video.width);
+      const height = constraintValue(video.height);
+      if (width.exact && width.value! > camera.width) {
+        throw overconstrained('width');
+      }
+      if (height.exact && height.value! > camera.height) {
+        throw overconstrained('height');
+      }
+
+      setPermission('granted');
+      const controls = createTrack(camera, video);
+      tracks.push(controls);
+      return createFakeStream([controls.track]);
+    },
+
+    async enumerateDevices() {
+      const permissionGranted = permissionStatus.state === 'granted';
+      return available.map(camera => ({
+        kind: 'videoinput',
+        // Browsers hide IDs and labels until permission has been granted
+        deviceId: permissionGranted ? camera.deviceId : '',
+        groupId: permissionGranted ? (camera.groupId ?? camera.deviceId) : '',
+        label: permissionGranted ? camera.label : '',
+        toJSON() {
+          return this;
+        },
+      }));
+    },
+
+    addEventListener: events.addEventListener.bind(events),
+    removeEventListener: events.removeEventListener.bind(events),
+  } as unknown as MediaDevices;
+
+  const permissions = {
+    async query(descriptor: PermissionDescriptor) {
+      if (descriptor.name !== ('camera' as PermissionName)) {
+        throw new TypeError(`Unknown permission: ${descriptor.name}`);
+      }
+      return permissionStatus;
+    },
+  } as unknown as Permissions;
+
+  function revoke(deviceId?: string): void {
+    tracks
+      .filter(item => !deviceId || item.camera.deviceId === deviceId)
+      .forEach(item => item.end());
+  }
+
+  return {
+    cameras: available,
+    requests,
+    get permissionGranted() {
+      return permissionStatus.state === 'granted';
+    },
+    setPermission,
+    mediaDevices,
+    permissions,
+
+    failNext(name, options = {}) {
+      failures.push(
+        Object.assign(new DOMException(options.message ?? name, name), {
+          constraint: options.constraint,
+        })
+      );
+    },
+
+    plug(camera) {
+      available.push(camera);
+      events.dispatchEvent(new Event('devicechange'));
+    },
+
+    unplug(deviceId) {
+      const index = available.findIndex(item => item.deviceId === deviceId);
+      if (index >= 0) available.splice(index, 1);
+      revoke(deviceId);
+      events.dispatchEvent(new Event('devicechange'));
+    },
+
+    revoke,
+
+    setMuted(muted) {
+      tracks.forEach(item => item.setMuted(muted));
+    },
+  };
+}
+
+// Put the fake behind navigator.mediaDevices and navigator.permissions (or
+// remove both entirely with null). Returns a function that restores them.
+export function installFakeMediaDevices(
+  fake: FakeMediaDevices | null
+): () => void {
+  const restores = (['mediaDevices', 'permissions'] as const).map(name => {
+    const original = Object.getOwnPropertyDescriptor(navigator, name);
+
+    Object.defineProperty(navigator, name, {
+      configurable: true,
+      value: fake?.[name],
+    });
+
+    return () => {
+      if (original) {
+        Object.defineProperty(navigator, name, original);
+      } else {
+        delete (navigator as Partial<Navigator>)[name];
+      }
+    };
+  });
+
+  return () => restores.forEach(restore => restore());
+}
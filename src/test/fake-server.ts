@@ -0,0 +1,62 @@
+// Serve the relying-party API in-process by replacing fetch, so webauthn.ts
+// talks to a real createRelyingParty() without a network.
+
+import { WEBAUTHN_API_BASE } from '../server/protocol';
+import { createRelyingParty, type RelyingParty } from '../server/relying-party';
+import { handleRoute, hasRoute } from '../server/routes';
+
+export interface FakeServer {
+  rp: RelyingParty;
+  // Paths (relative to WEBAUTHN_API_BASE) of every request, in order
+  readonly requests: string[];
+  // Make requests fail at the network level, like an offline server
+  offline: boolean;
+}
+
+// Replace fetch with the fake server. Returns a function that restores it.
+export function installFakeServer(
+  rp: RelyingParty = createRelyingParty({ rpName: 'Test RP' })
+): { server: FakeServer; restore: () => void } {
+  const originalFetch = globalThis.fetch;
+  const server: FakeServer = { rp, requests: [], offline: false };
+
+  globalThis.fetch = async (input, init) => {
+    const url = new URL(String(input), location.origin);
+    const path = url.pathname.slice(WEBAUTHN_API_BASE.length);
+    if (!url.pathname.startsWith(WEBAUTHN_API_BASE) || !hasRoute(path)) {
+      return new Response('Not found', { status: 404 });
+    }
+
+    server.requests.push(path);
+    if (server.offline) {
+      throw new TypeError('Failed to fetch');
+    }
+
+    const headers = new Headers(init?.headers);
+    const authorization = headers.get('Authorization');
+    const { status, body } = await handleRoute(
+      rp,
+      path,
+      {
+        rpId: location.hostname,
+        origin: location.origin,
+        accessToken: authorization?.startsWith('Bearer ')
+          ? authorization.slice('Bearer '.length)
+          : undefined,
+      },
+      async () => (init?.body ? JSON.parse(String(init.body)) : {})
+    );
+
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+
+  return {
+    server,
+    restore: () => {
+      globalThis.fetch = originalFetch;
+    },
+  };
+}
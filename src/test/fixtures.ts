@@ -0,0 +1,44 @@
+// A registration and a sign-in recorded from the software authenticator
+// (Google Password Manager AAGUID, backup eligible) against
+// http://localhost:3000. The bytes are fixed, so decoders can be checked
+// against known values.
+
+import type {
+  AuthenticationResponseJSON,
+  RegistrationResponseJSON,
+} from '../server/protocol';
+
+export const RECORDED_REGISTRATION: RegistrationResponseJSON = {
+  id: 'IHSUu5tWLSBtGfMem06qsA',
+  rawId: 'IHSUu5tWLSBtGfMem06qsA',
+  type: 'public-key',
+  response: {
+    clientDataJSON:
+      'eyJ0eXBlIjoid2ViYXV0aG4uY3JlYXRlIiwiY2hhbGxlbmdlIjoiWGljcTh2OXRjN3BtSm' +
+      'd1WXo1OVZmbFdJNHNUTDR1eUJoMUlyY3BVMV9DSSIsIm9yaWdpbiI6Imh0dHA6Ly9sb2Nh' +
+      'bGhvc3Q6MzAwMCIsImNyb3NzT3JpZ2luIjpmYWxzZX0',
+    attestationObject:
+      'o2NmbXRkbm9uZWdhdHRTdG10oGhhdXRoRGF0YViUSZYN5YgOjGh0NBcPZHZgW4_krrmihj' +
+      'LHmVzzuoMdl2NNAAAAAOqbjWZNAR0hPOS2tIy1ddQAECB0lLubVi0gbRnzHptOqrClAQID' +
+      'JiABIVgg7YJchOcZuwPxM_0boCVyXWXS9eU4wzXEytQLUGyWFIgiWCDuw02FfDuMT1eOOz' +
+      'M5hYfh5t4a39KCrlXvjcHa6TdFGA',
+    transports: ['hybrid', 'internal'],
+  },
+};
+
+export const RECORDED_AUTHENTICATION: AuthenticationResponseJSON = {
+  id: 'IHSUu5tWLSBtGfMem06qsA',
+  rawId: 'IHSUu5tWLSBtGfMem06qsA',
+  type: 'public-key',
+  response: {
+    clientDataJSON:
+      'eyJ0eXBlIjoid2ViYXV0aG4uZ2V0IiwiY2hhbGxlbmdlIjoiTG5Dd3FaSzY5Z3FYdGllR2' +
+      'lBUlRrWlR0aUo3RDhYeTRFQVFpVHByaC1TNCIsIm9yaWdpbiI6Imh0dHA6Ly9sb2NhbGhv' +
+      'c3Q6MzAwMCIsImNyb3NzT3JpZ2luIjpmYWxzZX0',
+    authenticatorData: 'SZYN5YgOjGh0NBcPZHZgW4_krrmihjLHmVzzuoMdl2MNAAAAAQ',
+    signature:
+      'MEUCIQDP7PLV12cR0XkHyqmb_W0FIIg02JDEmDwdfhzj8FTpVgIgeWwLKQvi0fmKyzNGuI' +
+      'dCABIDi7NyB8MS94-L_l8MldQ',
+    userHandle: 'kxqfzjidZUgFGaqcV0j2Vg',
+  },
+};
@@ -0,0 +1,438 @@
+// A software WebAuthn authenticator for tests. It makes real ES256 keys and
+// signs real attestations and assertions, so the relying party verifies
+// them exactly as it would a hardware authenticator's.
+
+import { toBase64Url } from '../encoding';
+import { encodeCbor } from './cbor-encode';
+
+export interface SoftAuthenticatorOptions {
+  aaguid?: Uint8Array;
+  attachment?: AuthenticatorAttachment;
+  transports?: AuthenticatorTransport[];
+  // Whether the "biometric" check passes (the UV flag)
+  userVerified?: boolean;
+  backupEligible?: boolean;
+  // Extensions the authenticator supports
+  prf?: boolean;
+  largeBlob?: boolean;
+}
+
+export interface SoftCredential {
+  id: Uint8Array<ArrayBuffer>;
+  rpId: string;
+  userHandle: Uint8Array<ArrayBuffer>;
+  keyPair: CryptoKeyPair;
+  signCount: number;
+  // The credential's PRF key (hmac-secret's CredRandom)
+  prfKey: Uint8Array<ArrayBuffer>;
+  largeBlob?: Uint8Array<ArrayBuffer>;
+}
+
+export interface SoftAuthenticator {
+  readonly credentials: SoftCredential[];
+  // Make the next ceremony fail the way a browser would
+  failNext(name: string, message?: string): void;
+  create(options?: CredentialCreationOptions): Promise<Credential | null>;
+  get(options?: CredentialRequestOptions): Promise<Credential | null>;
+  // Whether an autofill (conditional) request is waiting for the user
+  hasPendingAutofill(): boolean;
+  // Pick a passkey from the autofill list, completing the pending request
+  selectAutofill(credential?: SoftCredential): void;
+}
+
+interface InstallOptions {
+  platformAuthenticator?: boolean;
+  conditionalMediation?: boolean;
+}
+
+interface PendingAutofill {
+  options: PublicKeyCredentialRequestOptions;
+  resolve: (credential: Credential) => void;
+  reject: (error: unknown) => void;
+}
+
+const COSE_ALG_ES256 = -7;
+
+function toBytes(source: BufferSource): Uint8Array<ArrayBuffer> {
+  const bytes =
+    source instanceof ArrayBuffer
+      ? new Uint8Array(source)
+      : new Uint8Array(source.buffer, source.byteOffset, source.byteLength);
+  return new Uint8Array(bytes);
+}
+
+function concat(...parts: (Uint8Array | number[])[]): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+async function sha256(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+}
+
+// Encode a raw r||s ECDSA signature as ASN.1 DER, like authenticators do
+function rawToDer(raw: Uint8Array): Uint8Array<ArrayBuffer> {
+  const integer = (value: Uint8Array) => {
+    let bytes = [...value];
+    while (bytes.length > 1 && bytes[0] === 0) bytes.shift();
+    if (bytes[0] & 0x80) bytes.unshift(0);
+    return [0x02, bytes.length, ...bytes];
+  };
+  const body = [...integer(raw.subarray(0, 32)), ...integer(raw.subarray(32))];
+  return new Uint8Array([0x30, body.length, ...body]);
+}
+
+async function sign(
+  key: CryptoKey,
+  data: Uint8Array<ArrayBuffer>
+): Promise<Uint8Array<ArrayBuffer>> {
+  const raw = await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    key,
+    data
+  );
+  return rawToDer(new Uint8Array(raw));
+}
+
+async function coseKey(publicKey: CryptoKey): Promise<Uint8Array> {
+  const jwk = await crypto.subtle.exportKey('jwk', publicKey);
+  const decode = (value: string) =>
+    Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), char =>
+      char.charCodeAt(0)
+    );
+  return encodeCbor(
+    new Map<number, number | Uint8Array>([
+      [1, 2], // kty: EC2
+      [3, COSE_ALG_ES256],
+      [-1, 1], // crv: P-256
+      [-2, decode(jwk.x!)],
+      [-3, decode(jwk.y!)],
+    ])
+  );
+}
+
+// PRF as WebAuthn defines it on top of CTAP's hmac-secret
+async function evaluatePrf(
+  key: Uint8Array<ArrayBuffer>,
+  input: BufferSource
+): Promise<ArrayBuffer> {
+  const salt = await sha256(
+    concat(new TextEncoder().encode('WebAuthn PRF'), [0], toBytes(input))
+  );
+  const hmac = await crypto.subtle.importKey(
+    'raw',
+    key,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return crypto.subtle.sign('HMAC', hmac, concat(salt));
+}
+
+function domError(name: string, message = name): DOMException {
+  return new DOMException(message, name);
+}
+
+export function createSoftAuthenticator(
+  options: SoftAuthenticatorOptions = {}
+): SoftAuthenticator {
+  const aaguid = options.aaguid ?? new Uint8Array(16);
+  const attachment = options.attachment ?? 'platform';
+  const transports = options.transports ?? ['internal'];
+  const userVerified = options.userVerified ?? true;
+  const credentials: SoftCredential[] = [];
+  let nextFailure: DOMException | null = null;
+  let pendingAutofill: PendingAutofill | null = null;
+
+  const takeFailure = () => {
+    const failure = nextFailure;
+    nextFailure = null;
+    if (failure) throw failure;
+  };
+
+  const flags = (attested: boolean) =>
+    0x01 |
+    (userVerified ? 0x04 : 0) |
+    (options.backupEligible ? 0x08 : 0) |
+    (attested ? 0x40 : 0);
+
+  const clientData = (type: string, challenge: BufferSource) =>
+    new TextEncoder().encode(
+      JSON.stringify({
+        type,
+        challenge: toBase64Url(toBytes(challenge)),
+        origin: location.origin,
+        crossOrigin: false,
+      })
+    );
+
+  async function assert(
+    publicKey: PublicKeyCredentialRequestOptions,
+    credential: SoftCredential
+  ): Promise<Credential> {
+    credential.signCount += 1;
+    const clientDataJSON = clientData('webauthn.get', publicKey.challenge);
+    const count = new Uint8Array(4);
+    new DataView(count.buffer).setUint32(0, credential.signCount);
+    const authenticatorData = concat(
+      await sha256(new TextEncoder().encode(credential.rpId)),
+      new Uint8Array([flags(false)]),
+      count
+    );
+    const signature = await sign(
+      credential.keyPair.privateKey,
+      concat(authenticatorData, await sha256(clientDataJSON))
+    );
+
+    const extensions: AuthenticationExtensionsClientOutputs = {};
+    const prfInput = publicKey.extensions?.prf?.eval?.first;
+    if (options.prf && prfInput) {
+      extensions.prf = {
+        results: { first: await evaluatePrf(credential.prfKey, prfInput) },
+      };
+    }
+    const largeBlob = publicKey.extensions?.largeBlob;
+    if (options.largeBlob && largeBlob?.read) {
+      extensions.largeBlob = { blob: credential.largeBlob?.slice().buffer };
+    }
+    if (options.largeBlob && largeBlob?.write) {
+      credential.largeBlob = toBytes(largeBlob.write);
+      extensions.largeBlob = { written: true };
+    }
+
+    return {
+      id: toBase64Url(credential.id),
+      rawId: credential.id.buffer,
+      type: 'public-key',
+      authenticatorAttachment: attachment,
+      response: {
+        clientDataJSON: clientDataJSON.buffer,
+        authenticatorData: authenticatorData.buffer,
+        signature: signature.buffer,
+        userHandle: credential.userHandle.buffer,
+      },
+      getClientExtensionResults: () => extensions,
+    } as unknown as Credential;
+  }
+
+  // Find the credential the user would pick for this request
+  function chooseCredential(
+    publicKey: PublicKeyCredentialRequestOptions,
+    preferred?: SoftCredential
+  ): SoftCredential {
+    const rpId = publicKey.rpId ?? location.hostname;
+    const allowed = publicKey.allowCredentials ?? [];
+    const candidates = credentials.filter(
+      credential =>
+        credential.rpId === rpId &&
+        (allowed.length === 0 ||
+          allowed.some(item => sameBytes(toBytes(item.id), credential.id)))
+    );
+    const chosen =
+      preferred && candidates.includes(preferred) ? preferred : candidates[0];
+    if (!chosen) {
+      // Browsers report "no matching passkey" as a plain NotAllowedError
+      throw domError('NotAllowedError', 'No matching credential');
+    }
+    return chosen;
+  }
+
+  return {
+    credentials,
+
+    failNext(name, message) {
+      nextFailure = domError(name, message);
+    },
+
+    async create(request) {
+      takeFailure();
+      const publicKey = request?.publicKey;
+      if (!publicKey) throw domError('NotSupportedError');
+
+      const rpId = publicKey.rp.id ?? location.hostname;
+      const excluded = (publicKey.excludeCredentials ?? []).some(item =>
+        credentials.some(
+          credential =>
+            credential.rpId === rpId &&
+            sameBytes(toBytes(item.id), credential.id)
+        )
+      );
+      if (excluded) throw domError('InvalidStateError');
+
+      const wanted = publicKey.authenticatorSelection?.authenticatorAttachment;
+      if (wanted && wanted !== attachment) {
+        throw domError('NotAllowedError', 'No authenticator of that kind');
+      }
+      if (!publicKey.pubKeyCredParams.some(p => p.alg === COSE_ALG_ES256)) {
+        throw domError('NotSupportedError', 'Only ES256 is supported');
+      }
+
+      const keyPair = (await crypto.subtle.generateKey(
+        { name: 'ECDSA', namedCurve: 'P-256' },
+        true,
+        ['sign', 'verify']
+      )) as CryptoKeyPair;
+      const credential: SoftCredential = {
+        id: crypto.getRandomValues(new Uint8Array(16)),
+        rpId,
+        userHandle: toBytes(publicKey.user.id),
+        keyPair,
+        signCount: 0,
+        prfKey: crypto.getRandomValues(new Uint8Array(32)),
+      };
+
+      const idLength = new Uint8Array([0, credential.id.length]);
+      const authData = concat(
+        await sha256(new TextEncoder().encode(rpId)),
+        new Uint8Array([flags(true), 0, 0, 0, 0]),
+        aaguid,
+        idLength,
+        credential.id,
+        await coseKey(keyPair.publicKey)
+      );
+      const clientDataJSON = clientData('webauthn.create', publicKey.challenge);
+
+      // Self attestation when asked for one, otherwise 'none'
+      const attest = (publicKey.attestation ?? 'none') !== 'none';
+      const attStmt = attest
+        ? new Map<string, number | Uint8Array>([
+            ['alg', COSE_ALG_ES256],
+            [
+              'sig',
+              await sign(
+                keyPair.privateKey,
+                concat(authData, await sha256(clientDataJSON))
+              ),
+            ],
+          ])
+        : new Map();
+      const attestationObject = encodeCbor(
+        new Map<string, string | Uint8Array | Map<string, number | Uint8Array>>(
+          [
+            ['fmt', attest ? 'packed' : 'none'],
+            ['attStmt', attStmt],
+            ['authData', authData],
+          ]
+        )
+      );
+
+      // Like most authenticators, report PRF support without evaluating it
+      const extensions: AuthenticationExtensionsClientOutputs = {};
+      if (options.prf && publicKey.extensions?.prf) {
+        extensions.prf = { enabled: true };
+      }
+      if (publicKey.extensions?.largeBlob) {
+        extensions.largeBlob = { supported: options.largeBlob ?? false };
+      }
+
+      credentials.push(credential);
+      return {
+        id: toBase64Url(credential.id),
+        rawId: credential.id.buffer,
+        type: 'public-key',
+        authenticatorAttachment: attachment,
+        response: {
+          clientDataJSON: clientDataJSON.buffer,
+          attestationObject: attestationObject.buffer,
+          getTransports: () => [...transports],
+        },
+        getClientExtensionResults: () => extensions,
+      } as unknown as Credential;
+    },
+
+    async get(request) {
+      const publicKey = request?.publicKey;
+      if (!publicKey) throw domError('NotSupportedError');
+
+      if (request.mediation === 'conditional') {
+        // Autofill requests wait until the user picks a passkey
+        return new Promise<Credential>((resolve, reject) => {
+          pendingAutofill = { options: publicKey, resolve, reject };
+          request.signal?.addEventListener('abort', () => {
+            pendingAutofill = null;
+            reject(domError('AbortError'));
+          });
+        });
+      }
+
+      takeFailure();
+      return assert(publicKey, chooseCredential(publicKey));
+    },
+
+    hasPendingAutofill() {
+      return pendingAutofill !== null;
+    },
+
+    selectAutofill(credential) {
+      const pending = pendingAutofill;
+      if (!pending) throw new Error('No autofill request is pending');
+      pendingAutofill = null;
+
+      Promise.resolve()
+        .then(() =>
+          assert(pending.options, chooseCredential(pending.options, credential))
+        )
+        .then(pending.resolve, pending.reject);
+    },
+  };
+}
+
+// Put the authenticator behind navigator.credentials and PublicKeyCredential.
+// Returns a function that restores the originals.
+export function installSoftAuthenticator(
+  authenticator: SoftAuthenticator,
+  options: InstallOptions = {}
+): () => void {
+  const originalCredentials = Object.getOwnPropertyDescriptor(
+    navigator,
+    'credentials'
+  );
+  const originalPublicKeyCredential = Object.getOwnPropertyDescriptor(
+    window,
+    'PublicKeyCredential'
+  );
+
+  Object.defineProperty(navigator, 'credentials', {
+    configurable: true,
+    value: {
+      create: authenticator.create,
+      get: authenticator.get,
+    },
+  });
+  Object.defineProperty(window, 'PublicKeyCredential', {
+    configurable: true,
+    writable: true,
+    value: {
+      isUserVerifyingPlatformAuthenticatorAvailable: async () =>
+        options.platformAuthenticator ?? true,
+      isConditionalMediationAvailable: async () =>
+        options.conditionalMediation ?? false,
+    },
+  });
+
+  return () => {
+    if (originalCredentials) {
+      Object.defineProperty(navigator, 'credentials', originalCredentials);
+    } else {
+      delete (navigator as { credentials?: unknown }).credentials;
+    }
+    if (originalPublicKeyCredential) {
+      Object.defineProperty(
+        window,
+        'PublicKeyCredential',
+        originalPublicKeyCredential
+      );
+    } else {
+      delete (window as { PublicKeyCredential?: unknown }).PublicKeyCredential;
+    }
+  };
+}
@@ -0,0 +1,557 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  authenticateUser,
+  checkPlatformAuthenticatorSupport,
+  checkWebAuthnSupport,
+  completeSignIn,
+  createWebAuthnClient,
+  ensureRecentSignIn,
+  getKnownAccounts,
+  getSignedInUsername,
+  hasStoredCredential,
+  listCredentials,
+  prefetchWebAuthnOptions,
+  refreshSession,
+  registerCredential,
+  renameCredential,
+  revokeCredential,
+  signOut,
+  startConditionalSignIn,
+  type WebAuthnError,
+} from './webauthn';
+import type { LivenessFailure, LivenessResult } from './liveness';
+import { onSessionExpired } from './session';
+import { createRelyingParty } from './server/relying-party';
+import { installFakeServer, type FakeServer } from './test/fake-server';
+import {
+  createSoftAuthenticator,
+  installSoftAuthenticator,
+  type SoftAuthenticator,
+} from './test/soft-authenticator';
+
+let server: FakeServer;
+let authenticator: SoftAuthenticator;
+let cleanups: (() => void)[] = [];
+
+function useAuthenticator(
+  next: SoftAuthenticator,
+  options?: Parameters<typeof installSoftAuthenticator>[1]
+): SoftAuthenticator {
+  authenticator = next;
+  cleanups.push(installSoftAuthenticator(next, options));
+  return next;
+}
+
+beforeEach(() => {
+  localStorage.clear();
+  sessionStorage.clear();
+  const fake = installFakeServer();
+  server = fake.server;
+  cleanups = [fake.restore];
+  useAuthenticator(createSoftAuthenticator());
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  cleanups.reverse().forEach(cleanup => cleanup());
+});
+
+async function webAuthnError(
+  promise: Promise<unknown>
+): Promise<WebAuthnError> {
+  try {
+    await promise;
+  } catch (err) {
+    return err as WebAuthnError;
+  }
+  throw new Error('Expected a WebAuthnError');
+}
+
+describe('support checks', () => {
+  it('detects WebAuthn and a platform authenticator', async () => {
+    expect(checkWebAuthnSupport()).toBe(true);
+    expect(await checkPlatformAuthenticatorSupport()).toBe(true);
+  });
+
+  it('reports a missing platform authenticator', async () => {
+    useAuthenticator(createSoftAuthenticator(), {
+      platformAuthenticator: false,
+    });
+    expect(await checkPlatformAuthenticatorSupport()).toBe(false);
+  });
+});
+
+describe('registerCredential', () => {
+  it('registers a passkey the server has verified', async () => {
+    const result = await registerCredential({ username: 'alice' });
+
+    expect(result).toMatchObject({
+      success: true,
+      isNewRegistration: true,
+      username: 'alice',
+    });
+    expect(hasStoredCredential('alice')).toBe(true);
+    expect(getSignedInUsername()).toBe('alice');
+
+    const list = await listCredentials();
+    expect(list.credentials).toHaveLength(1);
+    expect(list.credentials[0].transports).toEqual(['internal']);
+  });
+
+  it('uses prefetched options instead of fetching them again', async () => {
+    await prefetchWebAuthnOptions('alice');
+    await registerCredential({ username: 'alice' });
+
+    expect(
+      server.requests.filter(path => path === '/register/options')
+    ).toHaveLength(1);
+  });
+
+  it('registers a security key when asked for a cross-platform one', async () => {
+    useAuthenticator(
+      createSoftAuthenticator({
+        attachment: 'cross-platform',
+        transports: ['usb', 'nfc'],
+      })
+    );
+
+    await registerCredential({ username: 'bob', attachment: 'cross-platform' });
+    const options = server.rp.authenticationOptions(
+      { rpId: location.hostname, origin: location.origin },
+      { username: 'bob' }
+    );
+    expect(options.allowCredentials[0].transports).toEqual(['usb', 'nfc']);
+  });
+
+  it('requires a username', async () => {
+    const error = await webAuthnError(registerCredential({ username: ' ' }));
+    expect(error.type).toBe('invalid-state');
+  });
+
+  it('reports not-supported without WebAuthn', async () => {
+    delete (window as { PublicKeyCredential?: unknown }).PublicKeyCredential;
+
+    const error = await webAuthnError(
+      registerCredential({ username: 'alice' })
+    );
+    expect(error.type).toBe('not-supported');
+  });
+
+  it.each([
+    ['NotAllowedError', 'not-allowed'],
+    ['NotSupportedError', 'not-supported'],
+    ['InvalidStateError', 'invalid-state'],
+    ['TimeoutError', 'timeout'],
+    ['AbortError', 'timeout'],
+    ['UnknownError', 'unknown'],
+  ])('maps %s to %s', async (name, type) => {
+    authenticator.failNext(name);
+
+    const error = await webAuthnError(
+      registerCredential({ username: 'alice' })
+    );
+    expect(error.type).toBe(type);
+    expect(error.originalError?.name).toBe(name);
+  });
+
+  it('refuses a second passkey on the same authenticator', async () => {
+    await registerCredential({ username: 'alice' });
+
+    const error = await webAuthnError(
+      registerCredential({ username: 'alice' })
+    );
+    expect(error.type).toBe('invalid-state');
+    expect(error.originalError?.name).toBe('InvalidStateError');
+  });
+
+  it('refuses a passkey for options issued before the account had one', async () => {
+    // Someone else fetches options for the name before its owner registers
+    const other = createWebAuthnClient();
+    await other.prefetchWebAuthnOptions('alice');
+    await registerCredential({ username: 'alice' });
+
+    sessionStorage.clear();
+    useAuthenticator(createSoftAuthenticator());
+    const error = await webAuthnError(
+      other.registerCredential({ username: 'alice' })
+    );
+    expect(error).toMatchObject({
+      type: 'verification-failed',
+      code: 'unauthorized',
+    });
+    expect(server.requests.at(-1)).toBe('/register/verify');
+  });
+
+  it('asks to sign in before adding a passkey to an existing account', async () => {
+    await registerCredential({ username: 'alice' });
+    sessionStorage.clear();
+
+    const error = await webAuthnError(
+      registerCredential({ username: 'alice' })
+    );
+    expect(error).toMatchObject({
+      type: 'invalid-state',
+      code: 'unauthorized',
+    });
+  });
+
+  it('reports verification-failed when the server rejects the passkey', async () => {
+    useAuthenticator(createSoftAuthenticator({ userVerified: false }));
+
+    const error = await webAuthnError(
+      registerCredential({ username: 'alice' })
+    );
+    expect(error).toMatchObject({
+      type: 'verification-failed',
+      code: 'user-verification',
+    });
+    expect(hasStoredCredential('alice')).toBe(false);
+  });
+
+  it('reports server-unavailable when the server is unreachable', async () => {
+    server.offline = true;
+
+    const error = await webAuthnError(
+      registerCredential({ username: 'alice' })
+    );
+    expect(error.type).toBe('server-unavailable');
+  });
+});
+
+describe('authenticateUser', () => {
+  beforeEach(async () => {
+    await registerCredential({ username: 'alice' });
+    sessionStorage.clear();
+  });
+
+  it('signs in with the passkey for a username', async () => {
+    const result = await authenticateUser('alice');
+
+    expect(result).toMatchObject({
+      success: true,
+      isNewRegistration: false,
+      username: 'alice',
+    });
+    expect(getSignedInUsername()).toBe('alice');
+  });
+
+  it('signs in without a username using a discoverable passkey', async () => {
+    localStorage.clear();
+
+    const result = await authenticateUser();
+
+    expect(result.username).toBe('alice');
+    expect(getKnownAccounts()).toEqual(['alice']);
+  });
+
+  it('rejects a replayed signature counter', async () => {
+    await authenticateUser('alice');
+    authenticator.credentials[0].signCount -= 1;
+
+    const error = await webAuthnError(authenticateUser('alice'));
+    expect(error).toMatchObject({
+      type: 'verification-failed',
+      code: 'sign-count',
+    });
+  });
+
+  it.each([
+    ['NotAllowedError', 'not-allowed'],
+    ['NotSupportedError', 'not-supported'],
+    ['InvalidStateError', 'invalid-state'],
+    ['TimeoutError', 'timeout'],
+    ['AbortError', 'timeout'],
+    ['UnknownError', 'unknown'],
+  ])('maps %s to %s', async (name, type) => {
+    authenticator.failNext(name);
+
+    const error = await webAuthnError(authenticateUser('alice'));
+    expect(error.type).toBe(type);
+    expect(error.originalError?.name).toBe(name);
+  });
+
+  it('forgets accounts the server no longer knows', async () => {
+    localStorage.setItem(
+      'webauthn_accounts',
+      JSON.stringify({ carol: ['unknown-id'] })
+    );
+
+    const error = await webAuthnError(authenticateUser('carol'));
+    expect(error.type).toBe('invalid-state');
+    expect(hasStoredCredential('carol')).toBe(false);
+  });
+
+  it('forgets passkeys that were revoked elsewhere', async () => {
+    await authenticateUser('alice');
+    const [passkey] = (await listCredentials()).credentials;
+    // The last passkey can't be revoked, so add one on another authenticator
+    const first = authenticator;
+    useAuthenticator(createSoftAuthenticator());
+    await registerCredential({ username: 'alice' });
+    await revokeCredential(passkey.id);
+    useAuthenticator(first);
+    localStorage.setItem(
+      'webauthn_accounts',
+      JSON.stringify({ alice: [passkey.id] })
+    );
+
+    const error = await webAuthnError(authenticateUser());
+    expect(error.code).toBe('unknown-credential');
+    expect(hasStoredCredential('alice')).toBe(false);
+  });
+
+  it('reports server-unavailable when the server is unreachable', async () => {
+    server.offline = true;
+
+    const error = await webAuthnError(authenticateUser('alice'));
+    expect(error.type).toBe('server-unavailable');
+  });
+});
+
+describe('startConditionalSignIn', () => {
+  beforeEach(async () => {
+    useAuthenticator(authenticator, { conditionalMediation: true });
+    await registerCredential({ username: 'alice' });
+    sessionStorage.clear();
+  });
+
+  it('signs in when a passkey is picked from autofill', async () => {
+    const pending = startConditionalSignIn();
+    await expect.poll(() => authenticator.hasPendingAutofill()).toBe(true);
+
+    authenticator.selectAutofill();
+    expect((await pending)?.username).toBe('alice');
+  });
+
+  it('resolves with null when a button-driven ceremony takes over', async () => {
+    const pending = startConditionalSignIn();
+    await expect.poll(() => authenticator.hasPendingAutofill()).toBe(true);
+
+    await authenticateUser('alice');
+    expect(await pending).toBeNull();
+  });
+
+  it("leaves another client's autofill running", async () => {
+    const pending = startConditionalSignIn();
+    await expect.poll(() => authenticator.hasPendingAutofill()).toBe(true);
+
+    createWebAuthnClient().abortConditionalSignIn();
+    expect(authenticator.hasPendingAutofill()).toBe(true);
+    authenticator.selectAutofill();
+    expect((await pending)?.username).toBe('alice');
+  });
+});
+
+describe('passkey management', () => {
+  it('renames and revokes passkeys of the signed-in account', async () => {
+    await registerCredential({ username: 'alice' });
+    useAuthenticator(createSoftAuthenticator());
+    await registerCredential({ username: 'alice' });
+    const [passkey, other] = (await listCredentials()).credentials;
+
+    const renamed = await renameCredential(passkey.id, 'Laptop');
+    expect(renamed.credentials[0].nickname).toBe('Laptop');
+
+    const revoked = await revokeCredential(passkey.id);
+    expect(revoked.credentials.map(({ id }) => id)).toEqual([other.id]);
+    expect(hasStoredCredential('alice')).toBe(true);
+  });
+
+  it('keeps the last passkey of an account', async () => {
+    await registerCredential({ username: 'alice' });
+    const [passkey] = (await listCredentials()).credentials;
+
+    const error = await webAuthnError(revokeCredential(passkey.id));
+    expect(error.code).toBe('last-credential');
+    expect((await listCredentials()).credentials).toHaveLength(1);
+    expect(hasStoredCredential('alice')).toBe(true);
+  });
+
+  it('rejects management calls without a sign-in', async () => {
+    const error = await webAuthnError(listCredentials());
+    expect(error).toMatchObject({
+      type: 'verification-failed',
+      code: 'unauthorized',
+    });
+  });
+});
+
+describe('sessions', () => {
+  const MINUTE = 60 * 1000;
+
+  it('signs out on the server as well as in the browser', async () => {
+    await registerCredential({ username: 'alice' });
+
+    await signOut();
+
+    expect(getSignedInUsername()).toBeNull();
+    expect(server.requests).toContain('/session/sign-out');
+    const error = await webAuthnError(listCredentials());
+    expect(error.code).toBe('unauthorized');
+  });
+
+  it('ends a session that has been idle too long', async () => {
+    await registerCredential({ username: 'alice' });
+    vi.useFakeTimers();
+    const expired = vi.fn();
+    const stop = onSessionExpired(expired);
+
+    vi.advanceTimersByTime(15 * MINUTE);
+
+    expect(expired).toHaveBeenCalledTimes(1);
+    expect(getSignedInUsername()).toBeNull();
+    stop();
+  });
+
+  it('keeps an active session alive until its absolute expiry', async () => {
+    const fake = installFakeServer(
+      createRelyingParty({ rpName: 'Test RP', sessionMaxAgeMs: 40 * MINUTE })
+    );
+    cleanups.push(fake.restore);
+    await registerCredential({ username: 'alice' });
+    vi.useFakeTimers();
+
+    for (let i = 0; i < 3; i++) {
+      vi.advanceTimersByTime(10 * MINUTE);
+      await refreshSession();
+    }
+    expect(getSignedInUsername()).toBe('alice');
+
+    vi.advanceTimersByTime(5 * MINUTE);
+    await refreshSession();
+    vi.advanceTimersByTime(5 * MINUTE);
+    expect(getSignedInUsername()).toBeNull();
+  });
+
+  it('asks for a fresh sign-in before revoking a passkey', async () => {
+    await registerCredential({ username: 'alice' });
+    const [passkey] = (await listCredentials()).credentials;
+    useAuthenticator(createSoftAuthenticator());
+    await registerCredential({ username: 'alice' });
+    vi.useFakeTimers();
+    vi.advanceTimersByTime(6 * MINUTE);
+
+    const error = await webAuthnError(revokeCredential(passkey.id));
+    expect(error.code).toBe('reauthenticate');
+
+    expect(await ensureRecentSignIn()).toMatchObject({ success: true });
+    expect(await ensureRecentSignIn()).toBeNull();
+    const revoked = await revokeCredential(passkey.id);
+    expect(revoked.credentials).toHaveLength(1);
+  });
+});
+
+describe('completeSignIn', () => {
+  function liveness(failure?: LivenessFailure): LivenessResult {
+    return {
+      challenge: 'blink',
+      passed: !failure,
+      confidence: failure ? 0 : 1,
+      startedAt: Date.now(),
+      durationMs: 1000,
+      framesAnalyzed: 10,
+      failure,
+    };
+  }
+
+  // Register alice with a server that wants liveness checks, then sign out
+  async function useLivenessServer(
+    mode: 'required' | 'when-supported' = 'required'
+  ): Promise<FakeServer> {
+    const fake = installFakeServer(
+      createRelyingParty({ rpName: 'Test RP', liveness: mode })
+    );
+    cleanups.push(fake.restore);
+    await registerCredential({ username: 'alice' });
+    await signOut();
+    return fake.server;
+  }
+
+  it('keeps a sign-in pending a liveness check out of storage', async () => {
+    const { rp } = await useLivenessServer();
+    const context = { rpId: location.hostname, origin: location.origin };
+
+    const result = await authenticateUser('alice');
+    const accessToken = result.provisional!.accessToken;
+    expect(getSignedInUsername()).toBeNull();
+    expect(() => rp.listCredentials({ ...context, accessToken })).toThrow(
+      expect.objectContaining({ type: 'unauthorized' })
+    );
+
+    await completeSignIn(result, liveness());
+    expect(result.provisional).toBeUndefined();
+    expect(getSignedInUsername()).toBe('alice');
+    expect((await listCredentials()).credentials).toHaveLength(1);
+  });
+
+  it('ends the session on the server when the check fails', async () => {
+    const { rp } = await useLivenessServer();
+    const context = { rpId: location.hostname, origin: location.origin };
+
+    const result = await authenticateUser('alice');
+    const accessToken = result.provisional!.accessToken;
+    const error = await webAuthnError(
+      completeSignIn(result, liveness('timeout'))
+    );
+
+    expect(error.code).toBe('liveness');
+    expect(getSignedInUsername()).toBeNull();
+    expect(() => rp.session({ ...context, accessToken })).toThrow(
+      expect.objectContaining({ type: 'unauthorized' })
+    );
+  });
+
+  it('only lets a browser that cannot check through when allowed', async () => {
+    await useLivenessServer('required');
+    const refused = await authenticateUser('alice');
+    expect(
+      (await webAuthnError(completeSignIn(refused, liveness('not-supported'))))
+        .code
+    ).toBe('liveness');
+
+    await useLivenessServer('when-supported');
+    const allowed = await authenticateUser('alice');
+    await completeSignIn(allowed, liveness('not-supported'));
+    expect(getSignedInUsername()).toBe('alice');
+  });
+
+  it('keeps a step-up sign-in on a full session without a check', async () => {
+    await useLivenessServer();
+    const result = await authenticateUser('alice');
+    await completeSignIn(result, liveness());
+
+    expect((await authenticateUser('alice')).provisional).toBeUndefined();
+    expect(getSignedInUsername()).toBe('alice');
+  });
+});
+
+describe('encryption secrets', () => {
+  it('gets the same PRF secret at registration and at sign-in', async () => {
+    useAuthenticator(createSoftAuthenticator({ prf: true }));
+
+    const registered = await registerCredential({ username: 'alice' });
+    const signedIn = await authenticateUser('alice');
+
+    expect(registered.secret?.source).toBe('prf');
+    expect(signedIn.secret).toEqual(registered.secret);
+  });
+
+  it('keeps a random secret in the large blob when PRF is missing', async () => {
+    useAuthenticator(createSoftAuthenticator({ largeBlob: true }));
+
+    const registered = await registerCredential({ username: 'alice' });
+    const signedIn = await authenticateUser('alice');
+
+    expect(registered.secret?.source).toBe('large-blob');
+    expect(registered.secret?.bytes).toHaveLength(32);
+    expect(signedIn.secret).toEqual(registered.secret);
+  });
+
+  it('gets no secret from an authenticator without either extension', async () => {
+    const registered = await registerCredential({ username: 'alice' });
+    const signedIn = await authenticateUser('alice');
+
+    expect(registered.secret).toBeUndefined();
+    expect(signedIn.secret).toBeUndefined();
+  });
+});
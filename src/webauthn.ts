@@ -1,386 +1,946 @@
-// @ts-nocheck
+import { fromBase64Url, toBase64Url } from './encoding';
+import { t } from './i18n';
+import type { LivenessResult } from './liveness';
+import {
+  clearSession,
+  getSession,
+  needsReauthentication,
+  saveSession,
+  touchSession,
+  updateSession,
+} from './session';
+import {
+  WEBAUTHN_API_BASE,
+  type AuthenticationResponseJSON,
+  type AuthenticatorAttachmentChoice,
+  type CreationOptionsJSON,
+  type CredentialListJSON,
+  type CredentialSummaryJSON,
+  type ErrorResponseJSON,
+  type RegistrationResponseJSON,
+  type RequestOptionsJSON,
+  type SessionJSON,
+  type SignOutResultJSON,
+  type VerificationResultJSON,
+} from './server/protocol';
+
 export interface WebAuthnError {
   type:
     | 'not-supported'
     | 'not-allowed'
     | 'timeout'
     | 'invalid-state'
+    | 'verification-failed'
+    | 'server-unavailable'
     | 'unknown';
   message: string;
+  // The relying-party error code, when the server rejected the request
+  code?: string;
   originalError?: Error;
 }
 
-export interface WebAuthnBrowserInfo {
-  name: 'chrome' | 'firefox' | 'safari' | 'edge' | 'unknown';
-  instructions: string[];
+// Key material a passkey released for client-side encryption: its PRF
+// output for this app, or a random key kept in its large blob
+export interface CredentialSecret {
+  source: 'prf' | 'large-blob';
+  bytes: Uint8Array<ArrayBuffer>;
 }
 
 export interface AuthenticationResult {
   success: boolean;
   credential?: PublicKeyCredential;
   isNewRegistration?: boolean;
+  // Set once the relying-party server has verified the ceremony
+  username?: string;
+  // The response we sent for verification, kept for the inspector
+  response?: RegistrationResponseJSON | AuthenticationResponseJSON;
+  // Missing when the authenticator supports neither PRF nor large blobs
+  secret?: CredentialSecret;
+  // The camera challenge that followed the sign-in, if one ran
+  liveness?: LivenessResult;
+  // A sign-in the server took provisionally, pending a liveness check. It's
+  // only kept here: nothing is stored until completeSignIn() succeeds.
+  provisional?: VerificationResultJSON;
+}
+
+export interface RegistrationOptions {
+  username: string;
+  displayName?: string;
+  nickname?: string;
+  // Where the new passkey should live; defaults to this device
+  attachment?: AuthenticatorAttachmentChoice;
 }
 
-const CREDENTIAL_STORAGE_KEY = 'webauthn_credential_id';
+// Passkey ceremonies and the state they share: options fetched ahead of a
+// click, and the pending autofill request. Each widget on the page has its
+// own, so one can't use up or cancel another's.
+export interface WebAuthnClient {
+  prefetchWebAuthnOptions(
+    username: string,
+    attachment?: AuthenticatorAttachmentChoice
+  ): Promise<void>;
+  registerCredential(
+    registration: RegistrationOptions
+  ): Promise<AuthenticationResult>;
+  authenticateUser(username?: string): Promise<AuthenticationResult>;
+  // Resolves with null if the request was cancelled by another ceremony
+  startConditionalSignIn(): Promise<AuthenticationResult | null>;
+  abortConditionalSignIn(): void;
+  signOut(): Promise<void>;
+  ensureRecentSignIn(): Promise<AuthenticationResult | null>;
+}
+
+export type PasskeyInfo = CredentialSummaryJSON;
+export type { AuthenticatorAttachmentChoice };
+
+// Credential IDs registered from this browser, keyed by username
+const ACCOUNTS_STORAGE_KEY = 'webauthn_accounts';
+
+// Prefetched options stay usable for a little less than the server timeout
+const OPTIONS_MAX_AGE_MS = 45000;
+
+// The app's PRF input. Each passkey turns it into its own secret, and only
+// hands that over after user verification.
+const PRF_SALT = new TextEncoder().encode('camera-access-app media key v1');
+
+interface PrefetchedOptions {
+  username: string;
+  attachment: AuthenticatorAttachmentChoice;
+  create?: { options: CreationOptionsJSON; fetchedAt: number };
+  get?: { options: RequestOptionsJSON; fetchedAt: number };
+}
 
 // Check if WebAuthn is supported
 export function checkWebAuthnSupport(): boolean {
   return !!(window.PublicKeyCredential && navigator.credentials);
 }
 
-// Generate random challenge
-function generateChallenge(): Uint8Array {
-  const challenge = new Uint8Array(32);
-  crypto.getRandomValues(challenge);
-  return challenge;
-}
+// Check for a built-in authenticator with user verification (Face ID,
+// Touch ID, Windows Hello, Android biometrics or screen lock)
+export async function checkPlatformAuthenticatorSupport(): Promise<boolean> {
+  if (!checkWebAuthnSupport()) return false;
 
-// Generate random user ID
-function generateUserId(): Uint8Array {
-  const userId = new Uint8Array(16);
-  crypto.getRandomValues(userId);
-  return userId;
+  try {
+    return await PublicKeyCredential.isUserVerifyingPlatformAuthenticatorAvailable();
+  } catch {
+    return false;
+  }
 }
 
-// Convert base64 string to Uint8Array
-function base64ToUint8Array(base64: string): Uint8Array {
-  const binaryString = atob(base64);
-  const bytes = new Uint8Array(binaryString.length);
-  for (let i = 0; i < binaryString.length; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
+// Read the username → credential IDs map from localStorage
+function readAccounts(): Record<string, string[]> {
+  const stored = localStorage.getItem(ACCOUNTS_STORAGE_KEY);
+  if (!stored) return {};
+
+  try {
+    return JSON.parse(stored) as Record<string, string[]>;
+  } catch (error) {
+    console.error('Failed to parse stored accounts:', error);
+    return {};
   }
-  return bytes;
 }
 
-// Convert Uint8Array to base64 string
-function uint8ArrayToBase64(buffer: Uint8Array): string {
-  let binary = '';
-  const bytes = new Uint8Array(buffer);
-  for (let i = 0; i < bytes.byteLength; i++) {
-    binary += String.fromCharCode(bytes[i]);
+function writeAccounts(accounts: Record<string, string[]>): void {
+  localStorage.setItem(ACCOUNTS_STORAGE_KEY, JSON.stringify(accounts));
+}
+
+// Usernames that have registered a passkey from this browser
+export function getKnownAccounts(): string[] {
+  return Object.keys(readAccounts());
+}
+
+// Check if this browser has registered a passkey for the username
+export function hasStoredCredential(username: string): boolean {
+  return (readAccounts()[username.trim()] ?? []).length > 0;
+}
+
+// Remember a credential ID for the username
+export function storeCredentialId(
+  username: string,
+  credentialId: ArrayBuffer
+): void {
+  const accounts = readAccounts();
+  const id = toBase64Url(credentialId);
+  accounts[username] = [...new Set([...(accounts[username] ?? []), id])];
+  writeAccounts(accounts);
+}
+
+// Forget one credential, one account, or (with no arguments) everything
+export function clearStoredCredential(
+  username?: string,
+  credentialId?: string
+): void {
+  if (username === undefined) {
+    localStorage.removeItem(ACCOUNTS_STORAGE_KEY);
+    return;
+  }
+
+  const accounts = readAccounts();
+  const remaining = credentialId
+    ? (accounts[username] ?? []).filter(id => id !== credentialId)
+    : [];
+
+  if (remaining.length > 0) {
+    accounts[username] = remaining;
+  } else {
+    delete accounts[username];
   }
-  return btoa(binary);
+  writeAccounts(accounts);
+}
+
+// Start the session the server issued with a verified ceremony
+function startSession(verification: VerificationResultJSON): void {
+  saveSession({
+    username: verification.username,
+    accessToken: verification.accessToken,
+    expiresAt: verification.expiresAt,
+    idleTimeoutMs: verification.idleTimeoutMs,
+    idleExpiresAt: verification.idleExpiresAt,
+    reauthenticateAt: verification.reauthenticateAt,
+  });
+}
+
+// The account whose session is active, if any
+export function getSignedInUsername(): string | null {
+  return getSession()?.username ?? null;
 }
 
-// Get stored credential ID from localStorage
-export function getStoredCredentialId(): Uint8Array | null {
-  const stored = localStorage.getItem(CREDENTIAL_STORAGE_KEY);
-  if (!stored) return null;
+// POST to the relying-party server and map failures to WebAuthnErrors. The
+// stored session's token is sent unless another one is given.
+async function postJson<T>(
+  path: string,
+  body?: unknown,
+  accessToken?: string
+): Promise<T> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  const session = accessToken ? null : getSession();
+  const token = accessToken ?? session?.accessToken;
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
 
+  let response: Response;
   try {
-    return base64ToUint8Array(stored);
-  } catch (error) {
-    console.error('Failed to parse stored credential:', error);
-    return null;
+    response = await fetch(`${WEBAUTHN_API_BASE}${path}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body ?? {}),
+    });
+  } catch (err) {
+    const error: WebAuthnError = {
+      type: 'server-unavailable',
+      message: t('webauthn.error.server-unavailable'),
+      originalError: err as Error,
+    };
+    throw error;
+  }
+
+  const data = (await response.json().catch(() => null)) as
+    | T
+    | ErrorResponseJSON
+    | null;
+
+  if (!response.ok || !data) {
+    const failure = data as ErrorResponseJSON | null;
+
+    const error: WebAuthnError = {
+      type:
+        response.status >= 500 || !data
+          ? 'server-unavailable'
+          : 'verification-failed',
+      message: failure?.error
+        ? t('webauthn.error.verification-failed', { reason: failure.error })
+        : t('webauthn.error.unexpected-response'),
+      code: failure?.code,
+    };
+    throw error;
+  }
+
+  // Requests with a session count as activity on the server
+  if (session) {
+    touchSession();
   }
+  return data as T;
 }
 
-// Store credential ID in localStorage
-export function storeCredentialId(credentialId: ArrayBuffer): void {
-  const uint8Array = new Uint8Array(credentialId);
-  const base64 = uint8ArrayToBase64(uint8Array);
-  localStorage.setItem(CREDENTIAL_STORAGE_KEY, base64);
+// Turn the server's JSON options into what navigator.credentials expects
+// Every passkey is asked for a secret for client-side encryption. The
+// relying party never sees these extensions' outputs.
+function toCreationOptions(
+  json: CreationOptionsJSON
+): PublicKeyCredentialCreationOptions {
+  return {
+    ...json,
+    challenge: fromBase64Url(json.challenge),
+    user: { ...json.user, id: fromBase64Url(json.user.id) },
+    excludeCredentials: json.excludeCredentials.map(credential => ({
+      ...credential,
+      id: fromBase64Url(credential.id),
+    })),
+    extensions: {
+      prf: { eval: { first: PRF_SALT } },
+      largeBlob: { support: 'preferred' },
+    },
+  };
 }
 
-// Clear stored credential
-export function clearStoredCredential(): void {
-  localStorage.removeItem(CREDENTIAL_STORAGE_KEY);
+function toRequestOptions(
+  json: RequestOptionsJSON
+): PublicKeyCredentialRequestOptions {
+  return {
+    ...json,
+    challenge: fromBase64Url(json.challenge),
+    allowCredentials: json.allowCredentials.map(credential => ({
+      ...credential,
+      id: fromBase64Url(credential.id),
+    })),
+    extensions: {
+      prf: { eval: { first: PRF_SALT } },
+      largeBlob: { read: true },
+    },
+  };
 }
 
-// Register a new credential (first-time users)
-export async function registerCredential(): Promise<AuthenticationResult> {
-  try {
-    if (!checkWebAuthnSupport()) {
-      const error: WebAuthnError = {
+function toBytes(source: BufferSource): Uint8Array<ArrayBuffer> {
+  return source instanceof ArrayBuffer
+    ? new Uint8Array(source.slice(0))
+    : new Uint8Array(
+        source.buffer.slice(
+          source.byteOffset,
+          source.byteOffset + source.byteLength
+        ) as ArrayBuffer
+      );
+}
+
+// The PRF output, or else the large blob, from a ceremony's extension results
+function readSecret(
+  credential: PublicKeyCredential
+): CredentialSecret | undefined {
+  const results = credential.getClientExtensionResults?.() ?? {};
+  const prf = results.prf?.results?.first;
+  if (prf) {
+    return { source: 'prf', bytes: toBytes(prf) };
+  }
+  if (results.largeBlob?.blob) {
+    return { source: 'large-blob', bytes: toBytes(results.largeBlob.blob) };
+  }
+  return undefined;
+}
+
+function toRegistrationJSON(
+  credential: PublicKeyCredential,
+  nickname?: string
+): RegistrationResponseJSON {
+  const response = credential.response as AuthenticatorAttestationResponse;
+  return {
+    id: credential.id,
+    rawId: toBase64Url(credential.rawId),
+    type: 'public-key',
+    response: {
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      attestationObject: toBase64Url(response.attestationObject),
+      transports:
+        typeof response.getTransports === 'function'
+          ? response.getTransports()
+          : [],
+    },
+    nickname,
+  };
+}
+
+function toAuthenticationJSON(
+  credential: PublicKeyCredential
+): AuthenticationResponseJSON {
+  const response = credential.response as AuthenticatorAssertionResponse;
+  return {
+    id: credential.id,
+    rawId: toBase64Url(credential.rawId),
+    type: 'public-key',
+    response: {
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      authenticatorData: toBase64Url(response.authenticatorData),
+      signature: toBase64Url(response.signature),
+      userHandle: response.userHandle
+        ? toBase64Url(response.userHandle)
+        : null,
+    },
+  };
+}
+
+// Map a navigator.credentials.create() failure to a WebAuthnError
+function toRegistrationError(err: unknown): WebAuthnError {
+  const error = err as Error & { name?: string };
+  let webAuthnError: WebAuthnError;
+
+  // Check if it's already a WebAuthnError
+  if ((err as WebAuthnError).type) {
+    return err as WebAuthnError;
+  }
+
+  switch (error.name) {
+    case 'NotAllowedError':
+      webAuthnError = {
+        type: 'not-allowed',
+        message: t('webauthn.error.register-not-allowed'),
+        originalError: error,
+      };
+      break;
+
+    case 'NotSupportedError':
+      webAuthnError = {
         type: 'not-supported',
-        message:
-          'WebAuthn is not supported in this browser. Please use a modern browser like Chrome, Firefox, Safari, or Edge.',
+        message: t('webauthn.error.register-not-supported'),
+        originalError: error,
       };
-      throw error;
-    }
+      break;
+
+    case 'InvalidStateError':
+      webAuthnError = {
+        type: 'invalid-state',
+        message: t('webauthn.error.register-invalid-state'),
+        originalError: error,
+      };
+      break;
+
+    case 'TimeoutError':
+    case 'AbortError':
+      webAuthnError = {
+        type: 'timeout',
+        message: t('webauthn.error.register-timeout'),
+        originalError: error,
+      };
+      break;
+
+    default:
+      webAuthnError = {
+        type: 'unknown',
+        message: t('webauthn.error.register-unknown', {
+          reason: error.message || t('app.unknown-reason'),
+        }),
+        originalError: error,
+      };
+  }
+
+  return webAuthnError;
+}
+
+// Map a navigator.credentials.get() failure to a WebAuthnError
+function toAuthenticationError(err: unknown): WebAuthnError {
+  const error = err as Error & { name?: string };
+  let webAuthnError: WebAuthnError;
 
-    const challenge = generateChallenge();
-    const userId = generateUserId();
-
-    const publicKeyCredentialCreationOptions: PublicKeyCredentialCreationOptions =
-      {
-        challenge,
-        rp: {
-          name: 'Camera Access App 📸',
-          id:
-            window.location.hostname === 'localhost'
-              ? 'localhost'
-              : window.location.hostname,
-        },
-        user: {
-          id: userId,
-          name: 'user@example.com',
-          displayName: 'Demo User',
-        },
-        pubKeyCredParams: [
-          { type: 'public-key', alg: -7 }, // ES256
-          { type: 'public-key', alg: -257 }, // RS256
-        ],
-        authenticatorSelection: {
-          authenticatorAttachment: 'platform',
-          userVerification: 'required',
-        },
-        timeout: 60000,
-        attestation: 'none',
+  // Check if it's already a WebAuthnError
+  if ((err as WebAuthnError).type) {
+    return err as WebAuthnError;
+  }
+
+  switch (error.name) {
+    case 'NotAllowedError':
+      webAuthnError = {
+        type: 'not-allowed',
+        message: t('webauthn.error.not-allowed'),
+        originalError: error,
       };
+      break;
 
-    const credential = (await navigator.credentials.create({
-      publicKey: publicKeyCredentialCreationOptions,
-    })) as PublicKeyCredential;
+    case 'NotSupportedError':
+      webAuthnError = {
+        type: 'not-supported',
+        message: t('webauthn.error.device-not-supported'),
+        originalError: error,
+      };
+      break;
 
-    if (!credential) {
-      const error: WebAuthnError = {
+    case 'InvalidStateError':
+      webAuthnError = {
+        type: 'invalid-state',
+        message: t('webauthn.error.invalid-state'),
+        originalError: error,
+      };
+      break;
+
+    case 'TimeoutError':
+    case 'AbortError':
+      webAuthnError = {
+        type: 'timeout',
+        message: t('webauthn.error.timeout'),
+        originalError: error,
+      };
+      break;
+
+    default:
+      webAuthnError = {
         type: 'unknown',
-        message: 'Failed to create credential. Please try again.',
+        message: t('webauthn.error.unknown', {
+          reason: error.message || t('app.unknown-reason'),
+        }),
+        originalError: error,
       };
-      throw error;
-    }
+  }
 
-    // Store the credential ID for future authentication
-    storeCredentialId(credential.rawId);
+  return webAuthnError;
+}
 
-    return {
-      success: true,
-      credential,
-      isNewRegistration: true,
-    };
+// Have the server verify an assertion, then remember the credential locally,
+// unless the server wants a liveness check first
+async function verifyAssertion(
+  credential: PublicKeyCredential
+): Promise<AuthenticationResult> {
+  const response = toAuthenticationJSON(credential);
+  let verification: VerificationResultJSON;
+  try {
+    verification = await postJson<VerificationResultJSON>(
+      '/authenticate/verify',
+      response
+    );
   } catch (err) {
-    const error = err as Error & { name?: string };
-    let webAuthnError: WebAuthnError;
-
-    // Check if it's already a WebAuthnError
-    if ((err as WebAuthnError).type) {
-      throw err;
+    // The passkey was revoked elsewhere, so stop offering it
+    if ((err as WebAuthnError).code === 'unknown-credential') {
+      getKnownAccounts().forEach(account =>
+        clearStoredCredential(account, credential.id)
+      );
     }
+    throw err;
+  }
 
-    switch (error.name) {
-      case 'NotAllowedError':
-        webAuthnError = {
-          type: 'not-allowed',
-          message:
-            'Biometric authentication was cancelled or denied. Please ensure you have Face ID, Touch ID, or Windows Hello set up on your device.',
-          originalError: error,
-        };
-        break;
+  const result: AuthenticationResult = {
+    success: true,
+    credential,
+    isNewRegistration: false,
+    username: verification.username,
+    response,
+    secret: readSecret(credential),
+  };
+  if (verification.provisional) {
+    return { ...result, provisional: verification };
+  }
 
-      case 'NotSupportedError':
-        webAuthnError = {
-          type: 'not-supported',
-          message:
-            'This device does not support biometric authentication. Please ensure Face ID, Touch ID, or Windows Hello is enabled.',
-          originalError: error,
-        };
-        break;
+  // A synced or discoverable passkey may be new to this browser
+  storeCredentialId(verification.username, credential.rawId);
+  startSession(verification);
+  return result;
+}
 
-      case 'InvalidStateError':
-        webAuthnError = {
-          type: 'invalid-state',
-          message: 'A credential is already registered for this device.',
-          originalError: error,
-        };
-        break;
-
-      case 'TimeoutError':
-      case 'AbortError':
-        webAuthnError = {
-          type: 'timeout',
-          message:
-            'Authentication timed out. Please try again and complete the biometric verification within 60 seconds.',
-          originalError: error,
-        };
-        break;
+// Report the liveness check that followed a provisional sign-in. The server
+// upgrades the session if it accepts the result and ends it otherwise, so
+// only an accepted sign-in is remembered.
+export async function completeSignIn(
+  result: AuthenticationResult,
+  liveness: LivenessResult
+): Promise<void> {
+  const verification = result.provisional;
+  if (!verification || !result.credential) return;
+  result.provisional = undefined;
+
+  const state = await postJson<SessionJSON>(
+    '/session/liveness',
+    { passed: liveness.passed, failure: liveness.failure },
+    verification.accessToken
+  );
+  storeCredentialId(verification.username, result.credential.rawId);
+  startSession({ ...verification, ...state });
+}
 
-      default:
-        webAuthnError = {
-          type: 'unknown',
-          message: `Unable to register biometric authentication: ${
-            error.message || 'Unknown error'
-          }`,
-          originalError: error,
-        };
-    }
+// Most authenticators only evaluate PRF during sign-in, and a large blob
+// can't be written until the credential exists, so a new passkey may need
+// a second touch to release its secret. Without one, saved media just
+// stays unencrypted.
+async function requestNewSecret(
+  username: string,
+  created: PublicKeyCredential
+): Promise<CredentialSecret | undefined> {
+  const results = created.getClientExtensionResults?.() ?? {};
+  const usePrf = results.prf?.enabled === true;
+  if (!usePrf && !results.largeBlob?.supported) return undefined;
 
-    throw webAuthnError;
+  try {
+    const options = await postJson<RequestOptionsJSON>(
+      '/authenticate/options',
+      { username }
+    );
+    const blob = crypto.getRandomValues(new Uint8Array(32));
+    const credential = (await navigator.credentials.get({
+      publicKey: {
+        ...toRequestOptions(options),
+        allowCredentials: [{ type: 'public-key', id: created.rawId }],
+        extensions: usePrf
+          ? { prf: { eval: { first: PRF_SALT } } }
+          : { largeBlob: { write: blob } },
+      },
+    })) as PublicKeyCredential | null;
+    if (!credential) return undefined;
+
+    const { secret } = await verifyAssertion(credential);
+    if (secret) return secret;
+    return credential.getClientExtensionResults?.().largeBlob?.written
+      ? { source: 'large-blob', bytes: blob }
+      : undefined;
+  } catch (error) {
+    console.warn('Failed to get an encryption secret from the passkey:', error);
+    return undefined;
   }
 }
 
-// Authenticate with an existing credential
-export async function authenticateUser(): Promise<AuthenticationResult> {
+// Check if the browser can offer passkeys in username autofill
+export async function checkConditionalMediationSupport(): Promise<boolean> {
+  if (!checkWebAuthnSupport()) return false;
+
+  const publicKeyCredential = window.PublicKeyCredential as unknown as {
+    isConditionalMediationAvailable?: () => Promise<boolean>;
+  };
   try {
-    if (!checkWebAuthnSupport()) {
-      const error: WebAuthnError = {
-        type: 'not-supported',
-        message:
-          'WebAuthn is not supported in this browser. Please use a modern browser like Chrome, Firefox, Safari, or Edge.',
-      };
-      throw error;
-    }
+    return (
+      (await publicKeyCredential.isConditionalMediationAvailable?.()) ?? false
+    );
+  } catch {
+    return false;
+  }
+}
 
-    const storedCredentialId = getStoredCredentialId();
-    if (!storedCredentialId) {
-      const error: WebAuthnError = {
-        type: 'invalid-state',
-        message: 'No credential found. Please register first.',
-      };
-      throw error;
-    }
+// Check if the browser reports support for the PRF extension, which derives
+// per-credential secrets for encryption
+export async function checkPrfSupport(): Promise<boolean> {
+  if (!checkWebAuthnSupport()) return false;
 
-    const challenge = generateChallenge();
+  const publicKeyCredential = window.PublicKeyCredential as unknown as {
+    getClientCapabilities?: () => Promise<Record<string, boolean>>;
+  };
+  try {
+    const capabilities = await publicKeyCredential.getClientCapabilities?.();
+    return capabilities?.['extension:prf'] === true;
+  } catch {
+    return false;
+  }
+}
 
-    const publicKeyCredentialRequestOptions: PublicKeyCredentialRequestOptions =
-      {
-        challenge,
-        allowCredentials: [
-          {
-            type: 'public-key',
-            id: storedCredentialId,
-          },
-        ],
-        userVerification: 'required',
-        timeout: 60000,
-      };
+// List the signed-in account's passkeys
+export async function listCredentials(): Promise<CredentialListJSON> {
+  return postJson<CredentialListJSON>('/credentials/list');
+}
 
-    const credential = (await navigator.credentials.get({
-      publicKey: publicKeyCredentialRequestOptions,
-    })) as PublicKeyCredential;
+// Give one of the signed-in account's passkeys a new nickname
+export async function renameCredential(
+  id: string,
+  nickname: string
+): Promise<CredentialListJSON> {
+  return postJson<CredentialListJSON>('/credentials/rename', { id, nickname });
+}
 
-    if (!credential) {
-      const error: WebAuthnError = {
-        type: 'unknown',
-        message: 'Failed to authenticate. Please try again.',
-      };
-      throw error;
-    }
+// Revoke one of the signed-in account's passkeys
+export async function revokeCredential(
+  id: string
+): Promise<CredentialListJSON> {
+  const list = await postJson<CredentialListJSON>('/credentials/revoke', {
+    id,
+  });
+  clearStoredCredential(list.username, id);
+  return list;
+}
 
-    return {
-      success: true,
-      credential,
-      isNewRegistration: false,
-    };
+// Check the session with the server and keep it alive. An expired session
+// is cleared, so the caller only has to update the UI.
+export async function refreshSession(): Promise<SessionJSON> {
+  try {
+    const state = await postJson<SessionJSON>('/session');
+    updateSession(state);
+    return state;
   } catch (err) {
-    const error = err as Error & { name?: string };
-    let webAuthnError: WebAuthnError;
-
-    // Check if it's already a WebAuthnError
-    if ((err as WebAuthnError).type) {
-      throw err;
+    if ((err as WebAuthnError).code === 'unauthorized') {
+      clearSession();
     }
+    throw err;
+  }
+}
 
-    switch (error.name) {
-      case 'NotAllowedError':
-        webAuthnError = {
-          type: 'not-allowed',
-          message: 'Biometric authentication was cancelled or denied.',
-          originalError: error,
+export function createWebAuthnClient(): WebAuthnClient {
+  let prefetched: PrefetchedOptions = { username: '', attachment: 'platform' };
+  let conditionalAbort: AbortController | null = null;
+
+  // Fetch ceremony options ahead of the click, so the WebAuthn call can
+  // happen right away inside the user gesture (Safari/iOS requires this)
+  async function prefetchWebAuthnOptions(
+    username: string,
+    attachment: AuthenticatorAttachmentChoice = 'platform'
+  ): Promise<void> {
+    const name = username.trim();
+
+    try {
+      // No username means a discoverable (usernameless) sign-in
+      if (!name || hasStoredCredential(name)) {
+        prefetched = {
+          username: name,
+          attachment,
+          get: {
+            options: await postJson<RequestOptionsJSON>(
+              '/authenticate/options',
+              name ? { username: name } : {}
+            ),
+            fetchedAt: Date.now(),
+          },
+        };
+      } else {
+        prefetched = {
+          username: name,
+          attachment,
+          create: {
+            options: await postJson<CreationOptionsJSON>('/register/options', {
+              username: name,
+              attachment,
+            }),
+            fetchedAt: Date.now(),
+          },
         };
-        break;
+      }
+    } catch (error) {
+      // Not fatal: the ceremony fetches its own options when needed
+      console.warn('Failed to prefetch WebAuthn options:', error);
+    }
+  }
+
+  // Use (and consume) prefetched options if they are still fresh
+  function takePrefetched<K extends 'create' | 'get'>(
+    kind: K,
+    username: string,
+    attachment: AuthenticatorAttachmentChoice = prefetched.attachment
+  ): NonNullable<PrefetchedOptions[K]>['options'] | null {
+    const matches =
+      prefetched.username === username && prefetched.attachment === attachment;
+    const entry = matches ? prefetched[kind] : null;
+    prefetched[kind] = undefined;
+
+    if (!entry || Date.now() - entry.fetchedAt > OPTIONS_MAX_AGE_MS) {
+      return null;
+    }
+    return entry.options;
+  }
+
+  // Register a new credential, for a new account or as an extra authenticator
+  async function registerCredential(
+    registration: RegistrationOptions
+  ): Promise<AuthenticationResult> {
+    const username = registration.username.trim();
+    const attachment = registration.attachment ?? 'platform';
 
-      case 'NotSupportedError':
-        webAuthnError = {
+    try {
+      if (!checkWebAuthnSupport()) {
+        const error: WebAuthnError = {
           type: 'not-supported',
-          message: 'This device does not support biometric authentication.',
-          originalError: error,
+          message: t('webauthn.error.not-supported'),
         };
-        break;
+        throw error;
+      }
 
-      case 'InvalidStateError':
-        webAuthnError = {
+      if (!username) {
+        const error: WebAuthnError = {
           type: 'invalid-state',
-          message: 'Invalid credential state. Please try registering again.',
-          originalError: error,
-        };
-        break;
-
-      case 'TimeoutError':
-      case 'AbortError':
-        webAuthnError = {
-          type: 'timeout',
-          message: 'Authentication timed out. Please try again.',
-          originalError: error,
+          message: t('webauthn.error.username-required'),
         };
-        break;
-
-      default:
-        webAuthnError = {
+        throw error;
+      }
+
+      abortConditionalSignIn();
+
+      let options = takePrefetched('create', username, attachment);
+      try {
+        options ??= await postJson<CreationOptionsJSON>('/register/options', {
+          username,
+          displayName: registration.displayName,
+          attachment,
+        });
+      } catch (err) {
+        // Someone (maybe you, on another device) already owns this account
+        if ((err as WebAuthnError).code === 'unauthorized') {
+          const error: WebAuthnError = {
+            type: 'invalid-state',
+            message: t('webauthn.error.account-exists', { username }),
+            code: 'unauthorized',
+          };
+          throw error;
+        }
+        throw err;
+      }
+
+      const credential = (await navigator.credentials.create({
+        publicKey: toCreationOptions(options),
+      })) as PublicKeyCredential;
+
+      if (!credential) {
+        const error: WebAuthnError = {
           type: 'unknown',
-          message: `Unable to authenticate: ${
-            error.message || 'Unknown error'
-          }`,
-          originalError: error,
+          message: t('webauthn.error.create-failed'),
         };
+        throw error;
+      }
+
+      // Only trust the credential once the server has checked it
+      const response = toRegistrationJSON(credential, registration.nickname);
+      const verification = await postJson<VerificationResultJSON>(
+        '/register/verify',
+        response
+      );
+
+      // Store the credential ID for future authentication
+      storeCredentialId(verification.username, credential.rawId);
+      startSession(verification);
+
+      return {
+        success: true,
+        credential,
+        isNewRegistration: true,
+        username: verification.username,
+        response,
+        secret:
+          readSecret(credential) ??
+          (await requestNewSecret(verification.username, credential)),
+      };
+    } catch (err) {
+      throw toRegistrationError(err);
     }
+  }
 
-    throw webAuthnError;
+  // Cancel a pending autofill request; browsers only allow one ceremony at a time
+  function abortConditionalSignIn(): void {
+    conditionalAbort?.abort();
+    conditionalAbort = null;
   }
-}
 
-// Detect browser and provide specific help instructions
-export function detectWebAuthnBrowser(): WebAuthnBrowserInfo {
-  const userAgent = navigator.userAgent.toLowerCase();
+  // Authenticate with one of the account's credentials, or with any
+  // discoverable passkey for this site when no username is given
+  async function authenticateUser(
+    username = ''
+  ): Promise<AuthenticationResult> {
+    const name = username.trim();
 
-  if (userAgent.includes('edg/')) {
-    return {
-      name: 'edge',
-      instructions: [
-        'Go to Settings → Accounts → Sign-in options',
-        'Set up Windows Hello (Face, Fingerprint, or PIN)',
-        'Ensure "Use Windows Hello for passkey verification" is enabled',
-        'Refresh the page and try again',
-      ],
-    };
+    try {
+      if (!checkWebAuthnSupport()) {
+        const error: WebAuthnError = {
+          type: 'not-supported',
+          message: t('webauthn.error.not-supported'),
+        };
+        throw error;
+      }
+
+      abortConditionalSignIn();
+
+      let options = takePrefetched('get', name);
+      try {
+        options ??= await postJson<RequestOptionsJSON>(
+          '/authenticate/options',
+          name ? { username: name } : {}
+        );
+      } catch (err) {
+        // The server has no passkeys for this account (e.g. it was restarted)
+        if ((err as WebAuthnError).code === 'unknown-user') {
+          clearStoredCredential(name);
+          const error: WebAuthnError = {
+            type: 'invalid-state',
+            message: t('webauthn.error.unknown-user', { username: name }),
+          };
+          throw error;
+        }
+        throw err;
+      }
+
+      const credential = (await navigator.credentials.get({
+        publicKey: toRequestOptions(options),
+      })) as PublicKeyCredential;
+
+      if (!credential) {
+        const error: WebAuthnError = {
+          type: 'unknown',
+          message: t('webauthn.error.get-failed'),
+        };
+        throw error;
+      }
+
+      // The assertion means nothing until the server has checked its signature
+      return await verifyAssertion(credential);
+    } catch (err) {
+      throw toAuthenticationError(err);
+    }
   }
 
-  if (userAgent.includes('chrome') && !userAgent.includes('edg')) {
-    return {
-      name: 'chrome',
-      instructions: [
-        'Ensure you have a screen lock set up (PIN, pattern, or password)',
-        'On Windows: Set up Windows Hello in Settings',
-        'On Mac: Ensure Touch ID is enabled in System Settings',
-        'On mobile: Ensure biometric authentication is enabled',
-        'Refresh the page and try again',
-      ],
-    };
+  // Offer passkeys in the username field's autofill (mediation: 'conditional').
+  // Resolves with null if the request was cancelled by another ceremony.
+  async function startConditionalSignIn(): Promise<
+    AuthenticationResult | null
+  > {
+    abortConditionalSignIn();
+    const abort = new AbortController();
+    conditionalAbort = abort;
+
+    try {
+      // Discoverable options carry no username, so they can't be prefetched
+      // per account; autofill doesn't need a user gesture anyway
+      const options = await postJson<RequestOptionsJSON>(
+        '/authenticate/options',
+        {}
+      );
+      if (abort.signal.aborted) return null;
+
+      const credential = (await navigator.credentials.get({
+        publicKey: toRequestOptions(options),
+        mediation: 'conditional',
+        signal: abort.signal,
+      })) as PublicKeyCredential | null;
+
+      if (!credential) return null;
+      return await verifyAssertion(credential);
+    } catch (err) {
+      if (abort.signal.aborted) return null;
+      throw toAuthenticationError(err);
+    } finally {
+      if (conditionalAbort === abort) {
+        conditionalAbort = null;
+      }
+    }
   }
 
-  if (userAgent.includes('firefox')) {
-    return {
-      name: 'firefox',
-      instructions: [
-        'Ensure you have biometric authentication configured on your device',
-        'On Windows: Set up Windows Hello',
-        'On Mac: Ensure Touch ID is enabled',
-        'Allow Firefox to access your security key or biometric authenticator',
-        'Refresh the page and try again',
-      ],
-    };
+  // End the session here and on the server. Signing out works offline too;
+  // the server forgets the token when it expires anyway.
+  async function signOut(): Promise<void> {
+    abortConditionalSignIn();
+    try {
+      await postJson<SignOutResultJSON>('/session/sign-out');
+    } catch (error) {
+      console.warn('Failed to end the session on the server:', error);
+    } finally {
+      clearSession();
+    }
   }
 
-  if (userAgent.includes('safari')) {
-    return {
-      name: 'safari',
-      instructions: [
-        'On Mac: Go to System Settings → Touch ID & Password',
-        'Ensure Touch ID is enabled and configured',
-        'On iPhone/iPad: Ensure Face ID or Touch ID is enabled in Settings',
-        'Make sure Safari can use biometric authentication',
-        'Refresh the page and try again',
-      ],
-    };
+  // Sensitive actions (revoking a passkey, adding one) need a recent passkey
+  // check. Sign in again first if the session's check is too old.
+  async function ensureRecentSignIn(): Promise<
+    AuthenticationResult | null
+  > {
+    const session = getSession();
+    if (!session || !needsReauthentication(session)) return null;
+    return authenticateUser(session.username);
   }
 
   return {
-    name: 'unknown',
-    instructions: [
-      'Ensure your device has biometric authentication enabled (Face ID, Touch ID, Windows Hello)',
-      'Check that your browser is up to date',
-      'Make sure your browser can access biometric authentication',
-      'Try using Chrome, Safari, Firefox, or Edge for best compatibility',
-    ],
+    prefetchWebAuthnOptions,
+    registerCredential,
+    authenticateUser,
+    startConditionalSignIn,
+    abortConditionalSignIn,
+    signOut,
+    ensureRecentSignIn,
   };
 }
+
+// The client for code that only ever needs one
+const defaultClient = createWebAuthnClient();
+
+export const {
+  prefetchWebAuthnOptions,
+  registerCredential,
+  authenticateUser,
+  startConditionalSignIn,
+  abortConditionalSignIn,
+  signOut,
+  ensureRecentSignIn,
+} = defaultClient;
@@ -0,0 +1,466 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  defineCameraAuthElement,
+  type CameraAuthEvent,
+} from './camera-auth-element';
+import {
+  createFakeMediaDevices,
+  createFakeStream,
+  installFakeMediaDevices,
+  type FakeMediaDevices,
+} from './test/fake-media-devices';
+import { setLocale } from './i18n';
+import { createRelyingParty } from './server/relying-party';
+import { installFakeServer } from './test/fake-server';
+import {
+  createSoftAuthenticator,
+  installSoftAuthenticator,
+} from './test/soft-authenticator';
+import { getSignedInUsername, signOut } from './webauthn';
+import { mount, type CameraAuthWidget, type WidgetOptions } from './widget';
+
+let devices: FakeMediaDevices;
+let cleanups: (() => void)[] = [];
+
+function $<T extends HTMLElement>(root: ParentNode, selector: string): T {
+  return root.querySelector<T>(selector)!;
+}
+
+function mountWidget(options?: WidgetOptions): {
+  root: HTMLElement;
+  widget: CameraAuthWidget;
+} {
+  const root = document.createElement('div');
+  document.body.append(root);
+  const widget = mount(root, { idPrefix: 'test', ...options });
+  cleanups.push(() => widget.unmount());
+  return { root, widget };
+}
+
+beforeEach(() => {
+  localStorage.clear();
+  sessionStorage.clear();
+  devices = createFakeMediaDevices();
+  cleanups = [
+    installFakeMediaDevices(devices),
+    installFakeServer().restore,
+    installSoftAuthenticator(createSoftAuthenticator()),
+  ];
+});
+
+afterEach(() => {
+  cleanups.reverse().forEach(cleanup => cleanup());
+  setLocale('en');
+  document.body.innerHTML = '';
+});
+
+describe('mount', () => {
+  it('gives each widget on the page its own element IDs', () => {
+    const first = document.createElement('div');
+    const second = document.createElement('div');
+    document.body.append(first, second);
+    cleanups.push(mount(first).unmount, mount(second).unmount);
+
+    const ids = [...document.querySelectorAll('[id]')].map(({ id }) => id);
+    expect(new Set(ids).size).toBe(ids.length);
+    for (const root of [first, second]) {
+      const manage = $(root, '[aria-controls]');
+      const panel = document.getElementById(
+        manage.getAttribute('aria-controls')!
+      )!;
+      expect(root.contains(panel)).toBe(true);
+      expect(
+        root.contains(
+          document.getElementById(panel.getAttribute('aria-labelledby')!)
+        )
+      ).toBe(true);
+    }
+  });
+
+  it('reports the camera starting and stopping', async () => {
+    const { root, widget } = mountWidget();
+    const started = vi.fn();
+    const stopped = vi.fn();
+    widget.on('stream-started', started);
+    widget.on('stream-stopped', stopped);
+
+    const toggle = $<HTMLButtonElement>(root, '#test-toggle-camera');
+    toggle.click();
+    await expect.poll(() => toggle.textContent).toBe('Stop Camera');
+    const { stream } = started.mock.calls[0][0];
+    expect(stream).toBe($<HTMLVideoElement>(root, '#test-video').srcObject);
+
+    toggle.click();
+    expect(stopped).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a sign-in', async () => {
+    const { root, widget } = mountWidget();
+    const signedIn = new Promise(resolve => widget.on('auth-success', resolve));
+    const username = $<HTMLInputElement>(root, '#test-username');
+    username.value = 'alice';
+
+    $<HTMLButtonElement>(root, '#test-webauthn-button').click();
+    expect(await signedIn).toEqual({
+      username: 'alice',
+      isNewRegistration: true,
+    });
+  });
+
+  // Register a passkey in a widget of its own, so the next sign-in uses it
+  async function register(username: string): Promise<void> {
+    const { root, widget } = mountWidget();
+    const registered = new Promise(resolve =>
+      widget.on('auth-success', resolve)
+    );
+    $<HTMLInputElement>(root, '#test-username').value = username;
+    $<HTMLButtonElement>(root, '#test-webauthn-button').click();
+    await registered;
+    widget.unmount();
+    // Registering signs in too; start the next sign-in signed out
+    await signOut();
+  }
+
+  // Serve a relying party that takes sign-ins provisionally, pending a
+  // liveness check
+  function requireLiveness(liveness: 'required' | 'when-supported'): void {
+    cleanups.push(
+      installFakeServer(createRelyingParty({ rpName: 'Test RP', liveness }))
+        .restore
+    );
+  }
+
+  // Sign in to a registered account, and report how it went
+  function signIn(username: string) {
+    const { root, widget } = mountWidget();
+    const signedIn = vi.fn();
+    widget.on('auth-success', signedIn);
+    const failed = new Promise<{ error: { message: string } }>(resolve =>
+      widget.on('auth-error', resolve)
+    );
+    $<HTMLInputElement>(root, '#test-username').value = username;
+    $<HTMLButtonElement>(root, '#test-webauthn-button').click();
+    return { root, signedIn, failed };
+  }
+
+  it('lets a browser that cannot check liveness sign in where allowed', async () => {
+    requireLiveness('when-supported');
+    await register('carol');
+
+    const { root, signedIn } = signIn('carol');
+    await expect.poll(() => signedIn).toHaveBeenCalled();
+
+    // This DOM has no FaceDetector to find landmarks with
+    expect(signedIn.mock.calls[0][0]).toMatchObject({
+      username: 'carol',
+      isNewRegistration: false,
+      liveness: { passed: false, failure: 'not-supported', confidence: 0 },
+    });
+    expect($(root, '#test-status-message').textContent).toContain(
+      'No liveness check was done'
+    );
+    expect(getSignedInUsername()).toBe('carol');
+  });
+
+  it('turns a browser that cannot check liveness away where required', async () => {
+    requireLiveness('required');
+    await register('erin');
+
+    const { root, signedIn, failed } = signIn('erin');
+    const { error } = await failed;
+
+    expect(error.message).toContain('Signing in needs a liveness check');
+    expect(signedIn).not.toHaveBeenCalled();
+    expect(getSignedInUsername()).toBeNull();
+    expect($(root, '#test-sign-out').classList).toContain('hidden');
+  });
+
+  it('does not sign in when the liveness check fails', async () => {
+    requireLiveness('when-supported');
+    await register('dave');
+
+    // Without a camera there's nothing to check
+    devices.failNext('NotAllowedError');
+    const { root, signedIn, failed } = signIn('dave');
+    const { error } = await failed;
+
+    expect(error.message).toContain('The liveness check needs the camera.');
+    expect(signedIn).not.toHaveBeenCalled();
+    expect(getSignedInUsername()).toBeNull();
+    expect($(root, '#test-error-message').textContent).toContain(
+      'not been signed in'
+    );
+  });
+
+  it('skips the liveness check where the server does not ask for one', async () => {
+    await register('frank');
+
+    const { signedIn } = signIn('frank');
+    await expect.poll(() => signedIn).toHaveBeenCalled();
+    expect(signedIn.mock.calls[0][0]).toEqual({
+      username: 'frank',
+      isNewRegistration: false,
+      liveness: undefined,
+    });
+  });
+
+  it('keeps widgets on one page signed in and out together', async () => {
+    await register('grace');
+    const other = mountWidget();
+
+    const { root, signedIn } = signIn('grace');
+    await expect.poll(() => signedIn).toHaveBeenCalled();
+    const otherSignOut = $(other.root, '#test-sign-out');
+    await expect.poll(() => otherSignOut.classList).not.toContain('hidden');
+
+    // The session is the tab's, so signing out in one ends it in both
+    $<HTMLButtonElement>(root, '#test-sign-out').click();
+    await expect.poll(() => otherSignOut.classList).toContain('hidden');
+    expect(getSignedInUsername()).toBeNull();
+    expect($(other.root, '#test-status-message').textContent).toContain(
+      'signed out'
+    );
+  });
+
+  it('takes the theme, wording and flow from the options', () => {
+    const { root, widget } = mountWidget({
+      theme: 'light',
+      labels: { 'camera.enable': 'Open the scanner' },
+      flow: 'camera-only',
+    });
+    const container = $(root, '.camera-auth');
+
+    expect($(root, '#test-toggle-camera').textContent).toBe('Open the scanner');
+    expect(container.dataset.theme).toBe('light');
+    expect($(root, '.auth-controls').hidden).toBe(true);
+
+    widget.setTheme('dark');
+    expect(container.dataset.theme).toBe('dark');
+  });
+
+  it('translates the filter controls with the rest of the widget', () => {
+    const { root } = mountWidget();
+    const labels = () =>
+      [...root.querySelectorAll('[data-filter="grayscale"] span')].map(
+        span => span.textContent
+      );
+    expect(labels()).toEqual(['Grayscale', 'Amount']);
+
+    setLocale('ar');
+    expect(labels()).toEqual(['تدرج رمادي', 'المقدار']);
+  });
+
+  it('only routes the camera through the filters while one is on', async () => {
+    // happy-dom has no 2D canvas, so give the filters one that never draws
+    vi.useFakeTimers({ toFake: ['requestAnimationFrame'] });
+    const getContext = vi
+      .spyOn(HTMLCanvasElement.prototype, 'getContext')
+      .mockImplementation(function (this: HTMLCanvasElement) {
+        return { canvas: this };
+      } as unknown as HTMLCanvasElement['getContext']);
+    const captureStream = vi
+      .spyOn(HTMLCanvasElement.prototype, 'captureStream')
+      .mockImplementation(() => createFakeStream([]));
+    const { root, widget } = mountWidget();
+    cleanups.push(() => {
+      vi.useRealTimers();
+      getContext.mockRestore();
+      captureStream.mockRestore();
+    });
+
+    const started = vi.fn();
+    widget.on('stream-started', started);
+    const toggle = $<HTMLButtonElement>(root, '#test-toggle-camera');
+    toggle.click();
+    await expect.poll(() => toggle.textContent).toBe('Stop Camera');
+    const video = $<HTMLVideoElement>(root, '#test-video');
+    const camera = video.srcObject;
+    expect(started.mock.calls[0][0].stream).toBe(camera);
+
+    const grayscale = $<HTMLInputElement>(
+      root,
+      '[data-filter="grayscale"] input[type="checkbox"]'
+    );
+    grayscale.checked = true;
+    grayscale.dispatchEvent(new Event('input', { bubbles: true }));
+    expect(video.srcObject).not.toBe(camera);
+
+    grayscale.checked = false;
+    grayscale.dispatchEvent(new Event('input', { bubbles: true }));
+    expect(video.srcObject).toBe(camera);
+  });
+
+  it('shows why diagnostics failed in the diagnostics panel', async () => {
+    const { root } = mountWidget();
+    devices.failNext('NotAllowedError');
+    const userAgent = vi
+      .spyOn(navigator, 'userAgent', 'get')
+      .mockImplementation(() => {
+        throw new Error('Blocked by a privacy extension');
+      });
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    cleanups.push(() => {
+      userAgent.mockRestore();
+      warn.mockRestore();
+    });
+
+    const run = $<HTMLButtonElement>(root, '#test-run-diagnostics');
+    run.click();
+    const report = $(root, '#test-diagnostics-report');
+    await expect
+      .poll(() => report.textContent)
+      .toBe(
+        'The diagnostics could not be collected: Blocked by a privacy extension'
+      );
+    expect(report.classList).not.toContain('hidden');
+    expect($<HTMLButtonElement>(root, '#test-copy-diagnostics').disabled).toBe(
+      true
+    );
+    expect(run.disabled).toBe(false);
+  });
+
+  it('keeps the camera locked until sign-in in the sign-in-first flow', async () => {
+    const { root } = mountWidget({ flow: 'sign-in-first' });
+    const toggle = $<HTMLButtonElement>(root, '#test-toggle-camera');
+    expect(toggle.disabled).toBe(true);
+
+    $<HTMLInputElement>(root, '#test-username').value = 'bob';
+    $<HTMLButtonElement>(root, '#test-webauthn-button').click();
+    await expect.poll(() => toggle.textContent).toBe('Stop Camera');
+    expect(toggle.disabled).toBe(false);
+  });
+
+  it('releases the camera and empties the root on unmount', async () => {
+    const { root, widget } = mountWidget();
+    const toggle = $<HTMLButtonElement>(root, '#test-toggle-camera');
+    toggle.click();
+    await expect.poll(() => toggle.textContent).toBe('Stop Camera');
+    const [track] = (
+      $<HTMLVideoElement>(root, '#test-video').srcObject as MediaStream
+    ).getTracks();
+
+    widget.unmount();
+    expect(track.readyState).toBe('ended');
+    expect(root.childNodes).toHaveLength(0);
+  });
+
+  it('scans its own view of the camera rather than the preview', async () => {
+    // happy-dom doesn't decode video, so give every <video> a frame
+    Object.defineProperties(HTMLVideoElement.prototype, {
+      readyState: { configurable: true, get: () => 4 },
+      videoWidth: { configurable: true, get: () => 640 },
+    });
+    const sources: HTMLVideoElement[] = [];
+    Object.assign(window, {
+      BarcodeDetector: Object.assign(
+        class {
+          detect = async (source: HTMLVideoElement) => {
+            sources.push(source);
+            return [];
+          };
+        },
+        {
+          getSupportedFormats: async () => [
+            'qr_code',
+            'ean_13',
+            'code_128',
+            'data_matrix',
+          ],
+        }
+      ),
+    });
+    cleanups.push(() => {
+      delete (window as { BarcodeDetector?: unknown }).BarcodeDetector;
+      const prototype = HTMLVideoElement.prototype as {
+        readyState?: number;
+        videoWidth?: number;
+      };
+      delete prototype.readyState;
+      delete prototype.videoWidth;
+    });
+
+    const { root } = mountWidget();
+    const toggle = $<HTMLButtonElement>(root, '#test-toggle-camera');
+    toggle.click();
+    await expect.poll(() => toggle.textContent).toBe('Stop Camera');
+    const video = $<HTMLVideoElement>(root, '#test-video');
+    $<HTMLButtonElement>(root, '#test-scan-button').click();
+    await expect.poll(() => sources.length).toBeGreaterThan(0);
+
+    expect(sources[0]).not.toBe(video);
+    expect(sources[0].srcObject).toBe(video.srcObject);
+    toggle.click();
+    expect(sources[0].srcObject).toBeNull();
+  });
+
+  it('reconnects when the system takes the camera away', async () => {
+    const { root } = mountWidget();
+    const toggle = $<HTMLButtonElement>(root, '#test-toggle-camera');
+    toggle.click();
+    await expect.poll(() => toggle.textContent).toBe('Stop Camera');
+    const video = $<HTMLVideoElement>(root, '#test-video');
+    const stream = video.srcObject as MediaStream;
+
+    devices.revoke();
+    await expect
+      .poll(() => $(root, '#test-status-message').textContent, {
+        timeout: 3000,
+      })
+      .toBe('The camera is back.');
+    expect(toggle.textContent).toBe('Stop Camera');
+    expect(video.srcObject).toBe(stream);
+    expect(stream.active).toBe(true);
+  });
+
+  it('stops the camera when it cannot come back', async () => {
+    const { root } = mountWidget();
+    const toggle = $<HTMLButtonElement>(root, '#test-toggle-camera');
+    toggle.click();
+    await expect.poll(() => toggle.textContent).toBe('Stop Camera');
+
+    devices.setPermission('denied');
+    devices.revoke();
+    await expect
+      .poll(() => toggle.textContent, { timeout: 3000 })
+      .toBe('Enable Camera');
+    expect($(root, '#test-error-message').classList).not.toContain('hidden');
+  });
+});
+
+describe('<camera-auth>', () => {
+  it('runs each element with its own camera in its own shadow root', async () => {
+    defineCameraAuthElement();
+    const first = document.createElement('camera-auth');
+    const second = document.createElement('camera-auth');
+    second.setAttribute('theme', 'dark');
+    document.body.append(first, second);
+
+    const started = vi.fn();
+    first.addEventListener('stream-started', started);
+    const firstToggle = $<HTMLButtonElement>(
+      first.shadowRoot!,
+      '[id$="-toggle-camera"]'
+    );
+    const secondToggle = $<HTMLButtonElement>(
+      second.shadowRoot!,
+      '[id$="-toggle-camera"]'
+    );
+
+    firstToggle.click();
+    await expect.poll(() => firstToggle.textContent).toBe('Stop Camera');
+    expect(started).toHaveBeenCalledTimes(1);
+    const [event] = started.mock.calls[0] as [
+      CameraAuthEvent<'stream-started'>,
+    ];
+    expect(event.detail.stream).toBeInstanceOf(MediaStream);
+    expect(secondToggle.textContent).toBe('Enable Camera');
+    expect($(second.shadowRoot!, '.camera-auth').dataset.theme).toBe('dark');
+
+    // Taking the element out of the page stops its camera
+    const stopped = vi.fn();
+    first.addEventListener('stream-stopped', stopped);
+    first.remove();
+    expect(stopped).toHaveBeenCalledTimes(1);
+    second.remove();
+  });
+});
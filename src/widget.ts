@@ -0,0 +1,1235 @@
+// The camera and passkey app as a widget a host app can mount, any number of
+// times on one page. Each instance has its own camera, state and elements,
+// and reports what happens in it through typed events.
+
+import {
+  listCameras,
+  watchCameras,
+  watchCameraPermission,
+  DEFAULT_PROFILES,
+  type CameraDevice,
+  type CameraError,
+  type CameraPermission,
+  type CameraSelection,
+} from './camera';
+import { createWebAuthnClient, type WebAuthnError } from './webauthn';
+import { createAppStore, type AppState } from './app-state';
+import { createEventBus, type EventBus } from './events';
+import { createStreamManager, type StreamHandle } from './stream-manager';
+import {
+  startLivenessCheck,
+  type LivenessResult,
+  type LivenessSession,
+} from './liveness';
+import { h, replaceChildren } from './dom';
+import {
+  LOCALES,
+  createTranslator,
+  getLocale,
+  localizeElements,
+  localized,
+  onLocaleChange,
+  setLocale,
+  type Locale,
+  type MessageKey,
+  type MessageOverrides,
+} from './i18n';
+import { getCameraHelp, getPasskeyHelp, type HelpInstructions } from './help';
+import { startFaceTracking } from './face-detection';
+import {
+  startScanning,
+  type BarcodeFormat,
+  type ScannedCode,
+  type ScanSession,
+} from './scanner';
+import {
+  createFilterPipeline,
+  mirrorFilter,
+  type ActiveFilter,
+  type FilterPipeline,
+} from './filters';
+import {
+  capturePhoto,
+  type CapturedPhoto,
+  type CaptureError,
+  type PhotoFormat,
+} from './capture';
+import {
+  startRecording,
+  formatDuration,
+  type Recording,
+  type RecorderError,
+  type RecordingSession,
+} from './recorder';
+import type { WidgetContext } from './widget/context';
+import { createAuthPanel } from './widget/auth-panel';
+import { createCallPanel } from './widget/call-panel';
+import { createDiagnosticsPanel } from './widget/diagnostics-panel';
+import { createFiltersPanel } from './widget/filters-panel';
+import { createGalleryPanel } from './widget/gallery-panel';
+
+export type WidgetTheme = 'auto' | 'light' | 'dark';
+
+// 'full': sign in and use the camera in either order; signing in starts it
+// 'sign-in-first': the camera can only be used while signed in
+// 'camera-only': no passkey sign-in; captures are downloaded, not saved
+export type WidgetFlow = 'full' | 'sign-in-first' | 'camera-only';
+
+// What each widget event passes to its listeners
+export interface WidgetEvents {
+  // The stream shown in the preview, with filters applied
+  'stream-started': { stream: MediaStream };
+  'stream-stopped': Record<string, never>;
+  'auth-success': {
+    username: string;
+    isNewRegistration: boolean;
+    // The camera challenge after a sign-in with an existing passkey
+    liveness?: LivenessResult;
+  };
+  'auth-error': { error: WebAuthnError };
+  capture:
+    | { kind: 'photo'; photo: CapturedPhoto }
+    | { kind: 'recording'; recording: Recording };
+}
+
+export interface WidgetOptions {
+  theme?: WidgetTheme;
+  // Replace the widget's wording for some messages, in every language
+  labels?: MessageOverrides;
+  flow?: WidgetFlow;
+  // Starts every element ID, so several widgets can share a page. Defaults
+  // to camera-auth-1, camera-auth-2, ... in mount order.
+  idPrefix?: string;
+}
+
+export interface CameraAuthWidget {
+  on: EventBus<WidgetEvents>['on'];
+  setTheme(theme: WidgetTheme): void;
+  // Stop the camera, remove every listener and empty the root
+  unmount(): void;
+}
+
+// Recordings stop by themselves after this long
+const MAX_RECORDING_MS = 60_000;
+
+// The camera picker's entries that don't need device access
+function facingOptions(): HTMLOptionElement[] {
+  return [
+    h('option', { value: 'facing:user', ...localized('camera.front') }),
+    h('option', { value: 'facing:environment', ...localized('camera.rear') }),
+  ];
+}
+
+const PERMISSION_LABELS: Record<CameraPermission, MessageKey | null> = {
+  granted: 'camera.permission-granted',
+  prompt: 'camera.permission-prompt',
+  denied: 'camera.permission-denied',
+  unknown: null,
+};
+
+// Encode a camera selection as a <select> option value
+function selectionToValue(selection: CameraSelection): string {
+  return 'deviceId' in selection
+    ? `device:${selection.deviceId}`
+    : `facing:${selection.facingMode}`;
+}
+
+// Decode a <select> option value back into a camera selection
+function valueToSelection(value: string): CameraSelection {
+  if (value.startsWith('device:')) {
+    return { deviceId: value.slice('device:'.length) };
+  }
+  return {
+    facingMode: value === 'facing:environment' ? 'environment' : 'user',
+  };
+}
+
+const SCAN_FORMAT_LABELS: Record<BarcodeFormat, MessageKey> = {
+  qr_code: 'scan.format.qr_code',
+  ean_13: 'scan.format.ean_13',
+  code_128: 'scan.format.code_128',
+  data_matrix: 'scan.format.data_matrix',
+};
+
+// Keep this many reads on screen
+const MAX_SCANNED_CODES = 10;
+
+// Play a camera stream in a detached <video>, for the parts of the widget
+// that read its frames: the preview may be showing them filtered
+function playDetached(stream: MediaStream): HTMLVideoElement {
+  const detached = document.createElement('video');
+  detached.muted = true;
+  detached.playsInline = true;
+  detached.srcObject = stream;
+  detached.play().catch(() => {});
+  return detached;
+}
+
+function stopDetached(detached: HTMLVideoElement): void {
+  detached.pause();
+  detached.srcObject = null;
+}
+
+// Numbers the default ID prefix of each mounted widget
+let mountCount = 0;
+
+// Render the widget into root, replacing what's there. The page needs
+// style.css.
+export function mount(
+  root: HTMLElement | ShadowRoot,
+  options: WidgetOptions = {}
+): CameraAuthWidget {
+  const flow = options.flow ?? 'full';
+  const idPrefix = options.idPrefix ?? `camera-auth-${++mountCount}`;
+  const elementId = (name: string) => `${idPrefix}-${name}`;
+  const t = createTranslator(options.labels);
+  const events = createEventBus<WidgetEvents>();
+  const streams = createStreamManager();
+  const webauthn = createWebAuthnClient();
+  // Undone by unmount(): listeners outside the widget's own elements
+  const cleanups: (() => void)[] = [];
+
+  // Create the UI. The elements the app reads or updates are kept in
+  // constants; the layout below puts them in place.
+  const localeSelect = h(
+    'select',
+    {
+      id: elementId('locale-select'),
+      className: 'camera-select locale-select',
+      ...localized('app.language', 'aria-label'),
+    },
+    Object.entries(LOCALES).map(([locale, { name, dir }]) =>
+      h('option', { value: locale, lang: locale, dir }, name)
+    )
+  );
+  const video = h('video', {
+    id: elementId('video'),
+    autoplay: true,
+    playsInline: true,
+  });
+  const faceOverlay = h('canvas', {
+    id: elementId('face-overlay'),
+    className: 'face-overlay',
+  });
+  const scanOverlay = h('canvas', {
+    id: elementId('scan-overlay'),
+    className: 'face-overlay',
+  });
+  const faceGuidance = h('p', {
+    id: elementId('face-guidance'),
+    className: 'face-guidance hidden',
+    'aria-live': 'polite',
+  });
+  const cameraSelect = h(
+    'select',
+    {
+      id: elementId('camera-select'),
+      className: 'camera-select',
+      ...localized('camera.select', 'aria-label'),
+    },
+    facingOptions()
+  );
+  const qualitySelect = h(
+    'select',
+    {
+      id: elementId('quality-select'),
+      className: 'camera-select',
+      ...localized('camera.quality', 'aria-label'),
+    },
+    h('option', { value: '0', ...localized('camera.quality-best') }),
+    h('option', { value: '1' }, '720p'),
+    h('option', { value: '2' }, '480p')
+  );
+  const toggleButton = h('button', {
+    id: elementId('toggle-camera'),
+    type: 'button',
+    className: 'button',
+  });
+  const scanButton = h('button', {
+    id: elementId('scan-button'),
+    type: 'button',
+    className: 'button button-secondary',
+    disabled: true,
+    'aria-pressed': 'false',
+  });
+  const cameraPermission = h('span', {
+    id: elementId('camera-permission'),
+    className: 'permission-badge hidden',
+    role: 'status',
+  });
+  const cameraSettings = h('p', {
+    id: elementId('camera-settings'),
+    className: 'camera-settings hidden',
+  });
+  const photoFormat = h(
+    'select',
+    {
+      id: elementId('photo-format'),
+      className: 'camera-select',
+      ...localized('capture.format', 'aria-label'),
+    },
+    h('option', { value: 'image/jpeg' }, 'JPEG'),
+    h('option', { value: 'image/png' }, 'PNG'),
+    h('option', { value: 'image/webp' }, 'WebP')
+  );
+  const photoQuality = h('input', {
+    id: elementId('photo-quality'),
+    type: 'range',
+    min: '0.1',
+    max: '1',
+    step: '0.05',
+    value: '0.92',
+  });
+  const captureButton = h('button', {
+    id: elementId('capture-button'),
+    type: 'button',
+    className: 'button',
+    disabled: true,
+    ...localized('capture.take-photo'),
+  });
+  const recordButton = h('button', {
+    id: elementId('record-button'),
+    type: 'button',
+    className: 'button',
+    disabled: true,
+  });
+  const pauseButton = h('button', {
+    id: elementId('pause-button'),
+    type: 'button',
+    className: 'button button-secondary hidden',
+  });
+  const recordingTime = h('span', {
+    id: elementId('recording-time'),
+    className: 'recording-time hidden',
+  });
+  const scanResultsList = h('ul', {
+    id: elementId('scan-results-list'),
+    className: 'scan-results-list',
+    'aria-live': 'polite',
+  });
+  const scanResults = h(
+    'section',
+    { id: elementId('scan-results'), className: 'gallery hidden' },
+    h('h2', localized('scan.results')),
+    scanResultsList
+  );
+  // Screen readers announce status politely and errors right away
+  const statusMessage = h('div', {
+    id: elementId('status-message'),
+    className: 'status-message hidden',
+    role: 'status',
+    'aria-live': 'polite',
+  });
+  const errorMessage = h('div', {
+    id: elementId('error-message'),
+    className: 'error-message hidden',
+    role: 'alert',
+    'aria-live': 'assertive',
+  });
+  const helpInstructions = h('div', {
+    id: elementId('help-instructions'),
+    className: 'help-instructions hidden',
+  });
+
+  const store = createAppStore();
+  const context: WidgetContext = {
+    flow,
+    t,
+    elementId,
+    store,
+    events,
+    streams,
+    webauthn,
+    cleanups,
+    activeElement,
+    isStreaming,
+    isSignedIn,
+    startCamera,
+    stopCamera: handleStopCamera,
+    holdStream,
+    releaseStream,
+    hideMessages,
+    showStatusMessage,
+    showErrorMessage,
+    showError,
+  };
+  const call = createCallPanel(context);
+  const gallery = createGalleryPanel(context, photoFormat);
+  const auth = createAuthPanel(context, { gallery, runLivenessCheck });
+
+  const container = h(
+    'div',
+    { className: 'container camera-auth' },
+    h(
+      'h1',
+      {},
+      h('span', { className: 'gradient-text', ...localized('app.title') }),
+      ' 📸'
+    ),
+    h('p', { className: 'subtitle', ...localized('app.subtitle') }),
+    localeSelect,
+
+    h(
+      'div',
+      {
+        className: 'video-container',
+        ...localized('camera.preview-placeholder', 'data-placeholder'),
+      },
+      video,
+      faceOverlay,
+      scanOverlay
+    ),
+    faceGuidance,
+
+    h(
+      'div',
+      { className: 'controls' },
+      cameraSelect,
+      qualitySelect,
+      toggleButton,
+      scanButton,
+      cameraPermission
+    ),
+    auth.controls,
+    cameraSettings,
+    createFiltersPanel(context, filters => {
+      activeFilters = filters;
+      routeFilters();
+    }),
+    createDiagnosticsPanel(context, video),
+    call.element,
+
+    h(
+      'div',
+      { className: 'controls capture-controls' },
+      photoFormat,
+      h(
+        'label',
+        { className: 'quality-label' },
+        h('span', localized('capture.quality')),
+        photoQuality
+      ),
+      captureButton,
+      recordButton,
+      pauseButton,
+      recordingTime
+    ),
+
+    statusMessage,
+    errorMessage,
+    helpInstructions,
+    scanResults,
+    auth.passkeys,
+    auth.inspector,
+    ...gallery.elements
+  );
+  root.replaceChildren(container);
+
+  // Translate the static markup, and set the widget's language and direction
+  function localizeWidget(): void {
+    container.lang = getLocale();
+    container.dir = LOCALES[getLocale()].dir;
+    localizeElements(container, t);
+    localeSelect.value = getLocale();
+  }
+
+  localizeWidget();
+
+  // Follow the system's light or dark mode, unless the app picked one
+  const lightScheme = window.matchMedia?.('(prefers-color-scheme: light)');
+  let theme = options.theme ?? 'auto';
+
+  function applyTheme(): void {
+    container.dataset.theme =
+      theme === 'auto' ? (lightScheme?.matches ? 'light' : 'dark') : theme;
+  }
+
+  applyTheme();
+  lightScheme?.addEventListener('change', applyTheme);
+  cleanups.push(() => lightScheme?.removeEventListener('change', applyTheme));
+
+  // Focus inside a shadow root shows up on the document as its host
+  function activeElement(): Element | null {
+    return (root.getRootNode() as Document | ShadowRoot).activeElement;
+  }
+
+  let unmounted = false;
+  let cameraSelection: CameraSelection = { facingMode: 'user' };
+  // Who holds the camera open: the preview, and whatever reads it meanwhile
+  const streamHandles = new Map<string, StreamHandle>();
+  let recording: RecordingSession | null = null;
+  let stopFaceTracking: (() => void) | null = null;
+  let scanSession: ScanSession | null = null;
+  // The scanner's own view of the camera
+  let scanSource: HTMLVideoElement | null = null;
+  let livenessSession: LivenessSession | null = null;
+  // The camera to go back to when scanning ends
+  let cameraBeforeScan: CameraSelection | null = null;
+  // Newest first
+  let scannedCodes: ScannedCode[] = [];
+  let filterPipeline: FilterPipeline | null = null;
+  let activeFilters: ActiveFilter[] = [];
+
+  // Overlays over the preview follow it when it's flipped
+  function isMirrored(): boolean {
+    return activeFilters.some(({ id }) => id === mirrorFilter.id);
+  }
+
+  // Whether the camera is live, so capture, recording and switching can work
+  function isStreaming(): boolean {
+    return store.getState().camera.status === 'streaming';
+  }
+
+  // Share the open camera with another part of the widget, so the camera
+  // stays on until that part is done with it too. That part reads the
+  // handle's stream, not the preview, which may be filtered or stopped.
+  function holdStream(consumer: string): StreamHandle | null {
+    const handle = streams.retain(consumer);
+    if (handle) {
+      streamHandles.get(consumer)?.release();
+      streamHandles.set(consumer, handle);
+    }
+    return handle;
+  }
+
+  function releaseStream(consumer: string): void {
+    streamHandles.get(consumer)?.release();
+    streamHandles.delete(consumer);
+  }
+
+  // Whether there's a session, which saved captures are gated behind
+  function isSignedIn(): boolean {
+    return store.getState().auth.status === 'authenticated';
+  }
+
+  // Derive the camera and sign-in controls from the current state
+  function render({ camera, permission, auth }: AppState): void {
+    const streaming = camera.status === 'streaming';
+    toggleButton.disabled =
+      camera.status === 'requesting' ||
+      (flow === 'sign-in-first' &&
+        !streaming &&
+        auth.status !== 'authenticated');
+    toggleButton.textContent = t(
+      camera.status === 'requesting'
+        ? 'camera.requesting'
+        : streaming
+          ? 'camera.stop'
+          : 'camera.enable'
+    );
+    toggleButton.classList.toggle('active', streaming);
+    video.classList.toggle('active', streaming);
+    captureButton.disabled = !streaming;
+    recordButton.disabled = !streaming;
+    scanButton.disabled = !streaming;
+    scanButton.textContent = t(scanSession ? 'scan.stop' : 'scan.start');
+    scanButton.setAttribute('aria-pressed', String(!!scanSession));
+
+    const permissionLabel = PERMISSION_LABELS[permission];
+    cameraPermission.textContent = permissionLabel ? t(permissionLabel) : '';
+    cameraPermission.className = `permission-badge permission-${permission}`;
+    cameraPermission.classList.toggle('hidden', permission === 'unknown');
+  }
+
+  // Rebuild the camera picker from the enumerated devices
+  function renderCameraOptions(cameras: CameraDevice[]): void {
+    // Device IDs stay hidden until camera permission has been granted
+    replaceChildren(
+      cameraSelect,
+      facingOptions(),
+      cameras
+        .filter(camera => camera.deviceId)
+        .map(camera =>
+          h('option', { value: `device:${camera.deviceId}` }, camera.label)
+        )
+    );
+    localizeElements(cameraSelect, t);
+
+    // Fall back to the default camera if the selected one was unplugged
+    const value = selectionToValue(cameraSelection);
+    if ([...cameraSelect.options].some(option => option.value === value)) {
+      cameraSelect.value = value;
+    } else {
+      cameraSelection = { facingMode: 'user' };
+      cameraSelect.value = selectionToValue(cameraSelection);
+    }
+  }
+
+  // Start the profile ladder at the chosen quality, falling back below it
+  function selectedProfiles(): typeof DEFAULT_PROFILES {
+    return DEFAULT_PROFILES.slice(Number(qualitySelect.value));
+  }
+
+  // Show what the camera actually negotiated
+  function renderCameraSettings(): void {
+    const negotiated = streams.getNegotiatedCamera();
+    if (!negotiated) {
+      cameraSettings.classList.add('hidden');
+      return;
+    }
+
+    const { profile, settings } = negotiated;
+    const parts = [`${settings.width ?? '?'}×${settings.height ?? '?'}`];
+    if (settings.frameRate) {
+      parts.push(`${Math.round(settings.frameRate)} fps`);
+    }
+    if (profile.width && settings.width !== profile.width) {
+      parts.push(t('camera.requested-profile', { profile: profile.name }));
+    }
+
+    cameraSettings.textContent = parts.join(' · ');
+    cameraSettings.classList.remove('hidden');
+  }
+
+  async function refreshCameraOptions(): Promise<void> {
+    try {
+      renderCameraOptions(await listCameras());
+    } catch (error) {
+      console.warn('Failed to enumerate cameras:', error);
+    }
+  }
+
+  // Hide all messages
+  function hideMessages(): void {
+    statusMessage.classList.add('hidden');
+    errorMessage.classList.add('hidden');
+    helpInstructions.classList.add('hidden');
+  }
+
+  // Show status message (success/info)
+  function showStatusMessage(
+    message: string,
+    type: 'success' | 'info' = 'success'
+  ): void {
+    statusMessage.classList.remove('hidden');
+    if (type === 'info') {
+      statusMessage.classList.add('info');
+    } else {
+      statusMessage.classList.remove('info');
+    }
+    statusMessage.textContent = message;
+  }
+
+  // Show numbered help steps under a heading
+  function showHelp(heading: MessageKey, help: HelpInstructions): void {
+    helpInstructions.classList.remove('hidden');
+    replaceChildren(
+      helpInstructions,
+      h('h3', {}, t(heading, { title: help.title })),
+      h(
+        'ol',
+        {},
+        help.steps.map(step => h('li', {}, step))
+      )
+    );
+  }
+
+  // Show steps for unblocking the camera in this browser and OS
+  function showCameraHelp(): void {
+    showHelp('help.camera-heading', getCameraHelp());
+  }
+
+  // Show an error message on its own
+  function showErrorMessage(message: string): void {
+    errorMessage.classList.remove('hidden');
+    replaceChildren(
+      errorMessage,
+      h('strong', {}, t('app.error')),
+      ' ',
+      message
+    );
+  }
+
+  // Show error message with browser-specific help
+  function showError(
+    error: CameraError | WebAuthnError | CaptureError | RecorderError
+  ): void {
+    showErrorMessage(error.message);
+
+    if (error.type === 'permission-denied') {
+      showCameraHelp();
+    } else if (error.type === 'not-allowed' || error.type === 'not-supported') {
+      showHelp('help.passkey-heading', getPasskeyHelp());
+    }
+  }
+
+  // Track faces in the camera's own frames, unfiltered, and tell the user
+  // how to frame theirs
+  function startFaceGuidance(): void {
+    stopFaceGuidance();
+    const handle = streamHandles.get('preview');
+    if (!handle) return;
+
+    const source = playDetached(handle.stream);
+    try {
+      const stopTracking = startFaceTracking(source, faceOverlay, {
+        mirrored: isMirrored,
+        onResult: (_faces, guidance) => {
+          faceGuidance.textContent = guidance.message;
+          faceGuidance.classList.toggle(
+            'ready',
+            guidance.centered && guidance.sized
+          );
+          faceGuidance.classList.remove('hidden');
+        },
+      });
+      stopFaceTracking = () => {
+        stopTracking();
+        stopDetached(source);
+      };
+    } catch (error) {
+      stopDetached(source);
+      console.warn('Face detection is unavailable:', error);
+    }
+  }
+
+  function stopFaceGuidance(): void {
+    stopFaceTracking?.();
+    stopFaceTracking = null;
+    faceGuidance.classList.add('hidden');
+  }
+
+  // Ask the user to show they're really at the camera, with the prompt where
+  // face guidance usually is
+  async function runLivenessCheck(): Promise<LivenessResult> {
+    stopFaceGuidance();
+    const handle = holdStream('liveness');
+    const source = handle && playDetached(handle.stream);
+    // Without a camera the check ends straight away with 'no-camera'
+    const session = startLivenessCheck(source);
+    livenessSession = session;
+    faceGuidance.textContent = t(`liveness.${session.challenge}`);
+    faceGuidance.classList.remove('hidden', 'ready');
+
+    const result = await session.finished;
+    livenessSession = null;
+    if (source) stopDetached(source);
+    releaseStream('liveness');
+    faceGuidance.classList.add('hidden');
+    if (isStreaming()) {
+      startFaceGuidance();
+    }
+    return result;
+  }
+
+  // List what's been scanned, with web addresses as links
+  function renderScanResults(): void {
+    scanResults.classList.toggle('hidden', scannedCodes.length === 0);
+    replaceChildren(
+      scanResultsList,
+      scannedCodes.map(({ format, rawValue }) =>
+        h(
+          'li',
+          { className: 'scan-result' },
+          h(
+            'span',
+            { className: 'scan-format' },
+            t(SCAN_FORMAT_LABELS[format])
+          ),
+          /^https?:\/\//i.test(rawValue)
+            ? h(
+                'a',
+                {
+                  href: rawValue,
+                  target: '_blank',
+                  rel: 'noopener noreferrer',
+                },
+                rawValue
+              )
+            : h('span', { dir: 'auto' }, rawValue)
+        )
+      )
+    );
+  }
+
+  // Scan for codes, on the rear camera where there is one. Face guidance
+  // would outline faces over the codes, so it pauses meanwhile.
+  async function startScanMode(): Promise<void> {
+    if (scanSession || !isStreaming()) return;
+
+    stopFaceGuidance();
+    hideMessages();
+    cameraBeforeScan = cameraSelection;
+    await selectCamera({ facingMode: 'environment' });
+    // Switching cameras can fail and release the camera
+    if (!isStreaming()) return;
+
+    const handle = holdStream('scanner');
+    if (!handle) return;
+    scanSource = playDetached(handle.stream);
+    const session = startScanning(scanSource, scanOverlay, {
+      mirrored: isMirrored,
+    });
+    scanSession = session;
+    session.subscribe(event => {
+      if (event.type === 'read') {
+        scannedCodes = [event.code, ...scannedCodes].slice(
+          0,
+          MAX_SCANNED_CODES
+        );
+        renderScanResults();
+      } else if (event.type === 'error') {
+        stopScanMode();
+        showStatusMessage(event.error.message, 'info');
+      }
+    });
+    render(store.getState());
+  }
+
+  // Stop scanning, and hand back the camera that was in use before
+  function endScanSession(): CameraSelection | null {
+    const previous = cameraBeforeScan;
+    scanSession?.stop();
+    scanSession = null;
+    if (scanSource) stopDetached(scanSource);
+    scanSource = null;
+    releaseStream('scanner');
+    cameraBeforeScan = null;
+    render(store.getState());
+    return previous;
+  }
+
+  async function stopScanMode(): Promise<void> {
+    if (!scanSession) return;
+
+    const previous = endScanSession();
+    if (previous) {
+      await selectCamera(previous);
+    }
+    if (isStreaming()) {
+      startFaceGuidance();
+    }
+  }
+
+  scanButton.addEventListener('click', () => {
+    if (scanSession) {
+      stopScanMode();
+    } else {
+      startScanMode();
+    }
+  });
+
+  // Show the camera as it is, and only route it through the filter pipeline
+  // while a filter is on: redrawing every frame costs CPU, stalls in
+  // background tabs and hides the camera's own track. A recording keeps the
+  // stream it started with until it ends.
+  function routeFilters(): void {
+    const handle = streamHandles.get('preview');
+    if (!handle) return;
+
+    if (filterPipeline) {
+      filterPipeline.setFilters(activeFilters);
+      if (activeFilters.length > 0 || recording) return;
+      filterPipeline.stop();
+      filterPipeline = null;
+      video.srcObject = handle.stream;
+    } else if (activeFilters.length > 0) {
+      // Without canvas capture the camera is shown as it is
+      try {
+        filterPipeline = createFilterPipeline(handle.stream);
+        filterPipeline.setFilters(activeFilters);
+        video.srcObject = filterPipeline.stream;
+      } catch (error) {
+        console.warn('Video filters are unavailable:', error);
+      }
+    }
+  }
+
+  // Start camera. A sign-in's liveness check may start it before there's a
+  // session.
+  async function startCamera(beforeSignIn = false): Promise<void> {
+    const { camera } = store.getState();
+    if (camera.status === 'requesting' || camera.status === 'streaming') return;
+    // In the sign-in-first flow the camera waits for a session
+    if (flow === 'sign-in-first' && !isSignedIn() && !beforeSignIn) return;
+
+    store.dispatch({ type: 'camera/request' });
+    hideMessages();
+
+    try {
+      const handle = await streams.acquire('preview', {
+        selection: cameraSelection,
+        profiles: selectedProfiles(),
+      });
+      // The widget may have been unmounted while the browser asked
+      if (unmounted) {
+        handle.release();
+        return;
+      }
+      streamHandles.set('preview', handle);
+      video.srcObject = handle.stream;
+      routeFilters();
+      renderCameraSettings();
+
+      // Pin the picker to the device we actually got, now that labels are known
+      const activeId = streams.getActiveCameraId();
+      if (activeId) {
+        cameraSelection = { deviceId: activeId };
+      }
+      await refreshCameraOptions();
+
+      store.dispatch({ type: 'camera/started' });
+      events.emit('stream-started', { stream: video.srcObject as MediaStream });
+      startFaceGuidance();
+    } catch (err) {
+      const error = err as CameraError;
+      store.dispatch({ type: 'camera/failed', error });
+      showError(error);
+    }
+  }
+
+  // Stop camera
+  function handleStopCamera(): void {
+    const wasStreaming = isStreaming();
+    // Finish the recording first so the last chunk isn't lost
+    recording?.stop();
+    call.stop();
+    const beforeScan = endScanSession();
+    livenessSession?.cancel();
+    stopFaceGuidance();
+    filterPipeline?.stop();
+    filterPipeline = null;
+    // The camera stops once a recording still finishing lets go of it too
+    releaseStream('preview');
+    video.srcObject = null;
+
+    store.dispatch({ type: 'camera/stopped' });
+    if (wasStreaming) {
+      events.emit('stream-stopped', {});
+    }
+    renderCameraSettings();
+    hideMessages();
+    // Start on the usual camera next time
+    if (beforeScan) {
+      selectCamera(beforeScan);
+    }
+  }
+
+  // Toggle camera on/off
+  toggleButton.addEventListener('click', () => {
+    if (isStreaming()) {
+      handleStopCamera();
+    } else {
+      startCamera();
+    }
+  });
+
+  // Switch cameras live, or remember the choice for the next start
+  async function selectCamera(selection: CameraSelection): Promise<void> {
+    const previous = cameraSelection;
+    cameraSelection = selection;
+    cameraSelect.value = selectionToValue(selection);
+
+    if (!isStreaming()) return;
+
+    try {
+      cameraSelect.disabled = true;
+      hideMessages();
+      const stream = await streams.switchCamera(cameraSelection);
+      // The filter pipeline keeps reading the same stream as its tracks swap
+      if (!filterPipeline) {
+        video.srcObject = stream;
+      }
+      await call.replaceTracks(stream);
+      renderCameraSettings();
+    } catch (err) {
+      // A failed retry releases the camera entirely
+      if (!streams.getActiveCameraId()) {
+        handleStopCamera();
+      }
+
+      cameraSelection = previous;
+      cameraSelect.value = selectionToValue(previous);
+      showError(err as CameraError);
+    } finally {
+      cameraSelect.disabled = false;
+    }
+  }
+
+  cameraSelect.addEventListener('change', () => {
+    // Picking a camera while scanning keeps it afterwards
+    cameraBeforeScan = null;
+    selectCamera(valueToSelection(cameraSelect.value));
+  });
+
+  // Reopen the camera with the new quality ladder
+  qualitySelect.addEventListener('change', async () => {
+    if (!isStreaming()) return;
+
+    handleStopCamera();
+    await startCamera();
+  });
+
+  // Keep the picker in sync as cameras are plugged in or removed. Unplugging
+  // the active camera ends its track, which the stream manager recovers from.
+  cleanups.push(watchCameras(renderCameraOptions));
+
+  // Carry on with the camera the stream manager reopened
+  async function handleStreamRecovered(stream: MediaStream): Promise<void> {
+    // The filter pipeline keeps reading the same stream as its tracks swap
+    if (!filterPipeline) {
+      video.srcObject = stream;
+    }
+    const activeId = streams.getActiveCameraId();
+    if (activeId) {
+      cameraSelection = { deviceId: activeId };
+    }
+    renderCameraSettings();
+    showStatusMessage(t('camera.reconnected'));
+    await call.replaceTracks(stream);
+    await refreshCameraOptions();
+  }
+
+  // Tell the user when the system pauses or takes away the camera
+  cleanups.push(
+    streams.subscribe(event => {
+      if (event.type === 'mute') {
+        showStatusMessage(t('camera.paused'), 'info');
+      } else if (event.type === 'unmute') {
+        if (statusMessage.textContent === t('camera.paused')) {
+          statusMessage.classList.add('hidden');
+        }
+      } else if (event.type === 'recovering') {
+        showStatusMessage(
+          t('camera.reconnecting', {
+            attempt: event.attempt,
+            attempts: event.attempts,
+          }),
+          'info'
+        );
+      } else if (event.type === 'recovered') {
+        // Handing the new tracks to a call can still fail
+        handleStreamRecovered(event.stream).catch(error => {
+          console.warn('Failed to resume with the reopened camera:', error);
+          showErrorMessage(
+            t('camera.error.unknown', {
+              reason: (error as Error).message || t('app.unknown-reason'),
+            })
+          );
+        });
+      } else if (event.type === 'lost') {
+        handleStopCamera();
+        showError(event.error);
+      }
+    })
+  );
+
+  // Offer to start the camera again from the status message
+  function offerCameraRestart(): void {
+    showStatusMessage(t('camera.allowed-again'), 'info');
+    statusMessage.append(
+      ' ',
+      h(
+        'button',
+        {
+          type: 'button',
+          className: 'button status-action',
+          // The message goes away with the restart, so keep focus nearby
+          onclick: async () => {
+            await startCamera();
+            toggleButton.focus();
+          },
+        },
+        t('camera.restart')
+      )
+    );
+  }
+
+  // Show the permission before the user clicks, and react when it changes
+  cleanups.push(
+    watchCameraPermission(async permission => {
+      const previous = store.getState().permission;
+      store.dispatch({ type: 'permission/changed', permission });
+      if (permission === previous) return;
+
+      if (permission === 'denied' && !isStreaming()) {
+        showCameraHelp();
+      } else if (permission === 'prompt' && previous === 'denied') {
+        // The block was reset, so the next click will prompt again
+        helpInstructions.classList.add('hidden');
+      } else if (permission === 'granted') {
+        const { camera } = store.getState();
+        const wasBlocked =
+          previous === 'denied' ||
+          (camera.status === 'error' &&
+            camera.error.type === 'permission-denied');
+        if (!wasBlocked) return;
+
+        hideMessages();
+        // Labels and device IDs become visible once access is granted
+        await refreshCameraOptions();
+        if (!isStreaming()) {
+          offerCameraRestart();
+        }
+      }
+    })
+  );
+
+  refreshCameraOptions();
+
+  // Take a photo from the live stream and add it to the gallery
+  captureButton.addEventListener('click', async () => {
+    try {
+      captureButton.disabled = true;
+      hideMessages();
+
+      // The preview may be the filter pipeline's canvas, which ImageCapture
+      // can't take a photo from, so shoot the camera and filter the still
+      const photo = await capturePhoto(
+        streamHandles.get('preview')?.stream ?? null,
+        {
+          format: photoFormat.value as PhotoFormat,
+          quality: Number(photoQuality.value),
+          filters: activeFilters,
+        }
+      );
+      events.emit('capture', { kind: 'photo', photo });
+      await gallery.keepPhoto(photo);
+    } catch (err) {
+      showError(err as CaptureError);
+    } finally {
+      captureButton.disabled = !isStreaming();
+    }
+  });
+
+  // Label the recording buttons for the recording in progress, if any
+  function renderRecordingLabels(): void {
+    recordButton.textContent = t(
+      recording ? 'capture.stop-recording' : 'capture.record'
+    );
+    pauseButton.textContent = t(
+      recording?.state() === 'paused' ? 'capture.resume' : 'capture.pause'
+    );
+  }
+
+  // Reset the recording controls once a recording ends
+  function renderRecordingStopped(): void {
+    recording = null;
+    // Filters turned off while recording can come out of the pipeline now
+    routeFilters();
+    renderRecordingLabels();
+    recordButton.classList.remove('active');
+    recordButton.disabled = !isStreaming();
+    pauseButton.classList.add('hidden');
+    recordingTime.classList.add('hidden');
+    recordingTime.classList.remove('paused');
+    cameraSelect.disabled = false;
+    qualitySelect.disabled = false;
+  }
+
+  // Start recording, or stop the one in progress
+  recordButton.addEventListener('click', async () => {
+    if (recording) {
+      recording.stop();
+      return;
+    }
+
+    let session: RecordingSession;
+    try {
+      hideMessages();
+      session = startRecording(video.srcObject as MediaStream | null, {
+        maxDurationMs: MAX_RECORDING_MS,
+        onTick: elapsed => {
+          recordingTime.textContent = `● ${formatDuration(
+            elapsed
+          )} / ${formatDuration(MAX_RECORDING_MS)}`;
+        },
+      });
+    } catch (err) {
+      showError(err as RecorderError);
+      return;
+    }
+
+    recording = session;
+    holdStream('recorder');
+    renderRecordingLabels();
+    recordButton.classList.add('active');
+    pauseButton.classList.remove('hidden');
+    recordingTime.textContent = `● 0:00 / ${formatDuration(MAX_RECORDING_MS)}`;
+    recordingTime.classList.remove('hidden');
+    // Swapping tracks mid-recording makes MediaRecorder bail out
+    cameraSelect.disabled = true;
+    qualitySelect.disabled = true;
+
+    try {
+      const clip = await session.finished;
+      events.emit('capture', { kind: 'recording', recording: clip });
+      await gallery.keepRecording(clip);
+    } catch (err) {
+      showError(err as RecorderError);
+    } finally {
+      releaseStream('recorder');
+      renderRecordingStopped();
+    }
+  });
+
+  // Pause or resume the recording in progress
+  pauseButton.addEventListener('click', () => {
+    if (!recording) return;
+
+    if (recording.state() === 'paused') {
+      recording.resume();
+      recordingTime.classList.remove('paused');
+    } else {
+      recording.pause();
+      recordingTime.classList.add('paused');
+    }
+    renderRecordingLabels();
+  });
+
+  // In the sign-in-first flow the camera goes with the session
+  store.subscribe(({ auth }) => {
+    if (flow === 'sign-in-first' && auth.status === 'idle' && isStreaming()) {
+      handleStopCamera();
+    }
+  });
+
+  store.subscribe(render);
+  render(store.getState());
+  renderRecordingLabels();
+
+  localeSelect.addEventListener('change', () => {
+    setLocale(localeSelect.value as Locale);
+  });
+
+  // Re-render everything built from translated text. Messages already shown
+  // were worded in the old language, so they're cleared.
+  cleanups.push(
+    onLocaleChange(() => {
+      localizeWidget();
+      render(store.getState());
+      renderRecordingLabels();
+      renderCameraSettings();
+      renderScanResults();
+      hideMessages();
+      auth.render();
+      call.render();
+      gallery.render();
+    })
+  );
+
+  auth.start();
+
+  // Release the camera and everything else the widget started, and empty
+  // the root
+  function unmount(): void {
+    if (unmounted) return;
+    unmounted = true;
+
+    handleStopCamera();
+    // Nothing the widget started may keep the camera on after it's gone
+    streams.stopAll();
+    cleanups.splice(0).forEach(cleanup => cleanup());
+    events.clear();
+    root.replaceChildren();
+  }
+
+  return {
+    on: events.on,
+    setTheme(next) {
+      theme = next;
+      applyTheme();
+    },
+    unmount,
+  };
+}
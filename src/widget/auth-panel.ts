@@ -0,0 +1,814 @@
+// Passkey sign-in and registration, the session that follows, passkey
+// management and the developer panel that decodes each ceremony.
+//
+// The session belongs to the tab, not to a widget (see session.ts), so a
+// widget that signs in or out tells the others on the page to follow.
+
+import type { AppState } from '../app-state';
+import { append, h, moveFocus, replaceChildren } from '../dom';
+import { createEventBus } from '../events';
+import { localized, type MessageKey } from '../i18n';
+import {
+  inspectCredentialResponse,
+  type CredentialInspection,
+} from '../inspector';
+import type { LivenessResult } from '../liveness';
+import { clearSession, onSessionExpired } from '../session';
+import {
+  checkConditionalMediationSupport,
+  checkPlatformAuthenticatorSupport,
+  checkWebAuthnSupport,
+  clearStoredCredential,
+  completeSignIn,
+  getKnownAccounts,
+  getSignedInUsername,
+  hasStoredCredential,
+  listCredentials,
+  refreshSession,
+  renameCredential,
+  revokeCredential,
+  type AuthenticationResult,
+  type AuthenticatorAttachmentChoice,
+  type PasskeyInfo,
+  type WebAuthnError,
+} from '../webauthn';
+import { formatDate, type WidgetContext } from './context';
+import type { GalleryPanel } from './gallery-panel';
+
+// Check in with the server at most this often while the user is active
+const SESSION_REFRESH_INTERVAL_MS = 60_000;
+
+// Every mounted widget, hearing about sign-ins and sign-outs in the others
+const sessionPeers = createEventBus<{
+  'signed-in': { from: WidgetContext; username: string };
+  'signed-out': { from: WidgetContext; message: MessageKey };
+}>();
+
+export interface AuthPanelOptions {
+  gallery: GalleryPanel;
+  // The camera challenge for a sign-in the server only took provisionally
+  runLivenessCheck(): Promise<LivenessResult>;
+}
+
+export interface AuthPanel {
+  // The sign-in controls, next to the camera's
+  controls: HTMLElement;
+  passkeys: HTMLElement;
+  inspector: HTMLElement;
+  // Re-render everything built from translated text
+  render(): void;
+  // Pick up the tab's session and offer autofill sign-in
+  start(): void;
+}
+
+export function createAuthPanel(
+  context: WidgetContext,
+  { gallery, runLivenessCheck }: AuthPanelOptions
+): AuthPanel {
+  const { t, elementId, flow, store, events, webauthn } = context;
+  const usernameInput = h('input', {
+    id: elementId('username'),
+    className: 'text-input',
+    type: 'text',
+    autocomplete: 'username webauthn',
+    ...localized('auth.username-placeholder', 'placeholder'),
+    ...localized('auth.username', 'aria-label'),
+  });
+  const attachmentSelect = h(
+    'select',
+    {
+      id: elementId('authenticator-attachment'),
+      className: 'camera-select',
+      ...localized('auth.attachment', 'aria-label'),
+    },
+    h('option', {
+      value: 'platform',
+      ...localized('auth.attachment-platform'),
+    }),
+    h('option', {
+      value: 'cross-platform',
+      ...localized('auth.attachment-cross-platform'),
+    }),
+    h('option', { value: 'any', ...localized('auth.attachment-any') })
+  );
+  const webauthnButton = h('button', {
+    id: elementId('webauthn-button'),
+    type: 'button',
+    className: 'button button-secondary',
+  });
+  const managePasskeysButton = h('button', {
+    id: elementId('manage-passkeys'),
+    type: 'button',
+    className: 'button button-secondary hidden',
+    'aria-controls': elementId('passkeys'),
+    'aria-expanded': 'false',
+    ...localized('passkeys.manage'),
+  });
+  const signOutButton = h('button', {
+    id: elementId('sign-out'),
+    type: 'button',
+    className: 'button button-secondary hidden',
+    ...localized('session.sign-out'),
+  });
+  const passkeysHeading = h('h2', {
+    id: elementId('passkeys-heading'),
+    ...localized('passkeys.manage'),
+  });
+  const passkeysAccount = h('p', {
+    id: elementId('passkeys-account'),
+    className: 'passkeys-account',
+  });
+  const passkeysList = h('ul', {
+    id: elementId('passkeys-list'),
+    className: 'passkeys-list',
+  });
+  const passkeyNickname = h('input', {
+    id: elementId('passkey-nickname'),
+    className: 'text-input',
+    type: 'text',
+    ...localized('passkeys.nickname', 'placeholder'),
+    ...localized('passkeys.nickname', 'aria-label'),
+  });
+  const addPasskeyButton = h('button', {
+    id: elementId('add-passkey'),
+    type: 'button',
+    className: 'button',
+    ...localized('passkeys.add'),
+  });
+  const forgetPasskeysButton = h('button', {
+    id: elementId('forget-passkeys'),
+    type: 'button',
+    className: 'button button-secondary',
+    ...localized('passkeys.forget'),
+  });
+  const passkeysPanel = h(
+    'section',
+    {
+      id: elementId('passkeys'),
+      className: 'passkeys hidden',
+      'aria-labelledby': elementId('passkeys-heading'),
+    },
+    passkeysHeading,
+    passkeysAccount,
+    passkeysList,
+    h(
+      'div',
+      { className: 'controls' },
+      passkeyNickname,
+      addPasskeyButton,
+      forgetPasskeysButton
+    )
+  );
+  const inspectorBody = h('div', {
+    id: elementId('inspector-body'),
+    className: 'inspector-body',
+    dir: 'ltr',
+  });
+  const inspector = h(
+    'details',
+    { id: elementId('inspector'), className: 'inspector hidden' },
+    h('summary', localized('inspector.title')),
+    inspectorBody
+  );
+  // Only promise biometrics when the device has a platform authenticator
+  let authenticateLabel: MessageKey = 'auth.with-passkey';
+
+  // Derive the sign-in controls from the current state
+  function renderAuth({ auth }: AppState): void {
+    const signedIn = auth.status === 'authenticated';
+    webauthnButton.disabled =
+      auth.status === 'authenticating' || auth.status === 'registering';
+    webauthnButton.textContent = t(
+      auth.status === 'authenticating'
+        ? 'auth.authenticating'
+        : auth.status === 'registering'
+          ? 'auth.registering'
+          : signedIn
+            ? 'auth.authenticated'
+            : authenticateLabel
+    );
+    webauthnButton.classList.toggle('authenticated', signedIn);
+    managePasskeysButton.classList.toggle('hidden', !signedIn);
+    signOutButton.classList.toggle('hidden', !signedIn);
+    if (!signedIn) {
+      // Don't leave focus stranded in the panel as it closes
+      if (passkeysPanel.contains(context.activeElement())) {
+        webauthnButton.focus();
+      }
+      setPasskeysPanelOpen(false);
+    }
+  }
+
+  // Build one titled group of label/value rows for the inspector
+  function renderInspectorGroup(
+    title: string,
+    rows: [string, string | undefined][]
+  ): HTMLElement {
+    return h(
+      'section',
+      {},
+      h('h3', {}, title),
+      h(
+        'dl',
+        {},
+        rows
+          .filter(([, value]) => value !== undefined)
+          .flatMap(([label, value]) => [h('dt', {}, label), h('dd', {}, value)])
+      )
+    );
+  }
+
+  // Show the decoded response from the last ceremony in the developer panel
+  function renderInspection(result: AuthenticationResult): void {
+    if (!result.response) return;
+
+    let inspection: CredentialInspection;
+    try {
+      inspection = inspectCredentialResponse(result.response);
+    } catch (error) {
+      console.warn('Failed to decode credential response:', error);
+      return;
+    }
+
+    const { clientData, authenticatorData: data } = inspection;
+    const flags = [
+      ['UP', data.flags.userPresent],
+      ['UV', data.flags.userVerified],
+      ['BE', data.flags.backupEligible],
+      ['BS', data.flags.backedUp],
+      ['AT', data.flags.attestedCredentialData],
+      ['ED', data.flags.extensionData],
+    ]
+      .map(([name, set]) => `${name} ${set ? '✓' : '✗'}`)
+      .join('  ');
+    const publicKey = data.publicKey;
+
+    inspectorBody.replaceChildren(
+      renderInspectorGroup('Credential', [
+        ['Ceremony', inspection.ceremony],
+        ['Credential ID', inspection.credentialId],
+        ['Transports', inspection.transports?.join(', ') || undefined],
+        ['User handle', inspection.userHandle ?? undefined],
+      ]),
+      renderInspectorGroup('clientDataJSON', [
+        ['Type', clientData.type],
+        ['Challenge', clientData.challenge],
+        ['Origin', clientData.origin],
+        ['Cross-origin', String(clientData.crossOrigin ?? false)],
+      ]),
+      renderInspectorGroup('authenticatorData', [
+        ['RP ID hash', data.rpIdHash],
+        ['Flags', `${flags} (0x${data.flagsByte.toString(16)})`],
+        ['Sign count', String(data.signCount)],
+        ['AAGUID', data.aaguid],
+        ['Authenticator', data.aaguid && (data.authenticatorName ?? 'Unknown')],
+        ['Extensions', data.extensions],
+      ]),
+      ...(publicKey
+        ? [
+            renderInspectorGroup('Public key (COSE)', [
+              ['Key type', publicKey.keyType],
+              ['Algorithm', publicKey.algorithm],
+              ['Curve', publicKey.curve],
+              ...Object.entries(publicKey.parameters),
+            ]),
+          ]
+        : []),
+      ...(inspection.attestation
+        ? [
+            renderInspectorGroup('Attestation', [
+              ['Format', inspection.attestation.fmt],
+              ['Statement', inspection.attestation.statement],
+            ]),
+          ]
+        : []),
+      ...(inspection.signature
+        ? [renderInspectorGroup('Signature', [['Bytes', inspection.signature]])]
+        : [])
+    );
+    inspector.classList.remove('hidden');
+  }
+
+  function describeLiveness(liveness: LivenessResult): string {
+    return liveness.passed
+      ? t('liveness.passed', {
+          confidence: Math.round(liveness.confidence * 100),
+        })
+      : t(`liveness.failure.${liveness.failure ?? 'timeout'}`);
+  }
+
+  // Take the camera challenge for a sign-in the server only took
+  // provisionally, and report it. The server decides whether the result is
+  // good enough, including from a browser that can't check at all; when it
+  // isn't, the session ends and this throws.
+  async function checkSignInLiveness(
+    result: AuthenticationResult
+  ): Promise<LivenessResult> {
+    const wasStreaming = context.isStreaming();
+    await context.startCamera(true);
+    const liveness = await runLivenessCheck();
+    try {
+      await completeSignIn(result, liveness);
+      return liveness;
+    } catch (err) {
+      if (!wasStreaming) context.stopCamera();
+      if (liveness.passed) throw err;
+
+      const error: WebAuthnError = {
+        type: 'verification-failed',
+        message:
+          liveness.failure === 'not-supported'
+            ? t('liveness.unavailable')
+            : t('liveness.failed', { reason: describeLiveness(liveness) }),
+        code: (err as WebAuthnError).code,
+      };
+      throw error;
+    }
+  }
+
+  // Update the UI after a verified sign-in (button, autofill or registration)
+  async function handleAuthenticated(
+    result: AuthenticationResult
+  ): Promise<void> {
+    const username = result.username ?? usernameInput.value.trim();
+    // Nothing is unlocked until the user has taken the camera challenge
+    if (result.provisional) {
+      result.liveness = await checkSignInLiveness(result);
+    }
+    // Unlock first, so saved media can be shown as soon as the user is in
+    await gallery.unlockMedia(result);
+    store.dispatch({ type: 'auth/succeeded', username });
+    usernameInput.value = username;
+    sessionPeers.emit('signed-in', { from: context, username });
+
+    // Signing in unlocks the camera; it stays on until the user stops it
+    await context.startCamera();
+    events.emit('auth-success', {
+      username,
+      isNewRegistration: !!result.isNewRegistration,
+      liveness: result.liveness,
+    });
+    renderInspection(result);
+
+    const verified = t(
+      result.isNewRegistration ? 'auth.registered' : 'auth.verified',
+      { username }
+    );
+    if (result.liveness) {
+      context.showStatusMessage(
+        `${verified} ${describeLiveness(result.liveness)}`,
+        result.liveness.passed ? 'success' : 'info'
+      );
+    } else {
+      context.showStatusMessage(verified);
+    }
+  }
+
+  // ============================================================
+  // FIXED: Handle WebAuthn authentication
+  // The key fix is to call WebAuthn IMMEDIATELY on click,
+  // before any async operations like camera access.
+  // Safari/iOS requires WebAuthn to be called synchronously
+  // within the user gesture (click event).
+  // ============================================================
+  async function handleWebAuthnAuthentication(): Promise<void> {
+    const { auth } = store.getState();
+    if (auth.status === 'authenticating' || auth.status === 'registering') {
+      return;
+    }
+
+    // Check if user has a registered credential. Without a username,
+    // let the authenticator offer any discoverable passkey for this site.
+    const username = usernameInput.value.trim();
+    const hasCredential = !username || hasStoredCredential(username);
+
+    try {
+      store.dispatch({
+        type: hasCredential ? 'auth/authenticate' : 'auth/register',
+      });
+      context.hideMessages();
+
+      // Check if WebAuthn is supported
+      if (!checkWebAuthnSupport()) {
+        const error: WebAuthnError = {
+          type: 'not-supported',
+          message: t('auth.not-supported'),
+        };
+        throw error;
+      }
+
+      let result: AuthenticationResult;
+      if (hasCredential) {
+        // ============================================================
+        // AUTHENTICATION FLOW
+        // IMPORTANT: Call WebAuthn FIRST, before camera access!
+        // ============================================================
+        result = await webauthn.authenticateUser(username);
+      } else {
+        // ============================================================
+        // REGISTRATION FLOW
+        // IMPORTANT: Call WebAuthn FIRST, before camera access!
+        // ============================================================
+        try {
+          result = await webauthn.registerCredential({
+            username,
+            attachment: selectedAttachment(),
+          });
+        } catch (err) {
+          // The account already exists, so this is probably a synced passkey
+          // on a browser that hasn't seen it yet: sign in instead
+          if ((err as WebAuthnError).code !== 'unauthorized') throw err;
+
+          store.dispatch({ type: 'auth/authenticate' });
+          result = await webauthn.authenticateUser(username);
+        }
+      }
+
+      // Only try camera AFTER WebAuthn succeeds
+      if (result.success) {
+        await handleAuthenticated(result);
+      }
+    } catch (err) {
+      const error = err as WebAuthnError;
+      store.dispatch({ type: 'auth/failed', error });
+      events.emit('auth-error', { error });
+      context.showError(error);
+    } finally {
+      // Challenges are single-use, so get fresh options for the next click
+      webauthn.prefetchWebAuthnOptions(
+        usernameInput.value,
+        selectedAttachment()
+      );
+      startAutofillSignIn();
+    }
+  }
+
+  // The authenticator new passkeys should be created on
+  function selectedAttachment(): AuthenticatorAttachmentChoice {
+    return attachmentSelect.value as AuthenticatorAttachmentChoice;
+  }
+
+  // Default to a security key or phone when there's no built-in authenticator
+  async function initAuthenticatorChoice(): Promise<void> {
+    const hasPlatformAuthenticator = await checkPlatformAuthenticatorSupport();
+    authenticateLabel = hasPlatformAuthenticator
+      ? 'auth.with-biometrics'
+      : 'auth.with-passkey';
+
+    if (!hasPlatformAuthenticator) {
+      attachmentSelect.value = 'cross-platform';
+    }
+    renderAuth(store.getState());
+  }
+
+  // Offer passkeys in the username field's autofill while the page is idle
+  async function startAutofillSignIn(): Promise<void> {
+    if (
+      store.getState().auth.status === 'authenticated' ||
+      !(await checkConditionalMediationSupport())
+    ) {
+      return;
+    }
+
+    try {
+      const result = await webauthn.startConditionalSignIn();
+      if (result?.success) {
+        context.hideMessages();
+        await handleAuthenticated(result);
+      }
+    } catch (err) {
+      const error = err as WebAuthnError;
+      events.emit('auth-error', { error });
+      context.showError(error);
+    }
+  }
+
+  // WebAuthn button click handler
+  webauthnButton.addEventListener('click', () => {
+    handleWebAuthnAuthentication();
+  });
+
+  // Fetch options for the typed account once the user is done typing
+  usernameInput.addEventListener('change', () => {
+    webauthn.prefetchWebAuthnOptions(usernameInput.value, selectedAttachment());
+  });
+
+  attachmentSelect.addEventListener('change', () => {
+    webauthn.prefetchWebAuthnOptions(usernameInput.value, selectedAttachment());
+  });
+
+  // Render one passkey row with rename and revoke actions
+  // The server won't revoke an account's last passkey
+  function renderPasskey(
+    passkey: PasskeyInfo,
+    revocable: boolean
+  ): HTMLLIElement {
+    const name = h('strong', {}, passkey.nickname);
+    const actions = h('div', { className: 'gallery-actions' });
+
+    // Swap the name for an input and the actions for a save button
+    const startRename = () => {
+      const input = h('input', {
+        className: 'text-input',
+        value: passkey.nickname,
+        'aria-label': t('passkeys.new-nickname'),
+      });
+
+      name.replaceWith(input);
+      replaceChildren(
+        actions,
+        h(
+          'button',
+          {
+            type: 'button',
+            onclick: () =>
+              runPasskeyAction(() => renameCredential(passkey.id, input.value)),
+          },
+          t('passkeys.save')
+        )
+      );
+      input.focus();
+    };
+
+    const revoke = () => {
+      if (
+        confirm(t('passkeys.revoke-confirm', { nickname: passkey.nickname }))
+      ) {
+        runPasskeyAction(async () => {
+          await webauthn.ensureRecentSignIn();
+          return revokeCredential(passkey.id);
+        });
+      }
+    };
+
+    append(
+      actions,
+      h(
+        'button',
+        { type: 'button', onclick: startRename },
+        t('passkeys.rename')
+      ),
+      h(
+        'button',
+        { type: 'button', onclick: revoke, disabled: !revocable },
+        t('passkeys.revoke')
+      )
+    );
+
+    return h(
+      'li',
+      { className: 'passkey-item' },
+      h(
+        'div',
+        { className: 'passkey-details' },
+        name,
+        h(
+          'span',
+          { className: 'passkey-meta' },
+          [
+            t('passkeys.created', { date: formatDate(passkey.createdAt) }),
+            passkey.lastUsedAt
+              ? t('passkeys.last-used', {
+                  date: formatDate(passkey.lastUsedAt),
+                })
+              : t('passkeys.never-used'),
+            passkey.transports.length
+              ? t('passkeys.via', { transports: passkey.transports.join(', ') })
+              : t('passkeys.transport-unknown'),
+          ].join(' · ')
+        )
+      ),
+      actions
+    );
+  }
+
+  // Render the passkey list for the signed-in account
+  function renderPasskeys(list: {
+    username: string;
+    credentials: PasskeyInfo[];
+  }): void {
+    passkeysAccount.textContent = [
+      t('passkeys.account', { username: list.username }),
+      t('passkeys.count', { count: list.credentials.length }),
+    ].join(' · ');
+
+    // Re-rendering drops the focused row, so carry on from the heading
+    const hadFocus = passkeysList.contains(context.activeElement());
+    replaceChildren(
+      passkeysList,
+      list.credentials.map(passkey =>
+        renderPasskey(passkey, list.credentials.length > 1)
+      ),
+      list.credentials.length === 0 &&
+        h('li', { className: 'passkey-meta' }, t('passkeys.empty'))
+    );
+    if (hadFocus) {
+      moveFocus(passkeysHeading);
+    }
+  }
+
+  // Run a passkey management call and re-render with its result
+  async function runPasskeyAction(
+    action: () => ReturnType<typeof listCredentials>
+  ): Promise<void> {
+    try {
+      context.hideMessages();
+      renderPasskeys(await action());
+    } catch (err) {
+      const error = err as WebAuthnError;
+      context.showError(error);
+
+      // The session expired, so the panel can't be used anymore
+      if (error.code === 'unauthorized') {
+        clearSession();
+        store.dispatch({ type: 'auth/signed-out' });
+        sessionPeers.emit('signed-out', {
+          from: context,
+          message: 'session.expired',
+        });
+      }
+    }
+  }
+
+  // Show or hide the passkey management panel
+  function setPasskeysPanelOpen(open: boolean): void {
+    passkeysPanel.classList.toggle('hidden', !open);
+    managePasskeysButton.setAttribute('aria-expanded', String(open));
+  }
+
+  managePasskeysButton.addEventListener('click', async () => {
+    if (!passkeysPanel.classList.contains('hidden')) {
+      setPasskeysPanelOpen(false);
+      return;
+    }
+
+    setPasskeysPanelOpen(true);
+    moveFocus(passkeysHeading);
+    await runPasskeyAction(listCredentials);
+  });
+
+  // Register an extra authenticator for the signed-in account
+  addPasskeyButton.addEventListener('click', async () => {
+    const username = getSignedInUsername();
+    if (!username) {
+      store.dispatch({ type: 'auth/signed-out' });
+      return;
+    }
+
+    try {
+      addPasskeyButton.disabled = true;
+      context.hideMessages();
+      const reauthentication = await webauthn.ensureRecentSignIn();
+      const result = await webauthn.registerCredential({
+        username,
+        nickname: passkeyNickname.value.trim() || undefined,
+        attachment: selectedAttachment(),
+      });
+      renderInspection(result);
+      passkeyNickname.value = '';
+      await gallery.addMediaKeyCopy(username, result, reauthentication);
+      await runPasskeyAction(listCredentials);
+    } catch (err) {
+      context.showError(err as WebAuthnError);
+    } finally {
+      addPasskeyButton.disabled = false;
+      startAutofillSignIn();
+    }
+  });
+
+  // Drop back to signed out, when the user asks or the session runs out
+  function showSignedOut(message: MessageKey): void {
+    store.dispatch({ type: 'auth/signed-out' });
+    context.hideMessages();
+    context.showStatusMessage(t(message), 'info');
+    startAutofillSignIn();
+  }
+
+  // Sign this widget out, and the others on the page with it
+  function handleSignedOut(message: MessageKey): void {
+    showSignedOut(message);
+    sessionPeers.emit('signed-out', { from: context, message });
+  }
+
+  signOutButton.addEventListener('click', async () => {
+    await webauthn.signOut();
+    handleSignedOut('session.signed-out');
+    // The button is gone now, so carry on from the sign-in button
+    webauthnButton.focus();
+  });
+
+  let lastSessionRefresh = 0;
+
+  // Keep the session alive while the app is in use, and notice when the
+  // server has ended it (after a restart, or a sign-out in another tab)
+  async function keepSessionAlive(): Promise<void> {
+    if (
+      !context.isSignedIn() ||
+      Date.now() - lastSessionRefresh < SESSION_REFRESH_INTERVAL_MS
+    ) {
+      return;
+    }
+
+    lastSessionRefresh = Date.now();
+    try {
+      await refreshSession();
+    } catch (err) {
+      if ((err as WebAuthnError).code === 'unauthorized') {
+        handleSignedOut('session.expired');
+      } else {
+        console.warn('Failed to refresh the session:', err);
+      }
+    }
+  }
+
+  // Forget every passkey this browser remembers (server records are kept)
+  forgetPasskeysButton.addEventListener('click', () => {
+    if (confirm(t('passkeys.forget-confirm'))) {
+      clearStoredCredential();
+      context.showStatusMessage(t('passkeys.forgotten'), 'info');
+    }
+  });
+
+  usernameInput.value = getSignedInUsername() ?? getKnownAccounts()[0] ?? '';
+
+  store.subscribe(renderAuth);
+  renderAuth(store.getState());
+
+  // Passkey sign-in, unless the app only wants the camera
+  function start(): void {
+    if (flow === 'camera-only') return;
+
+    const handleActivity = () => keepSessionAlive();
+    ['pointerdown', 'keydown'].forEach(type =>
+      document.addEventListener(type, handleActivity, { passive: true })
+    );
+    context.cleanups.push(
+      () =>
+        ['pointerdown', 'keydown'].forEach(type =>
+          document.removeEventListener(type, handleActivity)
+        ),
+      // The username field goes away, so its autofill request has nowhere to go
+      () => webauthn.abortConditionalSignIn(),
+      // Every widget hears about the expiry from the session itself
+      onSessionExpired(() => showSignedOut('session.expired')),
+      sessionPeers.on('signed-in', ({ from, username }) => {
+        const { auth } = store.getState();
+        if (
+          from === context ||
+          (auth.status !== 'idle' && auth.status !== 'error')
+        ) {
+          return;
+        }
+        webauthn.abortConditionalSignIn();
+        store.dispatch({ type: 'auth/succeeded', username });
+        usernameInput.value = username;
+      }),
+      sessionPeers.on('signed-out', ({ from, message }) => {
+        if (from !== context && context.isSignedIn()) {
+          showSignedOut(message);
+        }
+      })
+    );
+
+    // The session lasts for the tab's lifetime, until it expires
+    const signedInUsername = getSignedInUsername();
+    if (signedInUsername) {
+      store.dispatch({ type: 'auth/succeeded', username: signedInUsername });
+      keepSessionAlive();
+    }
+
+    if (checkWebAuthnSupport()) {
+      initAuthenticatorChoice().then(() => {
+        webauthn.prefetchWebAuthnOptions(
+          usernameInput.value,
+          selectedAttachment()
+        );
+        startAutofillSignIn();
+      });
+    }
+  }
+
+  return {
+    controls: h(
+      'div',
+      {
+        className: 'controls auth-controls',
+        hidden: flow === 'camera-only',
+      },
+      usernameInput,
+      attachmentSelect,
+      webauthnButton,
+      managePasskeysButton,
+      signOutButton
+    ),
+    passkeys: passkeysPanel,
+    inspector,
+    render() {
+      renderAuth(store.getState());
+      if (!passkeysPanel.classList.contains('hidden')) {
+        runPasskeyAction(listCredentials);
+      }
+    },
+    start,
+  };
+}
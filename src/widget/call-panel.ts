@@ -0,0 +1,262 @@
+// The call preview panel: the camera, unfiltered, sent through a peer
+// connection to this tab or another one, with what arrives next to what
+// went in.
+
+import {
+  checkWebRtcSupport,
+  getVideoCodecs,
+  startLoopbackCall,
+  startTabCall,
+  type CallError,
+  type CallOptions,
+  type CallPreview,
+  type CallStats,
+} from '../call-preview';
+import { h, replaceChildren } from '../dom';
+import { localized, type MessageKey } from '../i18n';
+import {
+  checkBroadcastSignalingSupport,
+  createBroadcastSignaling,
+} from '../signaling';
+import type { WidgetContext } from './context';
+
+export interface CallPanel {
+  element: HTMLDetailsElement;
+  // Hand the call the tracks of a camera that was switched or reopened
+  replaceTracks(stream: MediaStream): Promise<void>;
+  stop(): void;
+  render(): void;
+}
+
+export function createCallPanel(context: WidgetContext): CallPanel {
+  const { t, elementId } = context;
+  const callMode = h(
+    'select',
+    {
+      id: elementId('call-mode'),
+      className: 'camera-select',
+      ...localized('call.mode', 'aria-label'),
+    },
+    h('option', { value: 'loopback', ...localized('call.mode-loopback') }),
+    h('option', {
+      value: 'tab',
+      disabled: !checkBroadcastSignalingSupport(),
+      ...localized('call.mode-tab'),
+    })
+  );
+  const callCodec = h(
+    'select',
+    {
+      id: elementId('call-codec'),
+      className: 'camera-select',
+      ...localized('call.codec', 'aria-label'),
+    },
+    h('option', { value: '', ...localized('call.codec-default') }),
+    getVideoCodecs().map(mimeType =>
+      h('option', { value: mimeType }, mimeType.replace(/^video\//, ''))
+    )
+  );
+  const callButton = h('button', {
+    id: elementId('call-button'),
+    type: 'button',
+    className: 'button button-secondary',
+    disabled: !checkWebRtcSupport(),
+  });
+  const callStatus = h('p', {
+    id: elementId('call-status'),
+    className: 'camera-settings hidden',
+    role: 'status',
+  });
+  const localCallVideo = h('video', {
+    id: elementId('call-local'),
+    autoplay: true,
+    playsInline: true,
+    muted: true,
+  });
+  const remoteCallVideo = h('video', {
+    id: elementId('call-remote'),
+    autoplay: true,
+    playsInline: true,
+    muted: true,
+  });
+  const callStats = h('dl', {
+    id: elementId('call-stats'),
+    className: 'call-stats hidden',
+  });
+  let callPreview: CallPreview | null = null;
+  let callStatusKey: MessageKey | null = null;
+  let lastCallStats: CallStats | null = null;
+
+  // What the received video looks like after the trip through WebRTC
+  function renderCallStats(): void {
+    callStats.classList.toggle('hidden', !lastCallStats);
+    if (!lastCallStats) return;
+
+    const { bitrate, framesPerSecond, frameWidth, frameHeight } = lastCallStats;
+    const rows: [MessageKey, string][] = [
+      [
+        'call.stats.bitrate',
+        bitrate === null
+          ? '-'
+          : t('call.kbps', { value: Math.round(bitrate / 1000) }),
+      ],
+      [
+        'call.stats.frame-rate',
+        framesPerSecond === null
+          ? '-'
+          : t('call.fps', { value: Math.round(framesPerSecond) }),
+      ],
+      [
+        'call.stats.resolution',
+        frameWidth && frameHeight ? `${frameWidth}×${frameHeight}` : '-',
+      ],
+      [
+        'call.stats.packet-loss',
+        t('call.packets-lost', {
+          percent: Math.round(lastCallStats.packetLoss * 1000) / 10,
+          count: lastCallStats.packetsLost,
+        }),
+      ],
+      ['call.stats.codec', lastCallStats.codec ?? '-'],
+    ];
+    replaceChildren(
+      callStats,
+      rows.flatMap(([label, value]) => [
+        h('dt', {}, t(label)),
+        h('dd', {}, value),
+      ])
+    );
+  }
+
+  function renderCall(): void {
+    callButton.textContent = t(callPreview ? 'call.stop' : 'call.start');
+    callMode.disabled = !!callPreview;
+    callStatus.textContent = callStatusKey ? t(callStatusKey) : '';
+    callStatus.classList.toggle('hidden', !callStatusKey);
+    renderCallStats();
+  }
+
+  function setCallStatus(key: MessageKey | null): void {
+    callStatusKey = key;
+    renderCall();
+  }
+
+  async function startCall(): Promise<void> {
+    if (callPreview) return;
+    if (!context.isStreaming()) {
+      await context.startCamera();
+    }
+    const handle = context.isStreaming() ? context.holdStream('call') : null;
+    if (!handle) return;
+    const { stream } = handle;
+
+    const waitingKey =
+      callMode.value === 'tab' ? 'call.waiting' : 'call.connecting';
+    const options: CallOptions = {
+      preferredCodec: callCodec.value || undefined,
+      onRemoteStream: remote => {
+        remoteCallVideo.srcObject = remote;
+        if (!remote) {
+          lastCallStats = null;
+          setCallStatus('call.disconnected');
+        }
+      },
+      onStateChange: state => {
+        if (state === 'connected') {
+          setCallStatus('call.connected');
+        } else if (state === 'connecting') {
+          setCallStatus('call.connecting');
+        } else if (state === 'failed') {
+          stopCall();
+          context.showErrorMessage(t('call.error.failed'));
+        }
+      },
+      onStats: stats => {
+        lastCallStats = stats;
+        renderCallStats();
+      },
+    };
+
+    context.hideMessages();
+    try {
+      callPreview =
+        callMode.value === 'tab'
+          ? startTabCall(stream, createBroadcastSignaling(), options)
+          : startLoopbackCall(stream, options);
+    } catch (err) {
+      context.releaseStream('call');
+      context.showErrorMessage((err as CallError).message);
+      return;
+    }
+    localCallVideo.srcObject = stream;
+    setCallStatus(waitingKey);
+  }
+
+  function stopCall(): void {
+    if (!callPreview) return;
+
+    callPreview.stop();
+    callPreview = null;
+    context.releaseStream('call');
+    localCallVideo.srcObject = null;
+    remoteCallVideo.srcObject = null;
+    lastCallStats = null;
+    setCallStatus(null);
+  }
+
+  callButton.addEventListener('click', () => {
+    if (callPreview) {
+      stopCall();
+    } else {
+      startCall();
+    }
+  });
+
+  callCodec.addEventListener('change', () => {
+    callPreview?.setPreferredCodec(callCodec.value || undefined);
+  });
+
+  // Let the other tab know the call has ended
+  window.addEventListener('pagehide', stopCall);
+  context.cleanups.push(() => window.removeEventListener('pagehide', stopCall));
+
+  renderCall();
+
+  return {
+    element: h(
+      'details',
+      { id: elementId('call-preview'), className: 'filters call-preview' },
+      h('summary', localized('call.title')),
+      h(
+        'div',
+        { className: 'controls call-controls' },
+        callMode,
+        callCodec,
+        callButton
+      ),
+      callStatus,
+      h(
+        'div',
+        { className: 'call-videos' },
+        h(
+          'figure',
+          {},
+          localCallVideo,
+          h('figcaption', localized('call.local'))
+        ),
+        h(
+          'figure',
+          {},
+          remoteCallVideo,
+          h('figcaption', localized('call.remote'))
+        )
+      ),
+      callStats
+    ),
+    replaceTracks: async stream => {
+      await callPreview?.replaceTracks(stream);
+    },
+    stop: stopCall,
+    render: renderCall,
+  };
+}
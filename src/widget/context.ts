@@ -0,0 +1,52 @@
+// What mount() hands each of the widget's panels: the instance's wording,
+// state and camera, and the message area every panel reports through.
+// Helpers more than one panel needs live here too.
+
+import type { AppStore } from '../app-state';
+import type { CameraError } from '../camera';
+import type { CaptureError } from '../capture';
+import type { EventBus } from '../events';
+import { getLocale, type Translate } from '../i18n';
+import type { RecorderError } from '../recorder';
+import type { StreamHandle, StreamManager } from '../stream-manager';
+import type { WebAuthnClient, WebAuthnError } from '../webauthn';
+import type { WidgetEvents, WidgetFlow } from '../widget';
+
+export type WidgetError =
+  CameraError | WebAuthnError | CaptureError | RecorderError;
+
+export interface WidgetContext {
+  flow: WidgetFlow;
+  t: Translate;
+  elementId(name: string): string;
+  store: AppStore;
+  events: EventBus<WidgetEvents>;
+  streams: StreamManager;
+  webauthn: WebAuthnClient;
+  // Undone by unmount(): listeners outside the widget's own elements
+  cleanups: (() => void)[];
+  // Focus inside a shadow root shows up on the document as its host
+  activeElement(): Element | null;
+
+  isStreaming(): boolean;
+  isSignedIn(): boolean;
+  // A sign-in's liveness check may start the camera before there's a session
+  startCamera(beforeSignIn?: boolean): Promise<void>;
+  stopCamera(): void;
+  // Share the open camera with a panel, so it stays on until the panel is
+  // done with it too. The panel reads the handle's stream, not the preview,
+  // which may be filtered or stopped.
+  holdStream(consumer: string): StreamHandle | null;
+  releaseStream(consumer: string): void;
+
+  hideMessages(): void;
+  showStatusMessage(message: string, type?: 'success' | 'info'): void;
+  showErrorMessage(message: string): void;
+  // The message, with browser-specific help where there is some
+  showError(error: WidgetError): void;
+}
+
+// Dates in the UI's language rather than the browser's
+export function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(getLocale());
+}
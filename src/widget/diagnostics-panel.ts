@@ -0,0 +1,119 @@
+// The camera diagnostics panel: a report on the browser, permission and
+// camera, to copy or download for a support ticket.
+
+import {
+  collectDiagnostics,
+  formatDiagnosticsReport,
+  type DiagnosticsReport,
+} from '../diagnostics';
+import { h } from '../dom';
+import { localized } from '../i18n';
+import type { WidgetContext } from './context';
+
+export function createDiagnosticsPanel(
+  context: WidgetContext,
+  video: HTMLVideoElement
+): HTMLDetailsElement {
+  const { t, elementId, store, streams } = context;
+  const runButton = h('button', {
+    id: elementId('run-diagnostics'),
+    type: 'button',
+    className: 'button button-secondary',
+    ...localized('diagnostics.run'),
+  });
+  const copyButton = h('button', {
+    id: elementId('copy-diagnostics'),
+    type: 'button',
+    className: 'button button-secondary',
+    disabled: true,
+    ...localized('diagnostics.copy'),
+  });
+  const downloadButton = h('button', {
+    id: elementId('download-diagnostics'),
+    type: 'button',
+    className: 'button button-secondary',
+    disabled: true,
+    ...localized('diagnostics.download'),
+  });
+  const output = h('pre', {
+    id: elementId('diagnostics-report'),
+    className: 'diagnostics-report hidden',
+    dir: 'ltr',
+  });
+  let report: DiagnosticsReport | null = null;
+
+  // Collect a report, opening the camera first so it can be measured
+  runButton.addEventListener('click', async () => {
+    try {
+      runButton.disabled = true;
+      runButton.textContent = t('diagnostics.measuring');
+      if (!context.isStreaming()) {
+        await context.startCamera();
+      }
+
+      const { camera } = store.getState();
+      report = await collectDiagnostics({
+        video,
+        cameraError: camera.status === 'error' ? camera.error : null,
+        camera: streams,
+      });
+      output.textContent = formatDiagnosticsReport(report);
+      output.classList.remove('hidden');
+      copyButton.disabled = false;
+      downloadButton.disabled = false;
+    } catch (error) {
+      // Say what went wrong where the report would have been
+      console.warn('Failed to collect diagnostics:', error);
+      report = null;
+      output.textContent = t('diagnostics.failed', {
+        reason: (error as Error).message || t('app.unknown-reason'),
+      });
+      output.classList.remove('hidden');
+      copyButton.disabled = true;
+      downloadButton.disabled = true;
+    } finally {
+      runButton.disabled = false;
+      runButton.textContent = t('diagnostics.run');
+    }
+  });
+
+  copyButton.addEventListener('click', async () => {
+    if (!report) return;
+
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(report, null, 2));
+      context.showStatusMessage(t('diagnostics.copied'), 'info');
+    } catch (error) {
+      console.warn('Failed to copy diagnostics:', error);
+      context.showStatusMessage(t('diagnostics.copy-blocked'), 'info');
+    }
+  });
+
+  downloadButton.addEventListener('click', () => {
+    if (!report) return;
+
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(
+      new Blob([JSON.stringify(report, null, 2)], {
+        type: 'application/json',
+      })
+    );
+    link.download = `camera-diagnostics-${Date.now()}.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+  });
+
+  return h(
+    'details',
+    { id: elementId('diagnostics'), className: 'diagnostics' },
+    h('summary', localized('diagnostics.title')),
+    h(
+      'div',
+      { className: 'controls diagnostics-controls' },
+      runButton,
+      copyButton,
+      downloadButton
+    ),
+    output
+  );
+}
@@ -0,0 +1,81 @@
+// The video filters panel: a checkbox and sliders per registered filter. The
+// widget decides how the chosen filters reach the preview.
+
+import { h } from '../dom';
+import {
+  getFilters,
+  type ActiveFilter,
+  type VideoFilterPlugin,
+} from '../filters';
+import { localized } from '../i18n';
+import type { WidgetContext } from './context';
+
+export function createFiltersPanel(
+  { t, elementId }: WidgetContext,
+  // Gets the enabled filters and their settings, in panel order
+  onChange: (filters: ActiveFilter[]) => void
+): HTMLDetailsElement {
+  const body = h('div', {
+    id: elementId('filters-body'),
+    className: 'filters-body',
+  });
+
+  // A checkbox to enable the filter and a slider for each of its settings
+  function renderFilterControl(plugin: VideoFilterPlugin): HTMLFieldSetElement {
+    return h(
+      'fieldset',
+      { className: 'filter', 'data-filter': plugin.id },
+      h(
+        'label',
+        { className: 'filter-toggle' },
+        h('input', { type: 'checkbox' }),
+        ' ',
+        h('span', localized(plugin.label), t(plugin.label))
+      ),
+      (plugin.controls ?? []).map(control =>
+        h(
+          'label',
+          { className: 'quality-label' },
+          h('span', localized(control.label), t(control.label)),
+          h('input', {
+            type: 'range',
+            name: control.key,
+            min: String(control.min),
+            max: String(control.max),
+            step: String(control.step),
+            value: String(plugin.defaults[control.key]),
+          })
+        )
+      )
+    );
+  }
+
+  function readActiveFilters(): ActiveFilter[] {
+    return [...body.querySelectorAll<HTMLFieldSetElement>('.filter')]
+      .filter(
+        fieldset =>
+          fieldset.querySelector<HTMLInputElement>('input[type="checkbox"]')!
+            .checked
+      )
+      .map(fieldset => ({
+        id: fieldset.dataset.filter!,
+        settings: Object.fromEntries(
+          [
+            ...fieldset.querySelectorAll<HTMLInputElement>(
+              'input[type="range"]'
+            ),
+          ].map(input => [input.name, Number(input.value)])
+        ),
+      }));
+  }
+
+  body.replaceChildren(...getFilters().map(renderFilterControl));
+  body.addEventListener('input', () => onChange(readActiveFilters()));
+
+  return h(
+    'details',
+    { id: elementId('filters'), className: 'filters' },
+    h('summary', localized('filters.title')),
+    body
+  );
+}
@@ -0,0 +1,440 @@
+// Saved photos and recordings, shown to the signed-in user, and the state of
+// the key they're encrypted with. Captures that can't be stored are handed
+// straight to the user as downloads.
+
+import { photoExtension, type CapturedPhoto } from '../capture';
+import { h, replaceChildren } from '../dom';
+import { localized, type MessageKey } from '../i18n';
+import {
+  getMediaKeyStatus,
+  lockMediaKey,
+  openMedia,
+  sealMedia,
+  shareMediaKey,
+  unlockMediaKey,
+  type MediaKeyStatus,
+  type MediaKind,
+} from '../media-crypto';
+import {
+  checkMediaStoreSupport,
+  deletePhoto,
+  deleteRecording,
+  listPhotos,
+  listRecordings,
+  savePhoto,
+  saveRecording,
+  type StoredPhoto,
+  type StoredRecording,
+} from '../media-store';
+import {
+  formatDuration,
+  recordingExtension,
+  type Recording,
+} from '../recorder';
+import {
+  getSignedInUsername,
+  type AuthenticationResult,
+  type WebAuthnError,
+} from '../webauthn';
+import { formatDate, type WidgetContext } from './context';
+
+const MEDIA_KEY_LABELS: Record<MediaKeyStatus, MessageKey> = {
+  unlocked: 'vault.encrypted',
+  locked: 'vault.locked',
+  unavailable: 'vault.unsupported',
+};
+
+export interface GalleryPanel {
+  // The encryption status, photos and recordings, in page order
+  elements: HTMLElement[];
+  // Save a capture for the signed-in user, or download it
+  keepPhoto(photo: CapturedPhoto): Promise<void>;
+  keepRecording(recording: Recording): Promise<void>;
+  // Unlock the account's saved media with the secret a passkey released
+  unlockMedia(result: AuthenticationResult): Promise<boolean>;
+  // Let a new passkey unlock saved media too, copying the key from the
+  // passkey the user signed in again with, if they just did
+  addMediaKeyCopy(
+    username: string,
+    result: AuthenticationResult,
+    reauthentication: AuthenticationResult | null
+  ): Promise<void>;
+  render(): void;
+}
+
+export function createGalleryPanel(
+  context: WidgetContext,
+  // Where focus goes when the last saved item is deleted
+  fallbackFocus: HTMLElement
+): GalleryPanel {
+  const { t, elementId, store, webauthn } = context;
+  const mediaEncryption = h('div', {
+    id: elementId('media-encryption'),
+    className: 'media-encryption hidden',
+  });
+  const galleryList = h('ul', {
+    id: elementId('gallery-list'),
+    className: 'gallery-list',
+  });
+  const gallery = h(
+    'section',
+    { id: elementId('gallery'), className: 'gallery hidden' },
+    h('h2', localized('gallery.photos')),
+    galleryList
+  );
+  const recordingsList = h('ul', {
+    id: elementId('recordings-list'),
+    className: 'recordings-list',
+  });
+  const recordings = h(
+    'section',
+    { id: elementId('recordings'), className: 'gallery hidden' },
+    h('h2', localized('gallery.recordings')),
+    recordingsList
+  );
+  // Captures are only saved for, and shown to, the signed-in user
+  const storesMedia =
+    context.flow !== 'camera-only' && checkMediaStoreSupport();
+  let galleryUrls: string[] = [];
+  let recordingUrls: string[] = [];
+
+  // Deleting an item takes the focused button with it, so move focus to the
+  // item that took its place, or back to the capture controls
+  function focusAfterDelete(list: HTMLUListElement, index: number): void {
+    const buttons = list.querySelectorAll<HTMLButtonElement>('button');
+    (buttons[Math.min(index, buttons.length - 1)] ?? fallbackFocus).focus();
+  }
+
+  function signedInUser(): string | null {
+    return context.isSignedIn() ? getSignedInUsername() : null;
+  }
+
+  // Decrypt a user's saved records, leaving out the ones their key can't
+  // open right now. Once the account has a data key, everything they save
+  // is sealed with it, so records that aren't weren't saved by them.
+  async function openAll<T extends StoredPhoto | StoredRecording>(
+    kind: MediaKind,
+    username: string,
+    records: T[]
+  ): Promise<T[]> {
+    const sealedOnly = getMediaKeyStatus(username) !== 'unavailable';
+    const opened = await Promise.all(
+      records
+        .filter(record => !sealedOnly || record.encryption)
+        .map(record => openMedia(kind, record))
+    );
+    return opened.filter(record => record !== null);
+  }
+
+  // Who a capture is saved for: only the signed-in user, and not while their
+  // data key is locked, since it would have to be stored unencrypted
+  function mediaOwner(): string | null {
+    const username = storesMedia ? signedInUser() : null;
+    if (!username || getMediaKeyStatus(username) === 'locked') return null;
+    return username;
+  }
+
+  // Hand a capture that can't be stored straight to the user
+  function download(blob: Blob, filename: string): void {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = filename;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+    if (storesMedia) {
+      context.showStatusMessage(
+        t(signedInUser() ? 'vault.downloaded' : 'session.sign-in-to-save'),
+        'info'
+      );
+    }
+  }
+
+  // Render the photo gallery from IndexedDB
+  async function renderGallery(): Promise<void> {
+    const username = signedInUser();
+    let photos: StoredPhoto[];
+    try {
+      photos = username
+        ? await openAll('photo', username, await listPhotos(username))
+        : [];
+    } catch (error) {
+      console.warn('Failed to load saved photos:', error);
+      return;
+    }
+
+    galleryUrls.forEach(url => URL.revokeObjectURL(url));
+    galleryUrls = [];
+    gallery.classList.toggle('hidden', photos.length === 0);
+
+    replaceChildren(
+      galleryList,
+      photos.map((photo, index) => {
+        const url = URL.createObjectURL(photo.blob);
+        galleryUrls.push(url);
+
+        return h(
+          'li',
+          { className: 'gallery-item' },
+          h('img', {
+            src: url,
+            alt: t('gallery.photo-alt', { date: formatDate(photo.createdAt) }),
+          }),
+          h(
+            'div',
+            { className: 'gallery-actions' },
+            h(
+              'a',
+              {
+                href: url,
+                download: `photo-${photo.createdAt}.${photoExtension(
+                  photo.mimeType
+                )}`,
+              },
+              t('gallery.download')
+            ),
+            h(
+              'button',
+              {
+                type: 'button',
+                onclick: async () => {
+                  await deletePhoto(photo.id);
+                  await renderGallery();
+                  focusAfterDelete(galleryList, index);
+                },
+              },
+              t('gallery.delete')
+            )
+          )
+        );
+      })
+    );
+  }
+
+  // Render the recordings list from IndexedDB
+  async function renderRecordings(): Promise<void> {
+    const username = signedInUser();
+    let stored: StoredRecording[];
+    try {
+      stored = username
+        ? await openAll('recording', username, await listRecordings(username))
+        : [];
+    } catch (error) {
+      console.warn('Failed to load saved recordings:', error);
+      return;
+    }
+
+    recordingUrls.forEach(url => URL.revokeObjectURL(url));
+    recordingUrls = [];
+    recordings.classList.toggle('hidden', stored.length === 0);
+
+    replaceChildren(
+      recordingsList,
+      stored.map((clip, index) => {
+        const url = URL.createObjectURL(clip.blob);
+        recordingUrls.push(url);
+
+        return h(
+          'li',
+          { className: 'gallery-item' },
+          h('video', { src: url, controls: true, preload: 'metadata' }),
+          h(
+            'div',
+            { className: 'gallery-actions' },
+            h('span', {}, formatDuration(clip.durationMs)),
+            h(
+              'a',
+              {
+                href: url,
+                download: `recording-${clip.createdAt}.${recordingExtension(
+                  clip.mimeType
+                )}`,
+              },
+              t('gallery.download')
+            ),
+            h(
+              'button',
+              {
+                type: 'button',
+                onclick: async () => {
+                  await deleteRecording(clip.id);
+                  await renderRecordings();
+                  focusAfterDelete(recordingsList, index);
+                },
+              },
+              t('gallery.delete')
+            )
+          )
+        );
+      })
+    );
+  }
+
+  async function keepPhoto(photo: CapturedPhoto): Promise<void> {
+    const username = mediaOwner();
+    if (!username) {
+      // Without IndexedDB, signed out, or while saved media is locked
+      download(
+        photo.blob,
+        `photo-${Date.now()}.${photoExtension(photo.mimeType)}`
+      );
+      return;
+    }
+
+    await savePhoto(
+      await sealMedia('photo', {
+        ...photo,
+        id: crypto.randomUUID(),
+        username,
+      })
+    );
+    await renderGallery();
+  }
+
+  async function keepRecording(clip: Recording): Promise<void> {
+    const username = mediaOwner();
+    if (!username) {
+      download(
+        clip.blob,
+        `recording-${Date.now()}.${recordingExtension(clip.mimeType)}`
+      );
+      return;
+    }
+
+    await saveRecording(
+      await sealMedia('recording', {
+        ...clip,
+        id: crypto.randomUUID(),
+        username,
+      })
+    );
+    await renderRecordings();
+  }
+
+  // Tell the signed-in user whether their saved media is encrypted
+  function renderMediaEncryption(): void {
+    const username = signedInUser();
+    mediaEncryption.classList.toggle('hidden', !username || !storesMedia);
+    if (!username) return;
+
+    const status = getMediaKeyStatus(username);
+    mediaEncryption.dataset.status = status;
+    replaceChildren(
+      mediaEncryption,
+      h('span', {}, t(MEDIA_KEY_LABELS[status])),
+      status === 'locked' &&
+        h(
+          'button',
+          {
+            type: 'button',
+            className: 'button button-secondary',
+            onclick: () => unlockSavedMedia(username),
+          },
+          t('vault.unlock')
+        )
+    );
+  }
+
+  async function unlockMedia(result: AuthenticationResult): Promise<boolean> {
+    const { username, credential, secret } = result;
+    if (!username || !credential || !secret) return false;
+
+    try {
+      return await unlockMediaKey(username, credential.id, secret.bytes);
+    } catch (error) {
+      console.warn('Failed to unlock saved media:', error);
+      return false;
+    }
+  }
+
+  // Saved media stays locked after a reload, or after signing in with a
+  // passkey that can't release a secret, until the user picks one that can
+  async function unlockSavedMedia(username: string): Promise<void> {
+    try {
+      context.hideMessages();
+      const unlocked = await unlockMedia(
+        await webauthn.authenticateUser(username)
+      );
+      if (!unlocked) {
+        context.showStatusMessage(t('vault.unlock-failed'), 'info');
+      }
+    } catch (err) {
+      context.showError(err as WebAuthnError);
+    } finally {
+      render();
+    }
+  }
+
+  // If no passkey could unlock saved media so far, the new one starts
+  // encrypting it. Otherwise the copy is made from a passkey that holds one,
+  // which takes another touch unless the user just signed in again.
+  async function addMediaKeyCopy(
+    username: string,
+    result: AuthenticationResult,
+    reauthentication: AuthenticationResult | null
+  ): Promise<void> {
+    if (!result.credential || !result.secret) return;
+
+    try {
+      const status = getMediaKeyStatus(username);
+      if (status === 'unavailable') {
+        await unlockMedia(result);
+      } else if (status === 'unlocked') {
+        const holder = reauthentication?.secret
+          ? reauthentication
+          : await webauthn.authenticateUser(username);
+        const shared =
+          !!holder.credential &&
+          !!holder.secret &&
+          (await shareMediaKey(
+            username,
+            { credentialId: holder.credential.id, secret: holder.secret.bytes },
+            { credentialId: result.credential.id, secret: result.secret.bytes }
+          ));
+        if (!shared) {
+          console.warn('The passkey signed in with holds no media key copy');
+        }
+      }
+    } catch (error) {
+      console.warn(
+        'Failed to share the media key with the new passkey:',
+        error
+      );
+    }
+    renderMediaEncryption();
+  }
+
+  function render(): void {
+    if (!storesMedia) return;
+
+    renderMediaEncryption();
+    renderGallery();
+    renderRecordings();
+  }
+
+  // Show or hide saved captures as the user signs in and out
+  let capturesShown = false;
+  store.subscribe(({ auth }) => {
+    const signedIn = auth.status === 'authenticated';
+    if (signedIn === capturesShown) return;
+
+    capturesShown = signedIn;
+    if (!signedIn) {
+      lockMediaKey();
+    }
+    render();
+  });
+
+  context.cleanups.push(() => {
+    galleryUrls.forEach(url => URL.revokeObjectURL(url));
+    recordingUrls.forEach(url => URL.revokeObjectURL(url));
+  });
+
+  return {
+    elements: [mediaEncryption, gallery, recordings],
+    keepPhoto,
+    keepRecording,
+    unlockMedia,
+    addMediaKeyCopy,
+    render,
+  };
+}
@@ -0,0 +1,124 @@
+/// <reference types="vitest/config" />
+import { defineConfig, type Connect, type Plugin } from 'vite';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import {
+  createRelyingParty,
+  type RequestContext,
+} from './src/server/relying-party';
+import { WEBAUTHN_API_BASE } from './src/server/protocol';
+import {
+  MAX_BODY_BYTES,
+  bodyTooLarge,
+  handleRoute,
+  hasRoute,
+} from './src/server/routes';
+
+// A host name or IP literal, with an optional port
+const HOST_PATTERN =
+  /^([a-z0-9-]+(\.[a-z0-9-]+)*|\[[0-9a-f:.]+\])(:\d{1,5})?$/i;
+
+// Derive the expected origin and RP ID from the request's Host header, or
+// null when the headers don't make a valid origin. X-Forwarded-Proto comes
+// from the client unless a proxy in front sets it, so it's only believed
+// with trustProxy.
+function requestContext(
+  req: IncomingMessage,
+  trustProxy: boolean
+): RequestContext | null {
+  const host = req.headers.host ?? 'localhost';
+  const forwarded = trustProxy ? req.headers['x-forwarded-proto'] : undefined;
+  const encrypted = (req.socket as { encrypted?: boolean }).encrypted;
+  const protocol =
+    (Array.isArray(forwarded) ? forwarded[0] : forwarded) ??
+    (encrypted ? 'https' : 'http');
+  if (!HOST_PATTERN.test(host) || !['http', 'https'].includes(protocol)) {
+    return null;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(`${protocol}://${host}`);
+  } catch {
+    return null;
+  }
+
+  const authorization = req.headers.authorization;
+  const accessToken = authorization?.startsWith('Bearer ')
+    ? authorization.slice('Bearer '.length)
+    : undefined;
+
+  return { rpId: url.hostname, origin: url.origin, accessToken };
+}
+
+// Read a JSON body of at most MAX_BODY_BYTES. A larger one is still drained,
+// so the 413 response can be sent, but none of it is kept.
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    if (size <= MAX_BODY_BYTES) chunks.push(chunk);
+  }
+  if (size > MAX_BODY_BYTES) throw bodyTooLarge();
+
+  const body = Buffer.concat(chunks).toString('utf8');
+  return body ? JSON.parse(body) : {};
+}
+
+function sendJson(res: ServerResponse, status: number, data: unknown): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.setHeader('Cache-Control', 'no-store');
+  res.end(JSON.stringify(data));
+}
+
+// Serve the WebAuthn relying party from the dev and preview servers. Set
+// TRUST_PROXY=1 when they run behind a proxy that sets X-Forwarded-Proto.
+function relyingPartyPlugin(trustProxy = false): Plugin {
+  const rp = createRelyingParty({
+    rpName: 'Camera Access App 📸',
+    liveness: 'required',
+  });
+
+  const middleware: Connect.NextHandleFunction = async (req, res, next) => {
+    const path = req.url?.split('?')[0] ?? '';
+    if (!hasRoute(path)) return next();
+
+    if (req.method !== 'POST') {
+      sendJson(res, 405, { verified: false, error: 'Method not allowed' });
+      return;
+    }
+
+    const context = requestContext(req, trustProxy);
+    if (!context) {
+      sendJson(res, 400, {
+        verified: false,
+        error: 'Invalid Host or X-Forwarded-Proto header',
+        code: 'bad-request',
+      });
+      return;
+    }
+
+    const { status, body } = await handleRoute(rp, path, context, () =>
+      readJson(req)
+    );
+    sendJson(res, status, body);
+  };
+
+  return {
+    name: 'webauthn-relying-party',
+    configureServer(server) {
+      server.middlewares.use(WEBAUTHN_API_BASE, middleware);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(WEBAUTHN_API_BASE, middleware);
+    },
+  };
+}
+
+export default defineConfig({
+  plugins: [relyingPartyPlugin(process.env.TRUST_PROXY === '1')],
+  test: {
+    environment: 'happy-dom',
+  },
+});